@@ -10,39 +10,120 @@
  *
  * Commands:
  *   status [address]             Check credit status
- *   borrow <amount>              Borrow USDC from pool
+ *   borrow <amount> [--dry-run]  Borrow USDC from pool (or preview it)
+ *          [--deliver-to <network>]  ...received on another chain (bridged
+ *                                by the agent server, e.g. base-sepolia)
+ *   delivery <id>                Progress of a cross-chain borrow delivery
+ *   authorize-feedback <agentId> Let the agent server post ERC-8004
+ *                                feedback about your identity
  *   repay <amount|all>           Repay debt
  *   bridge <amount> <from> <to>  Bridge USDC between chains
+ *   bridge-status [id]           Steps of a bridge job (recent jobs without id)
+ *   bridge-resume <id> [--force] Continue an interrupted or failed bridge job
  *   balance                      Check wallet balance on both chains
  *
  * Environment:
- *   WALLET_PRIVATE_KEY  (required) Your wallet private key
- *   RPC_URL             (optional) Arc Network RPC
- *   CREDEX_POOL_ADDRESS (optional) Pool contract address
+ *   WALLET_PRIVATE_KEY  Your wallet private key, or instead
+ *   WALLET_KEYSTORE     an encrypted JSON keystore (passphrase prompted or
+ *                       from WALLET_KEYSTORE_PASSWORD_FILE), or
+ *   WALLET_REMOTE_SIGNER_URL  a remote signer (+ WALLET_REMOTE_SIGNER_TOKEN)
+ *   CREDEX_NETWORK      (optional) Network profile: arc-testnet (default),
+ *                       base-sepolia or local; `--network <name>` on the
+ *                       command line takes precedence (see credex-shared)
+ *   RPC_URL             (optional) RPC override; comma-separated URLs
+ *                       are failed over in order (see providers.ts)
+ *   BASE_RPC_URL        (optional) Base Sepolia RPC, same format
+ *   RPC_QUORUM, RPC_RETRIES, RPC_RETRY_BACKOFF_MS, RPC_STALL_TIMEOUT_MS
+ *                       (optional) RPC failover / retry settings
+ *   CREDEX_POOL_ADDRESS (optional) Pool address override (default: newest
+ *                       forge broadcast, then the profile)
+ *   USDC_ADDRESS        (optional) USDC address override
  *   CREDEX_AGENT_URL    (optional) URL of Credex agent server
+ *   CREDEX_BRIDGE_JOBS  (optional) Bridge job directory (default
+ *                       ~/.credex/bridge-jobs/, see credex-shared)
  */
 
 import "dotenv/config";
-import { ethers, Wallet, Contract, JsonRpcProvider, getAddress } from "ethers";
-import { BridgeKit } from "@circle-fin/bridge-kit";
-import { createViemAdapterFromPrivateKey } from "@circle-fin/adapter-viem-v2";
+import { ethers, Contract, getAddress } from "ethers";
+import {
+  NETWORKS,
+  ResolvedNetwork,
+  parseNetworkFlag,
+  resolveNetwork,
+  selectNetwork,
+  createProvider,
+  parseRpcUrls,
+  rpcOptionsFromEnv,
+  AddressedSigner,
+  SignerConfig,
+  createBridgeAdapter,
+  loadSigner,
+  signerConfigFromEnv,
+  signFeedbackAuth,
+  BridgeJob,
+  BridgeJobStore,
+  describeBridgeJob,
+  runBridgeJob,
+} from "credex-shared";
 
 // ═══════════════════════════════════════════════════════════════════════════
 //                              CONFIGURATION
 // ═══════════════════════════════════════════════════════════════════════════
 
-const CONFIG = {
-  RPC_URL: process.env.RPC_URL || "https://rpc.testnet.arc.network",
-  BASE_RPC_URL: "https://sepolia.base.org",
-  // Use env var if set, otherwise use a valid checksummed address
-  POOL_ADDRESS: getAddress(
-    process.env.CREDEX_POOL_ADDRESS ||
-      "0x32239e52534c0b7e525fb37ed7b8d1912f263ad3",
-  ),
-  USDC_ARC: "0x3600000000000000000000000000000000000000",
-  USDC_BASE: getAddress("0x036CbD53842c5426634e7929541eC2318f3dCF7e"),
-  AGENT_URL: process.env.CREDEX_AGENT_URL || "http://localhost:10003",
-};
+const CONFIG = loadConfig();
+
+// Local record of every bridge (see credex-shared)
+const bridgeJobs = new BridgeJobStore();
+
+// Jobs listed by `bridge-status` without an id
+const BRIDGE_STATUS_LIMIT = 20;
+
+/**
+ * Addresses and endpoints of the selected network profile, with the
+ * environment overrides applied
+ */
+function loadConfig() {
+  let network: ResolvedNetwork;
+  let base: ResolvedNetwork;
+  try {
+    network = resolveNetwork(selectNetwork(), {
+      rpcUrls: parseRpcUrls(process.env.RPC_URL, ""),
+      poolAddress: process.env.CREDEX_POOL_ADDRESS,
+      usdcAddress: process.env.USDC_ADDRESS,
+    });
+    base = resolveNetwork("base-sepolia", {
+      rpcUrls: parseRpcUrls(process.env.BASE_RPC_URL, ""),
+    });
+  } catch (e) {
+    error("Invalid network", {
+      cause: String(e),
+      hint: `Use --network with one of ${Object.keys(NETWORKS).join(", ")}`,
+    });
+    throw e;
+  }
+
+  const { poolAddress, usdcAddress } = network;
+  const baseUsdcAddress = base.usdcAddress;
+  if (!poolAddress || !usdcAddress || !baseUsdcAddress) {
+    error(`No CredexPool known on ${network.name}`, {
+      hint: "Deploy it with forge script (read from contracts/broadcast) or set CREDEX_POOL_ADDRESS and USDC_ADDRESS",
+    });
+    throw new Error("No CredexPool deployment");
+  }
+
+  return {
+    NETWORK: network.name,
+    RPC_URLS: network.rpcUrls,
+    BASE_RPC_URLS: base.rpcUrls,
+    RPC_OPTIONS: rpcOptionsFromEnv(),
+    ARC_CHAIN_ID: network.chainId,
+    BASE_CHAIN_ID: base.chainId,
+    POOL_ADDRESS: getAddress(poolAddress),
+    USDC_ARC: getAddress(usdcAddress),
+    USDC_BASE: getAddress(baseUsdcAddress),
+    AGENT_URL: process.env.CREDEX_AGENT_URL || "http://localhost:10003",
+  };
+}
 
 const ERC20_ABI = [
   "function balanceOf(address) view returns (uint256)",
@@ -69,15 +150,27 @@ function error(message: string, details?: object): void {
   process.exit(1);
 }
 
-function getWallet(): Wallet {
-  const pk = process.env.WALLET_PRIVATE_KEY;
-  if (!pk) {
-    error("WALLET_PRIVATE_KEY required", {
-      hint: "Set WALLET_PRIVATE_KEY environment variable before running commands",
+function walletConfig(): SignerConfig {
+  try {
+    return signerConfigFromEnv();
+  } catch (e) {
+    error("Wallet not configured", {
+      cause: String(e),
+      hint: "Set WALLET_PRIVATE_KEY, WALLET_KEYSTORE or WALLET_REMOTE_SIGNER_URL before running commands",
     });
+    throw e;
   }
-  const provider = new JsonRpcProvider(CONFIG.RPC_URL);
-  return new Wallet(pk!, provider);
+}
+
+// Loaded once per run (a keystore may prompt for its passphrase)
+let walletPromise: Promise<AddressedSigner> | null = null;
+
+function getWallet(): Promise<AddressedSigner> {
+  walletPromise ??= loadSigner(
+    walletConfig(),
+    createProvider(CONFIG.RPC_URLS, CONFIG.RPC_OPTIONS),
+  );
+  return walletPromise;
 }
 
 function formatUsdc(amount: bigint): string {
@@ -88,11 +181,60 @@ function parseUsdc(amount: string): bigint {
   return ethers.parseUnits(amount, 6);
 }
 
-async function callAgent(endpoint: string, body?: object): Promise<any> {
+// EIP-712 primary type the agent server expects for each mutating route
+const SIGNED_ENDPOINTS: Record<string, string> = {
+  "/onboard": "Onboard",
+  "/borrow": "Borrow",
+  "/repay": "Repay",
+};
+
+const REQUEST_VALIDITY_SECONDS = 120;
+
+// How far ahead "repay all" quotes the payoff (covers approve + repay)
+const PAYOFF_LEAD_SECONDS = 120;
+
+/**
+ * Attach nonce, expiry and an EIP-712 signature to a request body
+ */
+async function signRequest(endpoint: string, body: object): Promise<object> {
+  // A borrow delivered to another chain signs its destination too
+  const primaryType =
+    endpoint === "/borrow" && "deliverTo" in body
+      ? "BorrowTo"
+      : SIGNED_ENDPOINTS[endpoint];
+  if (!primaryType) return body;
+
+  const signing = await (await fetch(`${CONFIG.AGENT_URL}/auth/domain`)).json();
+  if (!signing.success) {
+    throw new Error(`Could not fetch signing domain: ${signing.message}`);
+  }
+
+  const { domain, types } = signing.data;
+  const message = {
+    ...body,
+    nonce: ethers.hexlify(ethers.randomBytes(32)),
+    expiry: Math.floor(Date.now() / 1000) + REQUEST_VALIDITY_SECONDS,
+  };
+  const signature = await (
+    await getWallet()
+  ).signTypedData(domain, { [primaryType]: types[primaryType] }, message);
+  return { ...message, signature };
+}
+
+async function callAgent(
+  endpoint: string,
+  body?: object,
+  dryRun = false,
+): Promise<any> {
+  const payload = body ? await signRequest(endpoint, body) : undefined;
   const response = await fetch(`${CONFIG.AGENT_URL}${endpoint}`, {
     method: body ? "POST" : "GET",
-    headers: { "Content-Type": "application/json" },
-    body: body ? JSON.stringify(body) : undefined,
+    headers: {
+      "Content-Type": "application/json",
+      // Server simulates the pool writes and sends nothing
+      ...(dryRun ? { "X-Credex-Dry-Run": "true" } : {}),
+    },
+    body: payload ? JSON.stringify(payload) : undefined,
   });
   return response.json();
 }
@@ -102,7 +244,7 @@ async function callAgent(endpoint: string, body?: object): Promise<any> {
 // ═══════════════════════════════════════════════════════════════════════════
 
 async function checkStatus(address: string): Promise<void> {
-  const wallet = getWallet();
+  const wallet = await getWallet();
   const pool = new Contract(CONFIG.POOL_ADDRESS, POOL_ABI, wallet);
 
   try {
@@ -138,14 +280,37 @@ async function checkStatus(address: string): Promise<void> {
   }
 }
 
-async function borrowFunds(amount: string): Promise<void> {
-  const wallet = getWallet();
+async function borrowFunds(
+  amount: string,
+  dryRun: boolean,
+  deliverTo?: string,
+): Promise<void> {
+  const wallet = await getWallet();
 
   try {
-    const result = await callAgent("/borrow", {
-      agentAddress: wallet.address,
-      amount,
-    });
+    const result = await callAgent(
+      "/borrow",
+      {
+        agentAddress: wallet.address,
+        amount,
+        ...(deliverTo ? { deliverTo } : {}),
+      },
+      dryRun,
+    );
+
+    if (dryRun) {
+      output({
+        success: result.success,
+        dryRun: true,
+        borrowed: result.success ? amount : "0",
+        message: result.message,
+        newDebt: result.data?.debt || null,
+        availableCredit: result.data?.available || null,
+        delivery: result.data?.delivery || null,
+        transactions: result.dryRun?.transactions ?? [],
+      });
+      return;
+    }
 
     if (result.success) {
       output({
@@ -154,32 +319,76 @@ async function borrowFunds(amount: string): Promise<void> {
         borrowed: amount,
         newDebt: result.data?.debt || null,
         availableCredit: result.data?.available || null,
+        // Poll with `delivery <id>` until delivered (or refunded)
+        delivery: result.data?.delivery || null,
       });
     } else {
-      error("Borrow failed", { message: result.message });
+      error("Borrow failed", {
+        message: result.message,
+        code: result.code,
+        maxBorrowable: result.data?.maxBorrowable,
+      });
     }
   } catch (e) {
     error("Borrow request failed", { cause: String(e) });
   }
 }
 
+async function checkDelivery(id: string): Promise<void> {
+  try {
+    const result = await callAgent(`/deliveries/${id}`);
+    if (!result.success) {
+      error("Delivery not found", { id, message: result.message });
+    }
+    output(result.data);
+  } catch (e) {
+    error("Delivery request failed", { id, cause: String(e) });
+  }
+}
+
+// Sign the feedbackAuth the ERC-8004 Reputation Registry requires before
+// the agent server can post credit outcomes about this identity
+async function authorizeFeedback(agentId: string): Promise<void> {
+  try {
+    const terms = await callAgent(`/feedback-auth/${agentId}`);
+    if (!terms.success) {
+      error("Could not fetch feedback terms", {
+        agentId,
+        message: terms.message,
+      });
+    }
+    const feedbackAuth = await signFeedbackAuth(await getWallet(), terms.data);
+    const result = await callAgent("/feedback-auth", { feedbackAuth });
+    if (!result.success) {
+      error("Feedback authorization rejected", {
+        code: result.code,
+        message: result.message,
+      });
+    }
+    output({ success: true, ...result.data });
+  } catch (e) {
+    error("Feedback authorization failed", { cause: String(e) });
+  }
+}
+
 async function repayDebt(amount: string): Promise<void> {
-  const wallet = getWallet();
+  const wallet = await getWallet();
   const usdc = new Contract(CONFIG.USDC_ARC, ERC20_ABI, wallet);
 
   let repayAmount = amount;
 
-  // Handle "all" repayment
+  // Handle "all" repayment: quote the exact payoff for when the repay tx
+  // is expected to land. The contract caps repayment at actual debt.
   if (amount.toLowerCase() === "all" || amount.toLowerCase() === "full") {
     try {
-      const statusRes = await callAgent(`/status/${wallet.address}`);
-      if (!statusRes.success) {
+      const at = Math.floor(Date.now() / 1000) + PAYOFF_LEAD_SECONDS;
+      const quoteRes = await callAgent(`/quote/${wallet.address}?at=${at}`);
+      if (!quoteRes.success) {
         error("Failed to fetch debt for full repayment", {
-          message: statusRes.message,
+          message: quoteRes.message,
         });
       }
-      const debt = parseFloat(statusRes.data.debt);
-      repayAmount = (debt * 1.01).toFixed(6); // 1% buffer
+      repayAmount = quoteRes.data.payoff;
     } catch (e) {
       error("Failed to calculate full repayment", { cause: String(e) });
     }
@@ -208,7 +417,7 @@ async function repayDebt(amount: string): Promise<void> {
         newCreditLimit: result.data?.creditLimit || null,
       });
     } else {
-      error("Repay failed", { message: result.message });
+      error("Repay failed", { message: result.message, code: result.code });
     }
   } catch (e) {
     error("Repay request failed", { cause: String(e) });
@@ -220,9 +429,6 @@ async function bridgeUsdc(
   from: string,
   to: string,
 ): Promise<void> {
-  const pk = process.env.WALLET_PRIVATE_KEY;
-  if (!pk) error("WALLET_PRIVATE_KEY required");
-
   const fromChain = from.toLowerCase().includes("base")
     ? "Base_Sepolia"
     : "Arc_Testnet";
@@ -239,31 +445,105 @@ async function bridgeUsdc(
   }
 
   try {
-    const kit = new BridgeKit();
-    const adapter = createViemAdapterFromPrivateKey({
-      privateKey: pk as `0x${string}`,
-    });
-
-    await kit.bridge({
-      from: { adapter, chain: fromChain },
-      to: { adapter, chain: toChain },
-      amount,
-    });
-
-    output({
-      success: true,
+    const wallet = await getWallet();
+    const job = bridgeJobs.create({
       amount,
       from: fromChain,
       to: toChain,
-      estimatedArrival: "5-10 minutes",
+      address: wallet.address,
     });
+    reportBridgeJob(await runBridgeJob(bridgeJobs, job, await bridgeAdapter()));
   } catch (e) {
     error("Bridge failed", { cause: String(e) });
   }
 }
 
+/**
+ * One bridge job, or the most recent ones without an id
+ */
+function bridgeStatus(id?: string): void {
+  if (!id) {
+    output({
+      dir: bridgeJobs.dir,
+      jobs: bridgeJobs
+        .list()
+        .slice(0, BRIDGE_STATUS_LIMIT)
+        .map((job) => ({
+          id: job.id,
+          status: job.status,
+          amount: job.amount,
+          from: job.from,
+          to: job.to,
+          createdAt: job.createdAt,
+        })),
+    });
+    return;
+  }
+
+  const job = bridgeJobs.get(id);
+  if (!job) error("Unknown bridge job", { id, dir: bridgeJobs.dir });
+  else output(describeBridgeJob(job));
+}
+
+/**
+ * Continue a bridge job from its recorded steps. A job still marked
+ * bridging may be running in another process; --force resumes it anyway.
+ */
+async function bridgeResume(id: string, force: boolean): Promise<void> {
+  const job = bridgeJobs.get(id);
+  if (!job) {
+    error("Unknown bridge job", { id, dir: bridgeJobs.dir });
+    return;
+  }
+  const wallet = await getWallet();
+  if (getAddress(job.address) !== getAddress(wallet.address)) {
+    error("Bridge job belongs to another wallet", {
+      id,
+      address: job.address,
+    });
+  }
+  if (job.status === "bridging" && !force) {
+    error("Bridge job is in progress", {
+      id,
+      updatedAt: job.updatedAt,
+      hint: `If the process running it stopped, run bridge-resume ${id} --force`,
+    });
+  }
+
+  try {
+    reportBridgeJob(await runBridgeJob(bridgeJobs, job, await bridgeAdapter()));
+  } catch (e) {
+    error("Bridge resume failed", { id, cause: String(e) });
+  }
+}
+
+async function bridgeAdapter() {
+  return createBridgeAdapter(
+    walletConfig(),
+    await getWallet(),
+    {
+      [CONFIG.ARC_CHAIN_ID]: CONFIG.RPC_URLS,
+      [CONFIG.BASE_CHAIN_ID]: CONFIG.BASE_RPC_URLS,
+    },
+    CONFIG.RPC_OPTIONS,
+  );
+}
+
+function reportBridgeJob(job: BridgeJob): void {
+  if (job.status === "completed") {
+    output({ success: true, ...describeBridgeJob(job) });
+  } else {
+    const { error: cause, ...details } = describeBridgeJob(job);
+    error("Bridge failed", {
+      ...details,
+      cause,
+      hint: `Resume with bridge-resume ${job.id}`,
+    });
+  }
+}
+
 async function checkBalance(): Promise<void> {
-  const wallet = getWallet();
+  const wallet = await getWallet();
 
   try {
     // Arc balance
@@ -272,7 +552,10 @@ async function checkBalance(): Promise<void> {
     const arcBalance = BigInt(arcBalanceRaw);
 
     // Base balance
-    const baseProvider = new JsonRpcProvider(CONFIG.BASE_RPC_URL);
+    const baseProvider = createProvider(
+      CONFIG.BASE_RPC_URLS,
+      CONFIG.RPC_OPTIONS,
+    );
     const baseUsdc = new Contract(CONFIG.USDC_BASE, ERC20_ABI, baseProvider);
     const baseBalanceRaw = await baseUsdc.balanceOf(wallet.address);
     const baseBalance = BigInt(baseBalanceRaw);
@@ -295,15 +578,32 @@ async function checkBalance(): Promise<void> {
 // ═══════════════════════════════════════════════════════════════════════════
 
 async function main(): Promise<void> {
-  const [, , command, ...args] = process.argv;
+  const [command, ...args] = parseNetworkFlag(process.argv.slice(2)).args;
 
   switch (command) {
     case "status":
-      await checkStatus(args[0] || getWallet().address);
+      await checkStatus(args[0] || (await getWallet()).address);
       break;
-    case "borrow":
-      if (!args[0]) error("Amount required", { usage: "borrow <amount>" });
-      await borrowFunds(args[0]);
+    case "borrow": {
+      const deliverAt = args.indexOf("--deliver-to");
+      const deliverTo = deliverAt === -1 ? undefined : args[deliverAt + 1];
+      if (!args[0] || (deliverAt !== -1 && !deliverTo)) {
+        error(args[0] ? "Network required" : "Amount required", {
+          usage: "borrow <amount> [--deliver-to <network>] [--dry-run]",
+        });
+      }
+      await borrowFunds(args[0], args.includes("--dry-run"), deliverTo);
+      break;
+    }
+    case "delivery":
+      if (!args[0]) error("Delivery id required", { usage: "delivery <id>" });
+      await checkDelivery(args[0]);
+      break;
+    case "authorize-feedback":
+      if (!args[0]) {
+        error("Agent id required", { usage: "authorize-feedback <agentId>" });
+      }
+      await authorizeFeedback(args[0]);
       break;
     case "repay":
       if (!args[0]) error("Amount required", { usage: "repay <amount|all>" });
@@ -314,6 +614,17 @@ async function main(): Promise<void> {
         error("Invalid arguments", { usage: "bridge <amount> <from> <to>" });
       await bridgeUsdc(args[0], args[1], args[2]);
       break;
+    case "bridge-status":
+      bridgeStatus(args[0]);
+      break;
+    case "bridge-resume":
+      if (!args[0]) {
+        error("Bridge job id required", {
+          usage: "bridge-resume <id> [--force]",
+        });
+      }
+      await bridgeResume(args[0], args.includes("--force"));
+      break;
     case "balance":
       await checkBalance();
       break;
@@ -322,16 +633,27 @@ async function main(): Promise<void> {
         name: "Credex Client CLI",
         commands: {
           "status [address]": "Check credit status",
-          "borrow <amount>": "Borrow USDC from pool",
+          "borrow <amount> [--deliver-to <network>] [--dry-run]":
+            "Borrow USDC from pool (--deliver-to receives it on another chain, --dry-run previews without sending)",
+          "delivery <id>": "Progress of a cross-chain borrow delivery",
+          "authorize-feedback <agentId>":
+            "Let the agent server post ERC-8004 feedback about your identity",
           "repay <amount|all>": "Repay debt",
           "bridge <amount> <from> <to>": "Bridge USDC (arc/base)",
+          "bridge-status [id]":
+            "Steps of a bridge job (recent jobs without id)",
+          "bridge-resume <id> [--force]":
+            "Continue an interrupted or failed bridge job",
           balance: "Check wallet balances",
         },
         examples: [
           "npx ts-node scripts/client.ts status",
           "npx ts-node scripts/client.ts borrow 5",
+          "npx ts-node scripts/client.ts borrow 5 --dry-run",
+          "npx ts-node scripts/client.ts borrow 5 --deliver-to base-sepolia",
           "npx ts-node scripts/client.ts repay all",
           "npx ts-node scripts/client.ts bridge 10 arc base",
+          "npx ts-node scripts/client.ts bridge-status",
         ],
       });
   }
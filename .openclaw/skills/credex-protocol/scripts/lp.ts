@@ -15,33 +15,108 @@
  *   lp-balance [address]    Check LP position
  *   balance                 Check wallet balance on both chains
  *   bridge <amount> <from> <to>  Bridge USDC between chains
+ *   bridge-status [id]      Steps of a bridge job (recent jobs without id)
+ *   bridge-resume <id>      Continue an interrupted or failed bridge job
  *
  * Environment:
- *   WALLET_PRIVATE_KEY  (required) Your wallet private key
- *   RPC_URL             (optional) Arc Network RPC
- *   CREDEX_POOL_ADDRESS (optional) Pool contract address
+ *   WALLET_PRIVATE_KEY  Your wallet private key, or instead
+ *   WALLET_KEYSTORE     an encrypted JSON keystore (passphrase prompted or
+ *                       from WALLET_KEYSTORE_PASSWORD_FILE), or
+ *   WALLET_REMOTE_SIGNER_URL  a remote signer (+ WALLET_REMOTE_SIGNER_TOKEN)
+ *   CREDEX_NETWORK      (optional) Network profile: arc-testnet (default),
+ *                       base-sepolia or local; `--network <name>` on the
+ *                       command line takes precedence (see credex-shared)
+ *   RPC_URL             (optional) RPC override; comma-separated URLs
+ *                       are failed over in order (see providers.ts)
+ *   BASE_RPC_URL        (optional) Base Sepolia RPC, same format
+ *   RPC_QUORUM, RPC_RETRIES, RPC_RETRY_BACKOFF_MS, RPC_STALL_TIMEOUT_MS
+ *                       (optional) RPC failover / retry settings
+ *   CREDEX_POOL_ADDRESS (optional) Pool address override (default: newest
+ *                       forge broadcast, then the profile)
+ *   USDC_ADDRESS        (optional) USDC address override
+ *   CREDEX_BRIDGE_JOBS  (optional) Bridge job directory (default
+ *                       ~/.credex/bridge-jobs/, see credex-shared)
  */
 
 import "dotenv/config";
-import { ethers, Wallet, Contract, JsonRpcProvider, getAddress } from "ethers";
-import { BridgeKit } from "@circle-fin/bridge-kit";
-import { createViemAdapterFromPrivateKey } from "@circle-fin/adapter-viem-v2";
+import { ethers, Contract, getAddress } from "ethers";
+import {
+  NETWORKS,
+  ResolvedNetwork,
+  parseNetworkFlag,
+  resolveNetwork,
+  selectNetwork,
+  createProvider,
+  parseRpcUrls,
+  rpcOptionsFromEnv,
+  AddressedSigner,
+  SignerConfig,
+  createBridgeAdapter,
+  loadSigner,
+  signerConfigFromEnv,
+  BridgeJob,
+  BridgeJobStore,
+  describeBridgeJob,
+  runBridgeJob,
+} from "credex-shared";
 
 // ═══════════════════════════════════════════════════════════════════════════
 //                              CONFIGURATION
 // ═══════════════════════════════════════════════════════════════════════════
 
-const CONFIG = {
-  RPC_URL: process.env.RPC_URL || "https://rpc.testnet.arc.network",
-  BASE_RPC_URL: "https://sepolia.base.org",
-  // Use env var if set, otherwise use a valid checksummed address
-  POOL_ADDRESS: getAddress(
-    process.env.CREDEX_POOL_ADDRESS ||
-      "0x32239e52534c0b7e525fb37ed7b8d1912f263ad3",
-  ),
-  USDC_ARC: "0x3600000000000000000000000000000000000000",
-  USDC_BASE: getAddress("0x036CbD53842c5426634e7929541eC2318f3dCF7e"),
-};
+const CONFIG = loadConfig();
+
+// Local record of every bridge (see credex-shared)
+const bridgeJobs = new BridgeJobStore();
+
+// Jobs listed by `bridge-status` without an id
+const BRIDGE_STATUS_LIMIT = 20;
+
+/**
+ * Addresses and endpoints of the selected network profile, with the
+ * environment overrides applied
+ */
+function loadConfig() {
+  let network: ResolvedNetwork;
+  let base: ResolvedNetwork;
+  try {
+    network = resolveNetwork(selectNetwork(), {
+      rpcUrls: parseRpcUrls(process.env.RPC_URL, ""),
+      poolAddress: process.env.CREDEX_POOL_ADDRESS,
+      usdcAddress: process.env.USDC_ADDRESS,
+    });
+    base = resolveNetwork("base-sepolia", {
+      rpcUrls: parseRpcUrls(process.env.BASE_RPC_URL, ""),
+    });
+  } catch (e) {
+    error("Invalid network", {
+      cause: String(e),
+      hint: `Use --network with one of ${Object.keys(NETWORKS).join(", ")}`,
+    });
+    throw e;
+  }
+
+  const { poolAddress, usdcAddress } = network;
+  const baseUsdcAddress = base.usdcAddress;
+  if (!poolAddress || !usdcAddress || !baseUsdcAddress) {
+    error(`No CredexPool known on ${network.name}`, {
+      hint: "Deploy it with forge script (read from contracts/broadcast) or set CREDEX_POOL_ADDRESS and USDC_ADDRESS",
+    });
+    throw new Error("No CredexPool deployment");
+  }
+
+  return {
+    NETWORK: network.name,
+    RPC_URLS: network.rpcUrls,
+    BASE_RPC_URLS: base.rpcUrls,
+    RPC_OPTIONS: rpcOptionsFromEnv(),
+    ARC_CHAIN_ID: network.chainId,
+    BASE_CHAIN_ID: base.chainId,
+    POOL_ADDRESS: getAddress(poolAddress),
+    USDC_ARC: getAddress(usdcAddress),
+    USDC_BASE: getAddress(baseUsdcAddress),
+  };
+}
 
 const ERC20_ABI = [
   "function balanceOf(address) view returns (uint256)",
@@ -72,15 +147,27 @@ function error(message: string, details?: object): void {
   process.exit(1);
 }
 
-function getWallet(): Wallet {
-  const pk = process.env.WALLET_PRIVATE_KEY;
-  if (!pk) {
-    error("WALLET_PRIVATE_KEY required", {
-      hint: "Set WALLET_PRIVATE_KEY environment variable before running commands",
+function walletConfig(): SignerConfig {
+  try {
+    return signerConfigFromEnv();
+  } catch (e) {
+    error("Wallet not configured", {
+      cause: String(e),
+      hint: "Set WALLET_PRIVATE_KEY, WALLET_KEYSTORE or WALLET_REMOTE_SIGNER_URL before running commands",
     });
+    throw e;
   }
-  const provider = new JsonRpcProvider(CONFIG.RPC_URL);
-  return new Wallet(pk!, provider);
+}
+
+// Loaded once per run (a keystore may prompt for its passphrase)
+let walletPromise: Promise<AddressedSigner> | null = null;
+
+function getWallet(): Promise<AddressedSigner> {
+  walletPromise ??= loadSigner(
+    walletConfig(),
+    createProvider(CONFIG.RPC_URLS, CONFIG.RPC_OPTIONS),
+  );
+  return walletPromise;
 }
 
 function formatUsdc(amount: bigint): string {
@@ -96,7 +183,7 @@ function parseUsdc(amount: string): bigint {
 // ═══════════════════════════════════════════════════════════════════════════
 
 async function poolStatus(): Promise<void> {
-  const wallet = getWallet();
+  const wallet = await getWallet();
   const pool = new Contract(CONFIG.POOL_ADDRESS, POOL_ABI, wallet);
 
   try {
@@ -129,7 +216,7 @@ async function poolStatus(): Promise<void> {
 }
 
 async function depositUsdc(amount: string): Promise<void> {
-  const wallet = getWallet();
+  const wallet = await getWallet();
   const usdc = new Contract(CONFIG.USDC_ARC, ERC20_ABI, wallet);
   const pool = new Contract(CONFIG.POOL_ADDRESS, POOL_ABI, wallet);
 
@@ -171,7 +258,7 @@ async function depositUsdc(amount: string): Promise<void> {
 }
 
 async function withdrawShares(input: string): Promise<void> {
-  const wallet = getWallet();
+  const wallet = await getWallet();
   const pool = new Contract(CONFIG.POOL_ADDRESS, POOL_ABI, wallet);
 
   try {
@@ -229,7 +316,7 @@ async function withdrawShares(input: string): Promise<void> {
 }
 
 async function lpBalance(address?: string): Promise<void> {
-  const wallet = getWallet();
+  const wallet = await getWallet();
   const pool = new Contract(CONFIG.POOL_ADDRESS, POOL_ABI, wallet);
   const target = address || wallet.address;
 
@@ -258,7 +345,7 @@ async function lpBalance(address?: string): Promise<void> {
 }
 
 async function checkBalance(): Promise<void> {
-  const wallet = getWallet();
+  const wallet = await getWallet();
 
   try {
     // Arc balance
@@ -266,7 +353,10 @@ async function checkBalance(): Promise<void> {
     const arcBalance = await arcUsdc.balanceOf(wallet.address);
 
     // Base balance
-    const baseProvider = new JsonRpcProvider(CONFIG.BASE_RPC_URL);
+    const baseProvider = createProvider(
+      CONFIG.BASE_RPC_URLS,
+      CONFIG.RPC_OPTIONS,
+    );
     const baseUsdc = new Contract(CONFIG.USDC_BASE, ERC20_ABI, baseProvider);
     const baseBalance = await baseUsdc.balanceOf(wallet.address);
 
@@ -288,9 +378,6 @@ async function bridgeUsdc(
   from: string,
   to: string,
 ): Promise<void> {
-  const pk = process.env.WALLET_PRIVATE_KEY;
-  if (!pk) error("WALLET_PRIVATE_KEY required");
-
   const fromChain = from.toLowerCase().includes("base")
     ? "Base_Sepolia"
     : "Arc_Testnet";
@@ -307,35 +394,109 @@ async function bridgeUsdc(
   }
 
   try {
-    const kit = new BridgeKit();
-    const adapter = createViemAdapterFromPrivateKey({
-      privateKey: pk as `0x${string}`,
-    });
-
-    await kit.bridge({
-      from: { adapter, chain: fromChain },
-      to: { adapter, chain: toChain },
-      amount,
-    });
-
-    output({
-      success: true,
+    const wallet = await getWallet();
+    const job = bridgeJobs.create({
       amount,
       from: fromChain,
       to: toChain,
-      estimatedArrival: "5-10 minutes",
+      address: wallet.address,
     });
+    reportBridgeJob(await runBridgeJob(bridgeJobs, job, await bridgeAdapter()));
   } catch (e) {
     error("Bridge failed", { cause: String(e) });
   }
 }
 
+/**
+ * One bridge job, or the most recent ones without an id
+ */
+function bridgeStatus(id?: string): void {
+  if (!id) {
+    output({
+      dir: bridgeJobs.dir,
+      jobs: bridgeJobs
+        .list()
+        .slice(0, BRIDGE_STATUS_LIMIT)
+        .map((job) => ({
+          id: job.id,
+          status: job.status,
+          amount: job.amount,
+          from: job.from,
+          to: job.to,
+          createdAt: job.createdAt,
+        })),
+    });
+    return;
+  }
+
+  const job = bridgeJobs.get(id);
+  if (!job) error("Unknown bridge job", { id, dir: bridgeJobs.dir });
+  else output(describeBridgeJob(job));
+}
+
+/**
+ * Continue a bridge job from its recorded steps. A job still marked
+ * bridging may be running in another process; --force resumes it anyway.
+ */
+async function bridgeResume(id: string, force: boolean): Promise<void> {
+  const job = bridgeJobs.get(id);
+  if (!job) {
+    error("Unknown bridge job", { id, dir: bridgeJobs.dir });
+    return;
+  }
+  const wallet = await getWallet();
+  if (getAddress(job.address) !== getAddress(wallet.address)) {
+    error("Bridge job belongs to another wallet", {
+      id,
+      address: job.address,
+    });
+  }
+  if (job.status === "bridging" && !force) {
+    error("Bridge job is in progress", {
+      id,
+      updatedAt: job.updatedAt,
+      hint: `If the process running it stopped, run bridge-resume ${id} --force`,
+    });
+  }
+
+  try {
+    reportBridgeJob(await runBridgeJob(bridgeJobs, job, await bridgeAdapter()));
+  } catch (e) {
+    error("Bridge resume failed", { id, cause: String(e) });
+  }
+}
+
+async function bridgeAdapter() {
+  return createBridgeAdapter(
+    walletConfig(),
+    await getWallet(),
+    {
+      [CONFIG.ARC_CHAIN_ID]: CONFIG.RPC_URLS,
+      [CONFIG.BASE_CHAIN_ID]: CONFIG.BASE_RPC_URLS,
+    },
+    CONFIG.RPC_OPTIONS,
+  );
+}
+
+function reportBridgeJob(job: BridgeJob): void {
+  if (job.status === "completed") {
+    output({ success: true, ...describeBridgeJob(job) });
+  } else {
+    const { error: cause, ...details } = describeBridgeJob(job);
+    error("Bridge failed", {
+      ...details,
+      cause,
+      hint: `Resume with bridge-resume ${job.id}`,
+    });
+  }
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 //                                  CLI
 // ═══════════════════════════════════════════════════════════════════════════
 
 async function main(): Promise<void> {
-  const [, , command, ...args] = process.argv;
+  const [command, ...args] = parseNetworkFlag(process.argv.slice(2)).args;
 
   switch (command) {
     case "pool-status":
@@ -361,6 +522,17 @@ async function main(): Promise<void> {
         error("Invalid arguments", { usage: "bridge <amount> <from> <to>" });
       await bridgeUsdc(args[0], args[1], args[2]);
       break;
+    case "bridge-status":
+      bridgeStatus(args[0]);
+      break;
+    case "bridge-resume":
+      if (!args[0]) {
+        error("Bridge job id required", {
+          usage: "bridge-resume <id> [--force]",
+        });
+      }
+      await bridgeResume(args[0], args.includes("--force"));
+      break;
     default:
       output({
         name: "Credex LP CLI",
@@ -371,12 +543,17 @@ async function main(): Promise<void> {
           "lp-balance [address]": "Check LP position",
           balance: "Check wallet balances",
           "bridge <amount> <from> <to>": "Bridge USDC (arc/base)",
+          "bridge-status [id]":
+            "Steps of a bridge job (recent jobs without id)",
+          "bridge-resume <id> [--force]":
+            "Continue an interrupted or failed bridge job",
         },
         examples: [
           "npx ts-node scripts/lp.ts pool-status",
           "npx ts-node scripts/lp.ts deposit 100",
           "npx ts-node scripts/lp.ts withdraw all",
           "npx ts-node scripts/lp.ts bridge 50 base arc",
+          "npx ts-node scripts/lp.ts bridge-status",
         ],
       });
   }
@@ -57,6 +57,7 @@ contract CredexPool {
     event AgentOnboarded(address indexed agent, uint256 creditLimit);
     event CreditLimitUpdated(address indexed agent, uint256 newLimit);
     event Borrowed(address indexed agent, uint256 amount);
+    event BorrowedTo(address indexed agent, address indexed recipient, uint256 amount);
     event Repaid(address indexed agent, uint256 amount);
     event InterestAccrued(address indexed agent, uint256 interest);
     event Frozen(address indexed agent);
@@ -153,23 +154,18 @@ contract CredexPool {
      * @notice Process a borrow request for an agent
      */
     function borrow(address agent, uint256 amount) external onlyAgent {
-        AgentAccount storage acc = agents[agent];
-        require(acc.active, "Not active");
-        require(!acc.frozen, "Account frozen");
-        
-        // Accrue interest first
-        _accrueInterest(agent);
-        
-        require(acc.principal + amount <= acc.creditLimit, "Exceeds limit");
-        require(totalLiquidity >= amount, "Insufficient liquidity");
-        
-        acc.principal += amount;
-        acc.debt += amount;
-        totalLiquidity -= amount;
-        globalTotalDebt += amount; // Update tracker
-        
-        USDC.transfer(agent, amount);
-        emit Borrowed(agent, amount);
+        _borrow(agent, amount, agent);
+    }
+
+    /**
+     * @notice Borrow on an agent's credit line, paying out to another address
+     * @dev Used for cross-chain delivery: the Credex agent takes custody and
+     *      bridges the funds to the borrower. The debt is the agent's.
+     */
+    function borrowTo(address agent, uint256 amount, address recipient) external onlyAgent {
+        require(recipient != address(0), "Invalid recipient");
+        _borrow(agent, amount, recipient);
+        emit BorrowedTo(agent, recipient, amount);
     }
 
     /**
@@ -286,6 +282,26 @@ contract CredexPool {
                             INTERNAL
     //////////////////////////////////////////////////////////////*/
 
+    function _borrow(address agent, uint256 amount, address recipient) internal {
+        AgentAccount storage acc = agents[agent];
+        require(acc.active, "Not active");
+        require(!acc.frozen, "Account frozen");
+
+        // Accrue interest first
+        _accrueInterest(agent);
+
+        require(acc.principal + amount <= acc.creditLimit, "Exceeds limit");
+        require(totalLiquidity >= amount, "Insufficient liquidity");
+
+        acc.principal += amount;
+        acc.debt += amount;
+        totalLiquidity -= amount;
+        globalTotalDebt += amount; // Update tracker
+
+        USDC.transfer(recipient, amount);
+        emit Borrowed(agent, amount);
+    }
+
     function _accrueInterest(address agent) internal {
         AgentAccount storage acc = agents[agent];
         if (acc.lastAccrued == 0 || acc.debt == 0) return;
@@ -121,6 +121,35 @@ contract CredexPoolTest is Test {
         pool.borrow(agent1, 51 * 1e6);
     }
 
+    function test_BorrowTo() public {
+        vm.startPrank(lp1);
+        usdc.approve(address(pool), 100 * 1e6);
+        pool.deposit(100 * 1e6);
+        vm.stopPrank();
+
+        vm.prank(credexAgent);
+        pool.onboardAgent(agent1, 50 * 1e6);
+
+        // Debt lands on agent1, funds go to the Credex agent's custody
+        vm.prank(credexAgent);
+        pool.borrowTo(agent1, 20 * 1e6, credexAgent);
+
+        (uint256 debt, , , , , ) = pool.getAgentState(agent1);
+        assertEq(debt, 20 * 1e6);
+        assertEq(usdc.balanceOf(credexAgent), 20 * 1e6);
+        assertEq(usdc.balanceOf(agent1), 100 * 1e6); // Unchanged
+        assertEq(pool.totalLiquidity(), 80 * 1e6);
+    }
+
+    function test_BorrowToOnlyAgent() public {
+        vm.prank(credexAgent);
+        pool.onboardAgent(agent1, 50 * 1e6);
+
+        vm.prank(agent1);
+        vm.expectRevert("Not Credex agent");
+        pool.borrowTo(agent1, 10 * 1e6, agent1);
+    }
+
     function test_InterestAccrual() public {
         vm.startPrank(lp1);
         usdc.approve(address(pool), 1000 * 1e6);
@@ -0,0 +1,222 @@
+#!/usr/bin/env node
+/**
+ * Credex Admin CLI
+ *
+ * Operator commands against the protocol server's /admin routes.
+ * All commands return JSON for machine readability.
+ *
+ * Usage:
+ *   credex-admin <command> [args] --reason "<why>" [--pool <id|address>]
+ *
+ * Commands:
+ *   agents                              List registered agents
+ *   freeze <address> -r <reason>        Freeze an agent
+ *   unfreeze <address> -r <reason>      Unfreeze an agent
+ *   set-limit <address> <limit> -r <reason>  Override a credit limit (USDC);
+ *                                       --force allows one below principal
+ *   rescore <address> -r <reason>       Re-run onboarding scoring
+ *   write-off <address> -r <reason>     Freeze and publish the debt as lost
+ *   audit export [file]                 Export the audit log (stdout or file)
+ *   audit verify [file]                 Verify the hash chain (server or file)
+ *
+ * --pool picks the pool when the server manages several (default: the
+ * first; `agents` without it lists every pool).
+ *
+ * Environment:
+ *   CREDEX_ADMIN_TOKEN  (required) Admin bearer token
+ *   CREDEX_AGENT_URL    (optional) URL of Credex agent server
+ *   CREDEX_ADMIN_ACTOR  (optional) Name recorded in the audit log
+ */
+
+import "dotenv/config";
+import { readFileSync, writeFileSync } from "fs";
+import { userInfo } from "os";
+import { AuditEntry, verifyAuditChain } from "./audit-log";
+
+const CONFIG = {
+  AGENT_URL: process.env.CREDEX_AGENT_URL || "http://localhost:10003",
+  ADMIN_TOKEN: process.env.CREDEX_ADMIN_TOKEN || "",
+  ACTOR: process.env.CREDEX_ADMIN_ACTOR || userInfo().username,
+};
+
+// Audit entries fetched per request when exporting
+const EXPORT_PAGE_SIZE = 500;
+
+// --- Helpers ---
+
+function output(data: object): void {
+  console.log(JSON.stringify(data, null, 2));
+}
+
+function error(message: string, details?: object): never {
+  console.log(
+    JSON.stringify({ success: false, error: message, ...details }, null, 2),
+  );
+  process.exit(1);
+}
+
+async function callAdmin(endpoint: string, body?: object): Promise<any> {
+  if (!CONFIG.ADMIN_TOKEN) {
+    error("CREDEX_ADMIN_TOKEN required", {
+      hint: "Set CREDEX_ADMIN_TOKEN to the server's admin token",
+    });
+  }
+
+  const response = await fetch(`${CONFIG.AGENT_URL}${endpoint}`, {
+    method: body ? "POST" : "GET",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${CONFIG.ADMIN_TOKEN}`,
+    },
+    body: body ? JSON.stringify({ ...body, actor: CONFIG.ACTOR }) : undefined,
+  });
+  return response.json();
+}
+
+/**
+ * Split argv into positionals, --reason / -r and --pool
+ */
+function parseArgs(args: string[]): {
+  positional: string[];
+  reason: string;
+  pool: string;
+  force: boolean;
+} {
+  const positional: string[] = [];
+  let reason = "";
+  let pool = "";
+  let force = false;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--reason" || args[i] === "-r") {
+      reason = args[++i] ?? "";
+    } else if (args[i] === "--pool") {
+      pool = args[++i] ?? "";
+    } else if (args[i] === "--force") {
+      force = true;
+    } else {
+      positional.push(args[i]);
+    }
+  }
+  return { positional, reason, pool, force };
+}
+
+function requireReason(reason: string, usage: string): void {
+  if (!reason.trim()) error("Reason required", { usage });
+}
+
+async function fetchAuditLog(): Promise<AuditEntry[]> {
+  const entries: AuditEntry[] = [];
+  for (;;) {
+    const after = entries.length > 0 ? entries[entries.length - 1].seq : 0;
+    const result = await callAdmin(
+      `/admin/audit?after=${after}&limit=${EXPORT_PAGE_SIZE}`,
+    );
+    if (!result.success) error("Failed to fetch audit log", result);
+    entries.push(...result.data.entries);
+    if (result.data.entries.length < EXPORT_PAGE_SIZE) return entries;
+  }
+}
+
+// --- Commands ---
+
+async function auditCommand(sub: string, file?: string): Promise<void> {
+  switch (sub) {
+    case "export": {
+      const entries = await fetchAuditLog();
+      const verification = verifyAuditChain(entries);
+      if (file) {
+        writeFileSync(file, JSON.stringify(entries, null, 2));
+        output({ success: true, file, ...verification });
+      } else {
+        output({ entries, verification });
+      }
+      return;
+    }
+    case "verify":
+      if (file) {
+        const entries = JSON.parse(readFileSync(file, "utf8")) as AuditEntry[];
+        const verification = verifyAuditChain(entries);
+        output({ success: verification.valid, file, ...verification });
+        if (!verification.valid) process.exit(1);
+      } else {
+        const result = await callAdmin("/admin/audit/verify");
+        output(result);
+        if (!result.success) process.exit(1);
+      }
+      return;
+    default:
+      error("Unknown audit command", { usage: "audit <export|verify> [file]" });
+  }
+}
+
+async function main(): Promise<void> {
+  const [, , command, ...rest] = process.argv;
+  const { positional, reason, pool, force } = parseArgs(rest);
+  const [address] = positional;
+  const query = pool ? `?pool=${encodeURIComponent(pool)}` : "";
+
+  switch (command) {
+    case "agents":
+      output(await callAdmin(`/admin/agents${query}`));
+      break;
+    case "freeze":
+    case "unfreeze":
+    case "rescore":
+    case "write-off": {
+      const usage = `${command} <address> --reason <text>`;
+      if (!address) error("Address required", { usage });
+      requireReason(reason, usage);
+      output(
+        await callAdmin(`/admin/${command}${query}`, {
+          agentAddress: address,
+          reason,
+        }),
+      );
+      break;
+    }
+    case "set-limit": {
+      const usage = "set-limit <address> <limit> --reason <text> [--force]";
+      const limit = positional[1];
+      if (!address || !limit) error("Address and limit required", { usage });
+      requireReason(reason, usage);
+      output(
+        await callAdmin(`/admin/limit${query}`, {
+          agentAddress: address,
+          limit,
+          reason,
+          ...(force ? { force } : {}),
+        }),
+      );
+      break;
+    }
+    case "audit":
+      await auditCommand(positional[0], positional[1]);
+      break;
+    default:
+      output({
+        name: "Credex Admin CLI",
+        commands: {
+          agents: "List registered agents",
+          "freeze <address> -r <reason>": "Freeze an agent",
+          "unfreeze <address> -r <reason>": "Unfreeze an agent",
+          "set-limit <address> <limit> -r <reason> [--force]":
+            "Override a credit limit (--force: even below the principal owed)",
+          "rescore <address> -r <reason>": "Re-run onboarding scoring",
+          "write-off <address> -r <reason>":
+            "Freeze and publish the debt as lost (ERC-8004 feedback)",
+          "audit export [file]": "Export the hash-chained audit log",
+          "audit verify [file]": "Verify the audit log hash chain",
+        },
+        examples: [
+          "credex-admin agents",
+          'credex-admin freeze 0xabc... -r "bridge exploit" --pool base-sepolia',
+          'credex-admin freeze 0xabc... -r "chargeback reported by merchant"',
+          'credex-admin set-limit 0xabc... 250 -r "manual review, INC-42"',
+          "credex-admin audit export audit.json",
+          "credex-admin audit verify audit.json",
+        ],
+      });
+  }
+}
+
+main().catch((e) => error("Admin command failed", { cause: String(e) }));
@@ -0,0 +1,332 @@
+/**
+ * Agent Registry
+ *
+ * Persistent record of every agent the clearing agent manages:
+ * identity (agentId), onboarding reputation, the last on-chain state we
+ * observed (with when its debt became outstanding, which the chain does
+ * not record) and the full history of credit limit changes.
+ *
+ * The clearing agent depends only on the AgentRepository interface;
+ * SqliteAgentRepository is the default backend.
+ */
+
+import { getAddress } from "ethers";
+import { CredexDatabase, ensureColumn } from "./db";
+import {
+  AgentOnChain,
+  DelinquencyDecision,
+  LimitChange,
+  RepFactorBreakdown,
+  StoredAgent,
+} from "./types";
+
+export interface AgentRepository {
+  getAgent(address: string): Promise<StoredAgent | null>;
+  listAgents(): Promise<StoredAgent[]>;
+  countAgents(): Promise<number>;
+
+  /**
+   * Insert or replace an agent's registry entry
+   */
+  saveAgent(agent: StoredAgent): Promise<void>;
+
+  /**
+   * Record the latest on-chain state for an agent.
+   * Creates a minimal entry if the agent is not yet known.
+   */
+  syncOnChain(address: string, state: AgentOnChain): Promise<StoredAgent>;
+
+  recordLimitChange(change: LimitChange): Promise<void>;
+  getLimitHistory(address: string): Promise<LimitChange[]>;
+
+  recordDelinquencyDecision(decision: DelinquencyDecision): Promise<void>;
+  getDelinquencyDecisions(address: string): Promise<DelinquencyDecision[]>;
+}
+
+interface AgentRow {
+  address: string;
+  agent_id: string;
+  rep_factor: number | null;
+  rep_breakdown: string | null;
+  debt: string;
+  principal: string;
+  credit_limit: string;
+  last_accrued: number;
+  last_repayment: number;
+  debt_since: number | null;
+  frozen: number;
+  active: number;
+  onboarded_at: number;
+  last_synced_at: number;
+}
+
+interface DelinquencyDecisionRow {
+  address: string;
+  action: DelinquencyDecision["action"];
+  reasons: string;
+  tx_hash: string | null;
+  timestamp: number;
+}
+
+interface LimitChangeRow {
+  address: string;
+  previous_limit: string;
+  new_limit: string;
+  reason: string;
+  tx_hash: string | null;
+  trigger_tx_hash: string | null;
+  note: string | null;
+  timestamp: number;
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+/**
+ * When the debt in `state` became outstanding: kept while the debt lasts,
+ * now when it appears after a zero balance (or on an unknown agent).
+ * Entries from before debt_since existed count from their last sync.
+ */
+function debtSince(
+  existing: StoredAgent | null,
+  state: AgentOnChain,
+): number | null {
+  if (state.debt === 0n) return null;
+  if (!existing || existing.debt === 0n) return now();
+  return existing.debtSince ?? existing.lastSyncedAt;
+}
+
+export class SqliteAgentRepository implements AgentRepository {
+  private db: CredexDatabase;
+
+  constructor(db: CredexDatabase) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS agents (
+        address         TEXT PRIMARY KEY,
+        agent_id        TEXT NOT NULL,
+        rep_factor      REAL,
+        rep_breakdown   TEXT,
+        debt            TEXT NOT NULL,
+        principal       TEXT NOT NULL,
+        credit_limit    TEXT NOT NULL,
+        last_accrued    INTEGER NOT NULL,
+        last_repayment  INTEGER NOT NULL,
+        debt_since      INTEGER,
+        frozen          INTEGER NOT NULL,
+        active          INTEGER NOT NULL,
+        onboarded_at    INTEGER NOT NULL,
+        last_synced_at  INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS limit_history (
+        id              INTEGER PRIMARY KEY AUTOINCREMENT,
+        address         TEXT NOT NULL,
+        previous_limit  TEXT NOT NULL,
+        new_limit       TEXT NOT NULL,
+        reason          TEXT NOT NULL,
+        tx_hash         TEXT,
+        trigger_tx_hash TEXT,
+        note            TEXT,
+        timestamp       INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_limit_history_address
+        ON limit_history (address);
+
+      CREATE TABLE IF NOT EXISTS delinquency_decisions (
+        id              INTEGER PRIMARY KEY AUTOINCREMENT,
+        address         TEXT NOT NULL,
+        action          TEXT NOT NULL,
+        reasons         TEXT NOT NULL,
+        tx_hash         TEXT,
+        timestamp       INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_delinquency_decisions_address
+        ON delinquency_decisions (address);
+    `);
+    ensureColumn(this.db, "limit_history", "trigger_tx_hash", "TEXT");
+    ensureColumn(this.db, "limit_history", "note", "TEXT");
+    ensureColumn(this.db, "agents", "rep_breakdown", "TEXT");
+    ensureColumn(this.db, "agents", "debt_since", "INTEGER");
+  }
+
+  async getAgent(address: string): Promise<StoredAgent | null> {
+    const row = this.db
+      .prepare("SELECT * FROM agents WHERE address = ?")
+      .get(address.toLowerCase()) as AgentRow | undefined;
+    return row ? this.toAgent(row) : null;
+  }
+
+  async listAgents(): Promise<StoredAgent[]> {
+    const rows = this.db
+      .prepare("SELECT * FROM agents ORDER BY onboarded_at")
+      .all() as AgentRow[];
+    return rows.map((row) => this.toAgent(row));
+  }
+
+  async countAgents(): Promise<number> {
+    const row = this.db.prepare("SELECT COUNT(*) AS n FROM agents").get() as {
+      n: number;
+    };
+    return row.n;
+  }
+
+  async saveAgent(agent: StoredAgent): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO agents (
+          address, agent_id, rep_factor, rep_breakdown, debt, principal,
+          credit_limit, last_accrued, last_repayment, debt_since, frozen,
+          active, onboarded_at, last_synced_at
+        ) VALUES (
+          @address, @agent_id, @rep_factor, @rep_breakdown, @debt, @principal,
+          @credit_limit, @last_accrued, @last_repayment, @debt_since, @frozen,
+          @active, @onboarded_at, @last_synced_at
+        )`,
+      )
+      .run(this.toRow(agent));
+  }
+
+  async syncOnChain(
+    address: string,
+    state: AgentOnChain,
+  ): Promise<StoredAgent> {
+    const existing = await this.getAgent(address);
+    const agent: StoredAgent = {
+      address: getAddress(address),
+      agentId: existing?.agentId ?? "0",
+      repFactor: existing?.repFactor ?? null,
+      repBreakdown: existing?.repBreakdown ?? null,
+      debt: state.debt,
+      principal: state.principal,
+      creditLimit: state.creditLimit,
+      lastAccrued: Number(state.lastAccrued),
+      lastRepayment: Number(state.lastRepayment),
+      debtSince: debtSince(existing, state),
+      frozen: state.frozen,
+      active: state.active,
+      onboardedAt: existing?.onboardedAt ?? now(),
+      lastSyncedAt: now(),
+    };
+    await this.saveAgent(agent);
+    return agent;
+  }
+
+  async recordLimitChange(change: LimitChange): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO limit_history (
+          address, previous_limit, new_limit, reason, tx_hash,
+          trigger_tx_hash, note, timestamp
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        change.address.toLowerCase(),
+        change.previousLimit.toString(),
+        change.newLimit.toString(),
+        change.reason,
+        change.txHash ?? null,
+        change.triggerTxHash ?? null,
+        change.note ?? null,
+        change.timestamp,
+      );
+  }
+
+  async getLimitHistory(address: string): Promise<LimitChange[]> {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM limit_history WHERE address = ? ORDER BY timestamp, id",
+      )
+      .all(address.toLowerCase()) as LimitChangeRow[];
+
+    return rows.map((row) => ({
+      address: getAddress(row.address),
+      previousLimit: BigInt(row.previous_limit),
+      newLimit: BigInt(row.new_limit),
+      reason: row.reason,
+      txHash: row.tx_hash ?? undefined,
+      triggerTxHash: row.trigger_tx_hash ?? undefined,
+      note: row.note ?? undefined,
+      timestamp: row.timestamp,
+    }));
+  }
+
+  async recordDelinquencyDecision(
+    decision: DelinquencyDecision,
+  ): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO delinquency_decisions (
+          address, action, reasons, tx_hash, timestamp
+        ) VALUES (?, ?, ?, ?, ?)`,
+      )
+      .run(
+        decision.address.toLowerCase(),
+        decision.action,
+        JSON.stringify(decision.reasons),
+        decision.txHash ?? null,
+        decision.timestamp,
+      );
+  }
+
+  async getDelinquencyDecisions(
+    address: string,
+  ): Promise<DelinquencyDecision[]> {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM delinquency_decisions WHERE address = ? ORDER BY timestamp, id",
+      )
+      .all(address.toLowerCase()) as DelinquencyDecisionRow[];
+
+    return rows.map((row) => ({
+      address: getAddress(row.address),
+      action: row.action,
+      reasons: JSON.parse(row.reasons),
+      txHash: row.tx_hash ?? undefined,
+      timestamp: row.timestamp,
+    }));
+  }
+
+  // --- Row mapping ---
+
+  private toAgent(row: AgentRow): StoredAgent {
+    return {
+      address: getAddress(row.address),
+      agentId: row.agent_id,
+      repFactor: row.rep_factor,
+      repBreakdown: row.rep_breakdown ? JSON.parse(row.rep_breakdown) : null,
+      debt: BigInt(row.debt),
+      principal: BigInt(row.principal),
+      creditLimit: BigInt(row.credit_limit),
+      lastAccrued: row.last_accrued,
+      lastRepayment: row.last_repayment,
+      debtSince: row.debt_since,
+      frozen: row.frozen === 1,
+      active: row.active === 1,
+      onboardedAt: row.onboarded_at,
+      lastSyncedAt: row.last_synced_at,
+    };
+  }
+
+  private toRow(agent: StoredAgent): AgentRow {
+    return {
+      address: agent.address.toLowerCase(),
+      agent_id: agent.agentId,
+      rep_factor: agent.repFactor,
+      rep_breakdown: agent.repBreakdown
+        ? JSON.stringify(agent.repBreakdown)
+        : null,
+      debt: agent.debt.toString(),
+      principal: agent.principal.toString(),
+      credit_limit: agent.creditLimit.toString(),
+      last_accrued: agent.lastAccrued,
+      last_repayment: agent.lastRepayment,
+      debt_since: agent.debtSince,
+      frozen: agent.frozen ? 1 : 0,
+      active: agent.active ? 1 : 0,
+      onboarded_at: agent.onboardedAt,
+      last_synced_at: agent.lastSyncedAt,
+    };
+  }
+}
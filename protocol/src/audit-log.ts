@@ -0,0 +1,229 @@
+/**
+ * Admin Audit Log
+ *
+ * Append-only record of manual operator actions. Each entry stores the
+ * hash of the previous one and its own hash over its contents:
+ *
+ *   hash = sha256(JSON [seq, timestamp, actor, action, target, reason,
+ *                       params, result, prevHash])
+ *
+ * so editing, removing or reordering any entry breaks every hash after
+ * it. UPDATE and DELETE are rejected by triggers; verify() recomputes the
+ * chain, e.g. over an exported copy.
+ */
+
+import { createHash } from "crypto";
+import { CredexDatabase } from "./db";
+
+export const GENESIS_HASH = "0".repeat(64);
+
+export interface AuditAction {
+  actor: string; // operator identifier sent with the request
+  action: string; // e.g. "freeze", "set-limit"
+  target: string | null; // agent address acted on
+  reason: string;
+  params: Record<string, unknown>;
+  result: Record<string, unknown>; // e.g. { success, txHash } or { error }
+}
+
+export interface AuditEntry extends AuditAction {
+  seq: number;
+  timestamp: number;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  head: string; // hash of the last entry (GENESIS_HASH when empty)
+  brokenAt?: number; // first seq whose link or hash does not match
+  error?: string;
+}
+
+export interface AuditLog {
+  append(action: AuditAction): Promise<AuditEntry>;
+
+  /**
+   * Entries oldest first, from afterSeq (exclusive)
+   */
+  list(query?: { afterSeq?: number; limit?: number }): Promise<AuditEntry[]>;
+
+  /**
+   * Recompute the hash chain over the stored entries
+   */
+  verify(): Promise<AuditVerification>;
+}
+
+export function hashAuditEntry(entry: Omit<AuditEntry, "hash">): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        entry.seq,
+        entry.timestamp,
+        entry.actor,
+        entry.action,
+        entry.target,
+        entry.reason,
+        entry.params,
+        entry.result,
+        entry.prevHash,
+      ]),
+    )
+    .digest("hex");
+}
+
+/**
+ * Check an exported chain (oldest first) without a database. An export
+ * that starts later (GET /admin/audit?after=N) continues from `from`:
+ * seq N and the hash of entry N, taken from an earlier export.
+ */
+export function verifyAuditChain(
+  entries: AuditEntry[],
+  from: { seq: number; hash: string } = { seq: 0, hash: GENESIS_HASH },
+): AuditVerification {
+  let prevHash = from.hash;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const { hash, ...body } = entry;
+    const seq = from.seq + i + 1;
+
+    let error: string | undefined;
+    if (entry.seq !== seq) error = `expected seq ${seq}`;
+    else if (entry.prevHash !== prevHash) error = "prevHash does not link";
+    else if (hashAuditEntry(body) !== hash) error = "hash does not match";
+
+    if (error) {
+      return {
+        valid: false,
+        entries: entries.length,
+        head: prevHash,
+        brokenAt: entry.seq,
+        error,
+      };
+    }
+    prevHash = hash;
+  }
+
+  return { valid: true, entries: entries.length, head: prevHash };
+}
+
+interface AuditRow {
+  seq: number;
+  timestamp: number;
+  actor: string;
+  action: string;
+  target: string | null;
+  reason: string;
+  params: string;
+  result: string;
+  prev_hash: string;
+  hash: string;
+}
+
+export class SqliteAuditLog implements AuditLog {
+  private db: CredexDatabase;
+
+  constructor(db: CredexDatabase) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS admin_audit_log (
+        seq         INTEGER PRIMARY KEY,
+        timestamp   INTEGER NOT NULL,
+        actor       TEXT NOT NULL,
+        action      TEXT NOT NULL,
+        target      TEXT,
+        reason      TEXT NOT NULL,
+        params      TEXT NOT NULL,
+        result      TEXT NOT NULL,
+        prev_hash   TEXT NOT NULL,
+        hash        TEXT NOT NULL UNIQUE
+      );
+
+      CREATE TRIGGER IF NOT EXISTS admin_audit_log_no_update
+        BEFORE UPDATE ON admin_audit_log
+        BEGIN SELECT RAISE(ABORT, 'admin_audit_log is append-only'); END;
+
+      CREATE TRIGGER IF NOT EXISTS admin_audit_log_no_delete
+        BEFORE DELETE ON admin_audit_log
+        BEGIN SELECT RAISE(ABORT, 'admin_audit_log is append-only'); END;
+    `);
+  }
+
+  async append(action: AuditAction): Promise<AuditEntry> {
+    // Read the head and insert in one transaction so entries can't fork
+    return this.db.transaction(() => {
+      const head = this.db
+        .prepare(
+          "SELECT seq, hash FROM admin_audit_log ORDER BY seq DESC LIMIT 1",
+        )
+        .get() as { seq: number; hash: string } | undefined;
+
+      const body: Omit<AuditEntry, "hash"> = {
+        seq: (head?.seq ?? 0) + 1,
+        timestamp: Math.floor(Date.now() / 1000),
+        actor: action.actor,
+        action: action.action,
+        target: action.target,
+        reason: action.reason,
+        params: action.params,
+        result: action.result,
+        prevHash: head?.hash ?? GENESIS_HASH,
+      };
+      const entry: AuditEntry = { ...body, hash: hashAuditEntry(body) };
+
+      this.db
+        .prepare(
+          `INSERT INTO admin_audit_log (
+            seq, timestamp, actor, action, target, reason, params, result,
+            prev_hash, hash
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          entry.seq,
+          entry.timestamp,
+          entry.actor,
+          entry.action,
+          entry.target,
+          entry.reason,
+          JSON.stringify(entry.params),
+          JSON.stringify(entry.result),
+          entry.prevHash,
+          entry.hash,
+        );
+
+      return entry;
+    })();
+  }
+
+  async list(
+    query: { afterSeq?: number; limit?: number } = {},
+  ): Promise<AuditEntry[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM admin_audit_log
+         WHERE seq > ?
+         ORDER BY seq
+         LIMIT ?`,
+      )
+      .all(query.afterSeq ?? 0, query.limit ?? -1) as AuditRow[];
+
+    return rows.map((row) => ({
+      seq: row.seq,
+      timestamp: row.timestamp,
+      actor: row.actor,
+      action: row.action,
+      target: row.target,
+      reason: row.reason,
+      params: JSON.parse(row.params),
+      result: JSON.parse(row.result),
+      prevHash: row.prev_hash,
+      hash: row.hash,
+    }));
+  }
+
+  async verify(): Promise<AuditVerification> {
+    return verifyAuditChain(await this.list());
+  }
+}
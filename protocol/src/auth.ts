@@ -0,0 +1,214 @@
+/**
+ * Request Authentication
+ *
+ * Verifies EIP-712 signatures on mutating requests (/onboard, /borrow,
+ * /repay) so that only the wallet behind `agentAddress` can act on its
+ * credit line.
+ *
+ * Every signed request carries:
+ * - nonce:     random bytes32, accepted once per agent (see nonce-store.ts)
+ * - expiry:    unix timestamp (seconds) after which the request is rejected
+ * - signature: EIP-712 signature over the typed payload below
+ *
+ * Admin routes (/admin/*) instead require `Authorization: Bearer <token>`
+ * matching CREDEX_ADMIN_TOKEN; they are disabled when no token is set.
+ */
+
+import { timingSafeEqual } from "crypto";
+import { ethers, TypedDataDomain, TypedDataField } from "ethers";
+import { NonceStore } from "./nonce-store";
+import { PoolSelector } from "./pools";
+import { SignedRequest } from "./types";
+
+export const CREDEX_DOMAIN_NAME = "Credex";
+export const CREDEX_DOMAIN_VERSION = "1";
+
+// Requests may not be signed further ahead than this (bounds nonce memory)
+const MAX_VALIDITY_SECONDS = 10 * 60;
+
+export type SignedAction = "Onboard" | "Borrow" | "BorrowTo" | "Repay";
+
+// EIP-712 types, one primary type per route
+export const REQUEST_TYPES: Record<SignedAction, TypedDataField[]> = {
+  Onboard: [
+    { name: "agentAddress", type: "address" },
+    { name: "agentId", type: "string" },
+    { name: "nonce", type: "bytes32" },
+    { name: "expiry", type: "uint256" },
+  ],
+  Borrow: [
+    { name: "agentAddress", type: "address" },
+    { name: "amount", type: "string" },
+    { name: "nonce", type: "bytes32" },
+    { name: "expiry", type: "uint256" },
+  ],
+  // Borrow delivered to another chain (POST /borrow with deliverTo)
+  BorrowTo: [
+    { name: "agentAddress", type: "address" },
+    { name: "amount", type: "string" },
+    { name: "deliverTo", type: "string" },
+    { name: "nonce", type: "bytes32" },
+    { name: "expiry", type: "uint256" },
+  ],
+  Repay: [
+    { name: "agentAddress", type: "address" },
+    { name: "amount", type: "string" },
+    { name: "nonce", type: "bytes32" },
+    { name: "expiry", type: "uint256" },
+  ],
+};
+
+export type AuthErrorCode =
+  | "SIGNATURE_REQUIRED"
+  | "INVALID_SIGNATURE"
+  | "REQUEST_EXPIRED"
+  | "EXPIRY_TOO_FAR"
+  | "NONCE_REPLAYED"
+  | "ADMIN_DISABLED"
+  | "ADMIN_UNAUTHORIZED";
+
+export class AuthError extends Error {
+  readonly code: AuthErrorCode;
+
+  constructor(code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = "AuthError";
+    this.code = code;
+  }
+}
+
+/**
+ * Check an admin request's bearer token (constant-time compare)
+ */
+export function verifyAdminToken(
+  authorization: string | undefined,
+  adminToken: string,
+): void {
+  if (!adminToken) {
+    throw new AuthError(
+      "ADMIN_DISABLED",
+      "Admin API disabled (CREDEX_ADMIN_TOKEN not set)",
+    );
+  }
+
+  const presented = Buffer.from(
+    (authorization ?? "").replace(/^Bearer\s+/i, ""),
+  );
+  const expected = Buffer.from(adminToken);
+  if (
+    presented.length !== expected.length ||
+    !timingSafeEqual(presented, expected)
+  ) {
+    throw new AuthError("ADMIN_UNAUTHORIZED", "Invalid admin token");
+  }
+}
+
+/**
+ * Verifies signed requests and tracks consumed nonces.
+ *
+ * Nonces only need to be remembered until their request expires, so the
+ * store is pruned as expiries pass.
+ */
+export class RequestAuthenticator {
+  private getDomain: (selector: PoolSelector) => Promise<TypedDataDomain>;
+  private nonces: NonceStore;
+
+  /**
+   * @param getDomain - domain of the pool a request addresses (each pool
+   *   has its own, so a signature can't be replayed against another pool)
+   */
+  constructor(
+    getDomain: (selector: PoolSelector) => Promise<TypedDataDomain>,
+    nonces: NonceStore,
+  ) {
+    this.getDomain = getDomain;
+    this.nonces = nonces;
+  }
+
+  /**
+   * Domain and types clients need to produce a signature
+   */
+  async getSigningInfo(selector: PoolSelector = {}): Promise<{
+    domain: TypedDataDomain;
+    types: Record<SignedAction, TypedDataField[]>;
+  }> {
+    return { domain: await this.getDomain(selector), types: REQUEST_TYPES };
+  }
+
+  /**
+   * Verify a signed request against the selected pool's domain.
+   * Throws AuthError on failure.
+   */
+  async verify(
+    action: SignedAction,
+    request: SignedRequest & Record<string, any>,
+    selector: PoolSelector = {},
+  ): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    this.nonces.prune(now);
+
+    if (!request.signature || !request.nonce || !request.expiry) {
+      throw new AuthError(
+        "SIGNATURE_REQUIRED",
+        "nonce, expiry and signature required",
+      );
+    }
+
+    const expiry = Number(request.expiry);
+    if (!Number.isFinite(expiry) || expiry < now) {
+      throw new AuthError("REQUEST_EXPIRED", "Request has expired");
+    }
+    if (expiry > now + MAX_VALIDITY_SECONDS) {
+      throw new AuthError(
+        "EXPIRY_TOO_FAR",
+        `Expiry must be within ${MAX_VALIDITY_SECONDS} seconds`,
+      );
+    }
+
+    const nonceKey = `${String(request.agentAddress).toLowerCase()}:${String(
+      request.nonce,
+    ).toLowerCase()}`;
+    // Claimed before the first await so a concurrent copy of this request
+    // finds it taken; given back if the request turns out to be invalid
+    if (!this.nonces.reserve(nonceKey, expiry)) {
+      throw new AuthError("NONCE_REPLAYED", "Nonce has already been used");
+    }
+    try {
+      await this.verifySignature(action, request, selector);
+    } catch (error) {
+      this.nonces.release(nonceKey);
+      throw error;
+    }
+  }
+
+  private async verifySignature(
+    action: SignedAction,
+    request: SignedRequest & Record<string, any>,
+    selector: PoolSelector,
+  ): Promise<void> {
+    const message: Record<string, any> = {};
+    for (const field of REQUEST_TYPES[action]) {
+      message[field.name] = request[field.name];
+    }
+
+    const domain = await this.getDomain(selector);
+    let signer: string;
+    try {
+      signer = ethers.verifyTypedData(
+        domain,
+        { [action]: REQUEST_TYPES[action] },
+        message,
+        request.signature,
+      );
+    } catch {
+      throw new AuthError("INVALID_SIGNATURE", "Malformed signed request");
+    }
+
+    if (signer.toLowerCase() !== String(request.agentAddress).toLowerCase()) {
+      throw new AuthError(
+        "INVALID_SIGNATURE",
+        "Signature does not match agentAddress",
+      );
+    }
+  }
+}
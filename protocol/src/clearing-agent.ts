@@ -5,60 +5,323 @@
  * Pattern from: aegis402/src/clearing-agent.ts
  *
  * Responsibilities:
- * - Onboard agents (query ERC-8004, calculate limit, call pool)
+ * - Onboard agents (score on-chain standing, calculate limit, call pool)
  * - Handle borrow requests
  * - Handle repayments (trigger limit growth)
- * - Monitor for freeze conditions
+ * - Monitor for freeze conditions (see delinquency-monitor.ts)
+ * - Index pool events for history queries (see indexer.ts)
+ * - Publish credit outcomes as ERC-8004 feedback (see reputation-publisher.ts)
+ * - Manual operator actions, recorded in the audit log (see audit-log.ts)
+ * - Dry runs: simulate a request's pool writes without sending or
+ *   persisting anything (see dry-run.ts)
+ * - Startup self-check and deep health (see health-check.ts)
+ * - Several pools, with per-pool or shared credit lines (see pools.ts)
+ * - Cross-chain borrow delivery through Bridge Kit (see delivery.ts)
  */
 
-import { ethers, Wallet, Provider } from "ethers";
-import { PoolClient } from "./pool-client";
-import { getReputationReader, ERC8004ReputationReader } from "./reputation";
-import { CredexConfig, AgentRecord, CredexResponse } from "./types";
+import { ethers, Provider, TypedDataDomain } from "ethers";
+import { createProvider, AddressedSigner } from "credex-shared";
+import { PoolClient, PoolWriteResult } from "./pool-client";
+import {
+  getReputationReader,
+  AgentIdMismatchError,
+  ERC8004ReputationReader,
+  ReputationUnavailableError,
+  blendRepFactor,
+  calculateRepFactor,
+  readERC8004,
+} from "./reputation";
+import { SqliteFeedbackStore } from "./feedback-store";
+import {
+  FeedbackAuthError,
+  ReputationPublisher,
+} from "./reputation-publisher";
+import { SqliteCreditEventStore } from "./credit-event-store";
+import { AuditLog, SqliteAuditLog } from "./audit-log";
+import { CREDEX_DOMAIN_NAME, CREDEX_DOMAIN_VERSION } from "./auth";
+import { AgentRepository, SqliteAgentRepository } from "./agent-store";
+import { CredexDatabase, openDatabase } from "./db";
+import { createCreditPolicy } from "./credit-policy";
+import { poolPolicy } from "./policy-config";
+import { DelinquencyMonitor } from "./delinquency-monitor";
+import { GrowthGuard, GROWTH_REASON } from "./growth-guard";
+import { ExposureGuard, ExposureLimitError } from "./exposure-guard";
+import { RiskChain, RiskEngine } from "./risk-engine";
+import { ERC8004ValidationReader, ValidationGate } from "./validation-gate";
+import { LimitExplainer } from "./limit-explainer";
+import { currentDryRun, dryRunRepository } from "./dry-run";
+import { pendingInterest, projectDebt } from "./interest";
+import { HistoryQuery, SqliteEventStore } from "./event-store";
+import { EventIndexer } from "./indexer";
+import { TransactionManager } from "./tx-manager";
+import {
+  HealthChecker,
+  HealthReport,
+  POOL_CHECKS,
+  STARTUP_CHECKS,
+} from "./health-check";
+import { SqlitePendingTxStore } from "./tx-store";
+import { SqliteDeliveryStore } from "./delivery-store";
+import {
+  BorrowDelivery,
+  DeliveryError,
+  formatDelivery,
+  resolveDestination,
+} from "./delivery";
+import {
+  ClearingPool,
+  CreditLine,
+  LimitMove,
+  MovedLimit,
+  PoolConnection,
+  PoolSelector,
+  allocateLimit,
+  planLimitMoves,
+  selectPool,
+  summarizeCreditLines,
+} from "./pools";
+import {
+  AgentOnChain,
+  CredexConfig,
+  CredexResponse,
+  DelinquencyDecision,
+  LimitChange,
+  PoolConfig,
+  PoolEvent,
+  RepFactorBreakdown,
+  ValidationStanding,
+} from "./types";
 
-// Credit limit constants (from PRD)
-const INITIAL_LIMIT_BASE = 5_000_000n; // 5 USDC base
-const GROWTH_FACTOR_BP = 110; // 1.1x (110%)
-const MAX_LIMIT = 10_000n * 1_000_000n; // 10,000 USDC cap
+// Raw pool totals summed across pools by getPoolStatus
+interface PoolFigures {
+  liquidity: bigint;
+  assets: bigint;
+  liveAssets: bigint;
+}
+
+// Limit change reason for unused limit moved between shared credit lines
+export const REBALANCE_REASON = "shared-rebalance";
 
 export class CredexClearing {
   private config: CredexConfig;
-  private provider: Provider;
-  private signer: Wallet;
-  private poolClient: PoolClient;
+  private signer: AddressedSigner;
+  private pools: ClearingPool[];
   private reputationReader: ERC8004ReputationReader;
-  private agents: Map<string, AgentRecord> = new Map();
+  private publisher: ReputationPublisher;
+  private delivery: BorrowDelivery;
+  private riskEngine: RiskEngine;
+  private validationGate: ValidationGate;
+  private auditLog: AuditLog;
 
-  constructor(config: CredexConfig) {
+  /**
+   * @param signer - clearing key from any backend (see credex-shared signer.ts)
+   * @param store - agent registry of the first pool (default: SQLite)
+   */
+  constructor(
+    config: CredexConfig,
+    signer: AddressedSigner,
+    store?: AgentRepository,
+  ) {
     this.config = config;
-    this.provider = new ethers.JsonRpcProvider(config.rpcUrl);
-    this.signer = new Wallet(config.privateKey, this.provider);
-    this.poolClient = new PoolClient(config.poolAddress, this.signer);
-    this.reputationReader = getReputationReader(this.provider);
+    this.signer = signer;
+    const db = openDatabase(config.dbPath);
+    const baseProvider = createProvider(config.baseRpcUrls, config.rpc);
+    this.reputationReader = getReputationReader(
+      baseProvider,
+      new SqliteFeedbackStore(db),
+      config.reputation,
+      config.policy.feedbackScoring,
+    );
+
+    const databases = new Map<string, CredexDatabase>([[config.dbPath, db]]);
+    const chains = new Map<number, PoolConnection>();
+    const connections = config.pools.map((pool, index) =>
+      this.connectPool(
+        pool,
+        databases,
+        chains,
+        index === 0 ? store : undefined,
+      ),
+    );
+
+    // Every chain once (summed signals would count a shared chain twice)
+    const riskChains: RiskChain[] = [...chains.values()].map((chain) => ({
+      name: chain.id,
+      provider: chain.provider,
+      usdcAddress: chain.usdcAddress,
+    }));
+    if (!chains.has(config.baseChainId)) {
+      riskChains.push({
+        name: "base-sepolia",
+        provider: baseProvider,
+        usdcAddress: config.baseUsdcAddress,
+      });
+    }
+    this.riskEngine = new RiskEngine(riskChains, config.policy.riskEngine, {
+      reputationReader: this.reputationReader,
+    });
+    this.publisher = new ReputationPublisher(
+      signer.connect(baseProvider),
+      new SqliteCreditEventStore(db),
+      connections[0].store,
+      this.reputationReader,
+      {
+        pools: connections.map((pool) => ({
+          address: pool.address,
+          provider: pool.provider,
+        })),
+        identityRegistry: config.reputation.identityRegistry,
+        reputationRegistry: config.reputation.reputationRegistry,
+        publicUrl: config.publicUrl,
+      },
+      config.policy.reputationPublisher,
+    );
+    this.auditLog = new SqliteAuditLog(db);
+    this.validationGate = new ValidationGate(
+      new ERC8004ValidationReader(
+        baseProvider,
+        config.reputation.validationRegistry,
+      ),
+      config.policy.validation,
+    );
+    this.pools = connections.map((connection) =>
+      this.createPool(connection, baseProvider),
+    );
+    const rpcUrls: Record<number, string[]> = {
+      [config.baseChainId]: config.baseRpcUrls,
+    };
+    for (const pool of config.pools) rpcUrls[pool.chainId] = pool.rpcUrls;
+    this.delivery = new BorrowDelivery(
+      new SqliteDeliveryStore(db),
+      this.pools,
+      signer,
+      rpcUrls,
+      config.rpc,
+      config.delivery,
+    );
 
     console.log(`🤖 CredexClearing initialized`);
     console.log(`   Agent Wallet: ${this.signer.address}`);
-    console.log(`   Pool Address: ${config.poolAddress}`);
+    for (const pool of this.pools) {
+      console.log(
+        `   Pool ${pool.id} (chain ${pool.chainId}): ${pool.address}, ${pool.policy.name} policy`,
+      );
+    }
+    if (this.pools.length > 1) {
+      console.log(`   Credit lines: ${config.policy.creditLines.mode}`);
+    }
+    if (config.dryRun) {
+      console.log(`   🧪 Dry-run mode: pool writes are simulated, never sent`);
+    }
+  }
+
+  /**
+   * Prepare persistent state before serving requests.
+   * The startup checks run first and any failure aborts the boot (unless
+   * disabled). Transactions left pending by a previous run are watched
+   * again (not in dry-run mode, where nothing may be resubmitted), and on
+   * first boot (empty registry) each pool's registry is rebuilt from chain.
+   */
+  async init(): Promise<void> {
+    if (this.config.health.startupChecks) {
+      const failed: string[] = [];
+      for (const pool of this.pools) {
+        const report = await pool.health.run(STARTUP_CHECKS);
+        HealthChecker.log(`Startup checks (${pool.id})`, report);
+        failed.push(
+          ...Object.entries(report.components)
+            .filter(([, result]) => result.status === "fail")
+            .map(([name]) => `${pool.id} ${name}`),
+        );
+      }
+      if (failed.length > 0) {
+        throw new Error(`Startup checks failed: ${failed.join(", ")}`);
+      }
+    }
+
+    if (!this.config.dryRun) {
+      for (const txManager of new Set(this.pools.map((p) => p.txManager))) {
+        await txManager.recover();
+      }
+    }
+
+    for (const pool of this.pools) {
+      const known = await pool.store.countAgents();
+      if (known > 0) {
+        console.log(`📚 Agent registry of ${pool.id} loaded (${known} agents)`);
+        continue;
+      }
+      await this.rebuildRegistryFromChain(pool);
+    }
+  }
+
+  /**
+   * Start / stop background services (delinquency monitors, event
+   * indexers, reputation publisher, borrow delivery). In dry-run mode
+   * only the read-only indexers run.
+   */
+  start(): void {
+    for (const pool of this.pools) pool.indexer.start();
+    if (this.config.dryRun) return;
+    for (const pool of this.pools) pool.monitor.start();
+    this.publisher.start();
+    void this.delivery.start();
+  }
+
+  stop(): void {
+    for (const pool of this.pools) {
+      pool.monitor.stop();
+      pool.indexer.stop();
+    }
+    this.publisher.stop();
+    this.delivery.stop();
+  }
+
+  /**
+   * Re-run every health check for GET /health/deep: everything for the
+   * first pool, the pool-specific checks for the others
+   */
+  async checkHealth(): Promise<HealthReport> {
+    const [first, ...others] = this.pools;
+    const reports = await Promise.all(
+      others.map(async (pool) => [pool.id, await pool.health.run(POOL_CHECKS)]),
+    );
+    return HealthChecker.combine(
+      await first.health.run(),
+      Object.fromEntries(reports),
+    );
+  }
+
+  /**
+   * Pool a request addresses (throws UnknownPoolError)
+   */
+  selectPool(selector: PoolSelector = {}): ClearingPool {
+    return selectPool(this.pools, selector);
   }
 
   /**
    * Handle agent onboarding
-   * 1. Query ERC-8004 for reputation
-   * 2. Calculate initial credit limit
-   * 3. Call pool.onboardAgent()
+   * 1. Score on-chain standing (risk engine, incl. ERC-8004 feedback)
+   * 2. Blend with calculateRepFactor over ERC-8004 history and freezes
+   * 3. Calculate initial credit limit, scaled by validation tier
+   * 4. Call pool.onboardAgent() (with shared credit lines: in every pool,
+   *    each with its allocation of the limit)
    */
   async handleOnboard(
     agentAddress: string,
     agentId: string,
+    selector: PoolSelector = {},
   ): Promise<CredexResponse> {
+    const pool = this.selectPool(selector);
     console.log(
-      `\n📥 Onboard request for ${agentAddress} (agentId: ${agentId})`,
+      `\n📥 Onboard request for ${agentAddress} (agentId: ${agentId}) in ${pool.id}`,
     );
 
     try {
       // Check if already onboarded
-      const existing = await this.poolClient.getAgent(agentAddress);
+      const existing = await pool.client.getAgent(agentAddress);
       if (existing.active) {
+        await pool.store.syncOnChain(agentAddress, existing);
         return {
           success: false,
           message: "Agent already onboarded",
@@ -69,45 +332,33 @@ export class CredexClearing {
         };
       }
 
-      // Query ERC-8004 for reputation
-      let repFactor = 1.0; // Default for new agents
-      try {
-        repFactor = await this.reputationReader.getRepFactorByAgentId(agentId);
-        console.log(
-          `   📊 Reputation factor from ERC-8004: ${repFactor.toFixed(2)}`,
-        );
-      } catch (error) {
-        console.log(
-          `   ⚠️ Could not fetch ERC-8004 reputation, using default: ${repFactor}`,
-        );
-      }
-
-      // Calculate initial credit limit
-      console.log(`   [DEBUG] INITIAL_LIMIT_BASE: ${INITIAL_LIMIT_BASE}`);
-      const initialLimit = this.calculateInitialLimit(repFactor);
-      console.log(
-        `   [DEBUG] Calculated initialLimit: ${initialLimit} (repFactor: ${repFactor})`,
-      );
+      const scored = await this.scoreAgent(pool, agentAddress, agentId);
+      const { risk, inputs, reputation, repFactor, validation, initialLimit } =
+        scored;
 
       console.log(
-        `   💰 Initial credit limit: ${ethers.formatUnits(initialLimit, 6)} USDC`,
+        `   💰 Initial credit limit: ${ethers.formatUnits(initialLimit, 6)} USDC (tier ${validation.tier.name})`,
       );
 
-      // Call pool contract
-      await this.poolClient.onboardAgent(agentAddress, initialLimit);
-
-      // Store in memory
-      this.agents.set(agentAddress.toLowerCase(), {
-        address: agentAddress,
-        agentId,
-        debt: 0n,
-        principal: 0n,
-        creditLimit: initialLimit,
-        lastAccrued: Date.now() / 1000,
-        lastRepayment: Date.now() / 1000,
-        frozen: false,
-        active: true,
-      });
+      // A shared line is split across every pool the agent isn't in yet
+      let limits = new Map([[pool.id, initialLimit]]);
+      if (this.isShared()) {
+        limits = allocateLimit(
+          initialLimit,
+          this.pools.map((candidate) => candidate.id),
+          this.config.policy.creditLines.allocationBp,
+          pool.id,
+        );
+      }
+      for (const target of this.pools) {
+        const limit = limits.get(target.id);
+        if (limit === undefined) continue;
+        if (target !== pool) {
+          const state = await target.client.getAgent(agentAddress);
+          if (state.active) continue;
+        }
+        await this.onboardInPool(target, agentAddress, agentId, limit, scored);
+      }
 
       return {
         success: true,
@@ -115,11 +366,32 @@ export class CredexClearing {
         data: {
           agentAddress,
           agentId,
-          creditLimit: ethers.formatUnits(initialLimit, 6),
+          pool: pool.id,
+          creditLimit: ethers.formatUnits(limits.get(pool.id) ?? 0n, 6),
           repFactor,
+          risk: {
+            score: Number(risk.score.toFixed(1)),
+            repFactor: risk.repFactor,
+            signals: risk.signals,
+          },
+          reputation: {
+            inputs,
+            factor: reputation.factor,
+            breakdown: reputation.breakdown,
+          },
+          blend: this.config.policy.reputationBlend,
+          validation: this.formatValidation(validation),
+          ...(await this.creditLinesData(agentAddress)),
         },
       };
     } catch (error) {
+      if (
+        error instanceof ReputationUnavailableError ||
+        error instanceof AgentIdMismatchError
+      ) {
+        console.log(`   🚫 Onboarding refused: ${error.message}`);
+        return { success: false, code: error.code, message: error.message };
+      }
       console.error(`❌ Onboard failed:`, error);
       return {
         success: false,
@@ -129,43 +401,139 @@ export class CredexClearing {
   }
 
   /**
-   * Handle borrow request
+   * Handle borrow request. With shared credit lines a borrow beyond the
+   * pool's unused limit moves unused limit over from the agent's other
+   * pools, once the policy and exposure guard have approved it. The pool
+   * only lends within its limit, so the move comes first and is undone
+   * if the borrow (or the move itself) fails.
+   * With deliverTo the funds are paid into the clearing wallet and bridged
+   * to the agent on that network (the debt stays in this pool).
    */
   async handleBorrow(
     agentAddress: string,
     amount: string,
+    selector: PoolSelector = {},
+    deliverTo?: string,
   ): Promise<CredexResponse> {
-    console.log(`\n📥 Borrow request: ${amount} USDC for ${agentAddress}`);
+    const pool = this.selectPool(selector);
+    console.log(
+      `\n📥 Borrow request: ${amount} USDC for ${agentAddress} in ${pool.id}${deliverTo ? `, delivered to ${deliverTo}` : ""}`,
+    );
 
     try {
       const amountWei = ethers.parseUnits(amount, 6);
+      const destination = deliverTo
+        ? resolveDestination(deliverTo, pool)
+        : null;
+      if (destination && !(await pool.client.supportsBorrowTo())) {
+        throw new DeliveryError(
+          `Pool ${pool.id} (${pool.client.address}) predates borrowTo and cannot deliver cross-chain; borrow without deliverTo`,
+          "DELIVERY_UNSUPPORTED",
+        );
+      }
 
       // Auto-onboard if not active
-      let agent = await this.ensureActiveAgent(agentAddress, "borrow");
+      let agent = await this.ensureActiveAgent(pool, agentAddress, "borrow");
 
       if (agent.frozen) {
         return { success: false, message: "Agent is frozen" };
       }
 
-      // Check limit
+      // Unused limit to pull in from the agent's other pools
+      let moves: LimitMove[] = [];
       const available = agent.creditLimit - agent.principal;
-      if (amountWei > available) {
+      if (this.isShared() && amountWei > available) {
+        const others = (await this.creditLines(agentAddress)).filter(
+          (line) => line.pool !== pool,
+        );
+        const frozenIn = others.find((line) => line.agent.frozen);
+        if (frozenIn) {
+          return {
+            success: false,
+            code: "BORROW_DECLINED",
+            message: `Agent is frozen in pool ${frozenIn.pool.id}`,
+          };
+        }
+        moves =
+          planLimitMoves(
+            others,
+            amountWei - (available > 0n ? available : 0n),
+          ) ?? [];
+      }
+      const moved = moves.reduce((sum, move) => sum + move.amount, 0n);
+
+      // Check limit (including any limit moved from the other pools)
+      const record = await pool.store.getAgent(agentAddress);
+      const decision = pool.policy.approveBorrow({
+        agentAddress,
+        amount: amountWei,
+        repFactor: record?.repFactor ?? null,
+        agent: { ...agent, creditLimit: agent.creditLimit + moved },
+      });
+      if (!decision.approved) {
         return {
           success: false,
-          message: `Insufficient credit. Available: ${ethers.formatUnits(available, 6)} USDC`,
+          code: "BORROW_DECLINED",
+          message: this.isShared()
+            ? `${decision.reason} (shared across ${this.pools.length} pools)`
+            : decision.reason,
         };
       }
 
-      // Execute borrow
-      await this.poolClient.borrow(agentAddress, amountWei);
+      // Check pool exposure (utilization, agent share, reserve)
+      pool.exposureGuard.check(agent, amountWei, {
+        totalAssets: await pool.client.getTotalAssets(),
+        totalLiquidity: await pool.client.getTotalLiquidity(),
+      });
+
+      // Execute borrow (into custody when it is delivered elsewhere)
+      const changed: MovedLimit[] = [];
+      let receipt: PoolWriteResult;
+      try {
+        if (moves.length > 0) {
+          await this.moveLimit(pool, agentAddress, agent, moves, changed);
+        }
+        receipt = destination
+          ? await pool.client.borrowTo(
+              agentAddress,
+              amountWei,
+              pool.signer.address,
+            )
+          : await pool.client.borrow(agentAddress, amountWei);
+      } catch (error) {
+        await this.restoreLimits(agentAddress, changed);
+        throw error;
+      }
+
+      // Bridge it over (a dry run stops at the custody transfer)
+      let delivery: Record<string, unknown> | null = null;
+      if (destination && currentDryRun()) {
+        delivery = { destination: destination.name, status: "simulated" };
+      } else if (destination) {
+        delivery = formatDelivery(
+          await this.delivery.create({
+            agentAddress,
+            source: pool,
+            destination,
+            amount: amountWei,
+            borrowTxHash: receipt.hash,
+          }),
+        );
+      }
 
       // Get updated state
-      const updated = await this.poolClient.getAgent(agentAddress);
+      const updated = await pool.client.getAgent(agentAddress);
+      await pool.store.syncOnChain(agentAddress, updated);
 
       return {
         success: true,
-        message: `Borrowed ${amount} USDC`,
+        message: !destination
+          ? `Borrowed ${amount} USDC`
+          : delivery?.error // could not be recorded
+            ? `Borrowed ${amount} USDC; delivery to ${destination.name} ${delivery.status}: ${delivery.error}`
+            : `Borrowed ${amount} USDC, delivering to ${destination.name}`,
         data: {
+          pool: pool.id,
           debt: ethers.formatUnits(updated.debt, 6),
           principal: ethers.formatUnits(updated.principal, 6),
           creditLimit: ethers.formatUnits(updated.creditLimit, 6),
@@ -173,9 +541,29 @@ export class CredexClearing {
             updated.creditLimit - updated.principal,
             6,
           ),
+          limitMoved: moves.map((move) => ({
+            from: move.pool.id,
+            amount: ethers.formatUnits(move.amount, 6),
+          })),
+          ...(delivery ? { delivery } : {}),
         },
       };
     } catch (error) {
+      if (error instanceof DeliveryError) {
+        return { success: false, code: error.code, message: error.message };
+      }
+      if (error instanceof ExposureLimitError) {
+        console.log(`   🚧 Borrow blocked by ${error.guard} guard`);
+        return {
+          success: false,
+          code: error.code,
+          message: error.message,
+          data: {
+            guard: error.guard,
+            maxBorrowable: ethers.formatUnits(error.maxBorrowable, 6),
+          },
+        };
+      }
       console.error(`❌ Borrow failed:`, error);
       return {
         success: false,
@@ -186,41 +574,121 @@ export class CredexClearing {
 
   /**
    * Handle repayment
-   * After repayment, increase credit limit by growth factor
+   * After repayment, grow the credit limit in proportion to the principal
+   * actually repaid (pre- vs post-repay on-chain state), subject to the
+   * growth guard's minimum, cooldown and rolling-window cap. (With shared
+   * credit lines the growth lands in this pool's share of the line.)
    */
   async handleRepay(
     agentAddress: string,
     amount: string,
+    selector: PoolSelector = {},
   ): Promise<CredexResponse> {
-    console.log(`\n📥 Repay request: ${amount} USDC from ${agentAddress}`);
+    const pool = this.selectPool(selector);
+    console.log(
+      `\n📥 Repay request: ${amount} USDC from ${agentAddress} in ${pool.id}`,
+    );
 
     try {
       const amountWei = ethers.parseUnits(amount, 6);
 
       // Auto-onboard if not active
-      let agent = await this.ensureActiveAgent(agentAddress, "repay");
+      let agent = await this.ensureActiveAgent(pool, agentAddress, "repay");
+
+      // In good standing before this repayment (for reputation feedback)
+      const before = await pool.store.syncOnChain(agentAddress, agent);
+      const onTime =
+        !agent.frozen &&
+        pool.monitor.evaluate(
+          agent,
+          await pool.monitor.chainTime(),
+          before.debtSince,
+        ).length === 0;
 
       // Execute repay
-      await this.poolClient.repay(agentAddress, amountWei);
+      const repayReceipt = await pool.client.repay(agentAddress, amountWei);
+      const repaid = await pool.client.getAgent(agentAddress);
+      const principalRepaid =
+        agent.principal > repaid.principal
+          ? agent.principal - repaid.principal
+          : 0n;
 
-      // Calculate new limit (growth factor)
-      const newLimit = this.calculateGrowthLimit(agent.creditLimit);
-      console.log(
-        `   📈 Growing limit to ${ethers.formatUnits(newLimit, 6)} USDC`,
+      // Calculate new limit (growth factor on principal repaid)
+      // and shaped by the agent's validation tier
+      const record = await pool.store.getAgent(agentAddress);
+      const validation = await this.validationGate.evaluate(
+        record?.agentId ?? null,
+      );
+      const proposedLimit = this.validationGate.limitAfterGrowth(
+        agent.creditLimit,
+        pool.policy.limitAfterRepayment({
+          agentAddress,
+          currentLimit: agent.creditLimit,
+          amountRepaid: amountWei,
+          principalRepaid,
+          repFactor: record?.repFactor ?? null,
+          agent: repaid,
+        }),
+        validation,
+      );
+
+      const now = Math.floor(Date.now() / 1000);
+      const verdict = await pool.growthGuard.check(
+        agentAddress,
+        principalRepaid,
+        proposedLimit - agent.creditLimit,
+        now,
       );
+      const newLimit = agent.creditLimit + verdict.granted;
+      if (verdict.reason) {
+        console.log(`   ⏸️ Limit growth limited: ${verdict.reason}`);
+      }
 
       // Update limit if it changed
       if (newLimit > agent.creditLimit) {
-        await this.poolClient.setCreditLimit(agentAddress, newLimit);
+        console.log(
+          `   📈 Growing limit to ${ethers.formatUnits(newLimit, 6)} USDC`,
+        );
+        const receipt = await pool.client.setCreditLimit(
+          agentAddress,
+          newLimit,
+        );
+        await pool.store.recordLimitChange({
+          address: agentAddress,
+          previousLimit: agent.creditLimit,
+          newLimit,
+          reason: GROWTH_REASON,
+          txHash: receipt.hash,
+          triggerTxHash: repayReceipt.hash,
+          note: verdict.reason,
+          timestamp: now,
+        });
       }
 
       // Get updated state
-      const updated = await this.poolClient.getAgent(agentAddress);
+      const updated = await pool.client.getAgent(agentAddress);
+      await pool.store.syncOnChain(agentAddress, updated);
+
+      // On-time full repayment earns positive ERC-8004 feedback
+      if (
+        onTime &&
+        updated.debt === 0n &&
+        agent.debt > 0n &&
+        !currentDryRun()
+      ) {
+        await this.publisher.enqueue("repaid", {
+          agentAddress,
+          pool: pool.address,
+          txHash: repayReceipt.hash,
+          amount: amountWei,
+        });
+      }
 
       return {
         success: true,
         message: `Repaid ${amount} USDC`,
         data: {
+          pool: pool.id,
           debt: ethers.formatUnits(updated.debt, 6),
           principal: ethers.formatUnits(updated.principal, 6),
           creditLimit: ethers.formatUnits(updated.creditLimit, 6),
@@ -228,6 +696,11 @@ export class CredexClearing {
             updated.creditLimit - updated.principal,
             6,
           ),
+          limitGrowth: {
+            principalRepaid: ethers.formatUnits(principalRepaid, 6),
+            granted: ethers.formatUnits(verdict.granted, 6),
+            reason: verdict.reason ?? null,
+          },
         },
       };
     } catch (error) {
@@ -242,15 +715,51 @@ export class CredexClearing {
   /**
    * Get agent status
    */
-  async getAgentStatus(agentAddress: string): Promise<CredexResponse> {
+  async getAgentStatus(
+    agentAddress: string,
+    selector: PoolSelector = {},
+  ): Promise<CredexResponse> {
+    const pool = this.selectPool(selector);
     try {
-      let agent = await this.ensureActiveAgent(agentAddress, "status check");
+      let agent = await this.ensureActiveAgent(
+        pool,
+        agentAddress,
+        "status check",
+      );
+      const record = await pool.store.syncOnChain(agentAddress, agent);
+      const limitHistory = await pool.store.getLimitHistory(agentAddress);
+      const decisions = await pool.store.getDelinquencyDecisions(agentAddress);
+      const now = await pool.monitor.chainTime();
+      const validation = await this.validationGate.evaluate(
+        record.agentId,
+        now,
+      );
+      const stored = await pool.client.getStoredAgent(agentAddress);
+      const interest = await pool.client.getInterestParams();
+      const live = projectDebt(stored, BigInt(now), interest);
+      const frozenByMonitor =
+        agent.frozen && (await pool.monitor.isFrozenByMonitor(agentAddress));
+      const limitDerivation = await pool.limitExplainer.explain({
+        record,
+        agent,
+        stored,
+        interest,
+        history: limitHistory,
+        validation,
+        frozenByMonitor,
+        now,
+      });
 
       return {
         success: true,
         data: {
           address: agentAddress,
+          pool: pool.id,
+          agentId: record.agentId,
+          repFactor: record.repFactor,
           debt: ethers.formatUnits(agent.debt, 6),
+          storedDebt: ethers.formatUnits(live.storedDebt, 6),
+          liveDebt: ethers.formatUnits(live.projectedDebt, 6),
           principal: ethers.formatUnits(agent.principal, 6),
           creditLimit: ethers.formatUnits(agent.creditLimit, 6),
           available: ethers.formatUnits(agent.creditLimit - agent.principal, 6),
@@ -258,6 +767,72 @@ export class CredexClearing {
           lastRepayment: new Date(
             Number(agent.lastRepayment) * 1000,
           ).toISOString(),
+          debtSince: record.debtSince
+            ? new Date(record.debtSince * 1000).toISOString()
+            : null,
+          onboardedAt: new Date(record.onboardedAt * 1000).toISOString(),
+          limitHistory: limitHistory.map((change) =>
+            this.formatLimitChange(change),
+          ),
+          delinquency: {
+            violations: pool.monitor.evaluate(agent, now, record.debtSince),
+            frozenByMonitor,
+            decisions: decisions.map((decision) =>
+              this.formatDecision(decision),
+            ),
+          },
+          validation: this.formatValidation(validation),
+          limitDerivation,
+          ...(await this.creditLinesData(agentAddress)),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Quote projected debt and exact payoff at a timestamp (default: now)
+   */
+  async getQuote(
+    agentAddress: string,
+    at?: number,
+    selector: PoolSelector = {},
+  ): Promise<CredexResponse> {
+    const pool = this.selectPool(selector);
+    try {
+      const stored = await pool.client.getStoredAgent(agentAddress);
+      if (!stored.active) {
+        return { success: false, message: "Agent not onboarded" };
+      }
+
+      const now = await pool.monitor.chainTime();
+      const quoteAt = BigInt(at ?? now);
+      const projection = projectDebt(
+        stored,
+        quoteAt,
+        await pool.client.getInterestParams(),
+      );
+
+      return {
+        success: true,
+        data: {
+          address: agentAddress,
+          pool: pool.id,
+          at: Number(quoteAt),
+          atIso: new Date(Number(quoteAt) * 1000).toISOString(),
+          principal: ethers.formatUnits(projection.principal, 6),
+          storedDebt: ethers.formatUnits(projection.storedDebt, 6),
+          pendingInterest: ethers.formatUnits(projection.pendingInterest, 6),
+          projectedDebt: ethers.formatUnits(projection.projectedDebt, 6),
+          payoff: ethers.formatUnits(projection.projectedDebt, 6),
+          payoffRaw: projection.projectedDebt.toString(),
+          intervalsElapsed: Number(projection.intervals),
+          lastAccrued: Number(stored.lastAccrued),
+          validUntil: Number(projection.nextAccrualAt) - 1,
         },
       };
     } catch (error) {
@@ -270,25 +845,78 @@ export class CredexClearing {
 
   /**
    * Get pool status
+   * totalAssets is as stored on chain; liveTotalAssets adds interest that
+   * has accrued since each agent's last write. Without a selector the
+   * first pool's figures stay at the top level, followed by every pool and
+   * the totals across pools (shares are per pool, so not summed).
    */
-  async getPoolStatus(): Promise<CredexResponse> {
+  async getPoolStatus(selector?: PoolSelector): Promise<CredexResponse> {
     try {
-      const liquidity = await this.poolClient.getTotalLiquidity();
-      const assets = await this.poolClient.getTotalAssets();
-      const shares = await this.poolClient.getTotalShares();
+      if (selector && (selector.pool || selector.chain)) {
+        const pool = this.selectPool(selector);
+        const { figures, ...status } = await this.poolStatus(pool);
+        return {
+          success: true,
+          data: { ...status, agentWallet: this.signer.address },
+        };
+      }
 
-      const sharePrice =
-        shares > 0n ? (assets * 10n ** 18n) / shares : 10n ** 18n;
+      const pools = await Promise.all(
+        this.pools.map((pool) => this.poolStatus(pool)),
+      );
+      const sum = (pick: (figures: PoolFigures) => bigint) =>
+        pools.reduce((total, pool) => total + pick(pool.figures), 0n);
+      const [first] = pools.map(({ figures, ...status }) => status);
 
       return {
         success: true,
         data: {
-          poolAddress: this.config.poolAddress,
-          totalLiquidity: ethers.formatUnits(liquidity, 6),
-          totalAssets: ethers.formatUnits(assets, 6),
-          totalShares: ethers.formatUnits(shares, 6),
-          exchangeRate: ethers.formatUnits(sharePrice, 18), // 1.00 means 1:1 par
+          ...first,
           agentWallet: this.signer.address,
+          pools: pools.map(({ figures, ...status }) => status),
+          totals: {
+            pools: pools.length,
+            totalLiquidity: ethers.formatUnits(
+              sum((figures) => figures.liquidity),
+              6,
+            ),
+            totalAssets: ethers.formatUnits(
+              sum((figures) => figures.assets),
+              6,
+            ),
+            liveTotalAssets: ethers.formatUnits(
+              sum((figures) => figures.liveAssets),
+              6,
+            ),
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Indexed pool events for one agent or liquidity provider, oldest first
+   */
+  async getAccountHistory(
+    address: string,
+    query: HistoryQuery = {},
+    selector: PoolSelector = {},
+  ): Promise<CredexResponse> {
+    const pool = this.selectPool(selector);
+    try {
+      const events = await pool.events.getAccountHistory(address, query);
+      return {
+        success: true,
+        data: {
+          address,
+          pool: pool.id,
+          events: events.map((event) => this.formatEvent(event)),
+          indexer: await pool.indexer.getStatus(),
         },
       };
     } catch (error) {
@@ -299,48 +927,1079 @@ export class CredexClearing {
     }
   }
 
+  /**
+   * Indexed pool events across all accounts, oldest first
+   */
+  async getPoolHistory(
+    query: HistoryQuery = {},
+    selector: PoolSelector = {},
+  ): Promise<CredexResponse> {
+    const pool = this.selectPool(selector);
+    try {
+      const events = await pool.events.getPoolHistory(query);
+      return {
+        success: true,
+        data: {
+          pool: pool.id,
+          poolAddress: pool.address,
+          events: events.map((event) => this.formatEvent(event)),
+          indexer: await pool.indexer.getStatus(),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Signed credit event document referenced by a feedback entry's fileuri
+   */
+  async getCreditEventDocument(id: string): Promise<string | null> {
+    return this.publisher.getDocument(id);
+  }
+
+  /**
+   * Terms an agent signs to let Credex post ERC-8004 feedback about it
+   */
+  async getFeedbackAuthTerms(agentId: string): Promise<CredexResponse> {
+    if (!/^[1-9]\d*$/.test(agentId)) {
+      return { success: false, message: "agentId must be a positive integer" };
+    }
+    return {
+      success: true,
+      data: await this.publisher.getFeedbackAuthTerms(BigInt(agentId)),
+    };
+  }
+
+  /**
+   * Check and keep an agent's signed feedbackAuth
+   */
+  async submitFeedbackAuth(feedbackAuth: string): Promise<CredexResponse> {
+    try {
+      const auth = await this.publisher.acceptFeedbackAuth(feedbackAuth);
+      return {
+        success: true,
+        message: `Feedback authorized for agent ${auth.agentId}`,
+        data: {
+          agentId: auth.agentId.toString(),
+          indexLimit: auth.indexLimit.toString(),
+          expiry: auth.expiry.toString(),
+        },
+      };
+    } catch (error) {
+      if (
+        error instanceof FeedbackAuthError ||
+        error instanceof ReputationUnavailableError
+      ) {
+        return { success: false, code: error.code, message: error.message };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * A cross-chain borrow delivery and the bridge steps it has gone through
+   */
+  async getDelivery(id: string): Promise<CredexResponse> {
+    const job = await this.delivery.get(id);
+    if (!job) {
+      return { success: false, message: "Unknown delivery" };
+    }
+    return { success: true, data: formatDelivery(job) };
+  }
+
+  // --- Admin operations (audited) ---
+
+  /**
+   * Registered agents with their last synced state, in the selected pool
+   * or (without a selector) in every pool
+   */
+  async adminListAgents(selector?: PoolSelector): Promise<CredexResponse> {
+    const pools =
+      selector && (selector.pool || selector.chain)
+        ? [this.selectPool(selector)]
+        : this.pools;
+    const agents = (
+      await Promise.all(
+        pools.map(async (pool) =>
+          (await pool.store.listAgents()).map((agent) => ({ pool, agent })),
+        ),
+      )
+    ).flat();
+    return {
+      success: true,
+      data: {
+        agents: agents.map(({ pool, agent }) => ({
+          pool: pool.id,
+          address: agent.address,
+          agentId: agent.agentId,
+          repFactor: agent.repFactor,
+          debt: ethers.formatUnits(agent.debt, 6),
+          principal: ethers.formatUnits(agent.principal, 6),
+          creditLimit: ethers.formatUnits(agent.creditLimit, 6),
+          frozen: agent.frozen,
+          active: agent.active,
+          onboardedAt: new Date(agent.onboardedAt * 1000).toISOString(),
+          lastSyncedAt: new Date(agent.lastSyncedAt * 1000).toISOString(),
+        })),
+      },
+    };
+  }
+
+  /**
+   * Freeze an agent. Not recorded as a monitor decision, so the
+   * delinquency monitor will not lift it.
+   */
+  async adminFreeze(
+    agentAddress: string,
+    reason: string,
+    actor: string,
+    selector: PoolSelector = {},
+  ): Promise<CredexResponse> {
+    const pool = this.selectPool(selector);
+    const params = { pool: pool.id };
+    return this.audited(
+      actor,
+      "freeze",
+      agentAddress,
+      reason,
+      params,
+      async () => {
+        const agent = await pool.client.getAgent(agentAddress);
+        if (!agent.active)
+          return { success: false, message: "Agent not onboarded" };
+        if (agent.frozen)
+          return { success: false, message: "Agent already frozen" };
+
+        console.log(
+          `\n🛑 Admin freeze of ${agentAddress} in ${pool.id}: ${reason}`,
+        );
+        const receipt = await pool.client.freeze(agentAddress);
+        await pool.store.syncOnChain(
+          agentAddress,
+          await pool.client.getAgent(agentAddress),
+        );
+        return {
+          success: true,
+          message: "Agent frozen",
+          data: { txHash: receipt.hash },
+        };
+      },
+    );
+  }
+
+  /**
+   * Unfreeze an agent, including one the delinquency monitor froze
+   * (the monitor re-freezes it if a rule is still broken)
+   */
+  async adminUnfreeze(
+    agentAddress: string,
+    reason: string,
+    actor: string,
+    selector: PoolSelector = {},
+  ): Promise<CredexResponse> {
+    const pool = this.selectPool(selector);
+    return this.audited(
+      actor,
+      "unfreeze",
+      agentAddress,
+      reason,
+      { pool: pool.id },
+      async () => {
+        const agent = await pool.client.getAgent(agentAddress);
+        if (!agent.frozen) {
+          return { success: false, message: "Agent is not frozen" };
+        }
+
+        console.log(
+          `\n🟢 Admin unfreeze of ${agentAddress} in ${pool.id}: ${reason}`,
+        );
+        const receipt = await pool.client.unfreeze(agentAddress);
+        await pool.store.recordDelinquencyDecision({
+          address: agentAddress,
+          action: "unfreeze",
+          reasons: [`Admin override: ${reason}`],
+          txHash: receipt.hash,
+          timestamp: await pool.monitor.chainTime(),
+        });
+        await pool.store.syncOnChain(
+          agentAddress,
+          await pool.client.getAgent(agentAddress),
+        );
+        return {
+          success: true,
+          message: "Agent unfrozen",
+          data: { txHash: receipt.hash },
+        };
+      },
+    );
+  }
+
+  /**
+   * Override an agent's credit limit. A limit below the principal the
+   * agent owes needs force.
+   */
+  async adminSetLimit(
+    agentAddress: string,
+    limit: string,
+    reason: string,
+    actor: string,
+    selector: PoolSelector = {},
+    force = false,
+  ): Promise<CredexResponse> {
+    const pool = this.selectPool(selector);
+    return this.audited(
+      actor,
+      "set-limit",
+      agentAddress,
+      reason,
+      { limit, pool: pool.id, ...(force ? { force } : {}) },
+      async () => {
+        const newLimit = ethers.parseUnits(limit, 6);
+        const agent = await pool.client.getAgent(agentAddress);
+        if (!agent.active) {
+          return { success: false, message: "Agent not onboarded" };
+        }
+        if (newLimit < agent.principal && !force) {
+          return {
+            success: false,
+            code: "LIMIT_BELOW_PRINCIPAL",
+            message: `Limit ${limit} USDC is below the ${ethers.formatUnits(agent.principal, 6)} USDC principal owed; set force to apply it anyway`,
+          };
+        }
+
+        console.log(
+          `\n✏️ Admin limit override for ${agentAddress} in ${pool.id}: ${ethers.formatUnits(agent.creditLimit, 6)} -> ${limit} USDC (${reason})`,
+        );
+        const receipt = await pool.client.setCreditLimit(
+          agentAddress,
+          newLimit,
+        );
+        await pool.store.recordLimitChange({
+          address: agentAddress,
+          previousLimit: agent.creditLimit,
+          newLimit,
+          reason: "admin-override",
+          txHash: receipt.hash,
+          note: reason,
+          timestamp: await pool.monitor.chainTime(),
+        });
+        await pool.store.syncOnChain(
+          agentAddress,
+          await pool.client.getAgent(agentAddress),
+        );
+        return {
+          success: true,
+          message: `Credit limit set to ${limit} USDC`,
+          data: {
+            previousLimit: ethers.formatUnits(agent.creditLimit, 6),
+            creditLimit: limit,
+            txHash: receipt.hash,
+          },
+        };
+      },
+    );
+  }
+
+  /**
+   * Declare an agent's outstanding debt lost: freeze the agent (if it
+   * isn't already) and publish a write-off credit event. The pool keeps
+   * the debt on the books; a later repayment still counts.
+   */
+  async adminWriteOff(
+    agentAddress: string,
+    reason: string,
+    actor: string,
+    selector: PoolSelector = {},
+  ): Promise<CredexResponse> {
+    const pool = this.selectPool(selector);
+    return this.audited(
+      actor,
+      "write-off",
+      agentAddress,
+      reason,
+      { pool: pool.id },
+      async () => {
+        const agent = await pool.client.getAgent(agentAddress);
+        if (!agent.active) {
+          return { success: false, message: "Agent not onboarded" };
+        }
+        if (agent.debt === 0n) {
+          return { success: false, message: "Agent has no debt to write off" };
+        }
+
+        console.log(
+          `
+🪦 Admin write-off of ${ethers.formatUnits(agent.debt, 6)} USDC owed by ${agentAddress} in ${pool.id}: ${reason}`,
+        );
+        let txHash: string | null = null;
+        if (!agent.frozen) {
+          txHash = (await pool.client.freeze(agentAddress)).hash;
+        }
+        // Recorded even over a monitor freeze: the monitor only lifts
+        // freezes whose latest decision is its own
+        await pool.store.recordDelinquencyDecision({
+          address: agentAddress,
+          action: "write-off",
+          reasons: [`Written off: ${reason}`],
+          txHash: txHash ?? undefined,
+          timestamp: await pool.monitor.chainTime(),
+        });
+        await pool.store.syncOnChain(
+          agentAddress,
+          await pool.client.getAgent(agentAddress),
+        );
+
+        const event = currentDryRun()
+          ? null
+          : await this.publisher.enqueue("write-off", {
+              agentAddress,
+              pool: pool.address,
+              txHash: txHash ?? undefined,
+              amount: agent.debt,
+              reasons: [reason],
+            });
+        return {
+          success: true,
+          message: `Wrote off ${ethers.formatUnits(agent.debt, 6)} USDC`,
+          data: {
+            writtenOff: ethers.formatUnits(agent.debt, 6),
+            txHash,
+            creditEvent: event
+              ? { id: event.event.id, status: event.status }
+              : null,
+          },
+        };
+      },
+    );
+  }
+
+  /**
+   * Re-run onboarding scoring and store the new repFactor (used by later
+   * limit growth). The limit itself is left alone; the response shows
+   * what onboarding would grant today so an operator can apply it.
+   */
+  async adminRescore(
+    agentAddress: string,
+    reason: string,
+    actor: string,
+    selector: PoolSelector = {},
+  ): Promise<CredexResponse> {
+    const pool = this.selectPool(selector);
+    return this.audited(
+      actor,
+      "rescore",
+      agentAddress,
+      reason,
+      { pool: pool.id },
+      async () => {
+        const record = await pool.store.getAgent(agentAddress);
+        if (!record) {
+          return { success: false, message: "Agent not in registry" };
+        }
+
+        console.log(
+          `\n🔁 Admin re-score of ${agentAddress} in ${pool.id}: ${reason}`,
+        );
+        const scored = await this.scoreAgent(
+          pool,
+          agentAddress,
+          record.agentId,
+        );
+        await pool.store.saveAgent({
+          ...record,
+          repFactor: scored.repFactor,
+          repBreakdown: scored.breakdown,
+        });
+
+        return {
+          success: true,
+          message: "Agent re-scored",
+          data: {
+            previousRepFactor: record.repFactor,
+            repFactor: scored.repFactor,
+            creditLimit: ethers.formatUnits(record.creditLimit, 6),
+            onboardingLimitNow: ethers.formatUnits(scored.initialLimit, 6),
+            risk: {
+              score: Number(scored.risk.score.toFixed(1)),
+              repFactor: scored.risk.repFactor,
+            },
+            reputationFactor: scored.reputation.factor,
+            validation: this.formatValidation(scored.validation),
+          },
+        };
+      },
+    );
+  }
+
+  /**
+   * Audit log entries oldest first (for export)
+   */
+  async getAuditLog(
+    afterSeq?: number,
+    limit?: number,
+  ): Promise<CredexResponse> {
+    return {
+      success: true,
+      data: { entries: await this.auditLog.list({ afterSeq, limit }) },
+    };
+  }
+
+  async verifyAuditLog(): Promise<CredexResponse> {
+    const verification = await this.auditLog.verify();
+    return { success: verification.valid, data: verification };
+  }
+
   // --- Private helpers ---
 
+  /**
+   * Chain access and state for one pool. Pools on a chain already
+   * connected reuse its provider, signer and transaction manager; each
+   * pool database is opened once.
+   */
+  private connectPool(
+    pool: PoolConfig,
+    databases: Map<string, CredexDatabase>,
+    chains: Map<number, PoolConnection>,
+    store?: AgentRepository,
+  ): PoolConnection {
+    let db = databases.get(pool.dbPath);
+    if (!db) {
+      db = openDatabase(pool.dbPath);
+      databases.set(pool.dbPath, db);
+    }
+
+    let chain = chains.get(pool.chainId);
+    if (!chain) {
+      const provider = createProvider(pool.rpcUrls, this.config.rpc);
+      const signer = this.signer.connect(provider);
+      const txManager = new TransactionManager(
+        signer,
+        new SqlitePendingTxStore(db),
+        this.config.txManager,
+      );
+      chain = this.poolState(pool, db, provider, signer, txManager, store);
+      chains.set(pool.chainId, chain);
+      return chain;
+    }
+    return this.poolState(
+      pool,
+      db,
+      chain.provider,
+      chain.signer,
+      chain.txManager,
+      store,
+    );
+  }
+
+  private poolState(
+    pool: PoolConfig,
+    db: CredexDatabase,
+    provider: Provider,
+    signer: AddressedSigner,
+    txManager: TransactionManager,
+    store?: AgentRepository,
+  ): PoolConnection {
+    const events = new SqliteEventStore(db);
+    return {
+      id: pool.id,
+      chainId: pool.chainId,
+      address: pool.poolAddress,
+      usdcAddress: pool.usdcAddress,
+      deployBlock: pool.deployBlock,
+      provider,
+      signer,
+      txManager,
+      client: new PoolClient(
+        pool.poolAddress,
+        signer,
+        txManager,
+        this.config.dryRun,
+      ),
+      store: dryRunRepository(store ?? new SqliteAgentRepository(db), pool.id),
+      events,
+      indexer: new EventIndexer(
+        provider,
+        pool.poolAddress,
+        events,
+        pool.deployBlock,
+        this.config.indexer,
+      ),
+    };
+  }
+
+  /**
+   * Policy, guards, monitor and health checks of one pool
+   */
+  private createPool(
+    connection: PoolConnection,
+    baseProvider: Provider,
+  ): ClearingPool {
+    const rules = poolPolicy(this.config.policy, connection.id);
+    const policy = createCreditPolicy(rules.creditPolicy);
+    const monitor = new DelinquencyMonitor(
+      connection.client,
+      connection.provider,
+      connection.store,
+      policy,
+      rules.delinquency,
+      this.publisher,
+    );
+    const growthGuard = new GrowthGuard(connection.store, rules.growthGuards);
+    return {
+      ...connection,
+      rules,
+      policy,
+      monitor,
+      growthGuard,
+      exposureGuard: new ExposureGuard(rules.exposure),
+      limitExplainer: new LimitExplainer(
+        policy,
+        growthGuard,
+        this.validationGate,
+        monitor,
+      ),
+      health: new HealthChecker(
+        {
+          chainId: connection.chainId,
+          provider: connection.provider,
+          baseProvider,
+          signer: connection.signer,
+          poolClient: connection.client,
+          usdcAddress: connection.usdcAddress,
+          indexer: connection.indexer,
+          publisher: this.publisher,
+          dryRun: this.config.dryRun,
+        },
+        this.config.health,
+      ),
+    };
+  }
+
+  private isShared(): boolean {
+    return (
+      this.pools.length > 1 && this.config.policy.creditLines.mode === "shared"
+    );
+  }
+
+  /**
+   * The agent's on-chain standing in every pool it is active in
+   */
+  private async creditLines(agentAddress: string): Promise<CreditLine[]> {
+    const lines = await Promise.all(
+      this.pools.map(async (pool) => ({
+        pool,
+        agent: await pool.client.getAgent(agentAddress),
+      })),
+    );
+    return lines.filter((line) => line.agent.active);
+  }
+
+  /**
+   * creditLines field of a response (only when there are several pools)
+   */
+  private async creditLinesData(agentAddress: string) {
+    if (this.pools.length < 2) return {};
+    return {
+      creditLines: {
+        mode: this.config.policy.creditLines.mode,
+        ...summarizeCreditLines(await this.creditLines(agentAddress)),
+      },
+    };
+  }
+
+  /**
+   * Onboard a scored agent in one pool and record it in that registry
+   */
+  private async onboardInPool(
+    pool: ClearingPool,
+    agentAddress: string,
+    agentId: string,
+    limit: bigint,
+    scored: { repFactor: number; breakdown: RepFactorBreakdown },
+  ): Promise<void> {
+    const receipt = await pool.client.onboardAgent(agentAddress, limit);
+
+    const onChain = await pool.client.getAgent(agentAddress);
+    const record = await pool.store.syncOnChain(agentAddress, onChain);
+    await pool.store.saveAgent({
+      ...record,
+      agentId,
+      repFactor: scored.repFactor,
+      repBreakdown: scored.breakdown,
+    });
+    await pool.store.recordLimitChange({
+      address: agentAddress,
+      previousLimit: 0n,
+      newLimit: limit,
+      reason: "onboard",
+      txHash: receipt.hash,
+      note: this.isShared() ? "share of the shared credit line" : undefined,
+      timestamp: record.lastSyncedAt,
+    });
+  }
+
+  /**
+   * Move unused limit from the agent's other pools into `pool`. The other
+   * limits are lowered first, so the shared total never exceeds what was
+   * granted even if a later step fails.
+   */
+  private async moveLimit(
+    pool: ClearingPool,
+    agentAddress: string,
+    agent: AgentOnChain,
+    moves: LimitMove[],
+    changed: MovedLimit[],
+  ): Promise<void> {
+    let moved = 0n;
+    for (const move of moves) {
+      const newLimit = move.agent.creditLimit - move.amount;
+      console.log(
+        `   🔀 Moving ${ethers.formatUnits(move.amount, 6)} USDC of limit from ${move.pool.id}`,
+      );
+      const receipt = await move.pool.client.setCreditLimit(
+        agentAddress,
+        newLimit,
+      );
+      changed.push({
+        pool: move.pool,
+        previousLimit: move.agent.creditLimit,
+        newLimit,
+      });
+      await move.pool.store.recordLimitChange({
+        address: agentAddress,
+        previousLimit: move.agent.creditLimit,
+        newLimit,
+        reason: REBALANCE_REASON,
+        txHash: receipt.hash,
+        note: `moved to ${pool.id}`,
+        timestamp: await move.pool.monitor.chainTime(),
+      });
+      await move.pool.store.syncOnChain(
+        agentAddress,
+        await move.pool.client.getAgent(agentAddress),
+      );
+      moved += move.amount;
+    }
+
+    const newLimit = agent.creditLimit + moved;
+    const receipt = await pool.client.setCreditLimit(agentAddress, newLimit);
+    changed.push({ pool, previousLimit: agent.creditLimit, newLimit });
+    await pool.store.recordLimitChange({
+      address: agentAddress,
+      previousLimit: agent.creditLimit,
+      newLimit,
+      reason: REBALANCE_REASON,
+      txHash: receipt.hash,
+      note: `moved from ${moves.map((move) => move.pool.id).join(", ")}`,
+      timestamp: await pool.monitor.chainTime(),
+    });
+  }
+
+  /**
+   * Put back limits moved for a borrow that failed, newest first. A limit
+   * that can't be restored is logged and left for an operator; the
+   * borrow's own error is what the caller reports.
+   */
+  private async restoreLimits(
+    agentAddress: string,
+    changed: MovedLimit[],
+  ): Promise<void> {
+    for (const change of [...changed].reverse()) {
+      const { pool, previousLimit, newLimit } = change;
+      try {
+        console.log(
+          `   ↩️ Restoring ${agentAddress}'s limit in ${pool.id} to ${ethers.formatUnits(previousLimit, 6)} USDC`,
+        );
+        const receipt = await pool.client.setCreditLimit(
+          agentAddress,
+          previousLimit,
+        );
+        await pool.store.recordLimitChange({
+          address: agentAddress,
+          previousLimit: newLimit,
+          newLimit: previousLimit,
+          reason: REBALANCE_REASON,
+          txHash: receipt.hash,
+          note: "restored after a failed borrow",
+          timestamp: await pool.monitor.chainTime(),
+        });
+        await pool.store.syncOnChain(
+          agentAddress,
+          await pool.client.getAgent(agentAddress),
+        );
+      } catch (error) {
+        console.error(
+          `❌ Could not restore ${agentAddress}'s limit in ${pool.id} to ${ethers.formatUnits(previousLimit, 6)} USDC (now ${ethers.formatUnits(newLimit, 6)}):`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Times we froze the agent, in any pool (reputation slash count)
+   */
+  private async countFreezes(agentAddress: string): Promise<number> {
+    const counts = await Promise.all(
+      this.pools.map((pool) => pool.events.countEvents(agentAddress, "Frozen")),
+    );
+    return counts.reduce((sum, count) => sum + count, 0);
+  }
+
+  /**
+   * Status of one pool for GET /pool, with the raw figures for totals
+   */
+  private async poolStatus(pool: ClearingPool) {
+    const liquidity = await pool.client.getTotalLiquidity();
+    const assets = await pool.client.getTotalAssets();
+    const shares = await pool.client.getTotalShares();
+    const liveAssets = assets + (await this.totalPendingInterest(pool));
+
+    const sharePrice =
+      shares > 0n ? (assets * 10n ** 18n) / shares : 10n ** 18n;
+    const liveSharePrice =
+      shares > 0n ? (liveAssets * 10n ** 18n) / shares : 10n ** 18n;
+
+    return {
+      id: pool.id,
+      chainId: pool.chainId,
+      poolAddress: pool.address,
+      totalLiquidity: ethers.formatUnits(liquidity, 6),
+      totalAssets: ethers.formatUnits(assets, 6),
+      liveTotalAssets: ethers.formatUnits(liveAssets, 6),
+      totalShares: ethers.formatUnits(shares, 6),
+      exchangeRate: ethers.formatUnits(sharePrice, 18), // 1.00 means 1:1 par
+      liveExchangeRate: ethers.formatUnits(liveSharePrice, 18),
+      figures: { liquidity, assets, liveAssets } as PoolFigures,
+    };
+  }
+
+  /**
+   * Score an agent and the initial limit the policy would grant now:
+   * risk engine blended with reputation history (identity age, feedback,
+   * our freezes in any pool), then scaled by validation tier, with the
+   * pool's credit policy. The agentId must be registered to agentAddress
+   * (AgentIdMismatchError), so nobody scores on another agent's record.
+   */
+  private async scoreAgent(
+    pool: ClearingPool,
+    agentAddress: string,
+    agentId: string,
+  ) {
+    await this.reputationReader.verifyAgentId(agentAddress, agentId);
+
+    const risk = await this.riskEngine.assess({
+      address: agentAddress,
+      agentId,
+    });
+
+    const inputs = await readERC8004(agentAddress, this.reputationReader, {
+      agentId,
+      slashCount: await this.countFreezes(agentAddress),
+    });
+    const reputation = calculateRepFactor(inputs);
+    const repFactor = blendRepFactor(
+      risk.repFactor,
+      reputation.factor,
+      this.config.policy.reputationBlend,
+    );
+    console.log(
+      `   📊 repFactor ${repFactor.toFixed(2)} (risk engine ${risk.repFactor.toFixed(2)}, history ${reputation.factor.toFixed(2)})`,
+    );
+
+    const validation = await this.validationGate.evaluate(agentId);
+    const policyLimit = pool.policy.initialLimit({
+      agentAddress,
+      agentId,
+      repFactor,
+    });
+    const initialLimit = this.validationGate.initialLimit(
+      policyLimit,
+      validation,
+    );
+
+    const breakdown: RepFactorBreakdown = {
+      repFactor,
+      riskEngine: {
+        score: Number(risk.score.toFixed(1)),
+        repFactor: risk.repFactor,
+        signals: risk.signals.map(({ name, weight, score }) => ({
+          name,
+          weight,
+          score,
+        })),
+      },
+      reputation: {
+        factor: reputation.factor,
+        inputs,
+        breakdown: reputation.breakdown,
+      },
+      blend: this.config.policy.reputationBlend,
+      policyLimit: ethers.formatUnits(policyLimit, 6),
+      tier: validation.tier.name,
+      initialLimit: ethers.formatUnits(initialLimit, 6),
+      scoredAt: Math.floor(Date.now() / 1000),
+    };
+
+    return {
+      risk,
+      inputs,
+      reputation,
+      repFactor,
+      validation,
+      initialLimit,
+      breakdown,
+    };
+  }
+
+  /**
+   * Run an admin action and append its outcome (including failures) to
+   * the audit log. The entry's seq and hash are returned with the result.
+   */
+  private async audited(
+    actor: string,
+    action: string,
+    target: string | null,
+    reason: string,
+    params: Record<string, unknown>,
+    run: () => Promise<CredexResponse>,
+  ): Promise<CredexResponse> {
+    if (!reason || !reason.trim()) {
+      return {
+        success: false,
+        code: "REASON_REQUIRED",
+        message: "A reason is required for admin actions",
+      };
+    }
+
+    let result: CredexResponse;
+    try {
+      result = await run();
+    } catch (error) {
+      if (
+        error instanceof ReputationUnavailableError ||
+        error instanceof AgentIdMismatchError
+      ) {
+        result = { success: false, code: error.code, message: error.message };
+      } else {
+        console.error(`❌ Admin ${action} failed:`, error);
+        result = {
+          success: false,
+          message: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+
+    // A dry run changes nothing, so there is nothing to audit
+    if (currentDryRun()) return result;
+
+    const entry = await this.auditLog.append({
+      actor,
+      action,
+      target,
+      reason: reason.trim(),
+      params,
+      result: {
+        success: result.success,
+        code: result.code ?? null,
+        message: result.message ?? null,
+        txHash: result.data?.txHash ?? null,
+      },
+    });
+    console.log(`   🧾 Audit #${entry.seq} ${action} by ${actor}`);
+
+    return {
+      ...result,
+      data: { ...result.data, audit: { seq: entry.seq, hash: entry.hash } },
+    };
+  }
+
+  /**
+   * Interest accrued across all registered agents but not yet written
+   */
+  private async totalPendingInterest(pool: ClearingPool): Promise<bigint> {
+    const params = await pool.client.getInterestParams();
+    const now = BigInt(await pool.monitor.chainTime());
+    const agents = await pool.store.listAgents();
+
+    const pending = await Promise.all(
+      agents
+        .filter((agent) => agent.active)
+        .map(async (agent) =>
+          pendingInterest(
+            await pool.client.getStoredAgent(agent.address),
+            now,
+            params,
+          ),
+        ),
+    );
+    return pending.reduce((sum, interest) => sum + interest, 0n);
+  }
+
   /**
    * Ensure an agent is active on-chain, silently onboarding if necessary.
    * Returns fresh agent state from the pool.
    */
   private async ensureActiveAgent(
+    pool: ClearingPool,
     agentAddress: string,
     context: string,
-  ): Promise<any> {
-    let agent = await this.poolClient.getAgent(agentAddress);
+  ): Promise<AgentOnChain> {
+    let agent = await pool.client.getAgent(agentAddress);
 
     if (!agent.active) {
       console.log(`   ✨ Auto-onboarding ${agentAddress} during ${context}`);
-      const onboardRes = await this.handleOnboard(agentAddress, "0");
+      const onboardRes = await this.handleOnboard(agentAddress, "0", {
+        pool: pool.id,
+      });
       if (!onboardRes.success) {
         throw new Error(`Auto-onboarding failed: ${onboardRes.message}`);
       }
 
       // Wait a moment for state to be indexed/available
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+      if (!currentDryRun()) {
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+      }
 
       // Refresh agent state
-      agent = await this.poolClient.getAgent(agentAddress);
+      agent = await pool.client.getAgent(agentAddress);
     }
 
     return agent;
   }
 
-  private calculateInitialLimit(repFactor: number): bigint {
-    // initialLimit = BASE * repFactor
-    const factor = BigInt(Math.floor(repFactor * 100));
-    return (INITIAL_LIMIT_BASE * factor) / 100n;
+  /**
+   * Rebuild the registry from pool events: every AgentOnboarded agent gets
+   * an entry with its current on-chain state, and its limit history is
+   * replayed from CreditLimitUpdated. agentId and repFactor are not on
+   * chain, so they are left unknown.
+   */
+  private async rebuildRegistryFromChain(pool: ClearingPool): Promise<void> {
+    console.log(
+      `🔄 Rebuilding agent registry of ${pool.id} from chain (from block ${pool.deployBlock})`,
+    );
+
+    const onboarded = await pool.client.queryEvents(
+      "AgentOnboarded",
+      pool.deployBlock,
+    );
+    const limitUpdates = await pool.client.queryEvents(
+      "CreditLimitUpdated",
+      pool.deployBlock,
+    );
+
+    for (const event of onboarded) {
+      const address: string = event.args[0];
+      const initialLimit: bigint = event.args[1];
+      const block = await event.getBlock();
+
+      const onChain = await pool.client.getAgent(address);
+      const record = await pool.store.syncOnChain(address, onChain);
+      await pool.store.saveAgent({ ...record, onboardedAt: block.timestamp });
+      await pool.store.recordLimitChange({
+        address,
+        previousLimit: 0n,
+        newLimit: initialLimit,
+        reason: "onboard",
+        txHash: event.transactionHash,
+        timestamp: block.timestamp,
+      });
+
+      let previousLimit = initialLimit;
+      for (const update of limitUpdates) {
+        if (update.args[0].toLowerCase() !== address.toLowerCase()) continue;
+        const updateBlock = await update.getBlock();
+        await pool.store.recordLimitChange({
+          address,
+          previousLimit,
+          newLimit: update.args[1],
+          reason: "chain-rebuild",
+          txHash: update.transactionHash,
+          timestamp: updateBlock.timestamp,
+        });
+        previousLimit = update.args[1];
+      }
+    }
+
+    console.log(
+      `✅ Registry of ${pool.id} rebuilt with ${onboarded.length} agents`,
+    );
+  }
+
+  private formatLimitChange(change: LimitChange) {
+    return {
+      previousLimit: ethers.formatUnits(change.previousLimit, 6),
+      newLimit: ethers.formatUnits(change.newLimit, 6),
+      reason: change.reason,
+      txHash: change.txHash ?? null,
+      triggerTxHash: change.triggerTxHash ?? null,
+      note: change.note ?? null,
+      at: new Date(change.timestamp * 1000).toISOString(),
+    };
+  }
+
+  // Every non-account pool event argument is a 6-decimal amount, except
+  // the BorrowedTo recipient
+  private formatEvent(event: PoolEvent) {
+    const args: Record<string, string> = {};
+    for (const [name, value] of Object.entries(event.args)) {
+      args[name] = ethers.isAddress(value)
+        ? value
+        : ethers.formatUnits(BigInt(value), 6);
+    }
+    return {
+      event: event.event,
+      account: event.account,
+      ...args,
+      blockNumber: event.blockNumber,
+      txHash: event.txHash,
+      logIndex: event.logIndex,
+      at: new Date(event.timestamp * 1000).toISOString(),
+    };
+  }
+
+  private formatDecision(decision: DelinquencyDecision) {
+    return {
+      action: decision.action,
+      reasons: decision.reasons,
+      txHash: decision.txHash ?? null,
+      at: new Date(decision.timestamp * 1000).toISOString(),
+    };
   }
 
-  private calculateGrowthLimit(currentLimit: bigint): bigint {
-    // newLimit = min(currentLimit * 1.1, MAX_LIMIT)
-    const grown = (currentLimit * BigInt(GROWTH_FACTOR_BP)) / 100n;
-    return grown > MAX_LIMIT ? MAX_LIMIT : grown;
+  private formatValidation(standing: ValidationStanding) {
+    return {
+      tier: standing.tier.name,
+      limitBp: standing.tier.limitBp,
+      maxLimit: standing.tier.maxLimit ?? null,
+      validations: standing.validations.filter((v) => v.lastUpdate > 0).length,
+      nextTier: standing.nextTier,
+      error: standing.error ?? null,
+    };
   }
 
   getAgentAddress(): string {
     return this.signer.address;
   }
+
+  /**
+   * EIP-712 domain that agents sign requests against: the selected pool's
+   * chain and address, so a signature only counts for that pool
+   */
+  async getSigningDomain(
+    selector: PoolSelector = {},
+  ): Promise<TypedDataDomain> {
+    const pool = this.selectPool(selector);
+    const network = await pool.provider.getNetwork();
+    return {
+      name: CREDEX_DOMAIN_NAME,
+      version: CREDEX_DOMAIN_VERSION,
+      chainId: network.chainId,
+      verifyingContract: pool.address,
+    };
+  }
 }
@@ -0,0 +1,292 @@
+/**
+ * Credit Event Store
+ *
+ * Credit events queued for publication to the ERC-8004 Reputation
+ * Registry, with the signed document each feedback entry points at.
+ * Documents are kept after publishing so their fileuri stays resolvable.
+ * Also keeps the newest feedbackAuth each agent signed for us, which
+ * every giveFeedback for that agent carries.
+ */
+
+import { CredexDatabase, ensureColumn } from "./db";
+import { CreditEventRecord, CreditEventStatus } from "./types";
+
+export interface CreditEventStore {
+  /**
+   * Store a new event (ignored when the id is already known)
+   */
+  enqueue(record: CreditEventRecord): Promise<void>;
+  get(id: string): Promise<CreditEventRecord | null>;
+
+  /**
+   * Oldest queued events first, leaving out retries not yet due at now
+   */
+  listQueued(limit: number, now: number): Promise<CreditEventRecord[]>;
+
+  /**
+   * Latest publishedAt for an agent (null when never published)
+   */
+  lastPublishedAt(agentAddress: string): Promise<number | null>;
+
+  /**
+   * Backlog size and age, for health checks
+   */
+  getQueueStats(): Promise<CreditEventQueueStats>;
+
+  setStatus(
+    id: string,
+    status: CreditEventStatus,
+    update?: { feedbackTxHash?: string; error?: string; publishedAt?: number },
+  ): Promise<void>;
+
+  /**
+   * Count a failed attempt: queued again from nextAttemptAt, or failed
+   * for good when nextAttemptAt is null
+   */
+  recordFailure(
+    id: string,
+    error: string,
+    nextAttemptAt: number | null,
+  ): Promise<void>;
+
+  /**
+   * Queue an agent's failed events again with fresh attempts
+   */
+  requeueFailed(agentAddress: string): Promise<number>;
+
+  /**
+   * Replace the feedbackAuth held for an agentId
+   */
+  saveFeedbackAuth(agentId: string, auth: StoredFeedbackAuth): Promise<void>;
+  getFeedbackAuth(agentId: string): Promise<StoredFeedbackAuth | null>;
+}
+
+export interface StoredFeedbackAuth {
+  feedbackAuth: string; // signed bytes passed to giveFeedback
+  expiry: number; // unix seconds
+}
+
+export interface CreditEventQueueStats {
+  queued: number;
+  failed: number;
+  oldestQueuedAt: number | null; // created_at of the oldest queued event
+}
+
+interface CreditEventRow {
+  id: string;
+  agent_address: string;
+  document: string;
+  filehash: string;
+  score: number;
+  status: CreditEventStatus;
+  feedback_tx_hash: string | null;
+  error: string | null;
+  created_at: number;
+  published_at: number | null;
+  attempts: number;
+  next_attempt_at: number | null;
+}
+
+export class SqliteCreditEventStore implements CreditEventStore {
+  private db: CredexDatabase;
+
+  constructor(db: CredexDatabase) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS credit_events (
+        id                TEXT PRIMARY KEY,
+        agent_address     TEXT NOT NULL,
+        document          TEXT NOT NULL,
+        filehash          TEXT NOT NULL,
+        score             INTEGER NOT NULL,
+        status            TEXT NOT NULL,
+        feedback_tx_hash  TEXT,
+        error             TEXT,
+        created_at        INTEGER NOT NULL,
+        published_at      INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_credit_events_status
+        ON credit_events (status, created_at);
+
+      CREATE INDEX IF NOT EXISTS idx_credit_events_agent
+        ON credit_events (agent_address, published_at);
+
+      CREATE TABLE IF NOT EXISTS feedback_auths (
+        agent_id       TEXT PRIMARY KEY,
+        feedback_auth  TEXT NOT NULL,
+        expiry         INTEGER NOT NULL
+      );
+    `);
+    ensureColumn(
+      this.db,
+      "credit_events",
+      "attempts",
+      "INTEGER NOT NULL DEFAULT 0",
+    );
+    ensureColumn(this.db, "credit_events", "next_attempt_at", "INTEGER");
+  }
+
+  async enqueue(record: CreditEventRecord): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO credit_events (
+          id, agent_address, document, filehash, score, status, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        record.event.id,
+        record.event.agentAddress.toLowerCase(),
+        record.document,
+        record.filehash,
+        record.score,
+        record.status,
+        record.event.timestamp,
+      );
+  }
+
+  async get(id: string): Promise<CreditEventRecord | null> {
+    const row = this.db
+      .prepare("SELECT * FROM credit_events WHERE id = ?")
+      .get(id) as CreditEventRow | undefined;
+    return row ? this.toRecord(row) : null;
+  }
+
+  async listQueued(limit: number, now: number): Promise<CreditEventRecord[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM credit_events
+         WHERE status = 'queued'
+           AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+         ORDER BY created_at
+         LIMIT ?`,
+      )
+      .all(now, limit) as CreditEventRow[];
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  async lastPublishedAt(agentAddress: string): Promise<number | null> {
+    const row = this.db
+      .prepare(
+        `SELECT MAX(published_at) AS published_at FROM credit_events
+         WHERE agent_address = ? AND status = 'published'`,
+      )
+      .get(agentAddress.toLowerCase()) as { published_at: number | null };
+    return row.published_at;
+  }
+
+  async getQueueStats(): Promise<CreditEventQueueStats> {
+    const row = this.db
+      .prepare(
+        `SELECT
+           SUM(status = 'queued') AS queued,
+           SUM(status = 'failed') AS failed,
+           MIN(CASE WHEN status = 'queued' THEN created_at END) AS oldest
+         FROM credit_events`,
+      )
+      .get() as {
+      queued: number | null;
+      failed: number | null;
+      oldest: number | null;
+    };
+    return {
+      queued: row.queued ?? 0,
+      failed: row.failed ?? 0,
+      oldestQueuedAt: row.oldest,
+    };
+  }
+
+  async setStatus(
+    id: string,
+    status: CreditEventStatus,
+    update: {
+      feedbackTxHash?: string;
+      error?: string;
+      publishedAt?: number;
+    } = {},
+  ): Promise<void> {
+    this.db
+      .prepare(
+        `UPDATE credit_events
+         SET status = ?, feedback_tx_hash = ?, error = ?, published_at = ?
+         WHERE id = ?`,
+      )
+      .run(
+        status,
+        update.feedbackTxHash ?? null,
+        update.error ?? null,
+        update.publishedAt ?? null,
+        id,
+      );
+  }
+
+  async recordFailure(
+    id: string,
+    error: string,
+    nextAttemptAt: number | null,
+  ): Promise<void> {
+    this.db
+      .prepare(
+        `UPDATE credit_events
+         SET status = ?, error = ?, attempts = attempts + 1,
+             next_attempt_at = ?
+         WHERE id = ?`,
+      )
+      .run(
+        nextAttemptAt === null ? "failed" : "queued",
+        error,
+        nextAttemptAt,
+        id,
+      );
+  }
+
+  async requeueFailed(agentAddress: string): Promise<number> {
+    const result = this.db
+      .prepare(
+        `UPDATE credit_events
+         SET status = 'queued', attempts = 0, next_attempt_at = NULL
+         WHERE agent_address = ? AND status = 'failed'`,
+      )
+      .run(agentAddress.toLowerCase());
+    return Number(result.changes);
+  }
+
+  async saveFeedbackAuth(
+    agentId: string,
+    auth: StoredFeedbackAuth,
+  ): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO feedback_auths (
+          agent_id, feedback_auth, expiry
+        ) VALUES (?, ?, ?)`,
+      )
+      .run(agentId, auth.feedbackAuth, auth.expiry);
+  }
+
+  async getFeedbackAuth(agentId: string): Promise<StoredFeedbackAuth | null> {
+    const row = this.db
+      .prepare("SELECT * FROM feedback_auths WHERE agent_id = ?")
+      .get(agentId) as
+      | { feedback_auth: string; expiry: number }
+      | undefined;
+    return row
+      ? { feedbackAuth: row.feedback_auth, expiry: row.expiry }
+      : null;
+  }
+
+  private toRecord(row: CreditEventRow): CreditEventRecord {
+    return {
+      event: JSON.parse(row.document).event,
+      document: row.document,
+      filehash: row.filehash,
+      score: row.score,
+      status: row.status,
+      feedbackTxHash: row.feedback_tx_hash,
+      error: row.error,
+      publishedAt: row.published_at,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+    };
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * Credit Policy Engine
+ *
+ * A CreditPolicy decides how much credit an agent gets and how it moves:
+ * - initialLimit:            limit granted at onboarding
+ * - limitAfterRepayment:     limit after a repayment
+ * - limitAfterMissedPayment: limit after the agent is found delinquent
+ * - approveBorrow:           whether a borrow request may proceed
+ *
+ * Policies are selected by name from the policy config file (see
+ * policy-config.ts). Built-in policies:
+ * - linear-growth:       fixed growth factor (original behaviour)
+ * - tiered:              growth factor steps down as the limit grows
+ * - reputation-weighted: growth and penalties scale with repFactor
+ *
+ * Growth is earned in proportion to principal actually repaid: the growth
+ * factor applies to principalRepaid, not to the whole limit, so repaying
+ * a fully drawn line grows it by the full factor while dust repayments
+ * (or interest-only repayments) earn nothing.
+ */
+
+import { ethers } from "ethers";
+import { AgentOnChain, CreditPolicyConfig } from "./types";
+
+export interface InitialLimitContext {
+  agentAddress: string;
+  agentId: string;
+  repFactor: number;
+}
+
+export interface RepaymentContext {
+  agentAddress: string;
+  currentLimit: bigint;
+  amountRepaid: bigint;
+  principalRepaid: bigint; // on-chain principal reduction from this repayment
+  repFactor: number | null;
+  agent: AgentOnChain; // state after the repayment
+}
+
+export interface MissedPaymentContext {
+  agentAddress: string;
+  currentLimit: bigint;
+  repFactor: number | null;
+  agent: AgentOnChain;
+  reasons: string[];
+}
+
+export interface BorrowContext {
+  agentAddress: string;
+  amount: bigint;
+  repFactor: number | null;
+  agent: AgentOnChain;
+}
+
+export interface BorrowDecision {
+  approved: boolean;
+  reason?: string;
+}
+
+export interface CreditPolicy {
+  readonly name: string;
+  readonly maxLimit?: bigint; // cap on every limit, when the policy has one
+  initialLimit(ctx: InitialLimitContext): bigint;
+  limitAfterRepayment(ctx: RepaymentContext): bigint;
+  limitAfterMissedPayment(ctx: MissedPaymentContext): bigint;
+  approveBorrow(ctx: BorrowContext): BorrowDecision;
+}
+
+// --- Helpers ---
+
+const BP = 10_000n;
+
+function usdc(value: string | number | undefined, fallback: bigint): bigint {
+  if (value === undefined) return fallback;
+  return ethers.parseUnits(String(value), 6);
+}
+
+function applyBp(amount: bigint, bp: number): bigint {
+  return (amount * BigInt(Math.floor(bp))) / BP;
+}
+
+function scaleByFactor(amount: bigint, factor: number): bigint {
+  return (amount * BigInt(Math.floor(factor * 100))) / 100n;
+}
+
+// --- Built-in policies ---
+
+/**
+ * Shared behaviour: clamp limits to [minLimit, maxLimit] and approve
+ * borrows that fit within creditLimit - principal.
+ */
+abstract class BaseCreditPolicy implements CreditPolicy {
+  abstract readonly name: string;
+  protected initialLimitBase: bigint;
+  protected minLimit: bigint;
+  readonly maxLimit: bigint;
+  protected missedPaymentFactorBp: number;
+
+  constructor(params: Record<string, any>) {
+    this.initialLimitBase = usdc(params.initialLimitBase, 5_000_000n); // 5 USDC
+    this.minLimit = usdc(params.minLimit, 0n);
+    this.maxLimit = usdc(params.maxLimit, 10_000n * 1_000_000n); // 10,000 USDC
+    this.missedPaymentFactorBp = params.missedPaymentFactorBp ?? 5_000; // halve
+  }
+
+  initialLimit(ctx: InitialLimitContext): bigint {
+    // initialLimit = BASE * repFactor
+    return this.clamp(scaleByFactor(this.initialLimitBase, ctx.repFactor));
+  }
+
+  abstract limitAfterRepayment(ctx: RepaymentContext): bigint;
+
+  limitAfterMissedPayment(ctx: MissedPaymentContext): bigint {
+    return this.clamp(applyBp(ctx.currentLimit, this.missedPaymentFactorBp));
+  }
+
+  approveBorrow(ctx: BorrowContext): BorrowDecision {
+    const available = ctx.agent.creditLimit - ctx.agent.principal;
+    if (ctx.amount > available) {
+      return {
+        approved: false,
+        reason: `Insufficient credit. Available: ${ethers.formatUnits(available > 0n ? available : 0n, 6)} USDC`,
+      };
+    }
+    return { approved: true };
+  }
+
+  /**
+   * currentLimit + principalRepaid * (growthFactor - 1.0)
+   */
+  protected grow(ctx: RepaymentContext, growthFactorBp: number): bigint {
+    if (ctx.principalRepaid <= 0n) return ctx.currentLimit;
+    const increment = applyBp(ctx.principalRepaid, growthFactorBp - 10_000);
+    return this.clamp(ctx.currentLimit + increment);
+  }
+
+  protected clamp(limit: bigint): bigint {
+    if (limit > this.maxLimit) return this.maxLimit;
+    if (limit < this.minLimit) return this.minLimit;
+    return limit;
+  }
+}
+
+/**
+ * newLimit = min(currentLimit + principalRepaid * (growthFactor - 1), maxLimit)
+ */
+export class LinearGrowthPolicy extends BaseCreditPolicy {
+  readonly name = "linear-growth";
+  private growthFactorBp: number;
+
+  constructor(params: Record<string, any> = {}) {
+    super(params);
+    this.growthFactorBp = params.growthFactorBp ?? 11_000; // 1.1x
+  }
+
+  limitAfterRepayment(ctx: RepaymentContext): bigint {
+    return this.grow(ctx, this.growthFactorBp);
+  }
+}
+
+interface GrowthTier {
+  upTo: bigint | null; // tier applies while currentLimit < upTo (null = no cap)
+  growthFactorBp: number;
+}
+
+/**
+ * Growth factor depends on the band the current limit falls in, so small
+ * lines grow quickly and large lines grow conservatively.
+ */
+export class TieredPolicy extends BaseCreditPolicy {
+  readonly name = "tiered";
+  private tiers: GrowthTier[];
+
+  constructor(params: Record<string, any> = {}) {
+    super(params);
+    const tiers: { upTo?: string | null; growthFactorBp: number }[] =
+      params.tiers ?? [
+        { upTo: "100", growthFactorBp: 12_000 },
+        { upTo: "1000", growthFactorBp: 11_000 },
+        { upTo: null, growthFactorBp: 10_500 },
+      ];
+    this.tiers = tiers.map((tier) => ({
+      upTo: tier.upTo == null ? null : usdc(tier.upTo, 0n),
+      growthFactorBp: tier.growthFactorBp,
+    }));
+  }
+
+  limitAfterRepayment(ctx: RepaymentContext): bigint {
+    const tier =
+      this.tiers.find((t) => t.upTo === null || ctx.currentLimit < t.upTo) ??
+      this.tiers[this.tiers.length - 1];
+    return this.grow(ctx, tier.growthFactorBp);
+  }
+}
+
+/**
+ * Growth above 1.0x and missed-payment penalties scale with repFactor:
+ * a repFactor of 2.0 doubles the growth increment and halves the cut.
+ * Borrowing is declined below minRepFactor.
+ */
+export class ReputationWeightedPolicy extends BaseCreditPolicy {
+  readonly name = "reputation-weighted";
+  private growthFactorBp: number;
+  private minRepFactor: number;
+
+  constructor(params: Record<string, any> = {}) {
+    super(params);
+    this.growthFactorBp = params.growthFactorBp ?? 11_000;
+    this.minRepFactor = params.minRepFactor ?? 0.25;
+  }
+
+  limitAfterRepayment(ctx: RepaymentContext): bigint {
+    const rep = ctx.repFactor ?? 1.0;
+    const growthBp = 10_000 + (this.growthFactorBp - 10_000) * rep;
+    return this.grow(ctx, growthBp);
+  }
+
+  limitAfterMissedPayment(ctx: MissedPaymentContext): bigint {
+    const rep = Math.max(ctx.repFactor ?? 1.0, 0.1);
+    const cutBp = (10_000 - this.missedPaymentFactorBp) / rep;
+    return this.clamp(applyBp(ctx.currentLimit, Math.max(0, 10_000 - cutBp)));
+  }
+
+  approveBorrow(ctx: BorrowContext): BorrowDecision {
+    const rep = ctx.repFactor ?? 1.0;
+    if (rep < this.minRepFactor) {
+      return {
+        approved: false,
+        reason: `Reputation factor ${rep.toFixed(2)} is below the minimum ${this.minRepFactor}`,
+      };
+    }
+    return super.approveBorrow(ctx);
+  }
+}
+
+// --- Registry ---
+
+type CreditPolicyFactory = (params: Record<string, any>) => CreditPolicy;
+
+const CREDIT_POLICIES: Record<string, CreditPolicyFactory> = {
+  "linear-growth": (params) => new LinearGrowthPolicy(params),
+  tiered: (params) => new TieredPolicy(params),
+  "reputation-weighted": (params) => new ReputationWeightedPolicy(params),
+};
+
+/**
+ * Make a custom policy selectable from the policy config file
+ */
+export function registerCreditPolicy(
+  name: string,
+  factory: CreditPolicyFactory,
+): void {
+  CREDIT_POLICIES[name] = factory;
+}
+
+export function createCreditPolicy(config: CreditPolicyConfig): CreditPolicy {
+  const factory = CREDIT_POLICIES[config.name];
+  if (!factory) {
+    throw new Error(
+      `Unknown credit policy "${config.name}". Available: ${Object.keys(CREDIT_POLICIES).join(", ")}`,
+    );
+  }
+  return factory(config.params ?? {});
+}
@@ -0,0 +1,41 @@
+/**
+ * SQLite connection shared by the Credex storage modules.
+ *
+ * Each store creates its own tables on construction, so a single
+ * database file holds the agent registry and anything added later.
+ */
+
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+
+export type CredexDatabase = Database.Database;
+
+export function openDatabase(path: string): CredexDatabase {
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  return db;
+}
+
+/**
+ * Add a column to an existing table if it is missing (for databases
+ * created before the column was introduced).
+ */
+export function ensureColumn(
+  db: CredexDatabase,
+  table: string,
+  column: string,
+  definition: string,
+): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as {
+    name: string;
+  }[];
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
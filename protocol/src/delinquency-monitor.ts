@@ -0,0 +1,333 @@
+/**
+ * Delinquency Monitor
+ *
+ * Periodically scans active agents and freezes those that break the
+ * configured rules (see DelinquencyRules):
+ * - repayment gap:  no repayment for too long while debt is outstanding,
+ *                   counted from the later of the last repayment and the
+ *                   time the debt became outstanding (the registry's
+ *                   debtSince), so an agent onboarded long before its
+ *                   first borrow is not frozen for it
+ * - debt to limit:  debt including accrued interest exceeds the limit
+ * - interest ratio: accrued interest is too large relative to principal
+ *
+ * Freezing also applies the credit policy's missed-payment limit. Agents
+ * the monitor froze are unfrozen automatically once no rule is broken;
+ * freezes made by anyone else are left alone. Every freeze/unfreeze is
+ * recorded with its reasons in the agent registry, and freezes are
+ * published as ERC-8004 feedback when a ReputationPublisher is given.
+ */
+
+import { ethers, Provider } from "ethers";
+import { PoolClient } from "./pool-client";
+import { AgentRepository } from "./agent-store";
+import { CreditPolicy } from "./credit-policy";
+import { BP_DENOMINATOR, InterestParams, StoredDebt } from "./interest";
+import { ReputationPublisher } from "./reputation-publisher";
+import { AgentOnChain, DelinquencyDecision, DelinquencyRules } from "./types";
+
+export type DelinquencyRule =
+  "repayment-gap" | "debt-to-limit" | "interest-ratio";
+
+export interface FreezeForecast {
+  rule: DelinquencyRule;
+  at: number; // unix seconds the rule is first broken if nothing is repaid
+}
+
+export class DelinquencyMonitor {
+  private poolClient: PoolClient;
+  private provider: Provider;
+  private store: AgentRepository;
+  private policy: CreditPolicy;
+  private rules: DelinquencyRules;
+  private publisher: ReputationPublisher | null;
+  private timer: NodeJS.Timeout | null = null;
+  private scanning = false;
+
+  constructor(
+    poolClient: PoolClient,
+    provider: Provider,
+    store: AgentRepository,
+    policy: CreditPolicy,
+    rules: DelinquencyRules,
+    publisher: ReputationPublisher | null = null,
+  ) {
+    this.poolClient = poolClient;
+    this.provider = provider;
+    this.store = store;
+    this.policy = policy;
+    this.rules = rules;
+    this.publisher = publisher;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    console.log(
+      `👀 Delinquency monitor scanning every ${this.rules.scanIntervalSeconds}s`,
+    );
+    this.timer = setInterval(
+      () => this.scan(),
+      this.rules.scanIntervalSeconds * 1000,
+    );
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Check every active agent once. Overlapping scans are skipped.
+   */
+  async scan(): Promise<void> {
+    if (this.scanning) return;
+    this.scanning = true;
+
+    try {
+      const now = await this.chainTime();
+      const agents = await this.store.listAgents();
+
+      for (const record of agents) {
+        if (!record.active) continue;
+        try {
+          const state = await this.poolClient.getAgent(record.address);
+          const synced = await this.store.syncOnChain(record.address, state);
+          await this.review(
+            record.address,
+            state,
+            record.repFactor,
+            synced.debtSince,
+            now,
+          );
+        } catch (error) {
+          console.error(
+            `❌ Delinquency check failed for ${record.address}:`,
+            error,
+          );
+        }
+      }
+    } finally {
+      this.scanning = false;
+    }
+  }
+
+  /**
+   * Rules the agent currently breaks (empty when in good standing).
+   * debtSince is the registry's record of when the debt became
+   * outstanding; without one the debt counts as new.
+   */
+  evaluate(
+    agent: AgentOnChain,
+    now: number,
+    debtSince: number | null,
+  ): string[] {
+    const violations: string[] = [];
+    if (!agent.active || agent.debt === 0n) return violations;
+
+    const gap = now - this.gapStart(agent, debtSince ?? now);
+    if (gap > this.rules.maxRepaymentGapSeconds) {
+      violations.push(
+        `No repayment for ${Math.floor(gap / 3600)}h with debt outstanding (max ${Math.floor(this.rules.maxRepaymentGapSeconds / 3600)}h)`,
+      );
+    }
+
+    const maxDebt =
+      (agent.creditLimit * BigInt(this.rules.maxDebtToLimitBp)) / 10_000n;
+    if (agent.debt > maxDebt) {
+      violations.push(
+        `Debt ${ethers.formatUnits(agent.debt, 6)} USDC exceeds ${ethers.formatUnits(maxDebt, 6)} USDC allowed against limit`,
+      );
+    }
+
+    const interest = agent.debt - agent.principal;
+    if (agent.principal > 0n) {
+      const ratioBp = (interest * 10_000n) / agent.principal;
+      if (ratioBp > BigInt(this.rules.maxInterestToPrincipalBp)) {
+        violations.push(
+          `Interest is ${Number(ratioBp) / 100}% of principal (max ${this.rules.maxInterestToPrincipalBp / 100}%)`,
+        );
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * When each rule would be broken if the agent repays nothing, soonest
+   * first (empty without debt). Interest rules project from the stored
+   * debt and assume no accrual is written in between, so they are a
+   * slightly late estimate. The freeze itself lands on the next scan.
+   */
+  forecast(
+    agent: AgentOnChain,
+    stored: StoredDebt,
+    params: InterestParams,
+    debtSince: number | null,
+    now: number,
+  ): FreezeForecast[] {
+    if (!agent.active || agent.debt === 0n) return [];
+
+    const forecasts: FreezeForecast[] = [
+      {
+        rule: "repayment-gap",
+        at:
+          this.gapStart(agent, debtSince ?? now) +
+          this.rules.maxRepaymentGapSeconds +
+          1,
+      },
+    ];
+
+    // Interest added per accrual interval, scaled by BP_DENOMINATOR
+    const perInterval = stored.debt * params.rateBp;
+    const atInterest = (needed: bigint): number | null => {
+      if (needed <= 0n) return Number(stored.lastAccrued);
+      if (perInterval === 0n) return null;
+      const intervals =
+        (needed * BP_DENOMINATOR + perInterval - 1n) / perInterval;
+      return Number(stored.lastAccrued + intervals * params.interval);
+    };
+
+    const maxDebt =
+      (agent.creditLimit * BigInt(this.rules.maxDebtToLimitBp)) /
+      BP_DENOMINATOR;
+    const debtAt = atInterest(maxDebt + 1n - stored.debt);
+    if (debtAt !== null) forecasts.push({ rule: "debt-to-limit", at: debtAt });
+
+    if (stored.principal > 0n) {
+      const maxInterest =
+        (BigInt(this.rules.maxInterestToPrincipalBp + 1) * stored.principal +
+          BP_DENOMINATOR -
+          1n) /
+        BP_DENOMINATOR;
+      const ratioAt = atInterest(
+        maxInterest - (stored.debt - stored.principal),
+      );
+      if (ratioAt !== null) {
+        forecasts.push({ rule: "interest-ratio", at: ratioAt });
+      }
+    }
+
+    return forecasts.sort((a, b) => a.at - b.at);
+  }
+
+  /**
+   * Whether the agent's current freeze was applied by this monitor
+   */
+  async isFrozenByMonitor(address: string): Promise<boolean> {
+    const decisions = await this.store.getDelinquencyDecisions(address);
+    const last = decisions[decisions.length - 1];
+    return last?.action === "freeze";
+  }
+
+  async chainTime(): Promise<number> {
+    const block = await this.provider.getBlock("latest");
+    return block ? block.timestamp : Math.floor(Date.now() / 1000);
+  }
+
+  // --- Private helpers ---
+
+  /**
+   * Start of the repayment gap: the last repayment, or when the debt
+   * became outstanding if that is later (onboarding also sets
+   * lastRepayment, long before a first borrow)
+   */
+  private gapStart(agent: AgentOnChain, debtSince: number): number {
+    return Math.max(Number(agent.lastRepayment), debtSince);
+  }
+
+  private async review(
+    address: string,
+    state: AgentOnChain,
+    repFactor: number | null,
+    debtSince: number | null,
+    now: number,
+  ): Promise<void> {
+    const violations = this.evaluate(state, now, debtSince);
+
+    if (violations.length > 0 && !state.frozen) {
+      await this.freeze(address, state, repFactor, violations, now);
+      return;
+    }
+
+    if (
+      violations.length === 0 &&
+      state.frozen &&
+      (await this.isFrozenByMonitor(address))
+    ) {
+      await this.unfreeze(address, now);
+    }
+  }
+
+  private async freeze(
+    address: string,
+    state: AgentOnChain,
+    repFactor: number | null,
+    reasons: string[],
+    now: number,
+  ): Promise<void> {
+    console.log(`\n🚨 Freezing ${address}: ${reasons.join("; ")}`);
+    const receipt = await this.poolClient.freeze(address);
+    await this.record({
+      address,
+      action: "freeze",
+      reasons,
+      txHash: receipt.hash,
+      timestamp: now,
+    });
+    await this.publisher?.enqueue("frozen", {
+      agentAddress: address,
+      pool: this.poolClient.address,
+      txHash: receipt.hash,
+      amount: state.debt,
+      reasons,
+    });
+
+    const newLimit = this.policy.limitAfterMissedPayment({
+      agentAddress: address,
+      currentLimit: state.creditLimit,
+      repFactor,
+      agent: state,
+      reasons,
+    });
+    if (newLimit < state.creditLimit) {
+      const limitReceipt = await this.poolClient.setCreditLimit(
+        address,
+        newLimit,
+      );
+      await this.store.recordLimitChange({
+        address,
+        previousLimit: state.creditLimit,
+        newLimit,
+        reason: "missed-payment",
+        txHash: limitReceipt.hash,
+        note: reasons.join("; "),
+        timestamp: now,
+      });
+    }
+
+    await this.store.syncOnChain(
+      address,
+      await this.poolClient.getAgent(address),
+    );
+  }
+
+  private async unfreeze(address: string, now: number): Promise<void> {
+    console.log(`\n✅ Unfreezing ${address}: no longer delinquent`);
+    const receipt = await this.poolClient.unfreeze(address);
+    await this.record({
+      address,
+      action: "unfreeze",
+      reasons: ["All delinquency rules satisfied"],
+      txHash: receipt.hash,
+      timestamp: now,
+    });
+    await this.store.syncOnChain(
+      address,
+      await this.poolClient.getAgent(address),
+    );
+  }
+
+  private async record(decision: DelinquencyDecision): Promise<void> {
+    await this.store.recordDelinquencyDecision(decision);
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Delivery Store
+ *
+ * Cross-chain borrow deliveries and the Bridge Kit steps each has gone
+ * through, so an interrupted bridge is picked up again after a restart.
+ */
+
+import { ethers } from "ethers";
+import { CredexDatabase } from "./db";
+import { DeliveryJob, DeliveryStatus, DeliveryStep } from "./types";
+
+export interface DeliveryStore {
+  create(job: DeliveryJob): Promise<void>;
+  get(id: string): Promise<DeliveryJob | null>;
+
+  /**
+   * Deliveries not yet delivered, refunded or failed, oldest first
+   */
+  listOpen(): Promise<DeliveryJob[]>;
+
+  update(
+    id: string,
+    changes: Partial<
+      Pick<
+        DeliveryJob,
+        | "status"
+        | "steps"
+        | "refundTxHash"
+        | "attempts"
+        | "error"
+        | "nextAttemptAt"
+      >
+    >,
+  ): Promise<DeliveryJob>;
+}
+
+const OPEN_STATUSES: DeliveryStatus[] = ["borrowed", "bridging", "retrying"];
+
+interface DeliveryRow {
+  id: string;
+  agent_address: string;
+  pool: string;
+  amount: string;
+  source_chain: string;
+  destination: string;
+  destination_chain: string;
+  status: DeliveryStatus;
+  borrow_tx_hash: string;
+  steps: string;
+  refund_tx_hash: string | null;
+  attempts: number;
+  error: string | null;
+  next_attempt_at: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export class SqliteDeliveryStore implements DeliveryStore {
+  private db: CredexDatabase;
+
+  constructor(db: CredexDatabase) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS deliveries (
+        id                 TEXT PRIMARY KEY,
+        agent_address      TEXT NOT NULL,
+        pool               TEXT NOT NULL,
+        amount             TEXT NOT NULL,
+        source_chain       TEXT NOT NULL,
+        destination        TEXT NOT NULL,
+        destination_chain  TEXT NOT NULL,
+        status             TEXT NOT NULL,
+        borrow_tx_hash     TEXT NOT NULL,
+        steps              TEXT NOT NULL,
+        refund_tx_hash     TEXT,
+        attempts           INTEGER NOT NULL,
+        error              TEXT,
+        next_attempt_at    INTEGER NOT NULL,
+        created_at         INTEGER NOT NULL,
+        updated_at         INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_deliveries_status
+        ON deliveries (status, next_attempt_at);
+    `);
+  }
+
+  async create(job: DeliveryJob): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO deliveries (
+          id, agent_address, pool, amount, source_chain, destination,
+          destination_chain, status, borrow_tx_hash, steps, refund_tx_hash,
+          attempts, error, next_attempt_at, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        job.id,
+        job.agentAddress.toLowerCase(),
+        job.pool,
+        job.amount.toString(),
+        job.sourceChain,
+        job.destination,
+        job.destinationChain,
+        job.status,
+        job.borrowTxHash,
+        JSON.stringify(job.steps),
+        job.refundTxHash,
+        job.attempts,
+        job.error,
+        job.nextAttemptAt,
+        job.createdAt,
+        job.updatedAt,
+      );
+  }
+
+  async get(id: string): Promise<DeliveryJob | null> {
+    const row = this.db
+      .prepare("SELECT * FROM deliveries WHERE id = ?")
+      .get(id) as DeliveryRow | undefined;
+    return row ? this.toJob(row) : null;
+  }
+
+  async listOpen(): Promise<DeliveryJob[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM deliveries
+         WHERE status IN (${OPEN_STATUSES.map(() => "?").join(", ")})
+         ORDER BY created_at`,
+      )
+      .all(...OPEN_STATUSES) as DeliveryRow[];
+    return rows.map((row) => this.toJob(row));
+  }
+
+  async update(
+    id: string,
+    changes: Parameters<DeliveryStore["update"]>[1],
+  ): Promise<DeliveryJob> {
+    const job = await this.get(id);
+    if (!job) throw new Error(`Unknown delivery ${id}`);
+    const next: DeliveryJob = {
+      ...job,
+      ...changes,
+      updatedAt: Math.floor(Date.now() / 1000),
+    };
+
+    this.db
+      .prepare(
+        `UPDATE deliveries
+         SET status = ?, steps = ?, refund_tx_hash = ?, attempts = ?,
+             error = ?, next_attempt_at = ?, updated_at = ?
+         WHERE id = ?`,
+      )
+      .run(
+        next.status,
+        JSON.stringify(next.steps),
+        next.refundTxHash,
+        next.attempts,
+        next.error,
+        next.nextAttemptAt,
+        next.updatedAt,
+        id,
+      );
+    return next;
+  }
+
+  private toJob(row: DeliveryRow): DeliveryJob {
+    return {
+      id: row.id,
+      agentAddress: ethers.getAddress(row.agent_address),
+      pool: row.pool,
+      amount: BigInt(row.amount),
+      sourceChain: row.source_chain,
+      destination: row.destination,
+      destinationChain: row.destination_chain,
+      status: row.status,
+      borrowTxHash: row.borrow_tx_hash,
+      steps: JSON.parse(row.steps) as DeliveryStep[],
+      refundTxHash: row.refund_tx_hash,
+      attempts: row.attempts,
+      error: row.error,
+      nextAttemptAt: row.next_attempt_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
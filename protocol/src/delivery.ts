@@ -0,0 +1,484 @@
+/**
+ * Cross-chain Borrow Delivery
+ *
+ * A borrow with deliverTo is paid into the clearing signer's custody
+ * (CredexPool.borrowTo, so the debt stays the borrower's in the pool) and
+ * bridged to the borrower on the destination chain with Bridge Kit (CCTP):
+ *   approve -> burn -> fetchAttestation -> mint
+ * Every step is recorded on the delivery job as Bridge Kit reports it
+ * (GET /deliveries/:id). A failed attempt is retried after
+ * retryDelaySeconds: from the failed step once the burn went through
+ * (the funds only exist on the destination chain then, so the mint is
+ * retried until it lands), from the start otherwise. After maxAttempts
+ * without a burn the funds are refunded to the borrower's wallet on the
+ * pool's chain, as they are straight away when the job can't be stored.
+ *
+ * Bridge Kit sends approve and burn with the clearing key outside the
+ * transaction manager, so the pool chain's manager is held until the burn
+ * is recorded. The mint is sent on the destination chain directly, like
+ * reputation feedback; the signer needs gas there.
+ */
+
+import { ethers, Interface } from "ethers";
+import { BridgeKit, BridgeResult } from "@circle-fin/bridge-kit";
+import { ViemAdapter } from "@circle-fin/adapter-viem-v2";
+import {
+  AddressedSigner,
+  NETWORKS,
+  NetworkProfile,
+  RpcOptions,
+  createBridgeAdapter,
+  mergeBridgeStep,
+  toBridgeResult,
+} from "credex-shared";
+import { DeliveryStore } from "./delivery-store";
+import { TransactionManager } from "./tx-manager";
+import { DeliveryConfig, DeliveryJob } from "./types";
+
+type BridgeChain = NonNullable<NetworkProfile["bridgeChain"]>;
+
+// Pool chain a delivery is bridged from
+export interface DeliverySource {
+  id: string; // pool id
+  chainId: number;
+  usdcAddress: string;
+  txManager: TransactionManager;
+}
+
+export interface DeliveryInput {
+  agentAddress: string;
+  source: DeliverySource;
+  destination: NetworkProfile;
+  amount: bigint;
+  borrowTxHash: string;
+}
+
+export type DeliveryErrorCode = "INVALID_DELIVERY" | "DELIVERY_UNSUPPORTED";
+
+export class DeliveryError extends Error {
+  readonly code: DeliveryErrorCode;
+
+  constructor(message: string, code: DeliveryErrorCode = "INVALID_DELIVERY") {
+    super(message);
+    this.name = "DeliveryError";
+    this.code = code;
+  }
+}
+
+const ERC20_INTERFACE = new Interface([
+  "function transfer(address to, uint256 amount) returns (bool)",
+]);
+
+/**
+ * Network profile a borrow from `source` can be delivered to
+ * (throws DeliveryError)
+ */
+export function resolveDestination(
+  deliverTo: string,
+  source: DeliverySource,
+): NetworkProfile {
+  const destination = Object.values(NETWORKS).find(
+    (profile) =>
+      profile.name === deliverTo || String(profile.chainId) === deliverTo,
+  );
+  if (!destination?.bridgeChain) {
+    const supported = Object.values(NETWORKS)
+      .filter((profile) => profile.bridgeChain)
+      .map((profile) => profile.name);
+    throw new DeliveryError(
+      `Cannot deliver to "${deliverTo}" (expected ${supported.join(", ")})`,
+    );
+  }
+  if (!bridgeChainOf(source.chainId)) {
+    throw new DeliveryError(
+      `Pool ${source.id} is on chain ${source.chainId}, which Bridge Kit does not serve`,
+    );
+  }
+  if (destination.chainId === source.chainId) {
+    throw new DeliveryError(
+      `Pool ${source.id} is already on ${destination.name}; borrow without deliverTo`,
+    );
+  }
+  return destination;
+}
+
+export class BorrowDelivery {
+  private store: DeliveryStore;
+  private sources: DeliverySource[];
+  private adapter: ViemAdapter;
+  private custody: string; // clearing signer address
+  private config: DeliveryConfig;
+  private newKit: () => BridgeKit;
+  private timer: NodeJS.Timeout | null = null;
+  private active = new Set<string>(); // delivery ids being worked on
+
+  /**
+   * @param signer - clearing key; holds the custody funds and sends the
+   *   bridge transactions on both chains
+   * @param rpcUrls - endpoints by chain id for the bridge adapter
+   * @param newKit - Bridge Kit for one attempt (default: a new BridgeKit)
+   */
+  constructor(
+    store: DeliveryStore,
+    sources: DeliverySource[],
+    signer: AddressedSigner,
+    rpcUrls: Record<number, string[]>,
+    rpcOptions: RpcOptions,
+    config: DeliveryConfig,
+    newKit: () => BridgeKit = () => new BridgeKit(),
+  ) {
+    this.store = store;
+    this.sources = sources;
+    this.config = config;
+    this.newKit = newKit;
+    this.custody = signer.address;
+    // Sent through the clearing signer whatever its backend
+    this.adapter = createBridgeAdapter(null, signer, rpcUrls, rpcOptions);
+  }
+
+  /**
+   * Work through open deliveries every pollIntervalSeconds. A delivery
+   * found mid-attempt (the process stopped during a bridge) is resumed if
+   * its burn was recorded and otherwise left for an operator, since a
+   * burn may have been sent before it could be recorded.
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+    for (const job of await this.store.listOpen()) {
+      if (job.status !== "bridging") continue;
+      if (this.burned(job)) {
+        await this.store.update(job.id, { status: "retrying" });
+        continue;
+      }
+      await this.store.update(job.id, {
+        status: "failed",
+        error:
+          "Interrupted before a burn was recorded; check the custody wallet's bridge transactions before refunding",
+      });
+      console.log(`   ⚠️ Delivery ${job.id} interrupted, needs an operator`);
+    }
+
+    console.log(
+      `🌉 Borrow delivery retrying every ${this.config.pollIntervalSeconds}s`,
+    );
+    this.timer = setInterval(
+      () => this.processOpen(),
+      this.config.pollIntervalSeconds * 1000,
+    );
+    void this.processOpen();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async get(id: string): Promise<DeliveryJob | null> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Record a borrow paid into custody and start bridging it. Returns the
+   * job as stored; the bridge runs in the background. A job that can't be
+   * stored is refunded at once (its funds are already in custody) and
+   * returned refunded, or failed if the refund fails too.
+   */
+  async create(input: DeliveryInput): Promise<DeliveryJob> {
+    const now = Math.floor(Date.now() / 1000);
+    const job: DeliveryJob = {
+      id: ethers.id(`delivery:${input.borrowTxHash}`).slice(2, 34),
+      agentAddress: ethers.getAddress(input.agentAddress),
+      pool: input.source.id,
+      amount: input.amount,
+      sourceChain: bridgeChainOf(input.source.chainId) ?? "",
+      destination: input.destination.name,
+      destinationChain: input.destination.bridgeChain ?? "",
+      status: "borrowed",
+      borrowTxHash: input.borrowTxHash,
+      steps: [],
+      refundTxHash: null,
+      attempts: 0,
+      error: null,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    try {
+      await this.store.create(job);
+    } catch (error) {
+      const message = `Could not record the delivery: ${
+        error instanceof Error ? error.message : error
+      }`;
+      console.error(`❌ Delivery ${job.id}: ${message}`);
+      const refunded = {
+        ...job,
+        ...(await this.refund(job, input.source, message)),
+      };
+      if (refunded.status === "failed") {
+        console.error(
+          `❌ ${ethers.formatUnits(job.amount, 6)} USDC of borrow ${job.borrowTxHash} left in custody: ${refunded.error}`,
+        );
+      }
+      return refunded;
+    }
+    console.log(
+      `   🌉 Delivery ${job.id}: ${ethers.formatUnits(job.amount, 6)} USDC to ${job.destination}`,
+    );
+
+    void this.process(job);
+    return job;
+  }
+
+  /**
+   * Attempt every open delivery that is due
+   */
+  async processOpen(): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    try {
+      for (const job of await this.store.listOpen()) {
+        if (job.status === "bridging" || job.nextAttemptAt > now) continue;
+        await this.process(job);
+      }
+    } catch (error) {
+      console.error("❌ Delivery processing failed:", error);
+    }
+  }
+
+  // --- Private helpers ---
+
+  /**
+   * One bridge attempt, then a retry or refund when it fails
+   */
+  private async process(job: DeliveryJob): Promise<void> {
+    if (this.active.has(job.id)) return;
+    this.active.add(job.id);
+
+    try {
+      const source = this.sources.find((s) => s.id === job.pool);
+      if (!source) throw new Error(`Unknown pool ${job.pool}`);
+
+      job = await this.store.update(job.id, {
+        status: "bridging",
+        attempts: job.attempts + 1,
+      });
+      const result = await this.bridge(job, source);
+      job = (await this.store.get(job.id)) ?? job;
+
+      if (result.state === "success") {
+        await this.store.update(job.id, { status: "delivered", error: null });
+        console.log(`   ✅ Delivery ${job.id} minted on ${job.destination}`);
+        return;
+      }
+      const failed = result.steps.find((step) => step.state === "error");
+      await this.failed(
+        job,
+        source,
+        failed?.errorMessage ?? `Bridge ended ${result.state}`,
+      );
+    } catch (error) {
+      const current = (await this.store.get(job.id)) ?? job;
+      const source = this.sources.find((s) => s.id === job.pool);
+      // First line only (viem errors append the request and call details)
+      const message = (
+        error instanceof Error ? error.message : String(error)
+      ).split("\n")[0];
+      if (source) {
+        await this.failed(current, source, message);
+      } else {
+        await this.store.update(job.id, { status: "failed", error: message });
+      }
+    } finally {
+      this.active.delete(job.id);
+    }
+  }
+
+  /**
+   * Run Bridge Kit for a delivery: a fresh bridge, or a retry from the
+   * failed step once the burn is recorded. Steps are stored as reported.
+   */
+  private async bridge(
+    job: DeliveryJob,
+    source: DeliverySource,
+  ): Promise<BridgeResult> {
+    const kit = this.newKit();
+    let release: (() => void) | null = this.burned(job)
+      ? null
+      : await source.txManager.hold();
+    const releaseHold = () => {
+      release?.();
+      release = null;
+    };
+
+    let steps = job.steps;
+    let saving = Promise.resolve();
+    kit.on("*", (payload: { method?: string; values?: unknown }) => {
+      const step = payload.values as BridgeResult["steps"][number] | undefined;
+      if (!step || !payload.method) return;
+      steps = mergeBridgeStep(
+        steps,
+        payload.method,
+        step,
+        Math.floor(Date.now() / 1000),
+      );
+      saving = saving.then(async () => {
+        await this.store.update(job.id, { steps });
+      });
+      if (payload.method === "burn" && step.state === "success") {
+        releaseHold();
+      }
+    });
+
+    try {
+      const result = this.burned(job)
+        ? await kit.retry(
+            toBridgeResult({
+              amount: ethers.formatUnits(job.amount, 6),
+              from: job.sourceChain as BridgeChain,
+              to: job.destinationChain as BridgeChain,
+              address: this.custody,
+              recipientAddress: job.agentAddress,
+              steps: job.steps,
+            }),
+            { from: this.adapter, to: this.adapter },
+          )
+        : await kit.bridge({
+            from: {
+              adapter: this.adapter,
+              chain: job.sourceChain as BridgeChain,
+            },
+            to: {
+              adapter: this.adapter,
+              chain: job.destinationChain as BridgeChain,
+              recipientAddress: job.agentAddress,
+            },
+            amount: ethers.formatUnits(job.amount, 6),
+          });
+
+      for (const step of result.steps) {
+        steps = mergeBridgeStep(
+          steps,
+          step.name,
+          step,
+          Math.floor(Date.now() / 1000),
+        );
+      }
+      await saving;
+      await this.store.update(job.id, { steps });
+      return result;
+    } finally {
+      releaseHold();
+      await saving;
+    }
+  }
+
+  /**
+   * After a failed attempt: retry (always once burned), or refund the
+   * custody funds when attempts are used up
+   */
+  private async failed(
+    job: DeliveryJob,
+    source: DeliverySource,
+    error: string,
+  ): Promise<void> {
+    console.log(`   ⚠️ Delivery ${job.id} attempt ${job.attempts}: ${error}`);
+    if (this.burned(job) || job.attempts < this.config.maxAttempts) {
+      await this.store.update(job.id, {
+        status: "retrying",
+        error,
+        nextAttemptAt:
+          Math.floor(Date.now() / 1000) + this.config.retryDelaySeconds,
+      });
+      return;
+    }
+
+    await this.store.update(job.id, await this.refund(job, source, error));
+  }
+
+  /**
+   * Send a delivery's custody funds back to the borrower on the pool's
+   * chain; returns the job's resulting state
+   */
+  private async refund(
+    job: DeliveryJob,
+    source: DeliverySource,
+    error: string,
+  ): Promise<Pick<DeliveryJob, "status" | "refundTxHash" | "error">> {
+    console.log(
+      `   ↩️ Refunding delivery ${job.id} to ${job.agentAddress} on ${source.id}`,
+    );
+    try {
+      const receipt = await source.txManager.send(
+        "refund",
+        source.usdcAddress,
+        ERC20_INTERFACE.encodeFunctionData("transfer", [
+          job.agentAddress,
+          job.amount,
+        ]),
+      );
+      return { status: "refunded", refundTxHash: receipt.hash, error };
+    } catch (refundError) {
+      return {
+        status: "failed",
+        refundTxHash: null,
+        error: `Refund failed after "${error}": ${
+          refundError instanceof Error ? refundError.message : refundError
+        }`,
+      };
+    }
+  }
+
+  // Burn sent (a pending one is waited for on retry): the funds may have
+  // left custody, so the job is only ever retried from here
+  private burned(job: DeliveryJob): boolean {
+    return job.steps.some(
+      (step) =>
+        step.name === "burn" &&
+        step.txHash !== null &&
+        (step.state === "success" || step.state === "pending"),
+    );
+  }
+
+}
+
+/**
+ * API presentation of a delivery (GET /deliveries/:id, borrow responses)
+ */
+export function formatDelivery(job: DeliveryJob): Record<string, unknown> {
+  return {
+    id: job.id,
+    status: job.status,
+    agentAddress: job.agentAddress,
+    pool: job.pool,
+    amount: ethers.formatUnits(job.amount, 6),
+    from: job.sourceChain,
+    to: job.destination,
+    borrowTxHash: job.borrowTxHash,
+    steps: job.steps.map((step) => ({
+      name: step.name,
+      state: step.state,
+      txHash: step.txHash,
+      explorerUrl: step.explorerUrl,
+      error: step.error,
+      at: new Date(step.at * 1000).toISOString(),
+    })),
+    refundTxHash: job.refundTxHash,
+    attempts: job.attempts,
+    error: job.error,
+    nextAttemptAt:
+      job.status === "retrying"
+        ? new Date(job.nextAttemptAt * 1000).toISOString()
+        : null,
+    createdAt: new Date(job.createdAt * 1000).toISOString(),
+    updatedAt: new Date(job.updatedAt * 1000).toISOString(),
+  };
+}
+
+/**
+ * Bridge Kit chain of a chain id (null when Bridge Kit does not serve it)
+ */
+function bridgeChainOf(chainId: number): BridgeChain | null {
+  return (
+    Object.values(NETWORKS).find((profile) => profile.chainId === chainId)
+      ?.bridgeChain ?? null
+  );
+}
@@ -0,0 +1,349 @@
+/**
+ * Dry Run
+ *
+ * Runs a request against live chain state without broadcasting or
+ * persisting anything. Inside runDryRun():
+ * - PoolClient writes are simulated: staticCall for the revert reason,
+ *   estimateGas for the cost, and the pool's state changes are mirrored
+ *   onto an overlay that later PoolClient reads in the same request see
+ * - agent registry writes land in the session instead of SQLite
+ *   (see dryRunRepository)
+ * - reputation feedback and admin audit entries are skipped by the caller
+ *
+ * Later writes in a request often depend on earlier ones (auto-onboard
+ * then borrow, repay then setCreditLimit). The chain hasn't seen those, so
+ * once the overlay holds an agent its writes are checked against the
+ * overlay with the pool's own require()s and reported as "predicted".
+ * The overlay is kept per pool, so a request touching several pools
+ * (shared credit lines) predicts each one separately.
+ *
+ * Sessions live in AsyncLocalStorage, so concurrent requests never share
+ * an overlay and code outside a session is unaffected.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { ethers } from "ethers";
+import { AgentRepository } from "./agent-store";
+import { InterestParams, pendingInterest } from "./interest";
+import {
+  AgentOnChain,
+  DelinquencyDecision,
+  LimitChange,
+  StoredAgent,
+} from "./types";
+
+export type DryRunSimulation = "chain" | "predicted";
+
+export interface DryRunTransaction {
+  method: string;
+  args: string[];
+  from: string;
+  to: string;
+  data: string;
+  simulation: DryRunSimulation;
+  gasEstimate: string | null;
+  revertReason: string | null;
+}
+
+export interface PoolTotals {
+  totalLiquidity: bigint;
+  totalAssets: bigint;
+}
+
+export interface DryRunReport {
+  transactions: DryRunTransaction[];
+  postState: {
+    // By pool address, for every pool the request wrote to
+    pools: Record<
+      string,
+      {
+        agents: Record<
+          string,
+          {
+            debt: string;
+            principal: string;
+            creditLimit: string;
+            frozen: boolean;
+            active: boolean;
+          }
+        >;
+        totals: { totalLiquidity: string; totalAssets: string } | null;
+      }
+    >;
+  };
+  records: {
+    limitChanges: number;
+    delinquencyDecisions: number;
+  };
+}
+
+/**
+ * Raised for a simulated write the pool would revert
+ */
+export class DryRunRevertError extends Error {
+  readonly code = "DRY_RUN_REVERTED";
+  readonly method: string;
+  readonly reason: string;
+
+  constructor(method: string, reason: string) {
+    super(`${method} would revert: ${reason}`);
+    this.name = "DryRunRevertError";
+    this.method = method;
+    this.reason = reason;
+  }
+}
+
+const usdc = (amount: bigint) => ethers.formatUnits(amount, 6);
+
+export class DryRunSession {
+  readonly transactions: DryRunTransaction[] = [];
+  // Predicted `agents` mapping entries (stored debt, not getAgentState),
+  // by pool address and agent address
+  private agents = new Map<string, Map<string, AgentOnChain>>();
+  private pools = new Map<string, PoolTotals>();
+  // Block time per pool (pools may be on different chains)
+  private chainTimes = new Map<string, bigint>();
+  // Registry writes held back from the stores, by store scope and address
+  private records = new Map<string, StoredAgent>();
+  private limitChanges: LimitChange[] = [];
+  private decisions: DelinquencyDecision[] = [];
+
+  getAgent(pool: string, address: string): AgentOnChain | undefined {
+    return this.agents.get(pool.toLowerCase())?.get(address.toLowerCase());
+  }
+
+  setAgent(pool: string, address: string, state: AgentOnChain): void {
+    const key = pool.toLowerCase();
+    const agents = this.agents.get(key) ?? new Map<string, AgentOnChain>();
+    agents.set(address.toLowerCase(), state);
+    this.agents.set(key, agents);
+  }
+
+  getPool(pool: string): PoolTotals | null {
+    return this.pools.get(pool.toLowerCase()) ?? null;
+  }
+
+  setPool(pool: string, totals: PoolTotals): void {
+    this.pools.set(pool.toLowerCase(), totals);
+  }
+
+  /**
+   * Block time the session simulates a pool at (read once per pool)
+   */
+  async time(pool: string, read: () => Promise<bigint>): Promise<bigint> {
+    const key = pool.toLowerCase();
+    let time = this.chainTimes.get(key);
+    if (time === undefined) {
+      time = await read();
+      this.chainTimes.set(key, time);
+    }
+    return time;
+  }
+
+  getRecord(scope: string, address: string): StoredAgent | undefined {
+    return this.records.get(`${scope}:${address.toLowerCase()}`);
+  }
+
+  saveRecord(scope: string, agent: StoredAgent): void {
+    this.records.set(`${scope}:${agent.address.toLowerCase()}`, agent);
+  }
+
+  recordLimitChange(change: LimitChange): void {
+    this.limitChanges.push(change);
+  }
+
+  recordDecision(decision: DelinquencyDecision): void {
+    this.decisions.push(decision);
+  }
+
+  report(): DryRunReport {
+    const pools: DryRunReport["postState"]["pools"] = {};
+    for (const pool of new Set([...this.agents.keys(), ...this.pools.keys()])) {
+      const agents: DryRunReport["postState"]["pools"][string]["agents"] = {};
+      for (const [address, state] of this.agents.get(pool) ?? []) {
+        agents[ethers.getAddress(address)] = {
+          debt: usdc(state.debt),
+          principal: usdc(state.principal),
+          creditLimit: usdc(state.creditLimit),
+          frozen: state.frozen,
+          active: state.active,
+        };
+      }
+      const totals = this.pools.get(pool);
+      pools[ethers.getAddress(pool)] = {
+        agents,
+        totals: totals
+          ? {
+              totalLiquidity: usdc(totals.totalLiquidity),
+              totalAssets: usdc(totals.totalAssets),
+            }
+          : null,
+      };
+    }
+
+    return {
+      transactions: this.transactions,
+      postState: { pools },
+      records: {
+        limitChanges: this.limitChanges.length,
+        delinquencyDecisions: this.decisions.length,
+      },
+    };
+  }
+}
+
+const storage = new AsyncLocalStorage<DryRunSession>();
+
+/**
+ * Run fn in a fresh dry-run session
+ */
+export async function runDryRun<T>(
+  fn: () => Promise<T>,
+): Promise<{ result: T; session: DryRunSession }> {
+  const session = new DryRunSession();
+  const result = await storage.run(session, fn);
+  return { result, session };
+}
+
+/**
+ * Session of the dry run in progress, if any
+ */
+export function currentDryRun(): DryRunSession | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Mirror of a CredexPool write on the stored agent state and pool totals.
+ * Throws DryRunRevertError with the pool's require() message.
+ */
+export function applyPoolWrite(
+  method: string,
+  args: unknown[],
+  agent: AgentOnChain,
+  pool: PoolTotals,
+  now: bigint,
+  params: InterestParams,
+): { agent: AgentOnChain; pool: PoolTotals } {
+  const revert = (reason: string): never => {
+    throw new DryRunRevertError(method, reason);
+  };
+  const amount = args[1] as bigint;
+
+  // _accrueInterest, as borrow and repay do first
+  const accrue = (): { agent: AgentOnChain; pool: PoolTotals } => {
+    const interest = pendingInterest(agent, now, params);
+    if (interest === 0n) return { agent, pool };
+    const intervals = (now - agent.lastAccrued) / params.interval;
+    return {
+      agent: {
+        ...agent,
+        debt: agent.debt + interest,
+        lastAccrued: agent.lastAccrued + intervals * params.interval,
+      },
+      pool: { ...pool, totalAssets: pool.totalAssets + interest },
+    };
+  };
+
+  switch (method) {
+    case "onboardAgent":
+      if (agent.active) revert("Already onboarded");
+      return {
+        agent: {
+          debt: 0n,
+          principal: 0n,
+          creditLimit: amount,
+          lastAccrued: now,
+          lastRepayment: now,
+          frozen: false,
+          active: true,
+        },
+        pool,
+      };
+    case "setCreditLimit":
+      if (!agent.active) revert("Not active");
+      return { agent: { ...agent, creditLimit: amount }, pool };
+    case "freeze":
+    case "unfreeze":
+      if (!agent.active) revert("Not active");
+      return { agent: { ...agent, frozen: method === "freeze" }, pool };
+    case "borrow":
+    case "borrowTo": {
+      if (!agent.active) revert("Not active");
+      if (agent.frozen) revert("Account frozen");
+      const accrued = accrue();
+      const acc = accrued.agent;
+      if (acc.principal + amount > acc.creditLimit) revert("Exceeds limit");
+      if (accrued.pool.totalLiquidity < amount) {
+        revert("Insufficient liquidity");
+      }
+      return {
+        agent: {
+          ...acc,
+          principal: acc.principal + amount,
+          debt: acc.debt + amount,
+        },
+        pool: {
+          totalLiquidity: accrued.pool.totalLiquidity - amount,
+          totalAssets: accrued.pool.totalAssets,
+        },
+      };
+    }
+    case "repay": {
+      if (!agent.active) revert("Not active");
+      const accrued = accrue();
+      const acc = accrued.agent;
+      const paid = amount > acc.debt ? acc.debt : amount;
+      // Interest first, then principal
+      const interestOwed = acc.debt - acc.principal;
+      const principalRepaid = paid > interestOwed ? paid - interestOwed : 0n;
+      return {
+        agent: {
+          ...acc,
+          debt: acc.debt - paid,
+          principal: acc.principal - principalRepaid,
+          lastRepayment: now,
+        },
+        pool: {
+          totalLiquidity: accrued.pool.totalLiquidity + paid,
+          totalAssets: accrued.pool.totalAssets,
+        },
+      };
+    }
+    default:
+      throw new Error(`No dry-run mirror for pool method ${method}`);
+  }
+}
+
+/**
+ * Agent registry whose writes go to the current dry-run session (and whose
+ * reads see them) instead of the store. Outside a session it is the store.
+ * scope keeps the session's records of different pools' registries apart.
+ */
+export function dryRunRepository(
+  store: AgentRepository,
+  scope: string,
+): AgentRepository {
+  return new Proxy(store, {
+    get(target, prop, receiver) {
+      const session = currentDryRun();
+      if (session) {
+        switch (prop) {
+          case "saveAgent":
+            return async (agent: StoredAgent) =>
+              session.saveRecord(scope, agent);
+          case "getAgent":
+            return async (address: string) =>
+              session.getRecord(scope, address) ?? target.getAgent(address);
+          case "recordLimitChange":
+            return async (change: LimitChange) =>
+              session.recordLimitChange(change);
+          case "recordDelinquencyDecision":
+            return async (decision: DelinquencyDecision) =>
+              session.recordDecision(decision);
+        }
+      }
+      // Unbound, so e.g. syncOnChain's this.saveAgent comes back through here
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+}
@@ -0,0 +1,211 @@
+/**
+ * Pool Event Store
+ *
+ * Local copy of CredexPool events written by the indexer, queryable per
+ * account (borrower agent or LP) and pool-wide. The checkpoint records the
+ * last indexed block and its hash so the indexer can detect reorgs.
+ */
+
+import { getAddress } from "ethers";
+import { CredexDatabase } from "./db";
+import { IndexerCheckpoint, PoolEvent } from "./types";
+
+export interface HistoryQuery {
+  limit?: number;
+  offset?: number;
+  event?: string;
+}
+
+export interface EventStore {
+  getCheckpoint(): Promise<IndexerCheckpoint | null>;
+
+  /**
+   * Atomically append events and advance the checkpoint
+   */
+  saveBatch(events: PoolEvent[], checkpoint: IndexerCheckpoint): Promise<void>;
+
+  /**
+   * Drop everything above `checkpoint.blockNumber` (reorg recovery);
+   * null drops everything
+   */
+  rewind(checkpoint: IndexerCheckpoint | null): Promise<void>;
+
+  getAccountHistory(
+    account: string,
+    query?: HistoryQuery,
+  ): Promise<PoolEvent[]>;
+  getPoolHistory(query?: HistoryQuery): Promise<PoolEvent[]>;
+  countEvents(account: string, event: string): Promise<number>;
+}
+
+interface EventRow {
+  block_number: number;
+  block_hash: string;
+  tx_hash: string;
+  log_index: number;
+  event: string;
+  account: string;
+  args: string;
+  timestamp: number;
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+export class SqliteEventStore implements EventStore {
+  private db: CredexDatabase;
+
+  constructor(db: CredexDatabase) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS pool_events (
+        block_number    INTEGER NOT NULL,
+        block_hash      TEXT NOT NULL,
+        tx_hash         TEXT NOT NULL,
+        log_index       INTEGER NOT NULL,
+        event           TEXT NOT NULL,
+        account         TEXT NOT NULL,
+        args            TEXT NOT NULL,
+        timestamp       INTEGER NOT NULL,
+        PRIMARY KEY (tx_hash, log_index)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_pool_events_account
+        ON pool_events (account, block_number);
+
+      CREATE INDEX IF NOT EXISTS idx_pool_events_block
+        ON pool_events (block_number, log_index);
+
+      CREATE TABLE IF NOT EXISTS indexer_checkpoint (
+        id              INTEGER PRIMARY KEY CHECK (id = 1),
+        block_number    INTEGER NOT NULL,
+        block_hash      TEXT NOT NULL
+      );
+    `);
+  }
+
+  async getCheckpoint(): Promise<IndexerCheckpoint | null> {
+    const row = this.db
+      .prepare("SELECT * FROM indexer_checkpoint WHERE id = 1")
+      .get() as { block_number: number; block_hash: string } | undefined;
+    return row
+      ? { blockNumber: row.block_number, blockHash: row.block_hash }
+      : null;
+  }
+
+  async saveBatch(
+    events: PoolEvent[],
+    checkpoint: IndexerCheckpoint,
+  ): Promise<void> {
+    const insert = this.db.prepare(
+      `INSERT OR REPLACE INTO pool_events (
+        block_number, block_hash, tx_hash, log_index, event, account, args,
+        timestamp
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+
+    this.db.transaction(() => {
+      for (const event of events) {
+        insert.run(
+          event.blockNumber,
+          event.blockHash,
+          event.txHash,
+          event.logIndex,
+          event.event,
+          event.account.toLowerCase(),
+          JSON.stringify(event.args),
+          event.timestamp,
+        );
+      }
+      this.writeCheckpoint(checkpoint);
+    })();
+  }
+
+  async rewind(checkpoint: IndexerCheckpoint | null): Promise<void> {
+    this.db.transaction(() => {
+      this.db
+        .prepare("DELETE FROM pool_events WHERE block_number > ?")
+        .run(checkpoint?.blockNumber ?? -1);
+      if (checkpoint) {
+        this.writeCheckpoint(checkpoint);
+      } else {
+        this.db.prepare("DELETE FROM indexer_checkpoint").run();
+      }
+    })();
+  }
+
+  async getAccountHistory(
+    account: string,
+    query: HistoryQuery = {},
+  ): Promise<PoolEvent[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM pool_events
+         WHERE account = ? AND (? IS NULL OR event = ?)
+         ORDER BY block_number, log_index
+         LIMIT ? OFFSET ?`,
+      )
+      .all(
+        account.toLowerCase(),
+        query.event ?? null,
+        query.event ?? null,
+        this.limit(query),
+        query.offset ?? 0,
+      ) as EventRow[];
+    return rows.map((row) => this.toEvent(row));
+  }
+
+  async getPoolHistory(query: HistoryQuery = {}): Promise<PoolEvent[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM pool_events
+         WHERE (? IS NULL OR event = ?)
+         ORDER BY block_number, log_index
+         LIMIT ? OFFSET ?`,
+      )
+      .all(
+        query.event ?? null,
+        query.event ?? null,
+        this.limit(query),
+        query.offset ?? 0,
+      ) as EventRow[];
+    return rows.map((row) => this.toEvent(row));
+  }
+
+  async countEvents(account: string, event: string): Promise<number> {
+    const row = this.db
+      .prepare(
+        "SELECT COUNT(*) AS count FROM pool_events WHERE account = ? AND event = ?",
+      )
+      .get(account.toLowerCase(), event) as { count: number };
+    return row.count;
+  }
+
+  // --- Private helpers ---
+
+  private writeCheckpoint(checkpoint: IndexerCheckpoint) {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO indexer_checkpoint (id, block_number, block_hash)
+         VALUES (1, ?, ?)`,
+      )
+      .run(checkpoint.blockNumber, checkpoint.blockHash);
+  }
+
+  private limit(query: HistoryQuery): number {
+    return Math.min(query.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
+  }
+
+  private toEvent(row: EventRow): PoolEvent {
+    return {
+      blockNumber: row.block_number,
+      blockHash: row.block_hash,
+      txHash: row.tx_hash,
+      logIndex: row.log_index,
+      event: row.event,
+      account: getAddress(row.account),
+      args: JSON.parse(row.args),
+      timestamp: row.timestamp,
+    };
+  }
+}
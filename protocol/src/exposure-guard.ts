@@ -0,0 +1,96 @@
+/**
+ * Exposure Guard
+ *
+ * Pool-level limits checked on every borrow, on top of the agent's own
+ * credit line (see ExposureRules):
+ * - utilization:   (borrowed + amount) / totalAssets stays <= maxUtilizationBp
+ * - agent share:   (agent debt + amount) / totalAssets stays <= maxAgentShareBp
+ * - reserve:       totalLiquidity - amount stays >= minLiquidityReserve
+ *
+ * A borrow that trips a guard is rejected with an ExposureLimitError naming
+ * the binding guard and the largest amount every guard would still allow.
+ */
+
+import { ethers } from "ethers";
+import { AgentOnChain, ExposureRules } from "./types";
+
+const BP = 10_000n;
+
+export type ExposureGuardName = "utilization" | "agent-share" | "reserve";
+
+export interface PoolExposure {
+  totalAssets: bigint; // cash + outstanding debt
+  totalLiquidity: bigint; // cash
+}
+
+export class ExposureLimitError extends Error {
+  readonly code = "EXPOSURE_LIMIT";
+  readonly guard: ExposureGuardName;
+  readonly maxBorrowable: bigint;
+
+  constructor(
+    guard: ExposureGuardName,
+    maxBorrowable: bigint,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ExposureLimitError";
+    this.guard = guard;
+    this.maxBorrowable = maxBorrowable;
+  }
+}
+
+export class ExposureGuard {
+  private maxUtilizationBp: bigint;
+  private maxAgentShareBp: bigint;
+  private minLiquidityReserve: bigint;
+
+  constructor(rules: ExposureRules) {
+    this.maxUtilizationBp = BigInt(rules.maxUtilizationBp);
+    this.maxAgentShareBp = BigInt(rules.maxAgentShareBp);
+    this.minLiquidityReserve = ethers.parseUnits(rules.minLiquidityReserve, 6);
+  }
+
+  /**
+   * Largest borrow each guard allows for this agent right now
+   */
+  headroom(
+    agent: AgentOnChain,
+    pool: PoolExposure,
+  ): Record<ExposureGuardName, bigint> {
+    const borrowed = pool.totalAssets - pool.totalLiquidity;
+    const atLeastZero = (value: bigint) => (value > 0n ? value : 0n);
+
+    return {
+      utilization: atLeastZero(
+        (pool.totalAssets * this.maxUtilizationBp) / BP - borrowed,
+      ),
+      "agent-share": atLeastZero(
+        (pool.totalAssets * this.maxAgentShareBp) / BP - agent.debt,
+      ),
+      reserve: atLeastZero(pool.totalLiquidity - this.minLiquidityReserve),
+    };
+  }
+
+  /**
+   * Throws ExposureLimitError if borrowing `amount` would break a guard.
+   * maxBorrowable is also capped by the agent's available credit.
+   */
+  check(agent: AgentOnChain, amount: bigint, pool: PoolExposure): void {
+    const headroom = this.headroom(agent, pool);
+    const [guard, limit] = (
+      Object.entries(headroom) as [ExposureGuardName, bigint][]
+    ).reduce((min, entry) => (entry[1] < min[1] ? entry : min));
+
+    if (amount <= limit) return;
+
+    const available = agent.creditLimit - agent.principal;
+    const capped = available < limit ? available : limit;
+    const maxBorrowable = capped > 0n ? capped : 0n;
+    throw new ExposureLimitError(
+      guard,
+      maxBorrowable,
+      `Borrow exceeds the pool ${guard} limit. Max borrowable: ${ethers.formatUnits(maxBorrowable, 6)} USDC`,
+    );
+  }
+}
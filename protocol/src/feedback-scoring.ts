@@ -0,0 +1,158 @@
+/**
+ * Feedback Scoring
+ *
+ * Turns raw ERC-8004 NewFeedback entries into a score (0-100) that a
+ * single colluding reviewer cannot move far:
+ *
+ *   entryWeight   = 0.5^(ageDays / recencyHalfLifeDays) * tagWeight(tag1) * tagWeight(tag2)
+ *   reviewerScore = sum(entryWeight * score) / sum(entryWeight)      per clientAddress
+ *   influence     = min(sum(entryWeight), reviewerWeightCap) * reputationWeight
+ *   score         = (sum(influence * reviewerScore) + priorWeight * priorScore)
+ *                   / (sum(influence) + priorWeight)
+ *
+ * So repeated reviews from one address count at most as reviewerWeightCap
+ * fresh reviews, and reviewers without reputation of their own (no
+ * ERC-8004 identity or no feedback) count at unknownReviewerWeight.
+ * Reviews an agent leaves for itself are dropped. The neutral prior keeps
+ * a score near priorScore until reviewers with enough combined influence
+ * agree: a lone unknown reviewer giving 100 moves it from 50 to about 56.
+ */
+
+import { decodeBytes32String, ethers } from "ethers";
+import { FeedbackEntry } from "./reputation";
+import {
+  FeedbackScoreBreakdown,
+  FeedbackScoringConfig,
+  ReviewerBreakdown,
+} from "./types";
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+export const DEFAULT_FEEDBACK_SCORING: FeedbackScoringConfig = {
+  recencyHalfLifeDays: 90,
+  blockTimeSeconds: 2, // Base Sepolia
+  reviewerWeightCap: 1,
+  unknownReviewerWeight: 0.25,
+  priorScore: 50,
+  priorWeight: 2,
+  reviewerLookup: true,
+  requiredTags: [],
+  tagWeights: {},
+};
+
+export interface ScoringContext {
+  agentId: bigint;
+  headBlock: number;
+
+  /**
+   * Reviewer's own standing (0..1), or null when it has none
+   */
+  reviewerReputation: (clientAddress: string) => Promise<number | null>;
+
+  /**
+   * Reviewer's own agentId, to drop self-reviews (null when unregistered)
+   */
+  reviewerAgentId: (clientAddress: string) => Promise<bigint | null>;
+}
+
+/**
+ * bytes32 tags are compared as their decoded string when they hold one
+ */
+export function decodeTag(tag: string): string {
+  if (!tag || tag === ethers.ZeroHash) return "";
+  try {
+    return decodeBytes32String(tag);
+  } catch {
+    return tag.toLowerCase();
+  }
+}
+
+export async function scoreFeedback(
+  entries: FeedbackEntry[],
+  ctx: ScoringContext,
+  config: FeedbackScoringConfig,
+): Promise<FeedbackScoreBreakdown> {
+  const tagWeight = (tag: string) => config.tagWeights[decodeTag(tag)] ?? 1;
+
+  // Tag filters and per-entry weights
+  const weighted = entries
+    .filter(
+      (entry) =>
+        config.requiredTags.length === 0 ||
+        config.requiredTags.includes(decodeTag(entry.tag1)) ||
+        config.requiredTags.includes(decodeTag(entry.tag2)),
+    )
+    .map((entry) => {
+      const ageDays =
+        (Math.max(0, ctx.headBlock - entry.blockNumber) *
+          config.blockTimeSeconds) /
+        SECONDS_PER_DAY;
+      const recency = Math.pow(0.5, ageDays / config.recencyHalfLifeDays);
+      return {
+        entry,
+        weight: recency * tagWeight(entry.tag1) * tagWeight(entry.tag2),
+      };
+    })
+    .filter(({ weight }) => weight > 0);
+
+  // Group by reviewer
+  const byReviewer = new Map<string, typeof weighted>();
+  for (const item of weighted) {
+    const key = item.entry.clientAddress.toLowerCase();
+    byReviewer.set(key, [...(byReviewer.get(key) ?? []), item]);
+  }
+
+  const reviewers: ReviewerBreakdown[] = [];
+  let counted = 0;
+  let plainSum = 0;
+
+  for (const items of byReviewer.values()) {
+    const clientAddress = items[0].entry.clientAddress;
+
+    if (
+      config.reviewerLookup &&
+      (await ctx.reviewerAgentId(clientAddress)) === ctx.agentId
+    ) {
+      continue; // self-review
+    }
+
+    const entryWeight = items.reduce((sum, item) => sum + item.weight, 0);
+    const averageScore =
+      items.reduce((sum, item) => sum + item.weight * item.entry.score, 0) /
+      entryWeight;
+    const reputationWeight = config.reviewerLookup
+      ? ((await ctx.reviewerReputation(clientAddress)) ??
+        config.unknownReviewerWeight)
+      : config.unknownReviewerWeight;
+
+    counted += items.length;
+    plainSum += items.reduce((sum, item) => sum + item.entry.score, 0);
+    reviewers.push({
+      clientAddress,
+      entries: items.length,
+      averageScore,
+      entryWeight,
+      reputationWeight,
+      influence:
+        Math.min(entryWeight, config.reviewerWeightCap) * reputationWeight,
+    });
+  }
+
+  // Shrunk toward the prior by how little influence the reviewers carry
+  const totalInfluence = reviewers.reduce((sum, r) => sum + r.influence, 0);
+  const score =
+    totalInfluence > 0
+      ? (reviewers.reduce((sum, r) => sum + r.influence * r.averageScore, 0) +
+          config.priorWeight * config.priorScore) /
+        (totalInfluence + config.priorWeight)
+      : null;
+
+  return {
+    entries: entries.length,
+    counted,
+    plainAverage: counted > 0 ? plainSum / counted : null,
+    influence: totalInfluence,
+    score,
+    reviewers: reviewers.sort((a, b) => b.influence - a.influence),
+  };
+}
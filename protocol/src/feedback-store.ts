@@ -0,0 +1,171 @@
+/**
+ * ERC-8004 Feedback Store
+ *
+ * Local copy of NewFeedback entries from the Reputation Registry, kept per
+ * agentId together with the last block scanned for that agentId. Later
+ * reads only scan the blocks after the checkpoint. Identity Registry
+ * registration times are kept too, since they never change.
+ */
+
+import { getAddress } from "ethers";
+import { CredexDatabase } from "./db";
+import { FeedbackEntry } from "./reputation";
+
+export interface FeedbackStore {
+  /**
+   * Last block scanned for agentId (null when never scanned)
+   */
+  getCheckpoint(agentId: bigint): Promise<number | null>;
+
+  /**
+   * Atomically append entries and advance the agentId's checkpoint
+   */
+  saveBatch(
+    agentId: bigint,
+    entries: FeedbackEntry[],
+    scannedTo: number,
+  ): Promise<void>;
+
+  getEntries(agentId: bigint): Promise<FeedbackEntry[]>;
+
+  /**
+   * Registration timestamp of agentId (null when not yet looked up)
+   */
+  getRegistration(agentId: bigint): Promise<number | null>;
+  saveRegistration(agentId: bigint, registeredAt: number): Promise<void>;
+}
+
+interface FeedbackRow {
+  agent_id: string;
+  client_address: string;
+  score: number;
+  tag1: string;
+  tag2: string;
+  fileuri: string;
+  filehash: string;
+  block_number: number;
+  tx_hash: string;
+  log_index: number;
+}
+
+export class SqliteFeedbackStore implements FeedbackStore {
+  private db: CredexDatabase;
+
+  constructor(db: CredexDatabase) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS erc8004_feedback (
+        agent_id        TEXT NOT NULL,
+        client_address  TEXT NOT NULL,
+        score           INTEGER NOT NULL,
+        tag1            TEXT NOT NULL,
+        tag2            TEXT NOT NULL,
+        fileuri         TEXT NOT NULL,
+        filehash        TEXT NOT NULL,
+        block_number    INTEGER NOT NULL,
+        tx_hash         TEXT NOT NULL,
+        log_index       INTEGER NOT NULL,
+        PRIMARY KEY (tx_hash, log_index)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_erc8004_feedback_agent
+        ON erc8004_feedback (agent_id, block_number);
+
+      CREATE TABLE IF NOT EXISTS erc8004_feedback_checkpoints (
+        agent_id        TEXT PRIMARY KEY,
+        scanned_to      INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS erc8004_registrations (
+        agent_id        TEXT PRIMARY KEY,
+        registered_at   INTEGER NOT NULL
+      );
+    `);
+  }
+
+  async getCheckpoint(agentId: bigint): Promise<number | null> {
+    const row = this.db
+      .prepare(
+        "SELECT scanned_to FROM erc8004_feedback_checkpoints WHERE agent_id = ?",
+      )
+      .get(agentId.toString()) as { scanned_to: number } | undefined;
+    return row?.scanned_to ?? null;
+  }
+
+  async saveBatch(
+    agentId: bigint,
+    entries: FeedbackEntry[],
+    scannedTo: number,
+  ): Promise<void> {
+    const insert = this.db.prepare(
+      `INSERT OR IGNORE INTO erc8004_feedback (
+        agent_id, client_address, score, tag1, tag2, fileuri, filehash,
+        block_number, tx_hash, log_index
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+
+    this.db.transaction(() => {
+      for (const entry of entries) {
+        insert.run(
+          entry.agentId.toString(),
+          entry.clientAddress.toLowerCase(),
+          entry.score,
+          entry.tag1,
+          entry.tag2,
+          entry.fileuri,
+          entry.filehash,
+          entry.blockNumber,
+          entry.txHash,
+          entry.logIndex,
+        );
+      }
+      this.db
+        .prepare(
+          `INSERT OR REPLACE INTO erc8004_feedback_checkpoints (agent_id, scanned_to)
+           VALUES (?, ?)`,
+        )
+        .run(agentId.toString(), scannedTo);
+    })();
+  }
+
+  async getEntries(agentId: bigint): Promise<FeedbackEntry[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM erc8004_feedback
+         WHERE agent_id = ?
+         ORDER BY block_number, log_index`,
+      )
+      .all(agentId.toString()) as FeedbackRow[];
+
+    return rows.map((row) => ({
+      agentId: BigInt(row.agent_id),
+      clientAddress: getAddress(row.client_address),
+      score: row.score,
+      tag1: row.tag1,
+      tag2: row.tag2,
+      fileuri: row.fileuri,
+      filehash: row.filehash,
+      blockNumber: row.block_number,
+      txHash: row.tx_hash,
+      logIndex: row.log_index,
+    }));
+  }
+
+  async getRegistration(agentId: bigint): Promise<number | null> {
+    const row = this.db
+      .prepare(
+        "SELECT registered_at FROM erc8004_registrations WHERE agent_id = ?",
+      )
+      .get(agentId.toString()) as { registered_at: number } | undefined;
+    return row?.registered_at ?? null;
+  }
+
+  async saveRegistration(agentId: bigint, registeredAt: number): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO erc8004_registrations (agent_id, registered_at)
+         VALUES (?, ?)`,
+      )
+      .run(agentId.toString(), registeredAt);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Growth Guard
+ *
+ * Anti-gaming limits on repayment-driven credit limit growth. The credit
+ * policy proposes a new limit; the guard decides how much of that growth
+ * is actually granted:
+ * - repayments reducing principal by less than minPrincipalRepaid earn nothing
+ * - no growth within cooldownSeconds of the previous growth event
+ * - total growth within a rolling windowSeconds is capped at maxGrowthPerWindow
+ */
+
+import { ethers } from "ethers";
+import { AgentRepository } from "./agent-store";
+import { GrowthGuardRules } from "./types";
+
+export const GROWTH_REASON = "repayment-growth";
+
+export interface GrowthVerdict {
+  granted: bigint; // growth allowed (0 when blocked)
+  reason?: string; // why growth was withheld or reduced
+}
+
+export class GrowthGuard {
+  private store: AgentRepository;
+  private minPrincipalRepaid: bigint;
+  private cooldownSeconds: number;
+  private windowSeconds: number;
+  private maxGrowthPerWindow: bigint;
+
+  constructor(store: AgentRepository, rules: GrowthGuardRules) {
+    this.store = store;
+    this.minPrincipalRepaid = ethers.parseUnits(rules.minPrincipalRepaid, 6);
+    this.cooldownSeconds = rules.cooldownSeconds;
+    this.windowSeconds = rules.windowSeconds;
+    this.maxGrowthPerWindow = ethers.parseUnits(rules.maxGrowthPerWindow, 6);
+  }
+
+  async check(
+    agentAddress: string,
+    principalRepaid: bigint,
+    proposedGrowth: bigint,
+    now: number,
+  ): Promise<GrowthVerdict> {
+    if (proposedGrowth <= 0n) {
+      return {
+        granted: 0n,
+        reason:
+          principalRepaid > 0n
+            ? "Limit is already at the policy cap"
+            : "Repayment only covered interest",
+      };
+    }
+
+    if (principalRepaid < this.minPrincipalRepaid) {
+      return {
+        granted: 0n,
+        reason: `Principal repaid is below the ${ethers.formatUnits(this.minPrincipalRepaid, 6)} USDC minimum for growth`,
+      };
+    }
+
+    const growthEvents = (await this.store.getLimitHistory(agentAddress))
+      .filter((change) => change.reason === GROWTH_REASON)
+      .filter((change) => change.newLimit > change.previousLimit);
+
+    const last = growthEvents[growthEvents.length - 1];
+    if (last && now - last.timestamp < this.cooldownSeconds) {
+      const wait = this.cooldownSeconds - (now - last.timestamp);
+      return {
+        granted: 0n,
+        reason: `Growth cooldown active for another ${wait}s`,
+      };
+    }
+
+    const windowStart = now - this.windowSeconds;
+    const grownInWindow = growthEvents
+      .filter((change) => change.timestamp > windowStart)
+      .reduce(
+        (sum, change) => sum + (change.newLimit - change.previousLimit),
+        0n,
+      );
+    const remaining = this.maxGrowthPerWindow - grownInWindow;
+
+    if (remaining <= 0n) {
+      return {
+        granted: 0n,
+        reason: `Growth cap of ${ethers.formatUnits(this.maxGrowthPerWindow, 6)} USDC per window reached`,
+      };
+    }
+
+    if (proposedGrowth > remaining) {
+      return {
+        granted: remaining,
+        reason: `Growth reduced to the ${ethers.formatUnits(this.maxGrowthPerWindow, 6)} USDC per-window cap`,
+      };
+    }
+
+    return { granted: proposedGrowth };
+  }
+}
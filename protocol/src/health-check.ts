@@ -0,0 +1,368 @@
+/**
+ * Health Checks
+ *
+ * Verifies the deployment the clearing agent depends on, so a
+ * misconfiguration shows up at boot instead of as an opaque revert on the
+ * first borrow:
+ *   rpc            chain id matches config, head block, latency and the
+ *                  health of each configured endpoint (providers.ts)
+ *   pool           pool bytecode exists at the configured address and has
+ *                  borrowTo (without it deliverTo borrows are refused)
+ *   credexAgent    pool.credexAgent() is our signer (onlyAgent writes)
+ *   usdc           pool.USDC() is the configured USDC address
+ *   gas            signer holds enough native balance for gas
+ *   reputationRpc  Base RPC the ERC-8004 reads and feedback go through
+ *   indexer        pool event indexer lag and last error
+ *   publisher      queued credit events waiting for ERC-8004 feedback
+ *
+ * Each component is ok, warn (working but degraded) or fail. The startup
+ * checks (STARTUP_CHECKS) run before the server listens and a failure
+ * stops the boot; GET /health/deep runs every check. With several pools
+ * each pool has its own checker; the shared components (reputationRpc,
+ * publisher) are only reported for the first.
+ */
+
+import { ethers, Provider } from "ethers";
+import { getEndpointHealth, AddressedSigner } from "credex-shared";
+import { PoolClient } from "./pool-client";
+import { EventIndexer } from "./indexer";
+import { ReputationPublisher } from "./reputation-publisher";
+import { HealthConfig } from "./types";
+
+export type ComponentStatus = "ok" | "warn" | "fail";
+
+export type HealthComponent =
+  | "rpc"
+  | "pool"
+  | "credexAgent"
+  | "usdc"
+  | "gas"
+  | "reputationRpc"
+  | "indexer"
+  | "publisher";
+
+export interface ComponentHealth {
+  status: ComponentStatus;
+  detail: string;
+  latencyMs?: number;
+  data?: Record<string, unknown>;
+}
+
+export interface HealthReport {
+  status: "ok" | "degraded" | "down"; // down when any component fails
+  checkedAt: number;
+  components: Partial<Record<HealthComponent, ComponentHealth>>;
+  pools?: Record<string, HealthReport>; // further pools, by pool id
+}
+
+export interface HealthTargets {
+  chainId: number; // chain the pool must be on
+  provider: Provider; // pool chain
+  baseProvider: Provider; // ERC-8004 registries
+  signer: AddressedSigner;
+  poolClient: PoolClient;
+  usdcAddress: string;
+  indexer: EventIndexer;
+  publisher: ReputationPublisher;
+  dryRun: boolean; // nothing is sent, so low gas only warns
+}
+
+// Checks a misconfigured deployment can't serve a single borrow without
+export const STARTUP_CHECKS: HealthComponent[] = [
+  "rpc",
+  "pool",
+  "credexAgent",
+  "usdc",
+  "gas",
+];
+
+// Checks that differ between pools
+export const POOL_CHECKS: HealthComponent[] = [...STARTUP_CHECKS, "indexer"];
+
+const ALL_CHECKS: HealthComponent[] = [
+  ...POOL_CHECKS,
+  "reputationRpc",
+  "publisher",
+];
+
+const ICONS: Record<ComponentStatus, string> = {
+  ok: "✅",
+  warn: "⚠️",
+  fail: "❌",
+};
+
+export class HealthChecker {
+  private targets: HealthTargets;
+  private config: HealthConfig;
+  private checks: Record<HealthComponent, () => Promise<ComponentHealth>>;
+
+  constructor(targets: HealthTargets, config: HealthConfig) {
+    this.targets = targets;
+    this.config = config;
+    this.checks = {
+      rpc: () => this.checkRpc(targets.provider, targets.chainId),
+      pool: () => this.checkPool(),
+      credexAgent: () => this.checkCredexAgent(),
+      usdc: () => this.checkUsdc(),
+      gas: () => this.checkGas(),
+      reputationRpc: () => this.checkRpc(targets.baseProvider, null),
+      indexer: () => this.checkIndexer(),
+      publisher: () => this.checkPublisher(),
+    };
+  }
+
+  /**
+   * Run the given checks concurrently (all of them by default)
+   */
+  async run(components: HealthComponent[] = ALL_CHECKS): Promise<HealthReport> {
+    const results = await Promise.all(
+      components.map(
+        async (name) => [name, await this.runCheck(name)] as const,
+      ),
+    );
+    const statuses = results.map(([, result]) => result.status);
+
+    return {
+      status: statuses.includes("fail")
+        ? "down"
+        : statuses.includes("warn")
+          ? "degraded"
+          : "ok",
+      checkedAt: Math.floor(Date.now() / 1000),
+      components: Object.fromEntries(results),
+    };
+  }
+
+  /**
+   * One report for several pools: the first pool's components at the top,
+   * the others under pools, and the worst status overall
+   */
+  static combine(
+    first: HealthReport,
+    others: Record<string, HealthReport>,
+  ): HealthReport {
+    if (Object.keys(others).length === 0) return first;
+    const statuses = [first, ...Object.values(others)].map((r) => r.status);
+    return {
+      ...first,
+      status: statuses.includes("down")
+        ? "down"
+        : statuses.includes("degraded")
+          ? "degraded"
+          : "ok",
+      pools: others,
+    };
+  }
+
+  /**
+   * Print a report, one line per component
+   */
+  static log(title: string, report: HealthReport): void {
+    console.log(`🩺 ${title}: ${report.status}`);
+    for (const [name, result] of Object.entries(report.components)) {
+      console.log(`   ${ICONS[result.status]} ${name}: ${result.detail}`);
+    }
+    for (const [id, pool] of Object.entries(report.pools ?? {})) {
+      HealthChecker.log(`${title} (${id})`, pool);
+    }
+  }
+
+  // --- Checks ---
+
+  private async checkRpc(
+    provider: Provider,
+    expectedChainId: number | null,
+  ): Promise<ComponentHealth> {
+    const started = Date.now();
+    const blockNumber = await provider.getBlockNumber();
+    const latencyMs = Date.now() - started;
+    const { chainId } = await provider.getNetwork();
+    const endpoints = getEndpointHealth(provider);
+    const data = { chainId: Number(chainId), blockNumber, endpoints };
+
+    if (expectedChainId !== null && chainId !== BigInt(expectedChainId)) {
+      return {
+        status: "fail",
+        detail: `Connected to chain ${chainId}, expected ${expectedChainId}`,
+        latencyMs,
+        data,
+      };
+    }
+    const slow = latencyMs > this.config.maxRpcLatencyMs;
+    // Served, but through fewer endpoints than configured
+    const failing = endpoints.filter((endpoint) => !endpoint.healthy).length;
+    const notes = [
+      `${latencyMs}ms`,
+      ...(slow ? [`over ${this.config.maxRpcLatencyMs}ms`] : []),
+      ...(failing > 0
+        ? [`${failing}/${endpoints.length} endpoints failing`]
+        : []),
+    ];
+    return {
+      status: slow || failing > 0 ? "warn" : "ok",
+      detail: `Chain ${chainId}, block ${blockNumber} (${notes.join(", ")})`,
+      latencyMs,
+      data,
+    };
+  }
+
+  private async checkPool(): Promise<ComponentHealth> {
+    const { provider, poolClient } = this.targets;
+    const code = await provider.getCode(poolClient.address);
+    if (code === "0x") {
+      return {
+        status: "fail",
+        detail: `No contract deployed at ${poolClient.address}`,
+      };
+    }
+    const size = ethers.dataLength(code);
+    const detail = `Contract at ${poolClient.address} (${size} bytes)`;
+    // An older deployment still lends, but every deliverTo borrow is refused
+    if (!(await poolClient.supportsBorrowTo())) {
+      return {
+        status: "warn",
+        detail: `${detail}; no borrowTo, cross-chain delivery disabled`,
+        data: { borrowTo: false },
+      };
+    }
+    return { status: "ok", detail, data: { borrowTo: true } };
+  }
+
+  private async checkCredexAgent(): Promise<ComponentHealth> {
+    const { signer, poolClient } = this.targets;
+    const agent = await poolClient.getCredexAgent();
+    if (ethers.getAddress(agent) !== signer.address) {
+      return {
+        status: "fail",
+        detail: `Pool agent is ${agent}, signer is ${signer.address}; every pool write would revert`,
+        data: { credexAgent: agent, signer: signer.address },
+      };
+    }
+    return {
+      status: "ok",
+      detail: `Signer ${signer.address} is the pool agent`,
+    };
+  }
+
+  private async checkUsdc(): Promise<ComponentHealth> {
+    const { usdcAddress, poolClient } = this.targets;
+    const poolUsdc = await poolClient.getUsdcAddress();
+    if (!usdcAddress) {
+      return {
+        status: "warn",
+        detail: `USDC_ADDRESS not set; pool lends ${poolUsdc}`,
+        data: { poolUsdc },
+      };
+    }
+    if (ethers.getAddress(usdcAddress) !== ethers.getAddress(poolUsdc)) {
+      return {
+        status: "fail",
+        detail: `Pool lends ${poolUsdc}, USDC_ADDRESS is ${usdcAddress}`,
+        data: { poolUsdc, configured: usdcAddress },
+      };
+    }
+    return { status: "ok", detail: `Pool lends ${poolUsdc}` };
+  }
+
+  private async checkGas(): Promise<ComponentHealth> {
+    const { provider, signer, dryRun } = this.targets;
+    const balance = await provider.getBalance(signer.address);
+    const data = {
+      balance: ethers.formatEther(balance),
+      minimum: ethers.formatEther(this.config.minGasBalance),
+    };
+
+    if (balance < this.config.minGasBalance) {
+      return {
+        status: dryRun ? "warn" : "fail",
+        detail: `Signer balance ${data.balance} below ${data.minimum}${dryRun ? " (dry run sends nothing)" : ""}`,
+        data,
+      };
+    }
+    return { status: "ok", detail: `Signer balance ${data.balance}`, data };
+  }
+
+  private async checkIndexer(): Promise<ComponentHealth> {
+    const status = await this.targets.indexer.getStatus();
+    const data = { ...status };
+
+    if (status.lastError) {
+      return {
+        status: "warn",
+        detail: `Last pass failed: ${status.lastError}`,
+        data,
+      };
+    }
+    if (status.lag === null) {
+      return {
+        status: "warn",
+        detail: status.running ? "No blocks indexed yet" : "Not running",
+        data,
+      };
+    }
+    if (status.lag > this.config.maxIndexerLagBlocks) {
+      return {
+        status: "warn",
+        detail: `${status.lag} blocks behind head (max ${this.config.maxIndexerLagBlocks})`,
+        data,
+      };
+    }
+    return {
+      status: "ok",
+      detail: `${status.lag} blocks behind head (block ${status.lastIndexedBlock})`,
+      data,
+    };
+  }
+
+  private async checkPublisher(): Promise<ComponentHealth> {
+    const status = await this.targets.publisher.getStatus();
+    const data = { ...status };
+    if (!status.enabled) {
+      return { status: "ok", detail: "Disabled", data };
+    }
+
+    const age =
+      status.oldestQueuedAt !== null
+        ? Math.floor(Date.now() / 1000) - status.oldestQueuedAt
+        : 0;
+    if (age > this.config.maxFeedbackAgeSeconds) {
+      return {
+        status: "warn",
+        detail: `${status.queued} queued, oldest waiting ${age}s (max ${this.config.maxFeedbackAgeSeconds}s)`,
+        data: { ...data, oldestQueuedAgeSeconds: age },
+      };
+    }
+    return {
+      status: "ok",
+      detail: `${status.queued} queued, ${status.failed} failed`,
+      data: { ...data, oldestQueuedAgeSeconds: age },
+    };
+  }
+
+  // --- Private helpers ---
+
+  /**
+   * One check, failed on error or after checkTimeoutMs
+   */
+  private async runCheck(name: HealthComponent): Promise<ComponentHealth> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(new Error(`Timed out after ${this.config.checkTimeoutMs}ms`)),
+        this.config.checkTimeoutMs,
+      );
+    });
+
+    try {
+      return await Promise.race([this.checks[name](), timeout]);
+    } catch (error) {
+      return {
+        status: "fail",
+        detail: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
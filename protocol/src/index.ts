@@ -5,19 +5,89 @@
  *
  * Endpoints:
  * - POST /onboard - Onboard an agent
- * - POST /borrow - Borrow funds
+ * - POST /borrow - Borrow funds ({ deliverTo } bridges them to another chain)
  * - POST /repay - Repay debt
  * - GET /status/:address - Get agent status
+ * - GET /quote/:address?at=<timestamp> - Projected debt and exact payoff
+ * - GET /history/:address - Indexed pool events for an agent or LP
  * - GET /pool - Get pool status
- * - GET /health - Health check
+ * - GET /pool/history - Indexed pool events for all accounts
+ * - GET /credit-events/:id - Signed credit event behind ERC-8004 feedback
+ * - GET /deliveries/:id - Cross-chain borrow delivery and its bridge steps
+ * - GET /feedback-auth/:agentId - ERC-8004 feedbackAuth terms to sign
+ * - POST /feedback-auth - { feedbackAuth } signed by the agent's owner
+ * - GET /auth/domain - EIP-712 domain and types for signing requests
+ * - GET /health - Liveness check
+ * - GET /health/deep - RPC, pool wiring, signer gas, indexer and publisher
+ *   lag, each with a status (503 when any component fails)
+ *
+ * Admin (Authorization: Bearer $CREDEX_ADMIN_TOKEN, audited):
+ * - GET /admin/agents - List registered agents
+ * - POST /admin/freeze, /admin/unfreeze - { agentAddress, reason, actor? }
+ * - POST /admin/limit - { agentAddress, limit, reason, actor?, force? }
+ * - POST /admin/rescore - { agentAddress, reason, actor? }
+ * - POST /admin/write-off - { agentAddress, reason, actor? }
+ * - GET /admin/audit?after=&limit= - Export the hash-chained audit log
+ * - GET /admin/audit/verify - Recompute the audit hash chain
+ *
+ * POST routes require an EIP-712 signature from agentAddress (see auth.ts);
+ * POST /feedback-auth carries the agent owner's own signature instead.
+ *
+ * Dry run: with CREDEX_DRY_RUN=true, or per request with the header
+ * X-Credex-Dry-Run: true, pool writes are simulated (see dry-run.ts) and
+ * the response gains dryRun { transactions, postState, records }.
+ *
+ * Network: `--network <name>` or CREDEX_NETWORK picks the chain profile
+ * (see credex-shared); the pool address defaults to the newest broadcast.
+ *
+ * Pools: CREDEX_POOLS adds further pools by network profile (see pools.ts).
+ * Every agent, history and admin route takes ?pool=<id|address> or
+ * ?chain=<chainId|network> (default: the first pool), and signed requests
+ * are verified against that pool's EIP-712 domain. GET /pool without a
+ * selector lists every pool with totals.
+ *
+ * Delivery: a borrow with deliverTo (a network name, signed as BorrowTo)
+ * is bridged to the borrower on that chain with Bridge Kit (see
+ * delivery.ts); the response carries the delivery id to poll.
  */
 
 import { createServer, IncomingMessage, ServerResponse } from "http";
+import { ethers } from "ethers";
+import {
+  NETWORKS,
+  NetworkName,
+  ResolvedNetwork,
+  resolveNetwork,
+  selectNetwork,
+  parseRpcUrls,
+  rpcOptionsFromEnv,
+  loadSigner,
+  resolveSignerConfig,
+  SignerConfig,
+} from "credex-shared";
 import { CredexClearing } from "./clearing-agent";
+import { loadPolicyConfig } from "./policy-config";
+import {
+  AuthError,
+  RequestAuthenticator,
+  SignedAction,
+  verifyAdminToken,
+} from "./auth";
+import { HistoryQuery } from "./event-store";
+import { openDatabase } from "./db";
+import { SqliteNonceStore } from "./nonce-store";
+import { PoolSelector, UnknownPoolError } from "./pools";
+import { currentDryRun, runDryRun } from "./dry-run";
+import { DEFAULT_REPUTATION_CONFIG } from "./reputation";
 import {
+  AdminLimitRequest,
+  AdminRequest,
   CredexConfig,
+  CredexResponse,
   OnboardRequest,
   BorrowRequest,
+  FeedbackAuthRequest,
+  PoolConfig,
   RepayRequest,
 } from "./types";
 import "dotenv/config";
@@ -25,32 +95,232 @@ import "dotenv/config";
 // --- Configuration ---
 
 const PORT = parseInt(process.env.PORT || "10003");
-const POOL_ADDRESS = process.env.CREDEX_POOL_ADDRESS || "";
-const USDC_ADDRESS = process.env.USDC_ADDRESS || "";
-const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
-const PRIVATE_KEY = process.env.PRIVATE_KEY || "";
 
-if (!POOL_ADDRESS) {
-  console.error("❌ CREDEX_POOL_ADDRESS required in .env");
+// Network profile (--network / CREDEX_NETWORK, see networks.ts); RPC_URL,
+// CREDEX_POOL_ADDRESS and USDC_ADDRESS override it, BASE_* the Base profile
+let network: ResolvedNetwork;
+let baseNetwork: ResolvedNetwork;
+try {
+  network = resolveNetwork(selectNetwork(), {
+    rpcUrls: parseRpcUrls(process.env.RPC_URL, ""),
+    poolAddress: process.env.CREDEX_POOL_ADDRESS,
+    usdcAddress: process.env.USDC_ADDRESS,
+  });
+  baseNetwork = resolveNetwork("base-sepolia", {
+    rpcUrls: parseRpcUrls(process.env.BASE_RPC_URL, ""),
+    usdcAddress: process.env.BASE_USDC_ADDRESS,
+  });
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
   process.exit(1);
 }
 
-if (!PRIVATE_KEY) {
-  console.error("❌ PRIVATE_KEY required in .env");
+// Further pools: comma-separated profiles, each optionally pinned to an
+// address (CREDEX_POOLS=base-sepolia or base-sepolia=0x...)
+const EXTRA_POOLS = (process.env.CREDEX_POOLS || "")
+  .split(",")
+  .map((entry) => entry.trim())
+  .filter(Boolean);
+const BASE_RPC_URLS = baseNetwork.rpcUrls;
+const RPC_OPTIONS = rpcOptionsFromEnv();
+const BASE_USDC_ADDRESS = baseNetwork.usdcAddress || "";
+const PRIVATE_KEY = process.env.PRIVATE_KEY || "";
+const KEYSTORE = process.env.CREDEX_KEYSTORE || "";
+const KEYSTORE_PASSWORD_FILE = process.env.CREDEX_KEYSTORE_PASSWORD_FILE || "";
+const REMOTE_SIGNER_URL = process.env.CREDEX_REMOTE_SIGNER_URL || "";
+const REMOTE_SIGNER_TOKEN = process.env.CREDEX_REMOTE_SIGNER_TOKEN || "";
+const DB_PATH = process.env.CREDEX_DB_PATH || "data/credex.db";
+const DEPLOY_BLOCK = process.env.CREDEX_POOL_DEPLOY_BLOCK || "";
+const POLICY_FILE = process.env.CREDEX_POLICY_FILE || "";
+const INDEXER_CONFIRMATIONS = parseInt(
+  process.env.CREDEX_INDEXER_CONFIRMATIONS || "3",
+);
+const INDEXER_CHUNK_SIZE = parseInt(
+  process.env.CREDEX_INDEXER_CHUNK_SIZE || "10000",
+);
+const INDEXER_POLL_SECONDS = parseInt(
+  process.env.CREDEX_INDEXER_POLL_SECONDS || "15",
+);
+const TX_POLL_SECONDS = parseInt(process.env.CREDEX_TX_POLL_SECONDS || "2");
+const TX_STUCK_SECONDS = parseInt(process.env.CREDEX_TX_STUCK_SECONDS || "60");
+const TX_FEE_BUMP_BP = parseInt(process.env.CREDEX_TX_FEE_BUMP_BP || "12500");
+const TX_MAX_ATTEMPTS = parseInt(process.env.CREDEX_TX_MAX_ATTEMPTS || "5");
+const DELIVERY_POLL_SECONDS = parseInt(
+  process.env.CREDEX_DELIVERY_POLL_SECONDS || "15",
+);
+const DELIVERY_RETRY_SECONDS = parseInt(
+  process.env.CREDEX_DELIVERY_RETRY_SECONDS || "60",
+);
+const DELIVERY_MAX_ATTEMPTS = parseInt(
+  process.env.CREDEX_DELIVERY_MAX_ATTEMPTS || "3",
+);
+const ERC8004_DEPLOY_BLOCK = parseInt(process.env.ERC8004_DEPLOY_BLOCK || "0");
+const ERC8004_CHUNK_SIZE = parseInt(process.env.ERC8004_CHUNK_SIZE || "10000");
+const ERC8004_SCORE_TTL_SECONDS = parseInt(
+  process.env.ERC8004_SCORE_TTL_SECONDS || "300",
+);
+const ERC8004_IDENTITY_REGISTRY =
+  process.env.ERC8004_IDENTITY_REGISTRY ||
+  DEFAULT_REPUTATION_CONFIG.identityRegistry;
+const ERC8004_REPUTATION_REGISTRY =
+  process.env.ERC8004_REPUTATION_REGISTRY ||
+  DEFAULT_REPUTATION_CONFIG.reputationRegistry;
+const ERC8004_VALIDATION_REGISTRY =
+  process.env.ERC8004_VALIDATION_REGISTRY ||
+  DEFAULT_REPUTATION_CONFIG.validationRegistry;
+const ADMIN_TOKEN = process.env.CREDEX_ADMIN_TOKEN || "";
+const PUBLIC_URL = process.env.CREDEX_PUBLIC_URL || `http://localhost:${PORT}`;
+const DRY_RUN = process.env.CREDEX_DRY_RUN === "true";
+const STARTUP_CHECKS = process.env.CREDEX_STARTUP_CHECKS !== "false";
+const MIN_GAS_BALANCE = ethers.parseEther(
+  process.env.CREDEX_MIN_GAS_BALANCE || "0.01",
+);
+const HEALTH_MAX_RPC_LATENCY_MS = parseInt(
+  process.env.CREDEX_HEALTH_MAX_RPC_LATENCY_MS || "2000",
+);
+const HEALTH_MAX_INDEXER_LAG = parseInt(
+  process.env.CREDEX_HEALTH_MAX_INDEXER_LAG || "100",
+);
+const HEALTH_MAX_FEEDBACK_AGE_SECONDS = parseInt(
+  process.env.CREDEX_HEALTH_MAX_FEEDBACK_AGE_SECONDS || "3600",
+);
+const HEALTH_CHECK_TIMEOUT_MS = parseInt(
+  process.env.CREDEX_HEALTH_CHECK_TIMEOUT_MS || "10000",
+);
+
+/**
+ * Pool entry for a resolved network. The first pool keeps DB_PATH; the
+ * others get their own file next to it (credex-<id>.db).
+ */
+function poolConfig(
+  resolved: ResolvedNetwork,
+  dbPath: string,
+  deployBlock: string,
+): PoolConfig {
+  if (!resolved.poolAddress) {
+    console.error(
+      `❌ No CredexPool known on ${resolved.name}: deploy it with forge script (read from contracts/broadcast) or set its address`,
+    );
+    process.exit(1);
+  }
+  console.log(
+    `🌐 Network: ${resolved.name} (chain ${resolved.chainId}), pool ${resolved.poolAddress} from ${resolved.poolSource}`,
+  );
+  return {
+    id: resolved.name,
+    chainId: resolved.chainId,
+    poolAddress: resolved.poolAddress,
+    usdcAddress: resolved.usdcAddress || "",
+    rpcUrls: resolved.rpcUrls,
+    // Defaults to the block the broadcast recorded for the pool it provided
+    deployBlock: parseInt(
+      deployBlock ||
+        String(
+          (resolved.poolSource === "broadcast" &&
+            resolved.deployment?.deployBlock) ||
+            0,
+        ),
+    ),
+    dbPath,
+  };
+}
+
+const POOLS: PoolConfig[] = [poolConfig(network, DB_PATH, DEPLOY_BLOCK)];
+for (const entry of EXTRA_POOLS) {
+  const [name, poolAddress] = entry.split("=").map((part) => part.trim());
+  if (!(name in NETWORKS)) {
+    console.error(
+      `❌ Unknown network "${name}" in CREDEX_POOLS (expected ${Object.keys(NETWORKS).join(", ")})`,
+    );
+    process.exit(1);
+  }
+  if (POOLS.some((pool) => pool.id === name)) {
+    console.error(`❌ CREDEX_POOLS lists ${name} more than once`);
+    process.exit(1);
+  }
+  const resolved = resolveNetwork(name as NetworkName, {
+    poolAddress,
+    rpcUrls: name === "base-sepolia" ? BASE_RPC_URLS : undefined,
+  });
+  POOLS.push(
+    poolConfig(resolved, DB_PATH.replace(/(\.db)?$/, `-${name}$1`), ""),
+  );
+}
+
+let signerConfig: SignerConfig;
+try {
+  signerConfig = resolveSignerConfig(
+    {
+      privateKey: PRIVATE_KEY,
+      keystore: KEYSTORE,
+      keystorePasswordFile: KEYSTORE_PASSWORD_FILE,
+      remoteSignerUrl: REMOTE_SIGNER_URL,
+      remoteSignerToken: REMOTE_SIGNER_TOKEN,
+    },
+    "PRIVATE_KEY, CREDEX_KEYSTORE or CREDEX_REMOTE_SIGNER_URL in .env",
+  );
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
   process.exit(1);
 }
 
 const config: CredexConfig = {
-  poolAddress: POOL_ADDRESS,
-  usdcAddress: USDC_ADDRESS,
-  rpcUrl: RPC_URL,
-  privateKey: PRIVATE_KEY,
+  pools: POOLS,
+  baseRpcUrls: BASE_RPC_URLS,
+  baseChainId: baseNetwork.chainId,
+  baseUsdcAddress: BASE_USDC_ADDRESS,
+  rpc: RPC_OPTIONS,
   port: PORT,
+  dbPath: DB_PATH,
+  publicUrl: PUBLIC_URL,
+  policy: loadPolicyConfig(POLICY_FILE),
+  indexer: {
+    confirmations: INDEXER_CONFIRMATIONS,
+    chunkSize: INDEXER_CHUNK_SIZE,
+    pollIntervalSeconds: INDEXER_POLL_SECONDS,
+  },
+  txManager: {
+    pollIntervalSeconds: TX_POLL_SECONDS,
+    stuckAfterSeconds: TX_STUCK_SECONDS,
+    feeBumpBp: TX_FEE_BUMP_BP,
+    maxAttempts: TX_MAX_ATTEMPTS,
+  },
+  delivery: {
+    pollIntervalSeconds: DELIVERY_POLL_SECONDS,
+    retryDelaySeconds: DELIVERY_RETRY_SECONDS,
+    maxAttempts: DELIVERY_MAX_ATTEMPTS,
+  },
+  reputation: {
+    ...DEFAULT_REPUTATION_CONFIG,
+    registryDeployBlock: ERC8004_DEPLOY_BLOCK,
+    initialChunkSize: ERC8004_CHUNK_SIZE,
+    scoreTtlSeconds: ERC8004_SCORE_TTL_SECONDS,
+    identityRegistry: ERC8004_IDENTITY_REGISTRY,
+    reputationRegistry: ERC8004_REPUTATION_REGISTRY,
+    validationRegistry: ERC8004_VALIDATION_REGISTRY,
+  },
+  health: {
+    startupChecks: STARTUP_CHECKS,
+    minGasBalance: MIN_GAS_BALANCE,
+    maxRpcLatencyMs: HEALTH_MAX_RPC_LATENCY_MS,
+    maxIndexerLagBlocks: HEALTH_MAX_INDEXER_LAG,
+    maxFeedbackAgeSeconds: HEALTH_MAX_FEEDBACK_AGE_SECONDS,
+    checkTimeoutMs: HEALTH_CHECK_TIMEOUT_MS,
+  },
+  dryRun: DRY_RUN,
 };
 
 // --- Initialize Agent ---
 
-const credex = new CredexClearing(config);
+// Created once the signer has loaded (keystores may prompt, remote signers
+// are asked for their address); requests are only served after that
+let credex: CredexClearing;
+const authenticator = new RequestAuthenticator(
+  (selector) => credex.getSigningDomain(selector),
+  new SqliteNonceStore(openDatabase(DB_PATH)),
+);
+
+const DRY_RUN_HEADER = "X-Credex-Dry-Run";
 
 // --- Helper Functions ---
 
@@ -70,17 +340,192 @@ async function parseBody<T>(req: IncomingMessage): Promise<T> {
 }
 
 function sendJson(res: ServerResponse, status: number, data: any) {
+  // Inside a dry run, report what would have been sent
+  const session = currentDryRun();
+  if (session) {
+    data = { ...data, dryRun: session.report() };
+    res.setHeader(DRY_RUN_HEADER, "true");
+  }
   res.writeHead(status, { "Content-Type": "application/json" });
   res.end(JSON.stringify(data, null, 2));
 }
 
+/**
+ * Server-wide dry-run mode, or X-Credex-Dry-Run: true on the request
+ */
+function isDryRun(req: IncomingMessage): boolean {
+  if (DRY_RUN) return true;
+  const header = req.headers[DRY_RUN_HEADER.toLowerCase()];
+  return header === "true" || header === "1";
+}
+
+/**
+ * Read ?limit=&offset=&event= for history routes
+ */
+function parseHistoryQuery(params: URLSearchParams): HistoryQuery | null {
+  const limit = params.get("limit");
+  const offset = params.get("offset");
+  const query: HistoryQuery = {
+    limit: limit ? parseInt(limit) : undefined,
+    offset: offset ? parseInt(offset) : undefined,
+    event: params.get("event") || undefined,
+  };
+  if (Number.isNaN(query.limit) || Number.isNaN(query.offset)) return null;
+  return query;
+}
+
+/**
+ * Read ?pool= / ?chain= (neither: the first pool)
+ */
+function parsePoolSelector(params: URLSearchParams): PoolSelector {
+  return {
+    pool: params.get("pool") || undefined,
+    chain: params.get("chain") || undefined,
+  };
+}
+
+/**
+ * Verify a signed request, responding with 401 on failure.
+ * Returns true when the handler may proceed.
+ */
+async function authenticate(
+  res: ServerResponse,
+  action: SignedAction,
+  body: any,
+  selector: PoolSelector,
+): Promise<boolean> {
+  try {
+    await authenticator.verify(action, body, selector);
+    return true;
+  } catch (error) {
+    if (error instanceof AuthError) {
+      console.log(`   🚫 Rejected ${action} request: ${error.code}`);
+      sendJson(res, 401, {
+        success: false,
+        code: error.code,
+        message: error.message,
+      });
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check the admin bearer token, replying 401/403 when it fails
+ */
+function authenticateAdmin(req: IncomingMessage, res: ServerResponse): boolean {
+  try {
+    verifyAdminToken(req.headers.authorization, ADMIN_TOKEN);
+    return true;
+  } catch (error) {
+    if (!(error instanceof AuthError)) throw error;
+    console.log(`   🚫 Rejected admin request: ${error.code}`);
+    sendJson(res, error.code === "ADMIN_DISABLED" ? 403 : 401, {
+      success: false,
+      code: error.code,
+      message: error.message,
+    });
+    return false;
+  }
+}
+
+/**
+ * Admin routes (all behind the bearer token)
+ */
+async function handleAdmin(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: string,
+  searchParams: URLSearchParams,
+): Promise<void> {
+  if (!authenticateAdmin(req, res)) return;
+  const selector = parsePoolSelector(searchParams);
+
+  // GET /admin/agents (every pool unless one is selected)
+  if (req.method === "GET" && url === "/admin/agents") {
+    sendJson(res, 200, await credex.adminListAgents(selector));
+    return;
+  }
+
+  // GET /admin/audit
+  if (req.method === "GET" && url === "/admin/audit") {
+    const after = searchParams.get("after");
+    const limit = searchParams.get("limit");
+    const result = await credex.getAuditLog(
+      after ? parseInt(after) : undefined,
+      limit ? parseInt(limit) : undefined,
+    );
+    sendJson(res, 200, result);
+    return;
+  }
+
+  // GET /admin/audit/verify
+  if (req.method === "GET" && url === "/admin/audit/verify") {
+    const result = await credex.verifyAuditLog();
+    sendJson(res, result.success ? 200 : 409, result);
+    return;
+  }
+
+  if (req.method === "POST") {
+    const body = await parseBody<AdminLimitRequest>(req);
+    if (!body.agentAddress) {
+      sendJson(res, 400, { success: false, message: "agentAddress required" });
+      return;
+    }
+    const actor = body.actor || "admin";
+    const actions: Record<
+      string,
+      (b: AdminRequest) => Promise<CredexResponse>
+    > = {
+      "/admin/freeze": (b) =>
+        credex.adminFreeze(b.agentAddress, b.reason, actor, selector),
+      "/admin/unfreeze": (b) =>
+        credex.adminUnfreeze(b.agentAddress, b.reason, actor, selector),
+      "/admin/rescore": (b) =>
+        credex.adminRescore(b.agentAddress, b.reason, actor, selector),
+      "/admin/write-off": (b) =>
+        credex.adminWriteOff(b.agentAddress, b.reason, actor, selector),
+    };
+
+    if (url === "/admin/limit") {
+      if (!body.limit) {
+        sendJson(res, 400, { success: false, message: "limit required" });
+        return;
+      }
+      const result = await credex.adminSetLimit(
+        body.agentAddress,
+        body.limit,
+        body.reason,
+        actor,
+        selector,
+        body.force === true,
+      );
+      sendJson(res, result.success ? 200 : 400, result);
+      return;
+    }
+
+    if (actions[url]) {
+      const result = await actions[url](body);
+      sendJson(res, result.success ? 200 : 400, result);
+      return;
+    }
+  }
+
+  sendJson(res, 404, { success: false, message: "Not found" });
+}
+
 // --- Request Handler ---
 
 async function handleRequest(req: IncomingMessage, res: ServerResponse) {
   // CORS
   res.setHeader("Access-Control-Allow-Origin", "*");
   res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader(
+    "Access-Control-Allow-Headers",
+    `Content-Type, Authorization, ${DRY_RUN_HEADER}`,
+  );
+  res.setHeader("Access-Control-Expose-Headers", DRY_RUN_HEADER);
 
   if (req.method === "OPTIONS") {
     res.writeHead(204);
@@ -88,18 +533,127 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse) {
     return;
   }
 
-  const url = req.url || "/";
+  if (isDryRun(req)) {
+    await runDryRun(() => routeRequest(req, res));
+  } else {
+    await routeRequest(req, res);
+  }
+}
+
+async function routeRequest(req: IncomingMessage, res: ServerResponse) {
+  const { pathname: url, searchParams } = new URL(
+    req.url || "/",
+    "http://localhost",
+  );
+  const selector = parsePoolSelector(searchParams);
 
   try {
+    if (url.startsWith("/admin/")) {
+      await handleAdmin(req, res, url, searchParams);
+      return;
+    }
+
     // GET /health
     if (req.method === "GET" && url === "/health") {
       sendJson(res, 200, { status: "ok", agent: credex.getAgentAddress() });
       return;
     }
 
-    // GET /pool
+    // GET /health/deep
+    if (req.method === "GET" && url === "/health/deep") {
+      const report = await credex.checkHealth();
+      sendJson(res, report.status === "down" ? 503 : 200, {
+        ...report,
+        agent: credex.getAgentAddress(),
+      });
+      return;
+    }
+
+    // GET /auth/domain
+    if (req.method === "GET" && url === "/auth/domain") {
+      sendJson(res, 200, {
+        success: true,
+        data: await authenticator.getSigningInfo(selector),
+      });
+      return;
+    }
+
+    // GET /pool (every pool with totals unless one is selected)
     if (req.method === "GET" && url === "/pool") {
-      const result = await credex.getPoolStatus();
+      const result = await credex.getPoolStatus(selector);
+      sendJson(res, result.success ? 200 : 500, result);
+      return;
+    }
+
+    // GET /pool/history
+    if (req.method === "GET" && url === "/pool/history") {
+      const query = parseHistoryQuery(searchParams);
+      if (!query) {
+        sendJson(res, 400, {
+          success: false,
+          message: "limit and offset must be integers",
+        });
+        return;
+      }
+      const result = await credex.getPoolHistory(query, selector);
+      sendJson(res, result.success ? 200 : 500, result);
+      return;
+    }
+
+    // GET /credit-events/:id
+    if (req.method === "GET" && url.startsWith("/credit-events/")) {
+      const id = url.split("/credit-events/")[1];
+      const document = await credex.getCreditEventDocument(id);
+      if (!document) {
+        sendJson(res, 404, { success: false, message: "Unknown credit event" });
+        return;
+      }
+      // Served byte-for-byte so keccak256(body) matches the feedback filehash
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(document);
+      return;
+    }
+
+    // GET /feedback-auth/:agentId
+    if (req.method === "GET" && url.startsWith("/feedback-auth/")) {
+      const agentId = url.split("/feedback-auth/")[1];
+      const result = await credex.getFeedbackAuthTerms(agentId);
+      sendJson(res, result.success ? 200 : 400, result);
+      return;
+    }
+
+    // POST /feedback-auth
+    if (req.method === "POST" && url === "/feedback-auth") {
+      const body = await parseBody<FeedbackAuthRequest>(req);
+      if (!body.feedbackAuth) {
+        sendJson(res, 400, { success: false, message: "feedbackAuth required" });
+        return;
+      }
+      const result = await credex.submitFeedbackAuth(body.feedbackAuth);
+      sendJson(res, result.success ? 200 : 400, result);
+      return;
+    }
+
+    // GET /deliveries/:id
+    if (req.method === "GET" && url.startsWith("/deliveries/")) {
+      const id = url.split("/deliveries/")[1];
+      const result = await credex.getDelivery(id);
+      sendJson(res, result.success ? 200 : 404, result);
+      return;
+    }
+
+    // GET /history/:address
+    if (req.method === "GET" && url.startsWith("/history/")) {
+      const address = url.split("/history/")[1];
+      const query = parseHistoryQuery(searchParams);
+      if (!address || !query) {
+        sendJson(res, 400, {
+          success: false,
+          message: "Address required; limit and offset must be integers",
+        });
+        return;
+      }
+      const result = await credex.getAccountHistory(address, query, selector);
       sendJson(res, result.success ? 200 : 500, result);
       return;
     }
@@ -111,7 +665,24 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse) {
         sendJson(res, 400, { success: false, message: "Address required" });
         return;
       }
-      const result = await credex.getAgentStatus(address);
+      const result = await credex.getAgentStatus(address, selector);
+      sendJson(res, result.success ? 200 : 404, result);
+      return;
+    }
+
+    // GET /quote/:address?at=<timestamp>
+    if (req.method === "GET" && url.startsWith("/quote/")) {
+      const address = url.split("/quote/")[1];
+      const atParam = searchParams.get("at");
+      const at = atParam ? parseInt(atParam) : undefined;
+      if (!address || (at !== undefined && Number.isNaN(at))) {
+        sendJson(res, 400, {
+          success: false,
+          message: "Address required; at must be a unix timestamp",
+        });
+        return;
+      }
+      const result = await credex.getQuote(address, at, selector);
       sendJson(res, result.success ? 200 : 404, result);
       return;
     }
@@ -126,9 +697,12 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse) {
         });
         return;
       }
+      body.agentId = body.agentId || "0";
+      if (!(await authenticate(res, "Onboard", body, selector))) return;
       const result = await credex.handleOnboard(
         body.agentAddress,
-        body.agentId || "0",
+        body.agentId,
+        selector,
       );
       sendJson(res, result.success ? 200 : 400, result);
       return;
@@ -144,7 +718,14 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse) {
         });
         return;
       }
-      const result = await credex.handleBorrow(body.agentAddress, body.amount);
+      const action = body.deliverTo ? "BorrowTo" : "Borrow";
+      if (!(await authenticate(res, action, body, selector))) return;
+      const result = await credex.handleBorrow(
+        body.agentAddress,
+        body.amount,
+        selector,
+        body.deliverTo,
+      );
       sendJson(res, result.success ? 200 : 400, result);
       return;
     }
@@ -159,7 +740,12 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse) {
         });
         return;
       }
-      const result = await credex.handleRepay(body.agentAddress, body.amount);
+      if (!(await authenticate(res, "Repay", body, selector))) return;
+      const result = await credex.handleRepay(
+        body.agentAddress,
+        body.amount,
+        selector,
+      );
       sendJson(res, result.success ? 200 : 400, result);
       return;
     }
@@ -167,6 +753,14 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse) {
     // 404
     sendJson(res, 404, { success: false, message: "Not found" });
   } catch (error) {
+    if (error instanceof UnknownPoolError) {
+      sendJson(res, 404, {
+        success: false,
+        code: error.code,
+        message: error.message,
+      });
+      return;
+    }
     console.error("❌ Server error:", error);
     sendJson(res, 500, {
       success: false,
@@ -179,23 +773,52 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse) {
 
 const server = createServer(handleRequest);
 
-server.listen(PORT, () => {
+loadSigner(signerConfig)
+  .then((signer) => {
+    console.log(`🔑 Signer: ${signerConfig.backend}`);
+    credex = new CredexClearing(config, signer);
+    return credex.init();
+  })
+  .then(() => {
+    credex.start();
+    server.listen(PORT, onListening);
+  })
+  .catch((error) => {
+    console.error("❌ Failed to initialize Credex agent:", error);
+    process.exit(1);
+  });
+
+function onListening() {
   console.log(`
 🏦 Credex Agent running on http://localhost:${PORT}
 
 Endpoints:
   POST /onboard        - Onboard an agent (query ERC-8004, set limit)
-  POST /borrow         - Borrow USDC
+  POST /borrow         - Borrow USDC (deliverTo: bridge to another chain)
   POST /repay          - Repay debt (triggers limit growth)
   GET  /status/:addr   - Get agent status
-  GET  /pool           - Get pool status
-  GET  /health         - Health check
+  GET  /quote/:addr    - Projected debt / payoff (?at=<timestamp>)
+  GET  /history/:addr  - Pool events for an agent or LP
+  GET  /pool           - Get pool status (every pool with totals)
+  GET  /pool/history   - Pool events for all accounts
+  GET  /credit-events/:id - Signed credit event (ERC-8004 feedback fileuri)
+  GET  /deliveries/:id - Cross-chain borrow delivery and bridge steps
+  GET  /feedback-auth/:agentId - ERC-8004 feedbackAuth terms to sign
+  POST /feedback-auth  - Store an agent-signed feedbackAuth
+  GET  /auth/domain    - EIP-712 signing domain
+  GET  /health         - Liveness check
+  GET  /health/deep    - Component health (RPC, pool, gas, indexer, publisher)
+  *    /admin/*        - Operator actions (${ADMIN_TOKEN ? "enabled" : "disabled, set CREDEX_ADMIN_TOKEN"})
+
+Pools: ${POOLS.map((pool) => pool.id).join(", ")} (select with ?pool= or ?chain=)
+Dry run: ${DRY_RUN ? "ON for every request (CREDEX_DRY_RUN)" : `per request with ${DRY_RUN_HEADER}: true`}
 `);
-});
+}
 
 // Graceful shutdown
 process.on("SIGINT", () => {
   console.log("\n👋 Shutting down...");
+  credex?.stop();
   server.close(() => {
     console.log("✅ Server stopped");
     process.exit(0);
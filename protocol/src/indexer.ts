@@ -0,0 +1,202 @@
+/**
+ * Pool Event Indexer
+ *
+ * Backfills every CredexPool event from the deployment block in chunked
+ * getLogs ranges, then follows new blocks by polling. Only blocks at least
+ * `confirmations` deep are indexed, so shallow reorgs never reach the
+ * store. Before each pass the checkpoint's block hash is compared with the
+ * chain; on mismatch the store is rewound by `confirmations` blocks and
+ * that range is indexed again.
+ */
+
+import { Interface, Log, Provider } from "ethers";
+import { CREDEX_POOL_ABI } from "./pool-client";
+import { EventStore } from "./event-store";
+import { IndexerCheckpoint, IndexerConfig, PoolEvent } from "./types";
+
+export interface IndexerStatus {
+  running: boolean;
+  lastIndexedBlock: number | null;
+  headBlock: number | null;
+  lag: number | null; // blocks between head and lastIndexedBlock
+  lastError: string | null;
+}
+
+export class EventIndexer {
+  private provider: Provider;
+  private poolAddress: string;
+  private store: EventStore;
+  private startBlock: number;
+  private config: IndexerConfig;
+  private iface = new Interface(CREDEX_POOL_ABI);
+  private timer: NodeJS.Timeout | null = null;
+  private syncing = false;
+  private headBlock: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    provider: Provider,
+    poolAddress: string,
+    store: EventStore,
+    startBlock: number,
+    config: IndexerConfig,
+  ) {
+    this.provider = provider;
+    this.poolAddress = poolAddress;
+    this.store = store;
+    this.startBlock = startBlock;
+    this.config = config;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    console.log(
+      `🗂️ Event indexer following pool every ${this.config.pollIntervalSeconds}s (${this.config.confirmations} confirmations)`,
+    );
+    this.sync();
+    this.timer = setInterval(
+      () => this.sync(),
+      this.config.pollIntervalSeconds * 1000,
+    );
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async getStatus(): Promise<IndexerStatus> {
+    const checkpoint = await this.store.getCheckpoint();
+    const lastIndexedBlock = checkpoint?.blockNumber ?? null;
+    return {
+      running: this.timer !== null,
+      lastIndexedBlock,
+      headBlock: this.headBlock,
+      lag:
+        this.headBlock !== null && lastIndexedBlock !== null
+          ? this.headBlock - lastIndexedBlock
+          : null,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Index up to the confirmed head once. Overlapping passes are skipped.
+   */
+  async sync(): Promise<void> {
+    if (this.syncing) return;
+    this.syncing = true;
+
+    try {
+      this.headBlock = await this.provider.getBlockNumber();
+      const target = this.headBlock - this.config.confirmations;
+
+      let checkpoint = await this.store.getCheckpoint();
+      if (checkpoint && !(await this.isCanonical(checkpoint))) {
+        checkpoint = await this.rewind(checkpoint);
+      }
+
+      let from = checkpoint ? checkpoint.blockNumber + 1 : this.startBlock;
+      while (from <= target) {
+        const to = Math.min(from + this.config.chunkSize - 1, target);
+        const events = await this.fetchRange(from, to);
+        const block = await this.provider.getBlock(to);
+        if (!block?.hash) throw new Error(`Block ${to} not found`);
+
+        await this.store.saveBatch(events, {
+          blockNumber: to,
+          blockHash: block.hash,
+        });
+        if (events.length > 0) {
+          console.log(
+            `🗂️ Indexed ${events.length} pool events in blocks ${from}-${to}`,
+          );
+        }
+        from = to + 1;
+      }
+      this.lastError = null;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Event indexing failed:`, error);
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  // --- Private helpers ---
+
+  private async isCanonical(checkpoint: IndexerCheckpoint): Promise<boolean> {
+    const block = await this.provider.getBlock(checkpoint.blockNumber);
+    return block?.hash === checkpoint.blockHash;
+  }
+
+  /**
+   * Drop the last `confirmations` blocks (at least one) so they are
+   * indexed again from the canonical chain.
+   */
+  private async rewind(
+    checkpoint: IndexerCheckpoint,
+  ): Promise<IndexerCheckpoint | null> {
+    const depth = Math.max(this.config.confirmations, 1);
+    const blockNumber = checkpoint.blockNumber - depth;
+    console.log(
+      `⚠️ Reorg detected at block ${checkpoint.blockNumber}, rewinding to ${blockNumber}`,
+    );
+
+    const block =
+      blockNumber >= this.startBlock
+        ? await this.provider.getBlock(blockNumber)
+        : null;
+    const rewound = block?.hash ? { blockNumber, blockHash: block.hash } : null;
+    await this.store.rewind(rewound);
+    return rewound;
+  }
+
+  private async fetchRange(from: number, to: number): Promise<PoolEvent[]> {
+    const logs = await this.provider.getLogs({
+      address: this.poolAddress,
+      fromBlock: from,
+      toBlock: to,
+    });
+
+    const timestamps = new Map<number, number>();
+    const events: PoolEvent[] = [];
+    for (const log of logs) {
+      const event = this.parse(log);
+      if (!event) continue;
+
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await this.provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+      }
+      events.push({ ...event, timestamp: timestamps.get(log.blockNumber)! });
+    }
+    return events;
+  }
+
+  /**
+   * Decode a pool log. The first (indexed) argument of every pool event is
+   * the agent or liquidity provider; the rest are uint256 amounts (and the
+   * BorrowedTo recipient address).
+   */
+  private parse(log: Log): Omit<PoolEvent, "timestamp"> | null {
+    const parsed = this.iface.parseLog(log);
+    if (!parsed) return null;
+
+    const inputs = parsed.fragment.inputs;
+    const args: Record<string, string> = {};
+    for (let i = 1; i < inputs.length; i++) {
+      args[inputs[i].name] = parsed.args[i].toString();
+    }
+
+    return {
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+      event: parsed.name,
+      account: parsed.args[0],
+      args,
+    };
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Interest Mirror
+ *
+ * Off-chain reproduction of CredexPool's simple-interest accrual so debt
+ * can be projected to any timestamp without a write to the pool:
+ *
+ *   intervals = floor((at - lastAccrued) / ACCRUAL_INTERVAL)
+ *   interest  = floor(debt * INTEREST_RATE_BP * intervals / 10000)
+ *
+ * All math is bigint and rounds exactly like the contract (see
+ * _accrueInterest / getAgentState in CredexPool.sol). Projections start
+ * from the *stored* debt and lastAccrued (the `agents` mapping), not from
+ * getAgentState, which already includes pending interest.
+ */
+
+export const BP_DENOMINATOR = 10_000n;
+
+export interface InterestParams {
+  rateBp: bigint; // INTEREST_RATE_BP
+  interval: bigint; // ACCRUAL_INTERVAL (seconds)
+}
+
+export interface StoredDebt {
+  debt: bigint;
+  principal: bigint;
+  lastAccrued: bigint;
+}
+
+export interface DebtProjection {
+  at: bigint;
+  storedDebt: bigint;
+  principal: bigint;
+  intervals: bigint;
+  pendingInterest: bigint;
+  projectedDebt: bigint; // exact payoff amount if repaid at `at`
+  nextAccrualAt: bigint; // projection changes at this timestamp
+}
+
+/**
+ * Whole accrual intervals between lastAccrued and `at`
+ */
+export function elapsedIntervals(
+  lastAccrued: bigint,
+  at: bigint,
+  params: InterestParams,
+): bigint {
+  if (lastAccrued === 0n || at <= lastAccrued) return 0n;
+  return (at - lastAccrued) / params.interval;
+}
+
+/**
+ * Interest the pool would add on its next accrual at timestamp `at`
+ */
+export function pendingInterest(
+  stored: StoredDebt,
+  at: bigint,
+  params: InterestParams,
+): bigint {
+  if (stored.lastAccrued === 0n || stored.debt === 0n) return 0n;
+  const intervals = elapsedIntervals(stored.lastAccrued, at, params);
+  return (stored.debt * params.rateBp * intervals) / BP_DENOMINATOR;
+}
+
+export function projectDebt(
+  stored: StoredDebt,
+  at: bigint,
+  params: InterestParams,
+): DebtProjection {
+  const intervals =
+    stored.debt === 0n ? 0n : elapsedIntervals(stored.lastAccrued, at, params);
+  const interest = pendingInterest(stored, at, params);
+  const nextAccrualAt =
+    stored.lastAccrued === 0n
+      ? at
+      : stored.lastAccrued + (intervals + 1n) * params.interval;
+
+  return {
+    at,
+    storedDebt: stored.debt,
+    principal: stored.principal,
+    intervals,
+    pendingInterest: interest,
+    projectedDebt: stored.debt + interest,
+    nextAccrualAt,
+  };
+}
@@ -0,0 +1,284 @@
+/**
+ * Limit Explainer
+ *
+ * Explains where an agent's credit limit came from and what will move it
+ * next, for the status response:
+ * - onboarding: repFactor breakdown and the initial limit it produced
+ * - steps:      every limit change (growth with its repay tx, overrides,
+ *               penalties) in order
+ * - caps:       ceilings currently applied (credit policy, validation tier)
+ * - pending:    effects the policies will apply, e.g. the limit the next
+ *               full repayment earns or when the monitor would freeze
+ *
+ * Nothing here writes; projections reuse the same policy, growth guard,
+ * validation gate and delinquency rules that act on real repayments.
+ */
+
+import { ethers } from "ethers";
+import { CreditPolicy } from "./credit-policy";
+import { DelinquencyMonitor, DelinquencyRule } from "./delinquency-monitor";
+import { GrowthGuard, GROWTH_REASON } from "./growth-guard";
+import { InterestParams, StoredDebt } from "./interest";
+import { ValidationGate } from "./validation-gate";
+import {
+  AgentOnChain,
+  LimitChange,
+  RepFactorBreakdown,
+  StoredAgent,
+  ValidationStanding,
+} from "./types";
+
+export type PendingEffectKind =
+  "limit-growth" | "freeze" | "unfreeze" | "validation-tier";
+
+export interface PendingEffect {
+  effect: PendingEffectKind;
+  message: string;
+  at?: string; // ISO time the effect applies
+  limit?: string; // resulting limit (USDC)
+}
+
+export interface LimitStep {
+  kind: string; // onboard, growth, override, penalty, rebuild
+  from: string;
+  to: string;
+  delta: string;
+  at: string;
+  txHash: string | null;
+  triggerTxHash: string | null; // e.g. the repayment that earned growth
+  note: string | null;
+}
+
+export interface LimitCap {
+  source: string; // "credit-policy" or "validation-tier:<name>"
+  limit: string;
+  binding: boolean; // current limit is at the cap
+}
+
+export interface LimitExplanation {
+  currentLimit: string;
+  onboarding: RepFactorBreakdown | null; // null when rebuilt from chain
+  steps: LimitStep[];
+  caps: LimitCap[];
+  pending: PendingEffect[];
+}
+
+export interface ExplainInput {
+  record: StoredAgent;
+  agent: AgentOnChain;
+  stored: StoredDebt;
+  interest: InterestParams;
+  history: LimitChange[];
+  validation: ValidationStanding;
+  frozenByMonitor: boolean;
+  now: number;
+}
+
+const STEP_KINDS: Record<string, string> = {
+  onboard: "onboard",
+  [GROWTH_REASON]: "growth",
+  "admin-override": "override",
+  "missed-payment": "penalty",
+  "chain-rebuild": "rebuild",
+};
+
+const RULE_LABELS: Record<DelinquencyRule, string> = {
+  "repayment-gap": "no repayment",
+  "debt-to-limit":
+    "debt (with interest) exceeding the allowed share of the limit",
+  "interest-ratio": "interest growing too large relative to principal",
+};
+
+const usdc = (amount: bigint) => ethers.formatUnits(amount, 6);
+const iso = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+export class LimitExplainer {
+  private policy: CreditPolicy;
+  private growthGuard: GrowthGuard;
+  private validationGate: ValidationGate;
+  private monitor: DelinquencyMonitor;
+
+  constructor(
+    policy: CreditPolicy,
+    growthGuard: GrowthGuard,
+    validationGate: ValidationGate,
+    monitor: DelinquencyMonitor,
+  ) {
+    this.policy = policy;
+    this.growthGuard = growthGuard;
+    this.validationGate = validationGate;
+    this.monitor = monitor;
+  }
+
+  async explain(input: ExplainInput): Promise<LimitExplanation> {
+    return {
+      currentLimit: usdc(input.agent.creditLimit),
+      onboarding: input.record.repBreakdown,
+      steps: input.history.map((change) => ({
+        kind: STEP_KINDS[change.reason] ?? change.reason,
+        from: usdc(change.previousLimit),
+        to: usdc(change.newLimit),
+        delta: usdc(change.newLimit - change.previousLimit),
+        at: iso(change.timestamp),
+        txHash: change.txHash ?? null,
+        triggerTxHash: change.triggerTxHash ?? null,
+        note: change.note ?? null,
+      })),
+      caps: this.caps(input),
+      pending: [
+        ...(await this.growthPreview(input)),
+        ...this.delinquencyPreview(input),
+        ...this.validationPreview(input),
+      ],
+    };
+  }
+
+  // --- Private helpers ---
+
+  private caps({ agent, validation }: ExplainInput): LimitCap[] {
+    const caps: LimitCap[] = [];
+    if (this.policy.maxLimit !== undefined) {
+      caps.push({
+        source: "credit-policy",
+        limit: usdc(this.policy.maxLimit),
+        binding: agent.creditLimit >= this.policy.maxLimit,
+      });
+    }
+    if (validation.tier.maxLimit) {
+      const cap = ethers.parseUnits(validation.tier.maxLimit, 6);
+      caps.push({
+        source: `validation-tier:${validation.tier.name}`,
+        limit: validation.tier.maxLimit,
+        binding: agent.creditLimit >= cap,
+      });
+    }
+    return caps;
+  }
+
+  /**
+   * What repaying the whole debt now would do to the limit
+   */
+  private async growthPreview(input: ExplainInput): Promise<PendingEffect[]> {
+    const { agent, record, validation, now } = input;
+
+    if (agent.principal === 0n) {
+      return [
+        {
+          effect: "limit-growth",
+          message:
+            "No principal outstanding. The limit grows when borrowed principal is repaid.",
+        },
+      ];
+    }
+
+    const proposed = this.validationGate.limitAfterGrowth(
+      agent.creditLimit,
+      this.policy.limitAfterRepayment({
+        agentAddress: record.address,
+        currentLimit: agent.creditLimit,
+        amountRepaid: agent.debt,
+        principalRepaid: agent.principal,
+        repFactor: record.repFactor,
+        agent: { ...agent, debt: 0n, principal: 0n },
+      }),
+      validation,
+    );
+    const verdict = await this.growthGuard.check(
+      record.address,
+      agent.principal,
+      proposed - agent.creditLimit,
+      now,
+    );
+
+    if (verdict.granted === 0n) {
+      return [
+        {
+          effect: "limit-growth",
+          message: `Repaying the full debt (${usdc(agent.debt)} USDC) would not raise the limit: ${verdict.reason}`,
+        },
+      ];
+    }
+
+    const limit = agent.creditLimit + verdict.granted;
+    return [
+      {
+        effect: "limit-growth",
+        message:
+          `Repaying the full debt (${usdc(agent.debt)} USDC) raises the limit to ${usdc(limit)} USDC` +
+          (verdict.reason ? ` (${verdict.reason})` : ""),
+        limit: usdc(limit),
+      },
+    ];
+  }
+
+  private delinquencyPreview({
+    record,
+    agent,
+    stored,
+    interest,
+    frozenByMonitor,
+    now,
+  }: ExplainInput): PendingEffect[] {
+    const violations = this.monitor.evaluate(agent, now, record.debtSince);
+
+    if (agent.frozen) {
+      if (!frozenByMonitor) {
+        return [
+          {
+            effect: "unfreeze",
+            message: "Frozen by an operator; only an operator can unfreeze.",
+          },
+        ];
+      }
+      return [
+        violations.length === 0
+          ? {
+              effect: "unfreeze",
+              message:
+                "No rule is broken any more; unfreezes on the next scan.",
+            }
+          : {
+              effect: "unfreeze",
+              message: `Stays frozen until resolved: ${violations.join("; ")}`,
+            },
+      ];
+    }
+
+    if (violations.length > 0) {
+      return [
+        {
+          effect: "freeze",
+          message: `Freezes on the next scan: ${violations.join("; ")}`,
+        },
+      ];
+    }
+
+    const [next] = this.monitor.forecast(
+      agent,
+      stored,
+      interest,
+      record.debtSince,
+      now,
+    );
+    if (!next) return [];
+
+    const hours = Math.max(0, (next.at - now) / 3600);
+    return [
+      {
+        effect: "freeze",
+        message: `Freezes in about ${hours.toFixed(1)}h if unpaid (${RULE_LABELS[next.rule]})`,
+        at: iso(next.at),
+      },
+    ];
+  }
+
+  private validationPreview({ validation }: ExplainInput): PendingEffect[] {
+    if (!validation.nextTier) return [];
+    return [
+      {
+        effect: "validation-tier",
+        message: `Tier "${validation.nextTier.name}" (${validation.nextTier.limitBp / 100}% limits) needs: ${validation.nextTier.missing.join("; ")}`,
+      },
+    ];
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Request Nonce Store
+ *
+ * Nonces of signed requests (see auth.ts), kept until the request they
+ * came with expires, so a restart can't reopen a replay window.
+ *
+ * Unlike the other stores this one is synchronous: a request claims its
+ * nonce before its first await, so a concurrent copy of the same request
+ * always finds it taken.
+ */
+
+import { CredexDatabase } from "./db";
+
+export interface NonceStore {
+  /**
+   * Claim a nonce until expiry; false when it is already claimed
+   */
+  reserve(key: string, expiry: number): boolean;
+
+  /**
+   * Give a claimed nonce back (its request was rejected)
+   */
+  release(key: string): void;
+
+  /**
+   * Forget nonces whose requests expired before now
+   */
+  prune(now: number): void;
+}
+
+export class SqliteNonceStore implements NonceStore {
+  private db: CredexDatabase;
+
+  constructor(db: CredexDatabase) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS request_nonces (
+        nonce_key  TEXT PRIMARY KEY,
+        expiry     INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_request_nonces_expiry
+        ON request_nonces (expiry);
+    `);
+  }
+
+  reserve(key: string, expiry: number): boolean {
+    const result = this.db
+      .prepare(
+        "INSERT OR IGNORE INTO request_nonces (nonce_key, expiry) VALUES (?, ?)",
+      )
+      .run(key, expiry);
+    return result.changes === 1;
+  }
+
+  release(key: string): void {
+    this.db.prepare("DELETE FROM request_nonces WHERE nonce_key = ?").run(key);
+  }
+
+  prune(now: number): void {
+    this.db.prepare("DELETE FROM request_nonces WHERE expiry < ?").run(now);
+  }
+}
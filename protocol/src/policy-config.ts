@@ -0,0 +1,213 @@
+/**
+ * Policy Config Loader
+ *
+ * Reads the deployment's risk settings from a JSON or YAML file
+ * (CREDEX_POLICY_FILE). Without a file the defaults reproduce the
+ * original hard-coded behaviour.
+ *
+ * Example (YAML):
+ *   creditPolicy:
+ *     name: tiered
+ *     params:
+ *       initialLimitBase: "5"
+ *       maxLimit: "10000"
+ *   pools:
+ *     base-sepolia:            # overrides for one pool (by pool id)
+ *       exposure:
+ *         maxUtilizationBp: 8000
+ */
+
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { parse as parseYaml } from "yaml";
+import { DEFAULT_FEEDBACK_SCORING } from "./feedback-scoring";
+import {
+  PolicyConfig,
+  PoolPolicyOverrides,
+  ValidationRequirement,
+  ValidationTier,
+} from "./types";
+
+export const DEFAULT_POLICY_CONFIG: PolicyConfig = {
+  creditPolicy: {
+    name: "linear-growth",
+    params: {
+      initialLimitBase: "5",
+      growthFactorBp: 11_000,
+      maxLimit: "10000",
+    },
+  },
+  delinquency: {
+    scanIntervalSeconds: 300,
+    maxRepaymentGapSeconds: 7 * 24 * 60 * 60,
+    maxDebtToLimitBp: 11_000,
+    maxInterestToPrincipalBp: 2_500,
+  },
+  growthGuards: {
+    minPrincipalRepaid: "1",
+    cooldownSeconds: 60 * 60,
+    windowSeconds: 24 * 60 * 60,
+    maxGrowthPerWindow: "50",
+  },
+  exposure: {
+    maxUtilizationBp: 9_000,
+    maxAgentShareBp: 2_500,
+    minLiquidityReserve: "0",
+  },
+  riskEngine: {
+    minRepFactor: 0.5,
+    maxRepFactor: 2.0,
+    signals: {
+      "wallet-age": { weight: 3, params: { fullScoreDays: 180 } },
+      "tx-count": { weight: 2, params: { fullScoreCount: 100 } },
+      "usdc-balance": {
+        weight: 2,
+        params: { fullScoreBalance: "100", lookbackDays: 30, samples: 6 },
+      },
+      contract: { weight: 1, params: { contractScore: 0.5 } },
+      erc8004: { weight: 2, required: true },
+    },
+  },
+  feedbackScoring: DEFAULT_FEEDBACK_SCORING,
+  reputationBlend: {
+    riskEngineWeight: 0.5,
+    reputationInputsWeight: 0.5,
+  },
+  reputationPublisher: {
+    enabled: true,
+    scores: { repaid: 100, frozen: 20, "write-off": 0 },
+    intervalSeconds: 60,
+    batchSize: 5,
+    minAgentIntervalSeconds: 60 * 60,
+    feedbackAuthEntries: 100,
+    feedbackAuthDays: 365,
+    maxAttempts: 5,
+    retryDelaySeconds: 5 * 60,
+  },
+  validation: {
+    tiers: [{ name: "standard", limitBp: 10_000, requirements: [] }],
+  },
+  creditLines: {
+    mode: "per-pool",
+    allocationBp: {},
+  },
+  pools: {},
+};
+
+export function loadPolicyConfig(path?: string): PolicyConfig {
+  if (!path) return DEFAULT_POLICY_CONFIG;
+
+  const raw = readFileSync(path, "utf8");
+  const ext = extname(path).toLowerCase();
+  const parsed =
+    ext === ".yaml" || ext === ".yml" ? parseYaml(raw) : JSON.parse(raw);
+
+  if (!parsed || typeof parsed !== "object") {
+    throw new Error(`Policy file ${path} is empty or not an object`);
+  }
+
+  return {
+    ...DEFAULT_POLICY_CONFIG,
+    ...parsed,
+    creditPolicy: parsed.creditPolicy ?? DEFAULT_POLICY_CONFIG.creditPolicy,
+    delinquency: {
+      ...DEFAULT_POLICY_CONFIG.delinquency,
+      ...parsed.delinquency,
+    },
+    growthGuards: {
+      ...DEFAULT_POLICY_CONFIG.growthGuards,
+      ...parsed.growthGuards,
+    },
+    exposure: {
+      ...DEFAULT_POLICY_CONFIG.exposure,
+      ...parsed.exposure,
+    },
+    riskEngine: {
+      ...DEFAULT_POLICY_CONFIG.riskEngine,
+      ...parsed.riskEngine,
+      signals: {
+        ...DEFAULT_POLICY_CONFIG.riskEngine.signals,
+        ...parsed.riskEngine?.signals,
+      },
+    },
+    feedbackScoring: {
+      ...DEFAULT_POLICY_CONFIG.feedbackScoring,
+      ...parsed.feedbackScoring,
+    },
+    reputationBlend: {
+      ...DEFAULT_POLICY_CONFIG.reputationBlend,
+      ...parsed.reputationBlend,
+    },
+    reputationPublisher: {
+      ...DEFAULT_POLICY_CONFIG.reputationPublisher,
+      ...parsed.reputationPublisher,
+      scores: {
+        ...DEFAULT_POLICY_CONFIG.reputationPublisher.scores,
+        ...parsed.reputationPublisher?.scores,
+      },
+    },
+    validation: {
+      ...DEFAULT_POLICY_CONFIG.validation,
+      ...parsed.validation,
+      tiers: parseValidationTiers(parsed.validation?.tiers),
+    },
+    creditLines: parseCreditLines(parsed.creditLines),
+    pools: parsed.pools ?? {},
+  };
+}
+
+/**
+ * Policy one pool runs with: the shared policy with the pool's own
+ * creditPolicy, delinquency, growthGuards and exposure sections applied
+ */
+export function poolPolicy(policy: PolicyConfig, poolId: string): PolicyConfig {
+  const overrides: PoolPolicyOverrides = policy.pools[poolId] ?? {};
+  return {
+    ...policy,
+    creditPolicy: overrides.creditPolicy ?? policy.creditPolicy,
+    delinquency: { ...policy.delinquency, ...overrides.delinquency },
+    growthGuards: { ...policy.growthGuards, ...overrides.growthGuards },
+    exposure: { ...policy.exposure, ...overrides.exposure },
+  };
+}
+
+function parseCreditLines(creditLines?: any): PolicyConfig["creditLines"] {
+  const merged = { ...DEFAULT_POLICY_CONFIG.creditLines, ...creditLines };
+  if (merged.mode !== "per-pool" && merged.mode !== "shared") {
+    throw new Error(
+      `creditLines.mode must be "per-pool" or "shared", got "${merged.mode}"`,
+    );
+  }
+  const allocated = Object.values(merged.allocationBp as object).reduce(
+    (sum: number, bp) => sum + Number(bp),
+    0,
+  );
+  if (allocated > 10_000) {
+    throw new Error(`creditLines.allocationBp adds up to ${allocated} (> 10000)`);
+  }
+  return merged;
+}
+
+/**
+ * Fill requirement defaults (any validator, one pass at response >= 80)
+ */
+function parseValidationTiers(tiers?: any[]): ValidationTier[] {
+  if (!tiers) return DEFAULT_POLICY_CONFIG.validation.tiers;
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    throw new Error("validation.tiers must be a non-empty list");
+  }
+
+  return tiers.map((tier) => ({
+    ...tier,
+    limitBp: tier.limitBp ?? 10_000,
+    requirements: (tier.requirements ?? []).map(
+      (requirement: Partial<ValidationRequirement>) => ({
+        label: requirement.label ?? requirement.tag ?? "validation",
+        validators: requirement.validators ?? [],
+        minResponse: requirement.minResponse ?? 80,
+        minCount: requirement.minCount ?? 1,
+        ...requirement,
+      }),
+    ),
+  }));
+}
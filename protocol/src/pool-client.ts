@@ -3,13 +3,34 @@
  *
  * Interacts with the deployed CredexPool.sol contract
  * Pattern from: aegis402/src/credit-manager.ts
+ *
+ * Writes are sent through the TransactionManager (see tx-manager.ts) so
+ * that concurrent callers share one nonce sequence. Inside a dry run (see
+ * dry-run.ts) writes are simulated instead and reads see their predicted
+ * effects; a client created with dryRun never broadcasts at all.
  */
 
-import { ethers, Contract, Signer, TransactionReceipt } from "ethers";
+import {
+  ethers,
+  Contract,
+  EventLog,
+  Signer,
+  TransactionReceipt,
+  isCallException,
+} from "ethers";
 import { AgentOnChain } from "./types";
+import { InterestParams, pendingInterest } from "./interest";
+import { TransactionManager } from "./tx-manager";
+import {
+  DryRunRevertError,
+  DryRunSession,
+  DryRunTransaction,
+  applyPoolWrite,
+  currentDryRun,
+} from "./dry-run";
 
 // CredexPool ABI (only the functions we need)
-const CREDEX_POOL_ABI = [
+export const CREDEX_POOL_ABI = [
   // Read functions
   "function agents(address) view returns (uint256 debt, uint256 principal, uint256 creditLimit, uint256 lastAccrued, uint256 lastRepayment, bool frozen, bool active)",
   "function getAgentState(address agent) view returns (uint256 debt, uint256 principal, uint256 creditLimit, uint256 lastAccrued, uint256 lastRepayment, bool frozen, bool active)",
@@ -18,11 +39,16 @@ const CREDEX_POOL_ABI = [
   "function totalAssets() view returns (uint256)",
   "function totalShares() view returns (uint256)",
   "function lpShares(address) view returns (uint256)",
+  "function INTEREST_RATE_BP() view returns (uint256)",
+  "function ACCRUAL_INTERVAL() view returns (uint256)",
+  "function credexAgent() view returns (address)",
+  "function USDC() view returns (address)",
 
   // Write functions (onlyAgent)
   "function onboardAgent(address agent, uint256 creditLimit) external",
   "function setCreditLimit(address agent, uint256 newLimit) external",
   "function borrow(address agent, uint256 amount) external",
+  "function borrowTo(address agent, uint256 amount, address recipient) external",
   "function repay(address agent, uint256 amount) external",
   "function freeze(address agent) external",
   "function unfreeze(address agent) external",
@@ -31,23 +57,55 @@ const CREDEX_POOL_ABI = [
   "event AgentOnboarded(address indexed agent, uint256 creditLimit)",
   "event CreditLimitUpdated(address indexed agent, uint256 newLimit)",
   "event Borrowed(address indexed agent, uint256 amount)",
+  "event BorrowedTo(address indexed agent, address indexed recipient, uint256 amount)",
   "event Repaid(address indexed agent, uint256 amount)",
   "event Frozen(address indexed agent)",
+  "event Unfrozen(address indexed agent)",
+  "event InterestAccrued(address indexed agent, uint256 interest)",
+  "event LiquidityDeposited(address indexed provider, uint256 assets, uint256 shares)",
+  "event LiquidityWithdrawn(address indexed provider, uint256 assets, uint256 shares)",
 ];
 
+// Receipt of a sent write, or a placeholder hash in a dry run
+export type PoolWriteResult = Pick<TransactionReceipt, "hash">;
+
 export class PoolClient {
   private contract: Contract;
   private signer: Signer;
+  private txManager: TransactionManager;
   public readonly address: string;
+  private interestParams: InterestParams | null = null;
+  private borrowToSupported: boolean | null = null;
+  private dryRun: boolean;
 
-  constructor(contractAddress: string, signer: Signer) {
+  constructor(
+    contractAddress: string,
+    signer: Signer,
+    txManager: TransactionManager,
+    dryRun = false,
+  ) {
     this.address = contractAddress;
     this.signer = signer;
+    this.txManager = txManager;
+    this.dryRun = dryRun;
     this.contract = new Contract(contractAddress, CREDEX_POOL_ABI, signer);
   }
 
   // Read agent state
   async getAgent(agentAddress: string): Promise<AgentOnChain> {
+    const session = currentDryRun();
+    const predicted = session?.getAgent(this.address, agentAddress);
+    if (session && predicted) {
+      // getAgentState adds interest pending since lastAccrued
+      const now = await session.time(this.address, () => this.chainTime());
+      const interest = pendingInterest(
+        predicted,
+        now,
+        await this.getInterestParams(),
+      );
+      return { ...predicted, debt: predicted.debt + interest };
+    }
+
     const result = await this.contract.getAgentState(agentAddress);
     return {
       debt: result[0],
@@ -60,18 +118,72 @@ export class PoolClient {
     };
   }
 
+  // Read agent state as stored (debt excludes interest pending since lastAccrued)
+  async getStoredAgent(agentAddress: string): Promise<AgentOnChain> {
+    const predicted = currentDryRun()?.getAgent(this.address, agentAddress);
+    if (predicted) return predicted;
+
+    const result = await this.contract.agents(agentAddress);
+    return {
+      debt: result[0],
+      principal: result[1],
+      creditLimit: result[2],
+      lastAccrued: result[3],
+      lastRepayment: result[4],
+      frozen: result[5],
+      active: result[6],
+    };
+  }
+
+  // Interest constants (immutable, so read once)
+  async getInterestParams(): Promise<InterestParams> {
+    if (!this.interestParams) {
+      const [rateBp, interval] = await Promise.all([
+        this.contract.INTEREST_RATE_BP(),
+        this.contract.ACCRUAL_INTERVAL(),
+      ]);
+      this.interestParams = { rateBp, interval };
+    }
+    return this.interestParams;
+  }
+
+  // Whether the deployed pool has borrowTo (pools deployed before it was
+  // added revert every delivered borrow). Solidity dispatches on a PUSH4
+  // of each selector, so the bytecode contains it; the code never changes
+  async supportsBorrowTo(): Promise<boolean> {
+    if (this.borrowToSupported === null) {
+      const provider = this.signer.provider;
+      if (!provider) throw new Error("Signer has no provider");
+      const code = (await provider.getCode(this.address)).toLowerCase();
+      const { selector } = this.contract.interface.getFunction("borrowTo")!;
+      this.borrowToSupported = code.includes(`63${selector.slice(2)}`);
+    }
+    return this.borrowToSupported;
+  }
+
   // Get available credit for an agent
   async getAvailableCredit(agentAddress: string): Promise<bigint> {
+    const predicted = currentDryRun()?.getAgent(this.address, agentAddress);
+    if (predicted) {
+      if (!predicted.active || predicted.frozen) return 0n;
+      return predicted.creditLimit > predicted.principal
+        ? predicted.creditLimit - predicted.principal
+        : 0n;
+    }
     return await this.contract.availableCredit(agentAddress);
   }
 
   // Get total pool liquidity (Cash)
   async getTotalLiquidity(): Promise<bigint> {
+    const predicted = currentDryRun()?.getPool(this.address);
+    if (predicted) return predicted.totalLiquidity;
     return await this.contract.totalLiquidity();
   }
 
   // Get total assets (Cash + Debt)
   async getTotalAssets(): Promise<bigint> {
+    const predicted = currentDryRun()?.getPool(this.address);
+    if (predicted) return predicted.totalAssets;
     return await this.contract.totalAssets();
   }
 
@@ -80,16 +192,48 @@ export class PoolClient {
     return await this.contract.totalShares();
   }
 
+  // Address allowed to call the onlyAgent functions
+  async getCredexAgent(): Promise<string> {
+    return await this.contract.credexAgent();
+  }
+
+  // USDC token the pool lends
+  async getUsdcAddress(): Promise<string> {
+    return await this.contract.USDC();
+  }
+
+  // Query pool events in fixed-size block ranges (RPCs cap getLogs ranges)
+  async queryEvents(
+    eventName: string,
+    fromBlock: number,
+    toBlock?: number,
+    chunkSize = 10_000,
+  ): Promise<EventLog[]> {
+    const provider = this.signer.provider;
+    if (!provider) throw new Error("Signer has no provider");
+    const endBlock = toBlock ?? (await provider.getBlockNumber());
+
+    const events: EventLog[] = [];
+    for (let start = fromBlock; start <= endBlock; start += chunkSize) {
+      const end = Math.min(start + chunkSize - 1, endBlock);
+      const logs = await this.contract.queryFilter(eventName, start, end);
+      events.push(...(logs as EventLog[]));
+    }
+    return events;
+  }
+
   // Onboard a new agent with initial credit limit
   async onboardAgent(
     agentAddress: string,
     creditLimit: bigint,
-  ): Promise<TransactionReceipt> {
+  ): Promise<PoolWriteResult> {
     console.log(
       `📝 Onboarding agent ${agentAddress} with limit ${ethers.formatUnits(creditLimit, 6)} USDC`,
     );
-    const tx = await this.contract.onboardAgent(agentAddress, creditLimit);
-    const receipt = await tx.wait();
+    const receipt = await this.write("onboardAgent", [
+      agentAddress,
+      creditLimit,
+    ]);
     console.log(`✅ Onboard tx: ${receipt.hash}`);
     return receipt;
   }
@@ -98,59 +242,160 @@ export class PoolClient {
   async setCreditLimit(
     agentAddress: string,
     newLimit: bigint,
-  ): Promise<TransactionReceipt> {
+  ): Promise<PoolWriteResult> {
     console.log(
       `📝 Setting credit limit for ${agentAddress} to ${ethers.formatUnits(newLimit, 6)} USDC`,
     );
-    const tx = await this.contract.setCreditLimit(agentAddress, newLimit);
-    const receipt = await tx.wait();
+    const receipt = await this.write("setCreditLimit", [
+      agentAddress,
+      newLimit,
+    ]);
     console.log(`✅ SetCreditLimit tx: ${receipt.hash}`);
     return receipt;
   }
 
   // Borrow funds for an agent
-  async borrow(
-    agentAddress: string,
-    amount: bigint,
-  ): Promise<TransactionReceipt> {
+  async borrow(agentAddress: string, amount: bigint): Promise<PoolWriteResult> {
     console.log(
       `📝 Borrowing ${ethers.formatUnits(amount, 6)} USDC for ${agentAddress}`,
     );
-    const tx = await this.contract.borrow(agentAddress, amount);
-    const receipt = await tx.wait();
+    const receipt = await this.write("borrow", [agentAddress, amount]);
     console.log(`✅ Borrow tx: ${receipt.hash}`);
     return receipt;
   }
 
-  // Repay debt for an agent
-  async repay(
+  // Borrow on an agent's credit line, paid out to recipient (cross-chain
+  // delivery takes custody and bridges it to the agent)
+  async borrowTo(
     agentAddress: string,
     amount: bigint,
-  ): Promise<TransactionReceipt> {
+    recipient: string,
+  ): Promise<PoolWriteResult> {
+    console.log(
+      `📝 Borrowing ${ethers.formatUnits(amount, 6)} USDC for ${agentAddress}, paid to ${recipient}`,
+    );
+    const receipt = await this.write("borrowTo", [
+      agentAddress,
+      amount,
+      recipient,
+    ]);
+    console.log(`✅ BorrowTo tx: ${receipt.hash}`);
+    return receipt;
+  }
+
+  // Repay debt for an agent
+  async repay(agentAddress: string, amount: bigint): Promise<PoolWriteResult> {
     console.log(
       `📝 Repaying ${ethers.formatUnits(amount, 6)} USDC for ${agentAddress}`,
     );
-    const tx = await this.contract.repay(agentAddress, amount);
-    const receipt = await tx.wait();
+    const receipt = await this.write("repay", [agentAddress, amount]);
     console.log(`✅ Repay tx: ${receipt.hash}`);
     return receipt;
   }
 
   // Freeze an agent
-  async freeze(agentAddress: string): Promise<TransactionReceipt> {
+  async freeze(agentAddress: string): Promise<PoolWriteResult> {
     console.log(`🔒 Freezing agent ${agentAddress}`);
-    const tx = await this.contract.freeze(agentAddress);
-    const receipt = await tx.wait();
+    const receipt = await this.write("freeze", [agentAddress]);
     console.log(`✅ Freeze tx: ${receipt.hash}`);
     return receipt;
   }
 
   // Unfreeze an agent
-  async unfreeze(agentAddress: string): Promise<TransactionReceipt> {
+  async unfreeze(agentAddress: string): Promise<PoolWriteResult> {
     console.log(`🔓 Unfreezing agent ${agentAddress}`);
-    const tx = await this.contract.unfreeze(agentAddress);
-    const receipt = await tx.wait();
+    const receipt = await this.write("unfreeze", [agentAddress]);
     console.log(`✅ Unfreeze tx: ${receipt.hash}`);
     return receipt;
   }
+
+  // Encode a pool call and send it through the transaction manager
+  private async write(
+    method: string,
+    args: unknown[],
+  ): Promise<PoolWriteResult> {
+    const session = currentDryRun();
+    if (session) return this.simulate(session, method, args);
+    if (this.dryRun) {
+      throw new Error(
+        `Dry-run mode: refusing to broadcast ${method} outside a dry-run request`,
+      );
+    }
+    return this.txManager.send(
+      method,
+      this.address,
+      this.contract.interface.encodeFunctionData(method, args),
+    );
+  }
+
+  /**
+   * Record the would-be tx and apply its effect to the session overlay.
+   * Agents without earlier writes in the session are checked against the
+   * chain (staticCall + estimateGas); later writes against the overlay.
+   */
+  private async simulate(
+    session: DryRunSession,
+    method: string,
+    args: unknown[],
+  ): Promise<PoolWriteResult> {
+    const agentAddress = args[0] as string;
+    const tx: DryRunTransaction = {
+      method,
+      args: args.map(String),
+      from: await this.signer.getAddress(),
+      to: this.address,
+      data: this.contract.interface.encodeFunctionData(method, args),
+      simulation: session.getAgent(this.address, agentAddress)
+        ? "predicted"
+        : "chain",
+      gasEstimate: null,
+      revertReason: null,
+    };
+    session.transactions.push(tx);
+
+    try {
+      if (tx.simulation === "chain") {
+        await this.contract[method].staticCall(...args);
+        const gas = await this.contract[method].estimateGas(...args);
+        tx.gasEstimate = gas.toString();
+      }
+
+      const now = await session.time(this.address, () => this.chainTime());
+      const next = applyPoolWrite(
+        method,
+        args,
+        await this.getStoredAgent(agentAddress),
+        session.getPool(this.address) ?? {
+          totalLiquidity: await this.getTotalLiquidity(),
+          totalAssets: await this.getTotalAssets(),
+        },
+        now,
+        await this.getInterestParams(),
+      );
+      session.setAgent(this.address, agentAddress, next.agent);
+      session.setPool(this.address, next.pool);
+    } catch (error) {
+      if (error instanceof DryRunRevertError) {
+        tx.revertReason = error.reason;
+      } else if (isCallException(error)) {
+        tx.revertReason = error.reason ?? error.shortMessage;
+        throw new DryRunRevertError(method, tx.revertReason);
+      }
+      throw error;
+    }
+
+    console.log(
+      `🧪 Dry run ${method}: ${tx.simulation}` +
+        (tx.gasEstimate ? `, gas ${tx.gasEstimate}` : ""),
+    );
+    return { hash: `dry-run-${session.transactions.length}` };
+  }
+
+  private async chainTime(): Promise<bigint> {
+    const provider = this.signer.provider;
+    if (!provider) throw new Error("Signer has no provider");
+    const block = await provider.getBlock("latest");
+    if (!block) throw new Error("Latest block unavailable");
+    return BigInt(block.timestamp);
+  }
 }
@@ -0,0 +1,218 @@
+/**
+ * Pools
+ *
+ * One clearing instance manages every pool in CREDEX_POOLS, on the same
+ * or different chains. Each pool has its own PoolClient, agent registry,
+ * event indexer, delinquency monitor, guards and policy (the shared policy
+ * with the pool's policy.pools overrides); pools on one chain share a
+ * provider and transaction manager so the signer's nonces stay in one
+ * sequence. Reputation, validation and the audit log are shared.
+ *
+ * Routes pick a pool with ?pool=<id|address> or ?chain=<chainId|network>
+ * and fall back to the first configured pool.
+ *
+ * Credit lines (policy.creditLines):
+ *   per-pool  the agent is onboarded, grown and frozen in each pool on
+ *             its own, with that pool's policy
+ *   shared    onboarding scores the agent once and splits the limit across
+ *             every pool by allocationBp; a borrow larger than the pool's
+ *             unused limit first moves unused limit over from the agent's
+ *             other pools (lowered before the target is raised). The sum
+ *             of the on-chain limits is the agent's shared limit.
+ */
+
+import { ethers, Provider } from "ethers";
+import { AddressedSigner } from "credex-shared";
+import { PoolClient } from "./pool-client";
+import { AgentRepository } from "./agent-store";
+import { CreditPolicy } from "./credit-policy";
+import { DelinquencyMonitor } from "./delinquency-monitor";
+import { GrowthGuard } from "./growth-guard";
+import { ExposureGuard } from "./exposure-guard";
+import { LimitExplainer } from "./limit-explainer";
+import { EventStore } from "./event-store";
+import { EventIndexer } from "./indexer";
+import { TransactionManager } from "./tx-manager";
+import { HealthChecker } from "./health-check";
+import { AgentOnChain, PolicyConfig } from "./types";
+
+// Chain access and pool state (everything but policy)
+export interface PoolConnection {
+  id: string;
+  chainId: number;
+  address: string;
+  usdcAddress: string;
+  deployBlock: number;
+  provider: Provider;
+  signer: AddressedSigner; // connected to the pool's chain
+  txManager: TransactionManager; // shared by pools on the same chain
+  client: PoolClient;
+  store: AgentRepository;
+  events: EventStore;
+  indexer: EventIndexer;
+}
+
+export interface ClearingPool extends PoolConnection {
+  rules: PolicyConfig; // shared policy with this pool's overrides
+  policy: CreditPolicy;
+  monitor: DelinquencyMonitor;
+  growthGuard: GrowthGuard;
+  exposureGuard: ExposureGuard;
+  limitExplainer: LimitExplainer;
+  health: HealthChecker;
+}
+
+// ?pool= / ?chain= of a request (both empty: the first pool)
+export interface PoolSelector {
+  pool?: string; // pool id or address
+  chain?: string; // chain id or network profile name
+}
+
+// An agent's standing in one pool
+export interface CreditLine {
+  pool: ClearingPool;
+  agent: AgentOnChain;
+}
+
+// Limit to take from one pool for a shared-line borrow elsewhere
+export interface LimitMove {
+  pool: ClearingPool;
+  agent: AgentOnChain;
+  amount: bigint;
+}
+
+// A limit set while moving limit for a borrow, kept to undo it
+export interface MovedLimit {
+  pool: ClearingPool;
+  previousLimit: bigint;
+  newLimit: bigint;
+}
+
+export class UnknownPoolError extends Error {
+  readonly code = "UNKNOWN_POOL";
+
+  constructor(selector: PoolSelector, known: string[]) {
+    super(
+      `No pool matches ${selector.pool ? `pool ${selector.pool}` : `chain ${selector.chain}`} (pools: ${known.join(", ")})`,
+    );
+    this.name = "UnknownPoolError";
+  }
+}
+
+/**
+ * Pool a request addresses. Throws UnknownPoolError when nothing matches.
+ */
+export function selectPool<T extends PoolConnection>(
+  pools: T[],
+  selector: PoolSelector = {},
+): T {
+  const { pool, chain } = selector;
+  if (!pool && !chain) return pools[0];
+
+  const match = pools.find((candidate) => {
+    if (pool) {
+      return (
+        candidate.id === pool ||
+        candidate.address.toLowerCase() === pool.toLowerCase()
+      );
+    }
+    return candidate.id === chain || String(candidate.chainId) === chain;
+  });
+  if (!match) {
+    throw new UnknownPoolError(
+      selector,
+      pools.map((candidate) => candidate.id),
+    );
+  }
+  return match;
+}
+
+/**
+ * Split a shared limit across pools by basis points. Pools without an
+ * allocation share what the listed ones leave; rounding dust goes to
+ * remainderTo (the pool the agent onboarded through).
+ */
+export function allocateLimit(
+  total: bigint,
+  poolIds: string[],
+  allocationBp: Record<string, number>,
+  remainderTo: string,
+): Map<string, bigint> {
+  const listed = poolIds.filter((id) => allocationBp[id] !== undefined);
+  const unlisted = poolIds.filter((id) => allocationBp[id] === undefined);
+  const listedBp = listed.reduce((sum, id) => sum + allocationBp[id], 0);
+  const unlistedBp =
+    unlisted.length > 0 ? (10_000 - listedBp) / unlisted.length : 0;
+
+  const allocation = new Map<string, bigint>();
+  let allocated = 0n;
+  for (const id of poolIds) {
+    const bp = allocationBp[id] ?? unlistedBp;
+    const amount = (total * BigInt(Math.floor(bp))) / 10_000n;
+    allocation.set(id, amount);
+    allocated += amount;
+  }
+  allocation.set(
+    remainderTo,
+    (allocation.get(remainderTo) ?? 0n) + total - allocated,
+  );
+  return allocation;
+}
+
+/**
+ * Unused limit to move from other pools so `needed` more can be borrowed
+ * from the target, taken from the largest unused limits first. Null when
+ * the other pools don't have enough between them.
+ */
+export function planLimitMoves(
+  others: CreditLine[],
+  needed: bigint,
+): LimitMove[] | null {
+  const unused = (line: CreditLine) =>
+    line.agent.creditLimit > line.agent.principal
+      ? line.agent.creditLimit - line.agent.principal
+      : 0n;
+  const candidates = others
+    .filter((line) => line.agent.active && unused(line) > 0n)
+    .sort((a, b) => (unused(b) > unused(a) ? 1 : unused(b) < unused(a) ? -1 : 0));
+
+  const moves: LimitMove[] = [];
+  let remaining = needed;
+  for (const line of candidates) {
+    if (remaining === 0n) break;
+    const amount = unused(line) < remaining ? unused(line) : remaining;
+    moves.push({ pool: line.pool, agent: line.agent, amount });
+    remaining -= amount;
+  }
+  return remaining === 0n ? moves : null;
+}
+
+/**
+ * Totals of an agent's credit lines across pools
+ */
+export function summarizeCreditLines(lines: CreditLine[]) {
+  const sum = (pick: (agent: AgentOnChain) => bigint) =>
+    lines.reduce((total, line) => total + pick(line.agent), 0n);
+  const limit = sum((agent) => agent.creditLimit);
+  const principal = sum((agent) => agent.principal);
+
+  return {
+    creditLimit: ethers.formatUnits(limit, 6),
+    principal: ethers.formatUnits(principal, 6),
+    debt: ethers.formatUnits(
+      sum((agent) => agent.debt),
+      6,
+    ),
+    available: ethers.formatUnits(limit > principal ? limit - principal : 0n, 6),
+    pools: lines.map(({ pool, agent }) => ({
+      pool: pool.id,
+      chainId: pool.chainId,
+      poolAddress: pool.address,
+      active: agent.active,
+      frozen: agent.frozen,
+      creditLimit: ethers.formatUnits(agent.creditLimit, 6),
+      principal: ethers.formatUnits(agent.principal, 6),
+      debt: ethers.formatUnits(agent.debt, 6),
+    })),
+  };
+}
@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+/**
+ * Reference Remote Signer
+ *
+ * Minimal implementation of the remote signer protocol (see credex-shared
+ * signer.ts) for local testing and as a template for a production signer
+ * (HSM, KMS, MPC). It holds one key, loaded from a keystore or a raw key,
+ * and signs whatever an authenticated caller asks for on the allowed chains.
+ *
+ * Usage:
+ *   npm run signer
+ *
+ * Environment:
+ *   REMOTE_SIGNER_TOKEN            (required) Bearer token callers present
+ *   REMOTE_SIGNER_KEYSTORE         Encrypted JSON keystore, or
+ *   REMOTE_SIGNER_PRIVATE_KEY      raw hex key (testing only)
+ *   REMOTE_SIGNER_KEYSTORE_PASSWORD_FILE  Passphrase file (else prompted)
+ *   REMOTE_SIGNER_CHAIN_IDS        Comma-separated chain ids it signs for
+ *                                  (default: any)
+ *   REMOTE_SIGNER_HOST / _PORT     Listen address (default 127.0.0.1:10010)
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { timingSafeEqual } from "crypto";
+import { ethers, Transaction } from "ethers";
+import {
+  AddressedSigner,
+  loadSigner,
+  resolveSignerConfig,
+} from "credex-shared";
+import "dotenv/config";
+
+// --- Configuration ---
+
+const HOST = process.env.REMOTE_SIGNER_HOST || "127.0.0.1";
+const PORT = parseInt(process.env.REMOTE_SIGNER_PORT || "10010");
+const TOKEN = process.env.REMOTE_SIGNER_TOKEN || "";
+const CHAIN_IDS = (process.env.REMOTE_SIGNER_CHAIN_IDS || "")
+  .split(",")
+  .map((id) => id.trim())
+  .filter(Boolean)
+  .map((id) => BigInt(id));
+
+if (!TOKEN) {
+  console.error("❌ REMOTE_SIGNER_TOKEN required");
+  process.exit(1);
+}
+
+// --- Helpers ---
+
+async function parseBody(req: IncomingMessage): Promise<any> {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return body ? JSON.parse(body) : {};
+}
+
+function sendJson(res: ServerResponse, status: number, data: object) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+function authorized(req: IncomingMessage): boolean {
+  const expected = Buffer.from(`Bearer ${TOKEN}`);
+  const presented = Buffer.from(req.headers.authorization ?? "");
+  return (
+    presented.length === expected.length &&
+    timingSafeEqual(presented, expected)
+  );
+}
+
+// --- Request Handler ---
+
+function handler(signer: AddressedSigner) {
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    if (!authorized(req)) {
+      sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+
+    try {
+      if (req.method === "GET" && req.url === "/address") {
+        sendJson(res, 200, { address: signer.address });
+        return;
+      }
+
+      if (req.method === "POST" && req.url === "/sign/transaction") {
+        const { transaction } = await parseBody(req);
+        const tx = Transaction.from(transaction);
+        if (CHAIN_IDS.length > 0 && !CHAIN_IDS.includes(tx.chainId)) {
+          sendJson(res, 403, { error: `Chain ${tx.chainId} not allowed` });
+          return;
+        }
+        console.log(
+          `✍️ Signing tx to ${tx.to} on chain ${tx.chainId} (nonce ${tx.nonce})`,
+        );
+        sendJson(res, 200, {
+          signedTransaction: await signer.signTransaction(tx),
+        });
+        return;
+      }
+
+      if (req.method === "POST" && req.url === "/sign/message") {
+        const { message } = await parseBody(req);
+        console.log(`✍️ Signing message (${ethers.dataLength(message)} bytes)`);
+        sendJson(res, 200, {
+          signature: await signer.signMessage(ethers.getBytes(message)),
+        });
+        return;
+      }
+
+      if (req.method === "POST" && req.url === "/sign/typed-data") {
+        const { domain, types, value } = await parseBody(req);
+        if (
+          CHAIN_IDS.length > 0 &&
+          domain.chainId !== undefined &&
+          !CHAIN_IDS.includes(BigInt(domain.chainId))
+        ) {
+          sendJson(res, 403, { error: `Chain ${domain.chainId} not allowed` });
+          return;
+        }
+        console.log(`✍️ Signing typed data for ${domain.name ?? "?"}`);
+        sendJson(res, 200, {
+          signature: await signer.signTypedData(domain, types, value),
+        });
+        return;
+      }
+
+      sendJson(res, 404, { error: "Not found" });
+    } catch (error) {
+      console.error("❌ Signing failed:", error);
+      sendJson(res, 400, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
+
+// --- Start Server ---
+
+async function main(): Promise<void> {
+  const config = resolveSignerConfig(
+    {
+      privateKey: process.env.REMOTE_SIGNER_PRIVATE_KEY,
+      keystore: process.env.REMOTE_SIGNER_KEYSTORE,
+      keystorePasswordFile: process.env.REMOTE_SIGNER_KEYSTORE_PASSWORD_FILE,
+    },
+    "REMOTE_SIGNER_PRIVATE_KEY or REMOTE_SIGNER_KEYSTORE",
+  );
+  const signer = await loadSigner(config);
+
+  createServer(handler(signer)).listen(PORT, HOST, () => {
+    console.log(`🔏 Remote signer for ${signer.address}`);
+    console.log(`   Listening on http://${HOST}:${PORT}`);
+    console.log(
+      `   Chains: ${CHAIN_IDS.length > 0 ? CHAIN_IDS.join(", ") : "any"}`,
+    );
+  });
+}
+
+main().catch((error) => {
+  console.error("❌ Failed to start remote signer:", error);
+  process.exit(1);
+});
@@ -0,0 +1,441 @@
+/**
+ * Reputation Publisher
+ *
+ * Posts Credex credit outcomes back to the ERC-8004 Reputation Registry
+ * so other lenders can read them:
+ *   repaid     - debt fully repaid while in good standing
+ *   frozen     - agent frozen by the delinquency monitor
+ *   write-off  - outstanding debt written off by an operator
+ *                (POST /admin/write-off)
+ *
+ * Each event is written as a signed JSON document ({ event, signer,
+ * signature }, served at GET /credit-events/:id) and queued. Every
+ * intervalSeconds up to batchSize queued events are published with
+ * tag1 = "credex", tag2 = kind, fileuri = the document URL and
+ * filehash = keccak256(document). An agent gets at most one feedback
+ * entry per minAgentIntervalSeconds; later events wait in the queue.
+ *
+ * The registry only takes feedback the agent authorized: the agent signs
+ * the terms from GET /feedback-auth/:agentId (see credex-shared) and
+ * posts the feedbackAuth back, which is checked and kept for every
+ * later giveFeedback. Events for an agent without one fail to publish.
+ *
+ * A failed publish is retried after retryDelaySeconds, doubling each
+ * time; after maxAttempts the event is marked failed. A new feedbackAuth
+ * queues the agent's failed events again.
+ */
+
+import {
+  ethers,
+  Contract,
+  encodeBytes32String,
+  Provider,
+  Signer,
+} from "ethers";
+import {
+  DecodedFeedbackAuth,
+  FeedbackAuthTerms,
+  decodeFeedbackAuth,
+} from "credex-shared";
+import { AgentRepository } from "./agent-store";
+import { CreditEventQueueStats, CreditEventStore } from "./credit-event-store";
+import { ERC8004ReputationReader } from "./reputation";
+import {
+  CreditEvent,
+  CreditEventKind,
+  CreditEventRecord,
+  ReputationPublisherConfig,
+} from "./types";
+
+// Reputation Registry write ABI
+const REPUTATION_REGISTRY_ABI = [
+  "function giveFeedback(uint256 agentId, uint8 score, bytes32 tag1, bytes32 tag2, string fileuri, bytes32 filehash, bytes feedbackAuth)",
+  "function getLastIndex(uint256 agentId, address clientAddress) view returns (uint64)",
+];
+
+export const CREDEX_FEEDBACK_TAG = "credex";
+
+export interface CreditEventInput {
+  agentAddress: string;
+  pool?: string; // pool the event happened in (default: the first target pool)
+  txHash?: string;
+  amount?: bigint;
+  reasons?: string[];
+}
+
+export interface PublisherTarget {
+  // Pools credit events can come from, with the provider of each pool's
+  // chain (recorded as chainId)
+  pools: { address: string; provider: Provider }[];
+  identityRegistry: string;
+  reputationRegistry: string;
+  publicUrl: string;
+}
+
+/**
+ * A feedbackAuth the registry would reject
+ */
+export class FeedbackAuthError extends Error {
+  readonly code = "INVALID_FEEDBACK_AUTH";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedbackAuthError";
+  }
+}
+
+export interface PublisherStatus extends CreditEventQueueStats {
+  enabled: boolean;
+  running: boolean;
+}
+
+export class ReputationPublisher {
+  private signer: Signer;
+  private registry: Contract;
+  private store: CreditEventStore;
+  private agents: AgentRepository;
+  private reader: ERC8004ReputationReader;
+  private target: PublisherTarget;
+  private config: ReputationPublisherConfig;
+  private chainIds = new Map<string, string>(); // by pool address
+  private registryChainId: bigint | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private publishing = false;
+
+  /**
+   * @param signer - feedback sender on the registry's chain
+   */
+  constructor(
+    signer: Signer,
+    store: CreditEventStore,
+    agents: AgentRepository,
+    reader: ERC8004ReputationReader,
+    target: PublisherTarget,
+    config: ReputationPublisherConfig,
+  ) {
+    this.signer = signer;
+    this.store = store;
+    this.agents = agents;
+    this.reader = reader;
+    this.target = target;
+    this.config = config;
+    this.registry = new Contract(
+      target.reputationRegistry,
+      REPUTATION_REGISTRY_ABI,
+      signer,
+    );
+  }
+
+  start(): void {
+    if (this.timer || !this.config.enabled) return;
+    console.log(
+      `📣 Reputation publisher posting up to ${this.config.batchSize} feedback every ${this.config.intervalSeconds}s`,
+    );
+    this.timer = setInterval(
+      () => this.publishBatch(),
+      this.config.intervalSeconds * 1000,
+    );
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async getStatus(): Promise<PublisherStatus> {
+    return {
+      enabled: this.config.enabled,
+      running: this.timer !== null,
+      ...(await this.store.getQueueStats()),
+    };
+  }
+
+  /**
+   * Record a credit event for publication. Never throws: a lost event
+   * must not fail the repayment or freeze that produced it.
+   */
+  async enqueue(
+    kind: CreditEventKind,
+    input: CreditEventInput,
+  ): Promise<CreditEventRecord | null> {
+    if (!this.config.enabled) return null;
+
+    try {
+      const record = await this.buildRecord(kind, input);
+      await this.store.enqueue(record);
+      console.log(
+        `   📝 Credit event ${kind} for ${input.agentAddress} ${record.status}`,
+      );
+      return record;
+    } catch (error) {
+      console.error(
+        `❌ Failed to record ${kind} credit event for ${input.agentAddress}:`,
+        error,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Terms an agent signs to let us post feedback about it
+   * (GET /feedback-auth/:agentId)
+   */
+  async getFeedbackAuthTerms(agentId: bigint): Promise<FeedbackAuthTerms> {
+    const clientAddress = await this.signer.getAddress();
+    // Feedback already given counts against the limit
+    const lastIndex: bigint = await this.registry.getLastIndex(
+      agentId,
+      clientAddress,
+    );
+    return {
+      agentId: agentId.toString(),
+      clientAddress,
+      indexLimit: (
+        lastIndex + BigInt(this.config.feedbackAuthEntries)
+      ).toString(),
+      expiry:
+        Math.floor(Date.now() / 1000) +
+        this.config.feedbackAuthDays * 24 * 60 * 60,
+      chainId: (await this.getRegistryChainId()).toString(),
+      identityRegistry: this.target.identityRegistry,
+    };
+  }
+
+  /**
+   * Check an agent's signed feedbackAuth the way the registry will, and
+   * keep it for the agent's feedback (POST /feedback-auth). Throws
+   * FeedbackAuthError when it would be rejected.
+   */
+  async acceptFeedbackAuth(feedbackAuth: string): Promise<DecodedFeedbackAuth> {
+    let decoded: ReturnType<typeof decodeFeedbackAuth>;
+    try {
+      decoded = decodeFeedbackAuth(feedbackAuth);
+    } catch (error) {
+      throw new FeedbackAuthError(
+        `Malformed feedbackAuth: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    const { auth, recoveredSigner } = decoded;
+
+    const same = (a: string, b: string) =>
+      ethers.getAddress(a) === ethers.getAddress(b);
+    const client = await this.signer.getAddress();
+    const chainId = await this.getRegistryChainId();
+    const { identityRegistry } = this.target;
+    const problems: string[] = [];
+    if (!same(auth.clientAddress, client)) {
+      problems.push(`clientAddress must be ${client}`);
+    }
+    if (auth.chainId !== chainId) {
+      problems.push(`chainId must be ${chainId}`);
+    }
+    if (!same(auth.identityRegistry, identityRegistry)) {
+      problems.push(`identityRegistry must be ${identityRegistry}`);
+    }
+    if (auth.expiry <= BigInt(Math.floor(Date.now() / 1000))) {
+      problems.push("it has expired");
+    }
+    if (!same(recoveredSigner, auth.signerAddress)) {
+      problems.push("signature is not from signerAddress");
+    }
+    if (problems.length === 0) {
+      const owner = await this.reader.getAgentAddress(auth.agentId);
+      if (!owner || !same(owner, auth.signerAddress)) {
+        problems.push(`signerAddress does not own agentId ${auth.agentId}`);
+      }
+    }
+    if (problems.length > 0) {
+      throw new FeedbackAuthError(
+        `feedbackAuth rejected: ${problems.join("; ")}`,
+      );
+    }
+
+    await this.store.saveFeedbackAuth(auth.agentId.toString(), {
+      feedbackAuth: ethers.hexlify(feedbackAuth),
+      expiry: Math.min(Number(auth.expiry), Number.MAX_SAFE_INTEGER),
+    });
+    const requeued = await this.store.requeueFailed(auth.signerAddress);
+    console.log(
+      `📝 Feedback authorized by agent ${auth.agentId} until ${new Date(Number(auth.expiry) * 1000).toISOString()}${requeued ? ` (${requeued} failed events queued again)` : ""}`,
+    );
+    return auth;
+  }
+
+  /**
+   * Signed document for GET /credit-events/:id
+   */
+  async getDocument(id: string): Promise<string | null> {
+    const record = await this.store.get(id);
+    return record?.document ?? null;
+  }
+
+  /**
+   * Publish up to batchSize queued events. Overlapping runs are skipped.
+   */
+  async publishBatch(): Promise<void> {
+    if (this.publishing) return;
+    this.publishing = true;
+
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      // Look past the batch so agents waiting out their interval don't
+      // hold up everyone queued behind them
+      const queued = await this.store.listQueued(
+        this.config.batchSize * 10,
+        now,
+      );
+      const published = new Set<string>();
+      let sent = 0;
+
+      for (const record of queued) {
+        if (sent >= this.config.batchSize) break;
+        const agent = record.event.agentAddress.toLowerCase();
+        if (published.has(agent)) continue;
+
+        const last = await this.store.lastPublishedAt(agent);
+        if (last !== null && now - last < this.config.minAgentIntervalSeconds) {
+          continue;
+        }
+
+        published.add(agent);
+        sent++;
+        await this.publish(record, now);
+      }
+    } catch (error) {
+      console.error("❌ Reputation publishing failed:", error);
+    } finally {
+      this.publishing = false;
+    }
+  }
+
+  // --- Private helpers ---
+
+  private async publish(record: CreditEventRecord, now: number): Promise<void> {
+    const { event } = record;
+    try {
+      const auth = await this.store.getFeedbackAuth(event.agentId);
+      if (!auth || auth.expiry <= now) {
+        throw new Error(
+          `Agent ${event.agentId} has no unexpired feedbackAuth (POST /feedback-auth)`,
+        );
+      }
+      const tx = await this.registry.giveFeedback(
+        BigInt(event.agentId),
+        record.score,
+        encodeBytes32String(CREDEX_FEEDBACK_TAG),
+        encodeBytes32String(event.kind),
+        this.fileuri(event.id),
+        record.filehash,
+        auth.feedbackAuth,
+      );
+      const receipt = await tx.wait();
+      await this.store.setStatus(event.id, "published", {
+        feedbackTxHash: receipt.hash,
+        publishedAt: now,
+      });
+      console.log(
+        `📣 Published ${event.kind} feedback (${record.score}) for agent ${event.agentId}: ${receipt.hash}`,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const attempts = record.attempts + 1;
+      const nextAttemptAt =
+        attempts < this.config.maxAttempts
+          ? now + this.config.retryDelaySeconds * 2 ** (attempts - 1)
+          : null;
+      await this.store.recordFailure(event.id, message, nextAttemptAt);
+      console.error(
+        `❌ Feedback for credit event ${event.id} failed (attempt ${attempts}/${this.config.maxAttempts}${nextAttemptAt ? `, retry at ${new Date(nextAttemptAt * 1000).toISOString()}` : ""}): ${message}`,
+      );
+    }
+  }
+
+  private async buildRecord(
+    kind: CreditEventKind,
+    input: CreditEventInput,
+  ): Promise<CreditEventRecord> {
+    const agentAddress = ethers.getAddress(input.agentAddress);
+    const pool = ethers.getAddress(
+      input.pool ?? this.target.pools[0].address,
+    );
+    const agentId = await this.resolveAgentId(agentAddress);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const event: CreditEvent = {
+      type: "credex.credit-event",
+      version: 1,
+      id: ethers
+        .id(`${kind}:${agentAddress}:${input.txHash ?? timestamp}`)
+        .slice(2, 34),
+      kind,
+      agentAddress,
+      agentId: agentId?.toString() ?? "0",
+      pool,
+      chainId: await this.getChainId(pool),
+      txHash: input.txHash ?? null,
+      amount:
+        input.amount !== undefined ? ethers.formatUnits(input.amount, 6) : null,
+      reasons: input.reasons ?? [],
+      timestamp,
+    };
+
+    const signature = await this.signer.signMessage(JSON.stringify(event));
+    const document = JSON.stringify({
+      event,
+      signer: await this.signer.getAddress(),
+      signature,
+    });
+
+    return {
+      event,
+      document,
+      filehash: ethers.keccak256(ethers.toUtf8Bytes(document)),
+      score: this.config.scores[kind],
+      // Feedback is keyed by agentId; without an identity there is nowhere to post
+      status: agentId ? "queued" : "skipped",
+      feedbackTxHash: null,
+      error: agentId ? null : "No ERC-8004 identity",
+      publishedAt: null,
+      attempts: 0,
+      nextAttemptAt: null,
+    };
+  }
+
+  private async resolveAgentId(address: string): Promise<bigint | null> {
+    const stored = await this.agents.getAgent(address);
+    if (stored && stored.agentId !== "0") {
+      try {
+        return BigInt(stored.agentId);
+      } catch {
+        // not numeric, fall through to the registry
+      }
+    }
+    return this.reader.getAgentId(address);
+  }
+
+  private async getChainId(pool: string): Promise<string> {
+    let chainId = this.chainIds.get(pool);
+    if (!chainId) {
+      const target = this.target.pools.find(
+        (candidate) => ethers.getAddress(candidate.address) === pool,
+      );
+      if (!target) throw new Error(`Unknown pool ${pool}`);
+      chainId = (await target.provider.getNetwork()).chainId.toString();
+      this.chainIds.set(pool, chainId);
+    }
+    return chainId;
+  }
+
+  private async getRegistryChainId(): Promise<bigint> {
+    if (this.registryChainId === null) {
+      const provider = this.signer.provider;
+      if (!provider) throw new Error("Signer has no provider");
+      this.registryChainId = (await provider.getNetwork()).chainId;
+    }
+    return this.registryChainId;
+  }
+
+  private fileuri(id: string): string {
+    return `${this.target.publicUrl.replace(/\/$/, "")}/credit-events/${id}`;
+  }
+}
@@ -4,12 +4,29 @@
  * Reads reputation scores from the ERC-8004 Reputation Registry on Base Sepolia
  * and computes repFactor for credit limit calculations.
  *
- * repFactor = averageScore / 100
+ * repFactor = score / 100 (weighted feedback score, see feedback-scoring.ts)
  * creditLimit = stake × repFactor
  */
 
-import { ethers, Contract, Provider } from "ethers";
-import { ReputationInputs, ReputationResult } from "./types";
+import {
+  ethers,
+  Contract,
+  ContractEventName,
+  EventLog,
+  Log,
+  Provider,
+  isError,
+} from "ethers";
+import { FeedbackStore } from "./feedback-store";
+import { DEFAULT_FEEDBACK_SCORING, scoreFeedback } from "./feedback-scoring";
+import {
+  FeedbackScoreBreakdown,
+  FeedbackScoringConfig,
+  ReputationBlend,
+  ReputationConfig,
+  ReputationInputs,
+  ReputationResult,
+} from "./types";
 
 // ERC-8004 Registry Addresses (Base Sepolia)
 export const ERC8004_ADDRESSES = {
@@ -23,10 +40,11 @@ const REPUTATION_REGISTRY_ABI = [
   "event NewFeedback(uint256 indexed agentId, address indexed clientAddress, uint8 score, bytes32 indexed tag1, bytes32 tag2, string fileuri, bytes32 filehash)",
 ];
 
-// Identity Registry ABI (to get agentId from address)
+// Identity Registry ABI (agentId <-> address; ERC-721 mint = registration)
 const IDENTITY_REGISTRY_ABI = [
   "function getAgentId(address agent) view returns (uint256)",
   "function getAgentAddress(uint256 agentId) view returns (address)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
 ];
 
 export interface FeedbackEntry {
@@ -38,118 +56,237 @@ export interface FeedbackEntry {
   fileuri: string;
   filehash: string;
   blockNumber: number;
+  txHash: string;
+  logIndex: number;
+}
+
+// Feedback log scanning (see ReputationConfig in types.ts)
+export const DEFAULT_REPUTATION_CONFIG: ReputationConfig = {
+  registryDeployBlock: 0,
+  initialChunkSize: 10_000,
+  minChunkSize: 100,
+  maxChunkSize: 50_000,
+  scoreTtlSeconds: 300,
+  identityRegistry: ERC8004_ADDRESSES.identityRegistry,
+  reputationRegistry: ERC8004_ADDRESSES.reputationRegistry,
+  validationRegistry: ERC8004_ADDRESSES.validationRegistry,
+};
+
+/**
+ * Feedback could not be read completely (RPC failure after retries at the
+ * smallest chunk size). Scores computed from partial data are never
+ * returned; callers decide whether to proceed without reputation.
+ */
+export class ReputationUnavailableError extends Error {
+  readonly code = "REPUTATION_UNAVAILABLE";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ReputationUnavailableError";
+  }
+}
+
+/**
+ * A request names an agentId the address doesn't own in the Identity
+ * Registry, so its reputation can't be borrowed
+ */
+export class AgentIdMismatchError extends Error {
+  readonly code = "AGENT_ID_MISMATCH";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "AgentIdMismatchError";
+  }
+}
+
+/**
+ * First block where address has code, found by binary search over
+ * historical eth_getCode (needs archive state)
+ */
+async function findDeployBlock(
+  provider: Provider,
+  address: string,
+): Promise<number> {
+  let lo = 0;
+  let hi = await provider.getBlockNumber();
+  if ((await provider.getCode(address, hi)) === "0x") {
+    throw new Error(`No contract at ${address}`);
+  }
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if ((await provider.getCode(address, mid)) !== "0x") {
+      hi = mid;
+    } else {
+      lo = mid + 1;
+    }
+  }
+  return lo;
 }
 
 /**
  * ERC-8004 Reputation Reader
  *
- * Fetches reputation scores from the on-chain Reputation Registry
+ * Fetches reputation scores from the on-chain Reputation Registry.
+ * Feedback is scanned from the registry deployment block in chunks that
+ * shrink when the RPC rejects a range and grow back after successes, and
+ * is kept in a FeedbackStore checkpointed per agentId. Scores are
+ * weighted against sybil reviewers (see feedback-scoring.ts) and cached
+ * for scoreTtlSeconds.
  */
 export class ERC8004ReputationReader {
   private provider: Provider;
   private reputationRegistry: Contract;
   private identityRegistry: Contract;
-
-  constructor(provider: Provider) {
+  private store: FeedbackStore;
+  private config: ReputationConfig;
+  private scoring: FeedbackScoringConfig;
+  private scoreCache = new Map<
+    string,
+    { breakdown: FeedbackScoreBreakdown; expiresAt: number }
+  >();
+  private deployBlock: Promise<number> | null = null;
+
+  constructor(
+    provider: Provider,
+    store: FeedbackStore,
+    config: ReputationConfig = DEFAULT_REPUTATION_CONFIG,
+    scoring: FeedbackScoringConfig = DEFAULT_FEEDBACK_SCORING,
+  ) {
     this.provider = provider;
+    this.store = store;
+    this.config = config;
+    this.scoring = scoring;
     this.reputationRegistry = new Contract(
-      ERC8004_ADDRESSES.reputationRegistry,
+      config.reputationRegistry,
       REPUTATION_REGISTRY_ABI,
       provider,
     );
     this.identityRegistry = new Contract(
-      ERC8004_ADDRESSES.identityRegistry,
+      config.identityRegistry,
       IDENTITY_REGISTRY_ABI,
       provider,
     );
   }
 
   /**
-   * Get agentId from an address via Identity Registry
+   * agentId registered to an address in the Identity Registry, or null
+   * when the registry answers 0. Throws ReputationUnavailableError when
+   * the registry can't be read.
    */
   async getAgentId(address: string): Promise<bigint | null> {
+    let agentId: bigint;
     try {
-      const agentId = await this.identityRegistry.getAgentId(address);
-      return agentId > 0n ? agentId : null;
+      agentId = await this.identityRegistry.getAgentId(address);
     } catch (error) {
-      console.log(`⚠️ No ERC-8004 identity found for ${address}`);
-      return null;
+      throw new ReputationUnavailableError(
+        `Identity Registry lookup of ${address} failed: ${error instanceof Error ? error.message.split("\n")[0] : String(error)}`,
+      );
     }
+    return agentId > 0n ? agentId : null;
   }
 
   /**
-   * Fetch all NewFeedback events for a given agentId
+   * Address an agentId is registered to in the Identity Registry, or null
+   * when it isn't registered. Throws ReputationUnavailableError when the
+   * registry can't be read.
    */
-  async getFeedbackEntries(
-    agentId: bigint,
-    fromBlock?: number,
-  ): Promise<FeedbackEntry[]> {
+  async getAgentAddress(agentId: bigint): Promise<string | null> {
     try {
-      // Get current block to calculate range (RPC limits to 100k blocks)
-      const currentBlock = await this.provider.getBlockNumber();
-      const startBlock = fromBlock ?? Math.max(0, currentBlock - 2000); // RPC limits (e.g. 2000 blocks)
-
-      console.log(
-        `   Querying feedback events from block ${startBlock} to ${currentBlock}`,
-      );
-
-      const filter = this.reputationRegistry.filters.NewFeedback(agentId);
-      const events = await this.reputationRegistry.queryFilter(
-        filter,
-        startBlock,
-        currentBlock,
+      const owner: string =
+        await this.identityRegistry.getAgentAddress(agentId);
+      return owner === ethers.ZeroAddress ? null : ethers.getAddress(owner);
+    } catch (error) {
+      if (isError(error, "CALL_EXCEPTION")) return null; // unknown agentId
+      throw new ReputationUnavailableError(
+        `Identity Registry lookup of agentId ${agentId} failed: ${error instanceof Error ? error.message.split("\n")[0] : String(error)}`,
       );
+    }
+  }
 
-      const entries: FeedbackEntry[] = events.map((event: any) => ({
-        agentId: event.args[0],
-        clientAddress: event.args[1],
-        score: Number(event.args[2]),
-        tag1: event.args[3],
-        tag2: event.args[4],
-        fileuri: event.args[5],
-        filehash: event.args[6],
-        blockNumber: event.blockNumber,
-      }));
+  /**
+   * Check that `address` owns `agentId` ("0" claims none). Throws
+   * AgentIdMismatchError otherwise.
+   */
+  async verifyAgentId(address: string, agentId: string): Promise<void> {
+    if (agentId === "0") return;
+    if (!/^\d+$/.test(agentId)) {
+      throw new AgentIdMismatchError(`agentId ${agentId} is not a number`);
+    }
 
-      console.log(
-        `📊 Found ${entries.length} feedback entries for agentId ${agentId}`,
+    const owner = await this.getAgentAddress(BigInt(agentId));
+    if (owner === null) {
+      throw new AgentIdMismatchError(
+        `agentId ${agentId} is not registered in the Identity Registry`,
       );
-      return entries;
-    } catch (error) {
-      // Suppress noisy RPC errors about block range or connection
-      console.log(
-        `   ⚠️ Could not fetch historic feedback (RPC limit or network). Using defaults.`,
+    }
+    if (owner !== ethers.getAddress(address)) {
+      throw new AgentIdMismatchError(
+        `agentId ${agentId} belongs to ${owner}, not ${ethers.getAddress(address)}`,
       );
-      return [];
     }
   }
 
+  /**
+   * All NewFeedback entries for a given agentId, after scanning any
+   * blocks since the last checkpoint. Throws ReputationUnavailableError
+   * if the scan cannot complete.
+   */
+  async getFeedbackEntries(agentId: bigint): Promise<FeedbackEntry[]> {
+    await this.syncFeedback(agentId);
+    const entries = await this.store.getEntries(agentId);
+    console.log(
+      `📊 Found ${entries.length} feedback entries for agentId ${agentId}`,
+    );
+    return entries;
+  }
+
   /**
    * Calculate reputation score from feedback entries
    *
-   * Returns average score (0-100) or null if no feedback
+   * Returns the weighted score (0-100) or null if no feedback counts
    */
   async calculateReputationScore(agentId: bigint): Promise<number | null> {
-    const entries = await this.getFeedbackEntries(agentId);
+    return (await this.getScoreBreakdown(agentId)).score;
+  }
 
-    if (entries.length === 0) {
-      return null; // No feedback yet
+  /**
+   * Weighted feedback score with per-reviewer detail
+   */
+  async getScoreBreakdown(agentId: bigint): Promise<FeedbackScoreBreakdown> {
+    const cached = this.scoreCache.get(agentId.toString());
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.breakdown;
     }
 
-    const scores = entries.map((e) => e.score);
-    const sum = scores.reduce((a, b) => a + b, 0);
-    const average = sum / scores.length;
+    const entries = await this.getFeedbackEntries(agentId);
+    const breakdown = await scoreFeedback(
+      entries,
+      {
+        agentId,
+        headBlock: await this.provider.getBlockNumber(),
+        reviewerAgentId: (client) => this.getAgentId(client),
+        reviewerReputation: (client) => this.getReviewerReputation(client),
+      },
+      this.scoring,
+    );
 
-    console.log(`   Scores: [${scores.join(", ")}]`);
-    console.log(`   Average: ${average.toFixed(2)}`);
+    if (breakdown.score !== null) {
+      console.log(
+        `   Score: ${breakdown.score.toFixed(2)} from ${breakdown.reviewers.length} reviewers (plain average ${breakdown.plainAverage!.toFixed(2)})`,
+      );
+    }
 
-    return average;
+    this.scoreCache.set(agentId.toString(), {
+      breakdown,
+      expiresAt: Date.now() + this.config.scoreTtlSeconds * 1000,
+    });
+    return breakdown;
   }
 
   /**
    * Get repFactor for an address
    *
-   * repFactor = averageScore / 100
+   * repFactor = score / 100 (weighted feedback score, see feedback-scoring.ts)
    * Range: 0.0 to 1.0 (or higher if scores can exceed 100)
    *
    * Returns 1.0 for new agents with no feedback (neutral)
@@ -211,8 +348,166 @@ export class ERC8004ReputationReader {
 
     return repFactor;
   }
+
+  /**
+   * A reviewer's own standing: plain average of the feedback its
+   * ERC-8004 identity has received / 100, or null without identity or
+   * feedback. Not weighted itself, so scoring does not recurse.
+   */
+  private async getReviewerReputation(
+    clientAddress: string,
+  ): Promise<number | null> {
+    const agentId = await this.getAgentId(clientAddress);
+    if (!agentId) return null;
+
+    const entries = await this.getFeedbackEntries(agentId);
+    if (entries.length === 0) return null;
+    const average =
+      entries.reduce((sum, e) => sum + e.score, 0) / entries.length;
+    return Math.max(0, Math.min(1, average / 100));
+  }
+
+  /**
+   * Block timestamp at which agentId was registered (minted) in the
+   * Identity Registry, or null if no registration was found
+   */
+  async getRegistrationTime(agentId: bigint): Promise<number | null> {
+    const known = await this.store.getRegistration(agentId);
+    if (known !== null) return known;
+
+    let registeredAt: number | null = null;
+    await this.scanLogs(
+      this.identityRegistry,
+      this.identityRegistry.filters.Transfer(ethers.ZeroAddress, null, agentId),
+      await this.registryDeployBlock(),
+      `registration of agentId ${agentId}`,
+      async (events) => {
+        if (events.length === 0) return false;
+        const block = await this.provider.getBlock(events[0].blockNumber);
+        registeredAt = block?.timestamp ?? null;
+        return true;
+      },
+    );
+
+    if (registeredAt !== null) {
+      await this.store.saveRegistration(agentId, registeredAt);
+    }
+    return registeredAt;
+  }
+
+  /**
+   * Scan NewFeedback logs for agentId from its checkpoint (or the registry
+   * deployment block) to the current head, checkpointing every chunk.
+   */
+  private async syncFeedback(agentId: bigint): Promise<void> {
+    const checkpoint = await this.store.getCheckpoint(agentId);
+    await this.scanLogs(
+      this.reputationRegistry,
+      this.reputationRegistry.filters.NewFeedback(agentId),
+      checkpoint !== null ? checkpoint + 1 : await this.registryDeployBlock(),
+      `feedback for agentId ${agentId}`,
+      async (events, to) => {
+        const entries: FeedbackEntry[] = events.map((event: any) => ({
+          agentId: event.args[0],
+          clientAddress: event.args[1],
+          score: Number(event.args[2]),
+          tag1: event.args[3],
+          tag2: event.args[4],
+          fileuri: event.args[5],
+          filehash: event.args[6],
+          blockNumber: event.blockNumber,
+          txHash: event.transactionHash,
+          logIndex: event.index,
+        }));
+        await this.store.saveBatch(agentId, entries, to);
+        return false;
+      },
+    );
+  }
+
+  /**
+   * First block to scan: registryDeployBlock when configured, otherwise
+   * the Identity Registry's deployment block (the Reputation Registry is
+   * deployed after it), looked up once. Without archive state the lookup
+   * fails and scans start at genesis.
+   */
+  private registryDeployBlock(): Promise<number> {
+    if (this.config.registryDeployBlock > 0) {
+      return Promise.resolve(this.config.registryDeployBlock);
+    }
+    if (!this.deployBlock) {
+      this.deployBlock = findDeployBlock(
+        this.provider,
+        this.config.identityRegistry,
+      )
+        .then((block) => {
+          console.log(`   ERC-8004 registries deployed at block ${block}`);
+          return block;
+        })
+        .catch((error) => {
+          console.log(
+            `   ⚠️ ERC-8004 deployment block not found, scanning from genesis: ${error instanceof Error ? error.message : error}`,
+          );
+          return 0;
+        });
+    }
+    return this.deployBlock;
+  }
+
+  /**
+   * Query `filter` from `from` to the current head in chunks. A rejected
+   * range is retried at half the size down to minChunkSize; successes
+   * double the size again up to maxChunkSize. onChunk runs after every
+   * range and may return true to stop early.
+   */
+  private async scanLogs(
+    contract: Contract,
+    filter: ContractEventName,
+    from: number,
+    label: string,
+    onChunk: (events: (EventLog | Log)[], to: number) => Promise<boolean>,
+  ): Promise<void> {
+    let head: number;
+    try {
+      head = await this.provider.getBlockNumber();
+    } catch (error) {
+      throw new ReputationUnavailableError(
+        `Could not read Base Sepolia head block: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    if (from > head) return;
+
+    console.log(`   Scanning ${label} from block ${from} to ${head}`);
+    let chunkSize = this.config.initialChunkSize;
+
+    while (from <= head) {
+      const to = Math.min(from + chunkSize - 1, head);
+      let events;
+      try {
+        events = await contract.queryFilter(filter, from, to);
+      } catch (error) {
+        if (chunkSize > this.config.minChunkSize) {
+          chunkSize = Math.max(
+            this.config.minChunkSize,
+            Math.floor(chunkSize / 2),
+          );
+          continue;
+        }
+        throw new ReputationUnavailableError(
+          `Scan of ${label} failed at blocks ${from}-${to}: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+
+      if (await onChunk(events, to)) return;
+      from = to + 1;
+      chunkSize = Math.min(this.config.maxChunkSize, chunkSize * 2);
+    }
+  }
 }
 
+// Weighted feedback (see readERC8004) needed before the completion rate counts
+const MIN_COMPLETION_WEIGHT = 1;
+
 // Global instance (lazy initialized)
 let reputationReader: ERC8004ReputationReader | null = null;
 
@@ -221,58 +516,82 @@ let reputationReader: ERC8004ReputationReader | null = null;
  */
 export function getReputationReader(
   provider: Provider,
+  store: FeedbackStore,
+  config?: ReputationConfig,
+  scoring?: FeedbackScoringConfig,
 ): ERC8004ReputationReader {
   if (!reputationReader) {
-    reputationReader = new ERC8004ReputationReader(provider);
+    reputationReader = new ERC8004ReputationReader(
+      provider,
+      store,
+      config,
+      scoring,
+    );
   }
   return reputationReader;
 }
 
 /**
- * Calculate reputation factor from ERC-8004 registry
+ * Build ReputationInputs for an agent from live sources:
+ * - totalCompleted / totalFailed: combined influence of the reviewers whose
+ *   weighted score is >= 50 / < 50 (see feedback-scoring.ts), so repeated,
+ *   stale, self- and unknown-reviewer feedback counts as little here as in
+ *   the score
+ * - accountAgeDays: time since the agentId was minted in the Identity Registry
+ * - slashCount: supplied by the caller (Credex's own freeze history)
  *
- * This is the main function called by the clearing agent
+ * agentId falls back to the Identity Registry lookup for `address`.
  */
 export async function readERC8004(
   address: string,
-  provider: Provider,
-): Promise<ReputationInputs | null> {
-  const reader = getReputationReader(provider);
-
+  reader: ERC8004ReputationReader,
+  context: { agentId?: string; slashCount: number },
+): Promise<ReputationInputs> {
   // Get agentId
-  const agentId = await reader.getAgentId(address);
+  const agentId =
+    context.agentId && context.agentId !== "0"
+      ? BigInt(context.agentId)
+      : await reader.getAgentId(address);
 
   if (!agentId) {
-    // No ERC-8004 identity - return default inputs
+    // No ERC-8004 identity - only our own history applies
     return {
       agentId: address,
       totalCompleted: 0,
       totalFailed: 0,
       accountAgeDays: 0,
-      slashCount: 0,
+      slashCount: context.slashCount,
     };
   }
 
-  // Get feedback entries
-  const entries = await reader.getFeedbackEntries(agentId);
+  // Weighted per-reviewer feedback
+  const { reviewers } = await reader.getScoreBreakdown(agentId);
+  let totalCompleted = 0;
+  let totalFailed = 0;
+  for (const reviewer of reviewers) {
+    if (reviewer.averageScore >= 50) totalCompleted += reviewer.influence;
+    else totalFailed += reviewer.influence;
+  }
 
-  // Calculate stats from feedback
-  const totalCompleted = entries.filter((e) => e.score >= 50).length;
-  const totalFailed = entries.filter((e) => e.score < 50).length;
+  const registeredAt = await reader.getRegistrationTime(agentId);
+  const accountAgeDays =
+    registeredAt !== null
+      ? Math.floor((Date.now() / 1000 - registeredAt) / (24 * 60 * 60))
+      : 0;
 
   return {
     agentId: agentId.toString(),
     totalCompleted,
     totalFailed,
-    accountAgeDays: 0, // TODO: Get from identity registry
-    slashCount: 0, // TODO: Track from our own slashing events
+    accountAgeDays,
+    slashCount: context.slashCount,
   };
 }
 
 /**
  * Calculate repFactor from reputation inputs
  *
- * This provides a fallback calculation if ERC-8004 data is incomplete
+ * Blended with the risk engine's repFactor at onboarding (see blendRepFactor)
  */
 export function calculateRepFactor(inputs: ReputationInputs): ReputationResult {
   let factor = 1.0;
@@ -284,9 +603,10 @@ export function calculateRepFactor(inputs: ReputationInputs): ReputationResult {
     slashPenalty: 0,
   };
 
-  // Completion rate bonus
+  // Completion rate bonus, once the feedback weighs at least one fresh
+  // review from a reviewer in good standing
   const totalJobs = inputs.totalCompleted + inputs.totalFailed;
-  if (totalJobs > 0) {
+  if (totalJobs >= MIN_COMPLETION_WEIGHT) {
     const completionRate = inputs.totalCompleted / totalJobs;
 
     if (completionRate >= 0.99) {
@@ -321,6 +641,24 @@ export function calculateRepFactor(inputs: ReputationInputs): ReputationResult {
   return { factor, breakdown };
 }
 
+/**
+ * Weighted mix of the risk engine's repFactor and calculateRepFactor's
+ * factor, clamped like calculateRepFactor
+ */
+export function blendRepFactor(
+  riskRepFactor: number,
+  inputsFactor: number,
+  blend: ReputationBlend,
+): number {
+  const total = blend.riskEngineWeight + blend.reputationInputsWeight;
+  if (total <= 0) return riskRepFactor;
+  const factor =
+    (riskRepFactor * blend.riskEngineWeight +
+      inputsFactor * blend.reputationInputsWeight) /
+    total;
+  return Math.max(0.1, Math.min(3.0, factor));
+}
+
 /**
  * Calculate credit limit from stake and reputation
  */
@@ -0,0 +1,442 @@
+/**
+ * Onboarding Risk Engine
+ *
+ * Scores a wallet's on-chain standing at onboarding and turns the score
+ * into the repFactor that sizes its initial credit limit.
+ *
+ * Each signal is a SignalProvider plug-in that reads one aspect of the
+ * wallet across the configured chains (Arc and Base Sepolia) and returns a
+ * sub-score between 0 and 1. Built-in signals:
+ * - wallet-age:   days since the wallet's first transaction (a lower bound
+ *                 when the RPC has no archive state)
+ * - tx-count:     transactions sent (nonce), summed across chains
+ * - usdc-balance: average USDC balance over a lookback window
+ * - contract:     whether the address has code (smart wallets score lower)
+ * - erc8004:      weighted ERC-8004 feedback score for the agentId
+ *
+ * The score is the weighted average of every signal that produced a reading:
+ *
+ *   score     = 100 * sum(weight_i * subScore_i) / sum(weight_i)
+ *   repFactor = minRepFactor + (maxRepFactor - minRepFactor) * score / 100
+ *
+ * Signals with nothing to score (no agentId, no feedback) or that fail
+ * (RPC errors, no archive state) are left out of both sums; with no
+ * reading at all the repFactor is neutral 1.0. A failing signal marked
+ * `required` aborts the assessment instead, so onboarding never runs on
+ * incomplete data for it.
+ */
+
+import { ethers, Contract, Provider } from "ethers";
+import { ERC8004ReputationReader } from "./reputation";
+import { RiskEngineConfig } from "./types";
+
+export interface RiskChain {
+  name: string;
+  provider: Provider;
+  usdcAddress: string;
+}
+
+export interface RiskSubject {
+  address: string;
+  agentId: string;
+}
+
+export interface SignalReading {
+  value: string | number | boolean; // raw observation, for display
+  score: number; // 0..1
+  detail?: string;
+  evidence?: unknown; // signal-specific breakdown
+}
+
+export interface SignalProvider {
+  readonly name: string;
+
+  /**
+   * Resolve null when there is nothing to score; throw when the signal
+   * cannot be read
+   */
+  read(
+    subject: RiskSubject,
+    chains: RiskChain[],
+  ): Promise<SignalReading | null>;
+}
+
+export interface SignalResult {
+  name: string;
+  weight: number;
+  value: string | number | boolean | null;
+  score: number | null; // null when unavailable
+  detail?: string;
+  evidence?: unknown;
+}
+
+export interface RiskAssessment {
+  score: number; // 0..100
+  repFactor: number;
+  signals: SignalResult[];
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+const ERC20_BALANCE_ABI = [
+  "function balanceOf(address) view returns (uint256)",
+];
+
+// --- Helpers ---
+
+function ratio(value: number, full: number): number {
+  if (full <= 0) return 1;
+  return Math.max(0, Math.min(1, value / full));
+}
+
+/**
+ * Run fn on every chain, keeping the chains that answered.
+ * Throws only if no chain did.
+ */
+async function acrossChains<T>(
+  chains: RiskChain[],
+  fn: (chain: RiskChain) => Promise<T>,
+): Promise<{ chain: RiskChain; value: T }[]> {
+  const settled = await Promise.allSettled(chains.map((chain) => fn(chain)));
+  const results = settled.flatMap((result, i) =>
+    result.status === "fulfilled"
+      ? [{ chain: chains[i], value: result.value }]
+      : [],
+  );
+  if (results.length === 0) {
+    const first = settled.find((r) => r.status === "rejected");
+    throw first?.status === "rejected"
+      ? first.reason
+      : new Error("No chains configured");
+  }
+  return results;
+}
+
+// --- Built-in signals ---
+
+/**
+ * First block where the wallet's nonce is non-zero, found by binary search
+ * over historical nonces. Without archive state only recent blocks can be
+ * read; the search then stays within them and the result is marked
+ * partial (the wallet may be older). Null if it never sent.
+ */
+async function firstSentBlock(
+  provider: Provider,
+  address: string,
+): Promise<{ block: number; partial: boolean } | null> {
+  const latest = await provider.getBlockNumber();
+  if ((await provider.getTransactionCount(address, latest)) === 0) {
+    return null;
+  }
+
+  let lo = 0;
+  let hi = latest;
+  let partial = false;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    let count: number;
+    try {
+      count = await provider.getTransactionCount(address, mid);
+    } catch {
+      // State at mid is pruned, and so is everything before it
+      partial = true;
+      lo = mid + 1;
+      continue;
+    }
+    if (count > 0) {
+      hi = mid;
+    } else {
+      lo = mid + 1;
+    }
+  }
+  return { block: lo, partial };
+}
+
+export class WalletAgeSignal implements SignalProvider {
+  readonly name = "wallet-age";
+  private fullScoreDays: number;
+
+  constructor(params: Record<string, any> = {}) {
+    this.fullScoreDays = params.fullScoreDays ?? 180;
+  }
+
+  async read(subject: RiskSubject, chains: RiskChain[]) {
+    const firstSeen = await acrossChains(chains, async (chain) => {
+      const first = await firstSentBlock(chain.provider, subject.address);
+      if (first === null) return null;
+      const block = await chain.provider.getBlock(first.block);
+      return block
+        ? { timestamp: block.timestamp, partial: first.partial }
+        : null;
+    });
+
+    const seen = firstSeen.flatMap((r) =>
+      r.value !== null ? [{ chain: r.chain, ...r.value }] : [],
+    );
+    if (seen.length === 0) {
+      return { value: 0, score: 0, detail: "No transactions sent yet" };
+    }
+
+    const oldest = seen.reduce((a, b) => (b.timestamp < a.timestamp ? b : a));
+    const ageDays = Math.floor(
+      (Date.now() / 1000 - oldest.timestamp) / SECONDS_PER_DAY,
+    );
+    return {
+      value: ageDays,
+      score: ratio(ageDays, this.fullScoreDays),
+      detail: oldest.partial
+        ? `Transacting on ${oldest.chain.name} for at least ${ageDays} days (RPC has no older state)`
+        : `First transaction on ${oldest.chain.name} ${ageDays} days ago`,
+    };
+  }
+}
+
+export class TxCountSignal implements SignalProvider {
+  readonly name = "tx-count";
+  private fullScoreCount: number;
+
+  constructor(params: Record<string, any> = {}) {
+    this.fullScoreCount = params.fullScoreCount ?? 100;
+  }
+
+  async read(subject: RiskSubject, chains: RiskChain[]) {
+    const counts = await acrossChains(chains, (chain) =>
+      chain.provider.getTransactionCount(subject.address, "latest"),
+    );
+    const total = counts.reduce((sum, r) => sum + r.value, 0);
+    return {
+      value: total,
+      score: ratio(total, this.fullScoreCount),
+      detail: counts.map((r) => `${r.chain.name}: ${r.value}`).join(", "),
+    };
+  }
+}
+
+/**
+ * Average USDC balance sampled at evenly spaced blocks over the lookback
+ * window, summed across chains
+ */
+export class UsdcBalanceSignal implements SignalProvider {
+  readonly name = "usdc-balance";
+  private fullScoreBalance: number;
+  private lookbackDays: number;
+  private samples: number;
+
+  constructor(params: Record<string, any> = {}) {
+    this.fullScoreBalance = Number(params.fullScoreBalance ?? "100");
+    this.lookbackDays = params.lookbackDays ?? 30;
+    this.samples = Math.max(1, params.samples ?? 6);
+  }
+
+  async read(subject: RiskSubject, chains: RiskChain[]) {
+    const averages = await acrossChains(chains, (chain) =>
+      this.averageBalance(chain, subject.address),
+    );
+    const total = averages.reduce((sum, r) => sum + r.value, 0n);
+    const balance = Number(ethers.formatUnits(total, 6));
+    return {
+      value: ethers.formatUnits(total, 6),
+      score: ratio(balance, this.fullScoreBalance),
+      detail: `Average over ${this.lookbackDays} days (${averages.map((r) => r.chain.name).join(", ")})`,
+    };
+  }
+
+  private async averageBalance(
+    chain: RiskChain,
+    address: string,
+  ): Promise<bigint> {
+    const usdc = new Contract(
+      chain.usdcAddress,
+      ERC20_BALANCE_ABI,
+      chain.provider,
+    );
+    const latest = await chain.provider.getBlock("latest");
+    if (!latest) throw new Error(`No latest block on ${chain.name}`);
+
+    // Estimate block time from the last 1000 blocks
+    const past = await chain.provider.getBlock(
+      Math.max(0, latest.number - 1000),
+    );
+    const blockTime =
+      past && latest.number > past.number
+        ? (latest.timestamp - past.timestamp) / (latest.number - past.number)
+        : 1;
+    const lookbackBlocks = Math.floor(
+      (this.lookbackDays * SECONDS_PER_DAY) / Math.max(blockTime, 0.001),
+    );
+    const start = Math.max(0, latest.number - lookbackBlocks);
+    const step =
+      this.samples > 1 ? (latest.number - start) / (this.samples - 1) : 0;
+
+    let sum = 0n;
+    for (let i = 0; i < this.samples; i++) {
+      const blockTag = Math.round(start + step * i);
+      sum += await usdc.balanceOf(address, { blockTag });
+    }
+    return sum / BigInt(this.samples);
+  }
+}
+
+export class ContractSignal implements SignalProvider {
+  readonly name = "contract";
+  private contractScore: number;
+
+  constructor(params: Record<string, any> = {}) {
+    this.contractScore = params.contractScore ?? 0.5;
+  }
+
+  async read(subject: RiskSubject, chains: RiskChain[]) {
+    const codes = await acrossChains(chains, (chain) =>
+      chain.provider.getCode(subject.address),
+    );
+    const withCode = codes.filter((r) => r.value !== "0x");
+    return {
+      value: withCode.length > 0,
+      score: withCode.length > 0 ? this.contractScore : 1,
+      detail:
+        withCode.length > 0
+          ? `Contract on ${withCode.map((r) => r.chain.name).join(", ")}`
+          : "Externally owned account",
+    };
+  }
+}
+
+export class Erc8004Signal implements SignalProvider {
+  readonly name = "erc8004";
+  private reader: ERC8004ReputationReader;
+
+  constructor(reader: ERC8004ReputationReader) {
+    this.reader = reader;
+  }
+
+  async read(subject: RiskSubject) {
+    if (!subject.agentId || subject.agentId === "0") return null;
+    const breakdown = await this.reader.getScoreBreakdown(
+      BigInt(subject.agentId),
+    );
+    if (breakdown.score === null) return null;
+    return {
+      value: Number(breakdown.score.toFixed(2)),
+      score: ratio(breakdown.score, 100),
+      detail: `Weighted feedback score for agentId ${subject.agentId} from ${breakdown.reviewers.length} reviewers (${breakdown.counted} of ${breakdown.entries} entries counted)`,
+      evidence: breakdown,
+    };
+  }
+}
+
+// --- Registry ---
+
+export interface SignalFactoryContext {
+  reputationReader: ERC8004ReputationReader;
+}
+
+type SignalProviderFactory = (
+  params: Record<string, any>,
+  ctx: SignalFactoryContext,
+) => SignalProvider;
+
+const SIGNAL_PROVIDERS: Record<string, SignalProviderFactory> = {
+  "wallet-age": (params) => new WalletAgeSignal(params),
+  "tx-count": (params) => new TxCountSignal(params),
+  "usdc-balance": (params) => new UsdcBalanceSignal(params),
+  contract: (params) => new ContractSignal(params),
+  erc8004: (_params, ctx) => new Erc8004Signal(ctx.reputationReader),
+};
+
+/**
+ * Make a custom signal selectable from the policy config file
+ */
+export function registerSignalProvider(
+  name: string,
+  factory: SignalProviderFactory,
+): void {
+  SIGNAL_PROVIDERS[name] = factory;
+}
+
+// --- Engine ---
+
+export class RiskEngine {
+  private chains: RiskChain[];
+  private config: RiskEngineConfig;
+  private signals: {
+    provider: SignalProvider;
+    weight: number;
+    required: boolean;
+  }[];
+
+  constructor(
+    chains: RiskChain[],
+    config: RiskEngineConfig,
+    ctx: SignalFactoryContext,
+  ) {
+    this.chains = chains;
+    this.config = config;
+    this.signals = Object.entries(config.signals)
+      .filter(([, signal]) => signal.weight > 0)
+      .map(([name, signal]) => {
+        const factory = SIGNAL_PROVIDERS[name];
+        if (!factory) {
+          throw new Error(
+            `Unknown risk signal "${name}". Available: ${Object.keys(SIGNAL_PROVIDERS).join(", ")}`,
+          );
+        }
+        return {
+          provider: factory(signal.params ?? {}, ctx),
+          weight: signal.weight,
+          required: signal.required ?? false,
+        };
+      });
+  }
+
+  async assess(subject: RiskSubject): Promise<RiskAssessment> {
+    console.log(`\n🔎 Assessing on-chain standing of ${subject.address}`);
+
+    const signals: SignalResult[] = await Promise.all(
+      this.signals.map(async ({ provider, weight, required }) => {
+        let reading: SignalReading | null;
+        try {
+          reading = await provider.read(subject, this.chains);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          console.log(`   ${provider.name}: unavailable (${reason})`);
+          if (required) throw error;
+          return {
+            name: provider.name,
+            weight,
+            value: null,
+            score: null,
+            detail: reason,
+          };
+        }
+
+        if (!reading) {
+          console.log(`   ${provider.name}: nothing to score`);
+          return { name: provider.name, weight, value: null, score: null };
+        }
+        console.log(
+          `   ${provider.name}: ${reading.value} (score ${reading.score.toFixed(2)})`,
+        );
+        return { name: provider.name, weight, ...reading };
+      }),
+    );
+
+    const read = signals.filter((s) => s.score !== null);
+    const totalWeight = read.reduce((sum, s) => sum + s.weight, 0);
+    if (totalWeight === 0) {
+      console.log(`   No signals available - using neutral repFactor 1.0`);
+      return { score: 0, repFactor: 1.0, signals };
+    }
+
+    const score =
+      (100 * read.reduce((sum, s) => sum + s.weight * s.score!, 0)) /
+      totalWeight;
+    const { minRepFactor, maxRepFactor } = this.config;
+    const repFactor =
+      minRepFactor + ((maxRepFactor - minRepFactor) * score) / 100;
+
+    console.log(
+      `   📊 Risk score ${score.toFixed(1)} → repFactor ${repFactor.toFixed(2)}`,
+    );
+    return { score, repFactor, signals };
+  }
+}
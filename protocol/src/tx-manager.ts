@@ -0,0 +1,361 @@
+/**
+ * Transaction Manager
+ *
+ * Serializes every write made with the clearing signer so concurrent
+ * requests never race for nonces:
+ * - nonces are assigned locally, one submission at a time
+ * - each submission is recorded in the pending-tx store before broadcast
+ * - a transaction not mined within stuckAfterSeconds is re-signed with
+ *   the same nonce and fees bumped by feeBumpBp (up to maxAttempts)
+ * - one still unmined stuckAfterSeconds after its last submission is
+ *   marked stuck and fails with TX_STUCK; its nonce stays taken until the
+ *   operator replaces or cancels it
+ * - after a restart, still-pending transactions are picked up again
+ * - writes sent outside the manager (bridging) hold the queue meanwhile
+ *
+ * Gas is estimated before a nonce is taken, so a call that would revert
+ * fails without leaving a nonce gap. Broadcasts are not retried by the
+ * transport; a failed one whose transaction the node nevertheless holds
+ * ("already known", or "nonce too low" once it is mined) counts as sent.
+ */
+
+import {
+  ethers,
+  Provider,
+  Signer,
+  Transaction,
+  TransactionReceipt,
+  TransactionRequest,
+} from "ethers";
+import { PendingTxStore } from "./tx-store";
+import { PendingTransaction, TxManagerConfig } from "./types";
+
+const BP = 10_000n;
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Nodes report a re-broadcast of a transaction they hold this way
+const isAlreadyKnown = (error: unknown) =>
+  /already known|already imported/i.test(
+    error instanceof Error ? error.message : String(error),
+  );
+
+export class TxStuckError extends Error {
+  readonly code = "TX_STUCK";
+  readonly nonce: number;
+
+  constructor(tx: PendingTransaction) {
+    super(
+      `${tx.label} transaction (nonce ${tx.nonce}) is still unconfirmed after ${tx.hashes.length} submissions; ` +
+        `replace or cancel nonce ${tx.nonce} of ${tx.signer} before later transactions can be mined`,
+    );
+    this.name = "TxStuckError";
+    this.nonce = tx.nonce;
+  }
+}
+
+export class TransactionManager {
+  private signer: Signer;
+  private provider: Provider;
+  private store: PendingTxStore;
+  private config: TxManagerConfig;
+  private address: string | null = null;
+  private chainId: bigint | null = null;
+  private nextNonce: number | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(signer: Signer, store: PendingTxStore, config: TxManagerConfig) {
+    if (!signer.provider) throw new Error("Signer has no provider");
+    this.signer = signer;
+    this.provider = signer.provider;
+    this.store = store;
+    this.config = config;
+  }
+
+  /**
+   * Resume watching transactions left pending by a previous run
+   */
+  async recover(): Promise<void> {
+    const pending = await this.store.listPending(await this.getAddress());
+    if (pending.length === 0) return;
+
+    console.log(`🔁 Recovering ${pending.length} pending transactions`);
+    for (const tx of pending) {
+      this.waitFor(tx)
+        .then((receipt) =>
+          console.log(
+            `✅ Recovered ${tx.label} tx (nonce ${tx.nonce}): ${receipt.hash}`,
+          ),
+        )
+        .catch((error) =>
+          console.error(
+            `❌ Recovered ${tx.label} tx (nonce ${tx.nonce}) failed:`,
+            error instanceof Error ? error.message : error,
+          ),
+        );
+    }
+  }
+
+  /**
+   * Submit a call and wait for it to be mined. Throws if it reverts or
+   * its nonce is taken by another transaction.
+   */
+  async send(
+    label: string,
+    to: string,
+    data: string,
+  ): Promise<TransactionReceipt> {
+    const tx = await this.exclusive(() => this.submit(label, to, data));
+    return this.waitFor(tx);
+  }
+
+  /**
+   * Pause submissions while something else sends with the same key (Bridge
+   * Kit's approve and burn): resolves once queued submissions are out, and
+   * nothing is submitted until the returned release is called. Nonces are
+   * resynced from chain afterwards.
+   */
+  hold(): Promise<() => void> {
+    return new Promise((acquired) => {
+      this.exclusive(
+        () =>
+          new Promise<void>((release) =>
+            acquired(() => {
+              this.nextNonce = null;
+              release();
+            }),
+          ),
+      );
+    });
+  }
+
+  // --- Private helpers ---
+
+  /**
+   * Run fn after every previously queued submission has finished
+   */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(fn);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async submit(
+    label: string,
+    to: string,
+    data: string,
+  ): Promise<PendingTransaction> {
+    const signer = await this.getAddress();
+    const gasLimit = await this.provider.estimateGas({
+      from: signer,
+      to,
+      data,
+    });
+    const fees = await this.provider.getFeeData();
+
+    for (let attempt = 0; ; attempt++) {
+      const timestamp = now();
+      const tx: PendingTransaction = {
+        signer,
+        nonce: await this.reserveNonce(),
+        label,
+        to,
+        data,
+        gasLimit,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+        gasPrice: fees.maxFeePerGas === null ? fees.gasPrice : null,
+        hashes: [],
+        status: "pending",
+        createdAt: timestamp,
+        lastSubmittedAt: timestamp,
+      };
+
+      try {
+        await this.broadcast(tx);
+      } catch (error) {
+        // Unless our own copy got through and only its response was lost:
+        // sending again with a new nonce would repeat the call
+        const sent =
+          (ethers.isError(error, "NONCE_EXPIRED") || isAlreadyKnown(error)) &&
+          (await this.isKnown(tx));
+        if (!sent) {
+          await this.store.setStatus(signer, tx.nonce, "failed");
+          this.nextNonce = null; // resync from chain on next use
+          if (attempt === 0 && ethers.isError(error, "NONCE_EXPIRED")) {
+            console.log(`   ⚠️ Nonce ${tx.nonce} already used, resyncing`);
+            continue;
+          }
+          throw error;
+        }
+      }
+
+      this.nextNonce = tx.nonce + 1;
+      console.log(`📤 Sent ${label} tx (nonce ${tx.nonce}): ${tx.hashes[0]}`);
+      return tx;
+    }
+  }
+
+  /**
+   * Sign, record, then broadcast the current pricing of tx
+   */
+  private async broadcast(tx: PendingTransaction): Promise<void> {
+    const request: TransactionRequest = {
+      to: tx.to,
+      data: tx.data,
+      nonce: tx.nonce,
+      gasLimit: tx.gasLimit,
+      chainId: await this.getChainId(),
+    };
+    if (tx.maxFeePerGas !== null) {
+      request.type = 2;
+      request.maxFeePerGas = tx.maxFeePerGas;
+      request.maxPriorityFeePerGas = tx.maxPriorityFeePerGas;
+    } else {
+      request.type = 0;
+      request.gasPrice = tx.gasPrice;
+    }
+
+    const signed = await this.signer.signTransaction(request);
+    tx.hashes.push(Transaction.from(signed).hash!);
+    tx.lastSubmittedAt = now();
+    await this.store.save(tx);
+    await this.provider.broadcastTransaction(signed);
+  }
+
+  /**
+   * Poll until one submission of tx is mined, bumping fees while stuck.
+   * Throws TxStuckError once the last allowed submission is stuck too.
+   */
+  private async waitFor(tx: PendingTransaction): Promise<TransactionReceipt> {
+    while (true) {
+      await sleep(this.config.pollIntervalSeconds * 1000);
+
+      let receipt = await this.findReceipt(tx);
+      if (!receipt) {
+        const mined = await this.provider.getTransactionCount(
+          tx.signer,
+          "latest",
+        );
+        if (mined > tx.nonce) {
+          // The nonce was used; re-check in case ours landed meanwhile
+          receipt = await this.findReceipt(tx);
+          if (!receipt) {
+            await this.store.setStatus(tx.signer, tx.nonce, "dropped");
+            throw new Error(
+              `${tx.label} transaction (nonce ${tx.nonce}) was replaced by another transaction`,
+            );
+          }
+        }
+      }
+
+      if (receipt) {
+        if (receipt.status === 1) {
+          await this.store.setStatus(tx.signer, tx.nonce, "confirmed");
+          return receipt;
+        }
+        await this.store.setStatus(tx.signer, tx.nonce, "failed");
+        throw new Error(
+          `${tx.label} transaction ${receipt.hash} reverted on chain`,
+        );
+      }
+
+      if (now() - tx.lastSubmittedAt >= this.config.stuckAfterSeconds) {
+        if (tx.hashes.length >= this.config.maxAttempts) {
+          // Leave the nonce taken: reusing it could double-send the call
+          await this.store.setStatus(tx.signer, tx.nonce, "stuck");
+          throw new TxStuckError(tx);
+        }
+        await this.exclusive(() => this.bumpFees(tx));
+      }
+    }
+  }
+
+  /**
+   * Whether the node has the latest submission of tx, pending or mined
+   */
+  private async isKnown(tx: PendingTransaction): Promise<boolean> {
+    try {
+      const hash = tx.hashes[tx.hashes.length - 1];
+      return (await this.provider.getTransaction(hash)) !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  private async findReceipt(
+    tx: PendingTransaction,
+  ): Promise<TransactionReceipt | null> {
+    for (const hash of [...tx.hashes].reverse()) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) return receipt;
+    }
+    return null;
+  }
+
+  /**
+   * Re-sign tx with fees raised by feeBumpBp, never below current network fees
+   */
+  private async bumpFees(tx: PendingTransaction): Promise<void> {
+    const fees = await this.provider.getFeeData();
+    const bump = (previous: bigint | null, current: bigint | null) => {
+      const bumped = ((previous ?? 0n) * BigInt(this.config.feeBumpBp)) / BP;
+      return current !== null && current > bumped ? current : bumped;
+    };
+
+    if (tx.maxFeePerGas !== null) {
+      tx.maxFeePerGas = bump(tx.maxFeePerGas, fees.maxFeePerGas);
+      tx.maxPriorityFeePerGas = bump(
+        tx.maxPriorityFeePerGas,
+        fees.maxPriorityFeePerGas,
+      );
+    } else {
+      tx.gasPrice = bump(tx.gasPrice, fees.gasPrice);
+    }
+
+    console.log(
+      `⛽ ${tx.label} tx (nonce ${tx.nonce}) stuck, resubmitting (attempt ${tx.hashes.length + 1}/${this.config.maxAttempts})`,
+    );
+    try {
+      await this.broadcast(tx);
+    } catch (error) {
+      // Already mined or the node still prefers the old submission:
+      // keep waiting on the hashes we have
+      console.log(
+        `   ⚠️ Resubmission rejected: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  /**
+   * Next nonce to use: the larger of the chain's pending count and the
+   * nonce after our highest still-pending transaction
+   */
+  private async reserveNonce(): Promise<number> {
+    if (this.nextNonce === null) {
+      const address = await this.getAddress();
+      const onChain = await this.provider.getTransactionCount(
+        address,
+        "pending",
+      );
+      const pending = await this.store.listPending(address);
+      const local = pending.length ? pending[pending.length - 1].nonce + 1 : 0;
+      this.nextNonce = Math.max(onChain, local);
+    }
+    return this.nextNonce;
+  }
+
+  private async getAddress(): Promise<string> {
+    if (!this.address) this.address = await this.signer.getAddress();
+    return this.address;
+  }
+
+  private async getChainId(): Promise<bigint> {
+    if (this.chainId === null) {
+      this.chainId = (await this.provider.getNetwork()).chainId;
+    }
+    return this.chainId;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Pending Transaction Store
+ *
+ * Every transaction the tx manager submits is recorded here before it is
+ * mined, so a restarted clearing agent knows which nonces are in flight
+ * and can keep watching (and re-pricing) them.
+ */
+
+import { getAddress } from "ethers";
+import { CredexDatabase } from "./db";
+import { PendingTransaction, PendingTxStatus } from "./types";
+
+export interface PendingTxStore {
+  /**
+   * Insert or replace the record for (signer, nonce)
+   */
+  save(tx: PendingTransaction): Promise<void>;
+
+  setStatus(
+    signer: string,
+    nonce: number,
+    status: PendingTxStatus,
+  ): Promise<void>;
+
+  listPending(signer: string): Promise<PendingTransaction[]>;
+}
+
+interface PendingTxRow {
+  signer: string;
+  nonce: number;
+  label: string;
+  to_address: string;
+  data: string;
+  gas_limit: string;
+  max_fee_per_gas: string | null;
+  max_priority_fee_per_gas: string | null;
+  gas_price: string | null;
+  hashes: string;
+  status: PendingTxStatus;
+  created_at: number;
+  last_submitted_at: number;
+}
+
+const toBigInt = (value: string | null) =>
+  value === null ? null : BigInt(value);
+
+const fromBigInt = (value: bigint | null) =>
+  value === null ? null : value.toString();
+
+export class SqlitePendingTxStore implements PendingTxStore {
+  private db: CredexDatabase;
+
+  constructor(db: CredexDatabase) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS pending_transactions (
+        signer                    TEXT NOT NULL,
+        nonce                     INTEGER NOT NULL,
+        label                     TEXT NOT NULL,
+        to_address                TEXT NOT NULL,
+        data                      TEXT NOT NULL,
+        gas_limit                 TEXT NOT NULL,
+        max_fee_per_gas           TEXT,
+        max_priority_fee_per_gas  TEXT,
+        gas_price                 TEXT,
+        hashes                    TEXT NOT NULL,
+        status                    TEXT NOT NULL,
+        created_at                INTEGER NOT NULL,
+        last_submitted_at         INTEGER NOT NULL,
+        PRIMARY KEY (signer, nonce)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_pending_transactions_status
+        ON pending_transactions (signer, status);
+    `);
+  }
+
+  async save(tx: PendingTransaction): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO pending_transactions (
+          signer, nonce, label, to_address, data, gas_limit, max_fee_per_gas,
+          max_priority_fee_per_gas, gas_price, hashes, status, created_at,
+          last_submitted_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        tx.signer.toLowerCase(),
+        tx.nonce,
+        tx.label,
+        tx.to.toLowerCase(),
+        tx.data,
+        tx.gasLimit.toString(),
+        fromBigInt(tx.maxFeePerGas),
+        fromBigInt(tx.maxPriorityFeePerGas),
+        fromBigInt(tx.gasPrice),
+        JSON.stringify(tx.hashes),
+        tx.status,
+        tx.createdAt,
+        tx.lastSubmittedAt,
+      );
+  }
+
+  async setStatus(
+    signer: string,
+    nonce: number,
+    status: PendingTxStatus,
+  ): Promise<void> {
+    this.db
+      .prepare(
+        "UPDATE pending_transactions SET status = ? WHERE signer = ? AND nonce = ?",
+      )
+      .run(status, signer.toLowerCase(), nonce);
+  }
+
+  async listPending(signer: string): Promise<PendingTransaction[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM pending_transactions
+         WHERE signer = ? AND status = 'pending'
+         ORDER BY nonce`,
+      )
+      .all(signer.toLowerCase()) as PendingTxRow[];
+    return rows.map((row) => this.toTransaction(row));
+  }
+
+  private toTransaction(row: PendingTxRow): PendingTransaction {
+    return {
+      signer: getAddress(row.signer),
+      nonce: row.nonce,
+      label: row.label,
+      to: getAddress(row.to_address),
+      data: row.data,
+      gasLimit: BigInt(row.gas_limit),
+      maxFeePerGas: toBigInt(row.max_fee_per_gas),
+      maxPriorityFeePerGas: toBigInt(row.max_priority_fee_per_gas),
+      gasPrice: toBigInt(row.gas_price),
+      hashes: JSON.parse(row.hashes),
+      status: row.status,
+      createdAt: row.created_at,
+      lastSubmittedAt: row.last_submitted_at,
+    };
+  }
+}
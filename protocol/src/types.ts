@@ -2,12 +2,208 @@
  * Credex Agent Types
  */
 
+import { RecordedBridgeStep, RpcOptions } from "credex-shared";
+
 export interface CredexConfig {
+  pools: PoolConfig[]; // managed pools; the first is the default for routes
+  baseRpcUrls: string[]; // Base Sepolia, read by the onboarding risk engine
+  baseChainId: number;
+  baseUsdcAddress: string;
+  rpc: RpcOptions; // retry / quorum settings for every chain (providers.ts)
+  port: number;
+  dbPath: string; // SQLite file for feedback, credit events and the audit log
+  publicUrl: string; // base URL this server is reachable at (credit event fileuris)
+  policy: PolicyConfig;
+  indexer: IndexerConfig;
+  txManager: TxManagerConfig;
+  delivery: DeliveryConfig;
+  reputation: ReputationConfig;
+  health: HealthConfig;
+  dryRun: boolean; // simulate every pool write instead of sending (dry-run.ts)
+}
+
+// A CredexPool the clearing agent manages (see pools.ts)
+export interface PoolConfig {
+  id: string; // route selector (?pool=), the network profile name
+  chainId: number;
   poolAddress: string;
   usdcAddress: string;
-  rpcUrl: string;
-  privateKey: string;
-  port: number;
+  rpcUrls: string[]; // endpoints of the pool's chain, failed over in order
+  deployBlock: number; // registry rebuild and event indexing start here
+  dbPath: string; // SQLite file for the pool's registry, events and txs
+}
+
+// ERC-8004 feedback scanning on Base Sepolia (see reputation.ts)
+export interface ReputationConfig {
+  registryDeployBlock: number; // first block scanned, 0 = look it up on chain
+  initialChunkSize: number; // getLogs range, halved on RPC rejection
+  minChunkSize: number; // below this a failed range is an error
+  maxChunkSize: number; // ranges grow back up to this after successes
+  scoreTtlSeconds: number; // cache lifetime for computed scores
+  identityRegistry: string; // defaults to the Base Sepolia deployments
+  reputationRegistry: string;
+  validationRegistry: string;
+}
+
+// Signer transaction queue settings (see tx-manager.ts)
+export interface TxManagerConfig {
+  pollIntervalSeconds: number; // receipt polling while waiting
+  stuckAfterSeconds: number; // resubmit with bumped fees after this long
+  feeBumpBp: number; // fee multiplier per resubmission, 12500 = +25%
+  maxAttempts: number; // submissions per nonce before giving up
+}
+
+// Cross-chain borrow delivery worker (see delivery.ts)
+export interface DeliveryConfig {
+  pollIntervalSeconds: number; // how often waiting deliveries are retried
+  retryDelaySeconds: number; // wait after a failed bridge attempt
+  maxAttempts: number; // attempts before unburned funds are refunded
+}
+
+// Pool event indexer settings (see indexer.ts)
+export interface IndexerConfig {
+  confirmations: number; // blocks behind head before an event is stored
+  chunkSize: number; // max block range per getLogs call
+  pollIntervalSeconds: number;
+}
+
+// Startup self-check and GET /health/deep thresholds (see health-check.ts)
+export interface HealthConfig {
+  startupChecks: boolean; // refuse to start when a startup check fails
+  minGasBalance: bigint; // native balance the signer needs, in wei
+  maxRpcLatencyMs: number; // slower RPC responses are reported as warn
+  maxIndexerLagBlocks: number; // head - last indexed block
+  maxFeedbackAgeSeconds: number; // age of the oldest queued credit event
+  checkTimeoutMs: number; // a check taking longer fails
+}
+
+// Risk settings loaded from CREDEX_POLICY_FILE (see policy-config.ts)
+export interface PolicyConfig {
+  creditPolicy: CreditPolicyConfig;
+  delinquency: DelinquencyRules;
+  growthGuards: GrowthGuardRules;
+  exposure: ExposureRules;
+  riskEngine: RiskEngineConfig;
+  feedbackScoring: FeedbackScoringConfig;
+  reputationBlend: ReputationBlend;
+  reputationPublisher: ReputationPublisherConfig;
+  validation: ValidationPolicy;
+  creditLines: CreditLinesConfig;
+  pools: Record<string, PoolPolicyOverrides>; // by pool id
+}
+
+// How an agent's credit is held across pools (see pools.ts):
+//   per-pool  each pool scores, grants and grows its own credit line
+//   shared    one onboarding limit split across the pools by allocationBp;
+//             a borrow may move unused limit from the other pools
+export interface CreditLinesConfig {
+  mode: "per-pool" | "shared";
+  allocationBp: Record<string, number>; // by pool id, unlisted pools split the rest
+}
+
+// Policy sections a pool may set for itself (the rest are shared)
+export type PoolPolicyOverrides = Partial<
+  Pick<
+    PolicyConfig,
+    "creditPolicy" | "delinquency" | "growthGuards" | "exposure"
+  >
+>;
+
+// Limit tiers unlocked by ERC-8004 Validation Registry results
+// (see validation-gate.ts)
+export interface ValidationPolicy {
+  tiers: ValidationTier[]; // lowest first; agents get the highest tier they meet
+}
+
+export interface ValidationTier {
+  name: string;
+  limitBp: number; // share of the credit policy's onboarding limit and growth
+  maxLimit?: string; // USDC cap on the credit limit while in this tier
+  requirements: ValidationRequirement[]; // all must hold, empty = everyone
+}
+
+export interface ValidationRequirement {
+  label: string; // e.g. "TEE attestation"
+  validators: string[]; // accepted validator addresses, empty = any validator
+  tag?: string; // required response tag, e.g. "tee"
+  minResponse: number; // 0-100 response that counts as passed
+  minCount: number; // distinct validators that must have passed the agent
+  maxAgeDays?: number; // ignore responses older than this
+}
+
+// Feedback Credex posts to the ERC-8004 Reputation Registry
+// (see reputation-publisher.ts)
+export interface ReputationPublisherConfig {
+  enabled: boolean;
+  scores: Record<CreditEventKind, number>; // 0-100 feedback score per event
+  intervalSeconds: number; // how often queued events are published
+  batchSize: number; // max feedback transactions per interval
+  minAgentIntervalSeconds: number; // per-agent spacing between feedback
+  feedbackAuthEntries: number; // feedback entries agents are asked to authorize
+  feedbackAuthDays: number; // how long that authorization is asked to last
+  maxAttempts: number; // publish attempts before an event is marked failed
+  retryDelaySeconds: number; // wait after the first failure, doubling after
+}
+
+// How onboarding combines the risk engine's repFactor (on-chain standing
+// and weighted feedback) with calculateRepFactor(ReputationInputs)
+export interface ReputationBlend {
+  riskEngineWeight: number;
+  reputationInputsWeight: number;
+}
+
+// Sybil-resistant weighting of ERC-8004 feedback (see feedback-scoring.ts)
+export interface FeedbackScoringConfig {
+  recencyHalfLifeDays: number; // an entry's weight halves every this many days
+  blockTimeSeconds: number; // registry chain block time, for entry age
+  reviewerWeightCap: number; // max combined weight of one reviewer's entries
+  unknownReviewerWeight: number; // reviewers with no reputation of their own
+  priorScore: number; // neutral score an agent's feedback is shrunk toward
+  priorWeight: number; // influence the prior counts as (fresh trusted reviews)
+  reviewerLookup: boolean; // false treats every reviewer as unknown
+  requiredTags: string[]; // when set, only entries tagged with one count
+  tagWeights: Record<string, number>; // multiplier per tag1/tag2 value, 0 drops
+}
+
+// Onboarding risk engine (see risk-engine.ts)
+export interface RiskEngineConfig {
+  minRepFactor: number; // repFactor at score 0
+  maxRepFactor: number; // repFactor at score 100
+  signals: Record<string, RiskSignalConfig>; // by signal name, weight 0 disables
+}
+
+export interface RiskSignalConfig {
+  weight: number;
+  required?: boolean; // a failed read aborts onboarding instead of being skipped
+  params?: Record<string, any>;
+}
+
+// Pool-level borrow limits checked by the exposure guard
+export interface ExposureRules {
+  maxUtilizationBp: number; // borrowed vs totalAssets after the borrow
+  maxAgentShareBp: number; // one agent's debt vs totalAssets after the borrow
+  minLiquidityReserve: string; // USDC left in the pool for LP withdrawals
+}
+
+// Anti-gaming limits on repayment-driven growth (USDC as decimal strings)
+export interface GrowthGuardRules {
+  minPrincipalRepaid: string; // smaller repayments earn no growth
+  cooldownSeconds: number; // between growth events
+  windowSeconds: number; // rolling window for maxGrowthPerWindow
+  maxGrowthPerWindow: string;
+}
+
+// Freeze conditions checked by the delinquency monitor
+export interface DelinquencyRules {
+  scanIntervalSeconds: number;
+  maxRepaymentGapSeconds: number; // since the later of lastRepayment and debtSince
+  maxDebtToLimitBp: number; // debt (incl. interest) vs creditLimit, 10000 = 1.0x
+  maxInterestToPrincipalBp: number; // accrued interest vs principal
+}
+
+export interface CreditPolicyConfig {
+  name: string; // e.g. "linear-growth", "tiered", "reputation-weighted"
+  params?: Record<string, any>;
 }
 
 export interface AgentRecord {
@@ -22,6 +218,185 @@ export interface AgentRecord {
   active: boolean;
 }
 
+// Registry entry persisted by agent-store.ts
+export interface StoredAgent extends AgentRecord {
+  repFactor: number | null; // null when rebuilt from chain
+  repBreakdown: RepFactorBreakdown | null; // how repFactor was scored
+  debtSince: number | null; // first sync that saw the current debt (null without debt)
+  onboardedAt: number;
+  lastSyncedAt: number;
+}
+
+export interface LimitChange {
+  address: string;
+  previousLimit: bigint;
+  newLimit: bigint;
+  reason: string; // e.g. "onboard", "repayment-growth", "shared-rebalance"
+  txHash?: string; // tx that set the limit
+  triggerTxHash?: string; // tx that earned it (e.g. the repayment)
+  note?: string; // e.g. the operator's reason or why growth was reduced
+  timestamp: number;
+}
+
+// How an agent's repFactor and initial limit were derived (onboarding or
+// the latest admin re-score)
+export interface RepFactorBreakdown {
+  repFactor: number;
+  riskEngine: {
+    score: number;
+    repFactor: number;
+    signals: { name: string; weight: number; score: number | null }[];
+  };
+  reputation: {
+    factor: number;
+    inputs: ReputationInputs;
+    breakdown: ReputationBreakdown;
+  };
+  blend: ReputationBlend;
+  policyLimit: string; // credit policy's limit before the validation tier
+  tier: string; // validation tier applied
+  initialLimit: string;
+  scoredAt: number;
+}
+
+export type CreditEventKind = "repaid" | "frozen" | "write-off";
+
+// Signed JSON document a feedback entry's fileuri points at
+export interface CreditEvent {
+  type: "credex.credit-event";
+  version: 1;
+  id: string;
+  kind: CreditEventKind;
+  agentAddress: string;
+  agentId: string;
+  pool: string;
+  chainId: string;
+  txHash: string | null; // pool transaction behind the event
+  amount: string | null; // USDC, e.g. the repayment
+  reasons: string[];
+  timestamp: number;
+}
+
+export type CreditEventStatus = "queued" | "published" | "skipped" | "failed";
+
+// A credit event and its publication state
+export interface CreditEventRecord {
+  event: CreditEvent;
+  document: string; // exact JSON served at fileuri ({ event, signer, signature })
+  filehash: string; // keccak256 of document
+  score: number;
+  status: CreditEventStatus;
+  feedbackTxHash: string | null;
+  error: string | null; // last failed attempt, if any
+  publishedAt: number | null;
+  attempts: number; // failed publish attempts so far
+  nextAttemptAt: number | null; // when a failed event is retried
+}
+
+// Where a cross-chain borrow is:
+//   borrowed   funds in custody, bridge not started yet
+//   bridging   bridge attempt in progress
+//   retrying   an attempt failed, the next waits for nextAttemptAt
+//   delivered  minted to the borrower on the destination chain
+//   refunded   never burned; returned to the borrower on the pool's chain
+//   failed     refund failed or an attempt was interrupted before its burn
+//              was recorded; needs an operator
+export type DeliveryStatus =
+  "borrowed" | "bridging" | "retrying" | "delivered" | "refunded" | "failed";
+
+// Latest state of one Bridge Kit step (approve, burn, fetchAttestation, mint)
+export type DeliveryStep = RecordedBridgeStep<number>;
+
+// A borrow paid into custody and bridged to the borrower
+export interface DeliveryJob {
+  id: string;
+  agentAddress: string; // borrower and recipient on the destination chain
+  pool: string; // pool id the debt is recorded in
+  amount: bigint;
+  sourceChain: string; // Bridge Kit chain of the pool
+  destination: string; // network profile delivered to
+  destinationChain: string; // Bridge Kit chain
+  status: DeliveryStatus;
+  borrowTxHash: string;
+  steps: DeliveryStep[];
+  refundTxHash: string | null;
+  attempts: number;
+  error: string | null;
+  nextAttemptAt: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Validation Registry response for an agent
+export interface ValidationRecord {
+  requestHash: string;
+  validatorAddress: string;
+  response: number; // 0-100
+  tag: string; // decoded bytes32
+  lastUpdate: number; // 0 while awaiting a response
+}
+
+// Tier an agent qualifies for and what the next one needs
+export interface ValidationStanding {
+  tier: ValidationTier;
+  tierIndex: number;
+  validations: ValidationRecord[];
+  nextTier: { name: string; limitBp: number; missing: string[] } | null;
+  error?: string; // registry unreadable, agent placed in the lowest tier
+}
+
+// Freeze/unfreeze decision made by the delinquency monitor, or a write-off
+// (an admin freeze the monitor never lifts)
+export interface DelinquencyDecision {
+  address: string;
+  action: "freeze" | "unfreeze" | "write-off";
+  reasons: string[];
+  txHash?: string;
+  timestamp: number;
+}
+
+// Pool event as stored by the indexer (see event-store.ts)
+export interface PoolEvent {
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+  event: string; // e.g. "Borrowed", "LiquidityDeposited"
+  account: string; // agent or liquidity provider the event is about
+  args: Record<string, string>; // uint256 values as decimal strings (raw units)
+  timestamp: number;
+}
+
+export interface IndexerCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+// stuck: unmined after maxAttempts submissions, left for the operator
+export type PendingTxStatus =
+  | "pending"
+  | "confirmed"
+  | "failed"
+  | "dropped"
+  | "stuck";
+
+// Transaction sent by the tx manager, tracked until it is mined
+export interface PendingTransaction {
+  signer: string;
+  nonce: number;
+  label: string; // e.g. "borrow", "setCreditLimit"
+  to: string;
+  data: string;
+  gasLimit: bigint;
+  maxFeePerGas: bigint | null; // EIP-1559 fees, null on legacy chains
+  maxPriorityFeePerGas: bigint | null;
+  gasPrice: bigint | null; // legacy fee, null on EIP-1559 chains
+  hashes: string[]; // every submission of this nonce, latest last
+  status: PendingTxStatus;
+  createdAt: number;
+  lastSubmittedAt: number;
+}
+
 export interface AgentOnChain {
   debt: bigint;
   principal: bigint;
@@ -32,23 +407,49 @@ export interface AgentOnChain {
   active: boolean;
 }
 
-export interface OnboardRequest {
+// Fields every mutating request must carry (see auth.ts)
+export interface SignedRequest {
+  nonce: string; // bytes32 hex
+  expiry: number; // unix seconds
+  signature: string;
+}
+
+export interface OnboardRequest extends SignedRequest {
   agentAddress: string;
   agentId: string;
 }
 
-export interface BorrowRequest {
+export interface BorrowRequest extends SignedRequest {
   agentAddress: string;
   amount: string; // in USDC units (e.g., "10" for 10 USDC)
+  deliverTo?: string; // network profile to bridge the funds to (signed as BorrowTo)
 }
 
-export interface RepayRequest {
+export interface RepayRequest extends SignedRequest {
   agentAddress: string;
   amount: string;
 }
 
+// Not an EIP-712 request: feedbackAuth carries the agent owner's signature
+export interface FeedbackAuthRequest {
+  feedbackAuth: string; // hex bytes from signFeedbackAuth (credex-shared)
+}
+
+// Admin routes (bearer token, see auth.ts); every action needs a reason
+export interface AdminRequest {
+  agentAddress: string;
+  reason: string;
+  actor?: string; // operator name recorded in the audit log
+}
+
+export interface AdminLimitRequest extends AdminRequest {
+  limit: string; // USDC
+  force?: boolean; // allow a limit below the principal outstanding
+}
+
 export interface CredexResponse {
   success: boolean;
+  code?: string; // machine-readable error code
   message?: string;
   data?: any;
 }
@@ -56,7 +457,7 @@ export interface CredexResponse {
 // Types for ERC-8004 reputation module (matches aegis402/src/reputation.ts)
 export interface ReputationInputs {
   agentId: string;
-  totalCompleted: number;
+  totalCompleted: number; // weighted feedback, see readERC8004
   totalFailed: number;
   accountAgeDays: number;
   slashCount: number;
@@ -69,6 +470,25 @@ export interface ReputationBreakdown {
   slashPenalty: number;
 }
 
+// Why an ERC-8004 feedback score came out as it did
+export interface FeedbackScoreBreakdown {
+  entries: number; // NewFeedback events found
+  counted: number; // after tag filters and self-review removal
+  plainAverage: number | null; // unweighted average of counted entries
+  influence: number; // combined influence of the counted reviewers
+  score: number | null; // weighted score (0-100), shrunk toward the prior
+  reviewers: ReviewerBreakdown[];
+}
+
+export interface ReviewerBreakdown {
+  clientAddress: string;
+  entries: number;
+  averageScore: number; // recency/tag weighted
+  entryWeight: number; // sum of entry weights before the cap
+  reputationWeight: number; // reviewer's own standing (0..1)
+  influence: number; // min(entryWeight, cap) * reputationWeight
+}
+
 export interface ReputationResult {
   factor: number;
   breakdown: ReputationBreakdown;
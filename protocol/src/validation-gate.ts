@@ -0,0 +1,230 @@
+/**
+ * Validation Gate
+ *
+ * Places agents in limit tiers by their ERC-8004 Validation Registry
+ * results (e.g. a TEE attestation or a validator re-execution). Tiers are
+ * listed lowest first and an agent gets the highest tier whose
+ * requirements all hold; agents without validations get the first tier,
+ * so unvalidated agents are granted a reduced limit rather than refused.
+ *
+ * A requirement counts distinct validators (optionally from an allowlist
+ * and with a given tag) whose latest response is >= minResponse.
+ *
+ * The tier shapes limits on top of the credit policy:
+ *   onboarding: limit  = min(policyLimit * limitBp, maxLimit)
+ *   growth:     growth = (proposed - current) * limitBp, up to maxLimit
+ */
+
+import { ethers, Contract, Provider } from "ethers";
+import { decodeTag } from "./feedback-scoring";
+import {
+  ValidationPolicy,
+  ValidationRecord,
+  ValidationRequirement,
+  ValidationStanding,
+  ValidationTier,
+} from "./types";
+
+const BP = 10_000n;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Validation Registry ABI (views only)
+const VALIDATION_REGISTRY_ABI = [
+  "function getAgentValidations(uint256 agentId) view returns (bytes32[])",
+  "function getValidationStatus(bytes32 requestHash) view returns (address validatorAddress, uint256 agentId, uint8 response, bytes32 tag, uint256 lastUpdate)",
+];
+
+/**
+ * ERC-8004 Validation Registry Reader
+ */
+export class ERC8004ValidationReader {
+  private registry: Contract;
+
+  constructor(provider: Provider, registryAddress: string) {
+    this.registry = new Contract(
+      registryAddress,
+      VALIDATION_REGISTRY_ABI,
+      provider,
+    );
+  }
+
+  /**
+   * Every validation requested for agentId with its latest response
+   */
+  async getValidations(agentId: bigint): Promise<ValidationRecord[]> {
+    const hashes: string[] = await this.registry.getAgentValidations(agentId);
+
+    return Promise.all(
+      hashes.map(async (requestHash) => {
+        const status = await this.registry.getValidationStatus(requestHash);
+        return {
+          requestHash,
+          validatorAddress: ethers.getAddress(status.validatorAddress),
+          response: Number(status.response),
+          tag: decodeTag(status.tag),
+          lastUpdate: Number(status.lastUpdate),
+        };
+      }),
+    );
+  }
+}
+
+export class ValidationGate {
+  private reader: ERC8004ValidationReader;
+  private tiers: ValidationTier[];
+
+  constructor(reader: ERC8004ValidationReader, policy: ValidationPolicy) {
+    this.reader = reader;
+    this.tiers = policy.tiers;
+  }
+
+  /**
+   * Tier the agent qualifies for now. Registry read failures place the
+   * agent in the lowest tier (and are reported in `error`).
+   */
+  async evaluate(
+    agentId: string | null,
+    now: number = Math.floor(Date.now() / 1000),
+  ): Promise<ValidationStanding> {
+    let validations: ValidationRecord[] = [];
+    let error: string | undefined;
+
+    const needsRegistry = this.tiers.some(
+      (tier) => tier.requirements.length > 0,
+    );
+    const id = parseAgentId(agentId);
+    if (needsRegistry && id !== null) {
+      try {
+        validations = await this.reader.getValidations(id);
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+        console.log(`   ⚠️ Validation registry unavailable: ${error}`);
+      }
+    }
+
+    let tierIndex = 0;
+    this.tiers.forEach((tier, index) => {
+      if (this.missing(tier, validations, now).length === 0) {
+        tierIndex = index;
+      }
+    });
+
+    const next = this.tiers[tierIndex + 1];
+    return {
+      tier: this.tiers[tierIndex],
+      tierIndex,
+      validations,
+      nextTier: next
+        ? {
+            name: next.name,
+            limitBp: next.limitBp,
+            missing: this.missing(next, validations, now),
+          }
+        : null,
+      error,
+    };
+  }
+
+  /**
+   * Onboarding limit for the tier
+   */
+  initialLimit(policyLimit: bigint, standing: ValidationStanding): bigint {
+    const scaled = (policyLimit * BigInt(standing.tier.limitBp)) / BP;
+    const cap = tierCap(standing.tier);
+    return cap !== null && scaled > cap ? cap : scaled;
+  }
+
+  /**
+   * Limit after repayment growth for the tier (never below current)
+   */
+  limitAfterGrowth(
+    currentLimit: bigint,
+    proposedLimit: bigint,
+    standing: ValidationStanding,
+  ): bigint {
+    if (proposedLimit <= currentLimit) return proposedLimit;
+
+    const growth =
+      ((proposedLimit - currentLimit) * BigInt(standing.tier.limitBp)) / BP;
+    const cap = tierCap(standing.tier);
+    const limit = currentLimit + growth;
+    if (cap === null || limit <= cap) return limit;
+    return cap > currentLimit ? cap : currentLimit;
+  }
+
+  // --- Private helpers ---
+
+  /**
+   * What each unmet requirement of `tier` still needs (empty when met)
+   */
+  private missing(
+    tier: ValidationTier,
+    validations: ValidationRecord[],
+    now: number,
+  ): string[] {
+    const missing: string[] = [];
+
+    for (const requirement of tier.requirements) {
+      const passed = this.passingValidators(requirement, validations, now);
+      if (passed < requirement.minCount) {
+        missing.push(describe(requirement, requirement.minCount - passed));
+      }
+    }
+
+    return missing;
+  }
+
+  private passingValidators(
+    requirement: ValidationRequirement,
+    validations: ValidationRecord[],
+    now: number,
+  ): number {
+    const allowed = requirement.validators.map((v) => v.toLowerCase());
+    const passed = new Set<string>();
+
+    for (const validation of validations) {
+      const validator = validation.validatorAddress.toLowerCase();
+      if (validation.lastUpdate === 0) continue; // no response yet
+      if (allowed.length > 0 && !allowed.includes(validator)) continue;
+      if (requirement.tag && validation.tag !== requirement.tag) continue;
+      if (
+        requirement.maxAgeDays !== undefined &&
+        now - validation.lastUpdate > requirement.maxAgeDays * SECONDS_PER_DAY
+      ) {
+        continue;
+      }
+      if (validation.response >= requirement.minResponse) {
+        passed.add(validator);
+      }
+    }
+
+    return passed.size;
+  }
+}
+
+function parseAgentId(agentId: string | null): bigint | null {
+  if (!agentId) return null;
+  try {
+    const id = BigInt(agentId);
+    return id > 0n ? id : null;
+  } catch {
+    return null;
+  }
+}
+
+function tierCap(tier: ValidationTier): bigint | null {
+  return tier.maxLimit ? ethers.parseUnits(tier.maxLimit, 6) : null;
+}
+
+function describe(requirement: ValidationRequirement, needed: number): string {
+  const parts = [`response >= ${requirement.minResponse}`];
+  if (requirement.tag) parts.push(`tag "${requirement.tag}"`);
+  if (requirement.maxAgeDays !== undefined) {
+    parts.push(`within ${requirement.maxAgeDays} days`);
+  }
+  const from =
+    requirement.validators.length > 0
+      ? ` from ${requirement.validators.join(" or ")}`
+      : "";
+  return `${requirement.label}: ${needed} more passing validation${needed === 1 ? "" : "s"}${from} (${parts.join(", ")})`;
+}
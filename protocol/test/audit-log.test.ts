@@ -0,0 +1,141 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  AuditEntry,
+  GENESIS_HASH,
+  SqliteAuditLog,
+  hashAuditEntry,
+  verifyAuditChain,
+} from "../src/audit-log";
+import { openDatabase } from "../src/db";
+
+const AGENT = "0x1111111111111111111111111111111111111111";
+
+async function seeded(count = 4) {
+  const db = openDatabase(":memory:");
+  const log = new SqliteAuditLog(db);
+  for (let i = 1; i <= count; i++) {
+    await log.append({
+      actor: "ops",
+      action: i % 2 ? "freeze" : "unfreeze",
+      target: AGENT,
+      reason: `ticket ${i}`,
+      params: { pool: "arc-testnet" },
+      result: { success: true, txHash: `0x${i}` },
+    });
+  }
+  return { db, log };
+}
+
+// What an operator gets back from GET /admin/audit
+async function exported(log: SqliteAuditLog, afterSeq?: number) {
+  return JSON.parse(
+    JSON.stringify(await log.list({ afterSeq })),
+  ) as AuditEntry[];
+}
+
+test("each entry links to the hash of the one before", async () => {
+  const { log } = await seeded(3);
+  const [first, second, third] = await log.list();
+
+  assert.deepEqual([first.seq, second.seq, third.seq], [1, 2, 3]);
+  assert.equal(first.prevHash, GENESIS_HASH);
+  assert.equal(second.prevHash, first.hash);
+  assert.equal(third.prevHash, second.hash);
+  const { hash, ...body } = third;
+  assert.equal(hashAuditEntry(body), hash);
+
+  assert.deepEqual(await log.verify(), {
+    valid: true,
+    entries: 3,
+    head: third.hash,
+  });
+});
+
+test("an exported copy verifies on its own", async () => {
+  const { log } = await seeded();
+  const entries = await exported(log);
+
+  const verification = verifyAuditChain(entries);
+  assert.equal(verification.valid, true);
+  assert.equal(verification.head, entries[3].hash);
+  assert.deepEqual(verifyAuditChain([]), {
+    valid: true,
+    entries: 0,
+    head: GENESIS_HASH,
+  });
+});
+
+test("an edited entry breaks the chain", async () => {
+  const { log } = await seeded();
+  const entries = await exported(log);
+
+  entries[1].reason = "nothing to see here";
+  const edited = verifyAuditChain(entries);
+  assert.equal(edited.brokenAt, 2);
+  assert.equal(edited.error, "hash does not match");
+
+  // Rehashing the edit only moves the break to the next entry
+  const { hash, ...body } = entries[1];
+  entries[1].hash = hashAuditEntry(body);
+  assert.notEqual(entries[1].hash, hash);
+  const verification = verifyAuditChain(entries);
+  assert.equal(verification.brokenAt, 3);
+  assert.equal(verification.error, "prevHash does not link");
+});
+
+test("a removed or reordered entry breaks the chain", async () => {
+  const { log } = await seeded();
+  const entries = await exported(log);
+
+  const removed = verifyAuditChain([entries[0], ...entries.slice(2)]);
+  assert.equal(removed.valid, false);
+  assert.equal(removed.brokenAt, 3);
+  assert.equal(removed.error, "expected seq 2");
+
+  const reordered = verifyAuditChain([
+    entries[0],
+    entries[2],
+    entries[1],
+    entries[3],
+  ]);
+  assert.equal(reordered.valid, false);
+  assert.equal(reordered.brokenAt, 3);
+
+  const truncatedStart = verifyAuditChain(entries.slice(1));
+  assert.equal(truncatedStart.valid, false);
+  assert.equal(truncatedStart.error, "expected seq 1");
+});
+
+test("stored entries can't be updated or deleted", async () => {
+  const { db, log } = await seeded();
+
+  for (const sql of [
+    "UPDATE admin_audit_log SET reason = 'x'",
+    "DELETE FROM admin_audit_log WHERE seq = 2",
+  ]) {
+    assert.throws(() => db.prepare(sql).run(), /append-only/);
+  }
+  assert.equal((await log.verify()).entries, 4);
+});
+
+test("an export after a seq verifies from the entry it continues", async () => {
+  const { log } = await seeded();
+  const earlier = await exported(log);
+  const later = await exported(log, 2);
+
+  assert.deepEqual(later.map((entry) => entry.seq), [3, 4]);
+  assert.equal(
+    verifyAuditChain(later, { seq: 2, hash: earlier[1].hash }).valid,
+    true,
+  );
+
+  // Anchored on the wrong entry, or missing one in between
+  const wrong = verifyAuditChain(later, { seq: 2, hash: earlier[0].hash });
+  assert.equal(wrong.error, "prevHash does not link");
+  const gap = verifyAuditChain(later.slice(1), {
+    seq: 2,
+    hash: earlier[1].hash,
+  });
+  assert.equal(gap.error, "expected seq 3");
+});
@@ -0,0 +1,141 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers, TypedDataDomain, Wallet } from "ethers";
+import {
+  AuthError,
+  REQUEST_TYPES,
+  RequestAuthenticator,
+  verifyAdminToken,
+} from "../src/auth";
+import { CredexDatabase, openDatabase } from "../src/db";
+import { SqliteNonceStore } from "../src/nonce-store";
+
+const DOMAIN: TypedDataDomain = {
+  name: "Credex",
+  version: "1",
+  chainId: 5042002,
+  verifyingContract: "0x1111111111111111111111111111111111111111",
+};
+
+const agent = new Wallet(ethers.id("agent"));
+
+function authenticator(
+  db: CredexDatabase = openDatabase(":memory:"),
+  delayMs = 0,
+): RequestAuthenticator {
+  return new RequestAuthenticator(
+    async () => {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      return DOMAIN;
+    },
+    new SqliteNonceStore(db),
+  );
+}
+
+async function borrow(
+  overrides: { nonce?: string; expiry?: number; signer?: Wallet } = {},
+) {
+  const message = {
+    agentAddress: agent.address,
+    amount: "10",
+    nonce: overrides.nonce ?? ethers.hexlify(ethers.randomBytes(32)),
+    expiry: overrides.expiry ?? Math.floor(Date.now() / 1000) + 60,
+  };
+  const signature = await (overrides.signer ?? agent).signTypedData(
+    DOMAIN,
+    { Borrow: REQUEST_TYPES.Borrow },
+    message,
+  );
+  return { ...message, signature };
+}
+
+function rejectsWith(code: string) {
+  return (error: unknown) => error instanceof AuthError && error.code === code;
+}
+
+test("a signed request is accepted once", async () => {
+  const auth = authenticator();
+  const request = await borrow();
+
+  await auth.verify("Borrow", request);
+  await assert.rejects(
+    auth.verify("Borrow", request),
+    rejectsWith("NONCE_REPLAYED"),
+  );
+});
+
+test("concurrent copies of a request are accepted only once", async () => {
+  const auth = authenticator(openDatabase(":memory:"), 20);
+  const request = await borrow();
+
+  const results = await Promise.allSettled(
+    Array.from({ length: 5 }, () => auth.verify("Borrow", request)),
+  );
+
+  assert.equal(results.filter((r) => r.status === "fulfilled").length, 1);
+  for (const result of results.filter((r) => r.status === "rejected")) {
+    assert.ok(rejectsWith("NONCE_REPLAYED")(result.reason));
+  }
+});
+
+test("a rejected request gives its nonce back", async () => {
+  const auth = authenticator();
+  const nonce = ethers.hexlify(ethers.randomBytes(32));
+  const forged = await borrow({
+    nonce,
+    signer: new Wallet(ethers.id("someone else")),
+  });
+
+  await assert.rejects(
+    auth.verify("Borrow", forged),
+    rejectsWith("INVALID_SIGNATURE"),
+  );
+  await auth.verify("Borrow", await borrow({ nonce }));
+});
+
+test("used nonces survive a restart", async () => {
+  const db = openDatabase(":memory:");
+  const request = await borrow();
+
+  await authenticator(db).verify("Borrow", request);
+  await assert.rejects(
+    authenticator(db).verify("Borrow", request),
+    rejectsWith("NONCE_REPLAYED"),
+  );
+});
+
+test("expired and far-future requests are rejected", async () => {
+  const auth = authenticator();
+  const now = Math.floor(Date.now() / 1000);
+
+  await assert.rejects(
+    auth.verify("Borrow", await borrow({ expiry: now - 1 })),
+    rejectsWith("REQUEST_EXPIRED"),
+  );
+  await assert.rejects(
+    auth.verify("Borrow", await borrow({ expiry: now + 3600 })),
+    rejectsWith("EXPIRY_TOO_FAR"),
+  );
+});
+
+test("expired nonces are pruned", async () => {
+  const db = openDatabase(":memory:");
+  const nonces = new SqliteNonceStore(db);
+
+  assert.equal(nonces.reserve("a", 100), true);
+  assert.equal(nonces.reserve("a", 100), false);
+  nonces.prune(101);
+  assert.equal(nonces.reserve("a", 200), true);
+});
+
+test("admin tokens must match exactly", () => {
+  verifyAdminToken("Bearer secret", "secret");
+  assert.throws(
+    () => verifyAdminToken("Bearer secre", "secret"),
+    rejectsWith("ADMIN_UNAUTHORIZED"),
+  );
+  assert.throws(
+    () => verifyAdminToken("Bearer secret", ""),
+    rejectsWith("ADMIN_DISABLED"),
+  );
+});
@@ -0,0 +1,215 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Provider } from "ethers";
+import { AgentRepository, SqliteAgentRepository } from "../src/agent-store";
+import { CreditPolicy } from "../src/credit-policy";
+import { openDatabase } from "../src/db";
+import { DelinquencyMonitor } from "../src/delinquency-monitor";
+import { InterestParams, StoredDebt } from "../src/interest";
+import { PoolClient } from "../src/pool-client";
+import { DEFAULT_POLICY_CONFIG } from "../src/policy-config";
+import { AgentOnChain } from "../src/types";
+
+const DAY = 24 * 60 * 60;
+const USDC = 1_000_000n;
+const ADDRESS = "0x1111111111111111111111111111111111111111";
+const RULES = DEFAULT_POLICY_CONFIG.delinquency; // 7-day gap, 1.1x, 25%
+const INTEREST: InterestParams = { rateBp: 100n, interval: 86_400n };
+
+const ONBOARDED = 1_700_000_000;
+
+function monitor() {
+  return new DelinquencyMonitor(
+    {} as PoolClient,
+    {} as Provider,
+    {} as AgentRepository,
+    {} as CreditPolicy,
+    RULES,
+  );
+}
+
+function agent(overrides: Partial<AgentOnChain> = {}): AgentOnChain {
+  return {
+    debt: 10n * USDC,
+    principal: 10n * USDC,
+    creditLimit: 50n * USDC,
+    lastAccrued: BigInt(ONBOARDED),
+    lastRepayment: BigInt(ONBOARDED), // set by onboardAgent
+    frozen: false,
+    active: true,
+    ...overrides,
+  };
+}
+
+function stored(state: AgentOnChain, lastAccrued: number): StoredDebt {
+  return {
+    debt: state.debt,
+    principal: state.principal,
+    lastAccrued: BigInt(lastAccrued),
+  };
+}
+
+test("a first borrow long after onboarding is not a repayment gap", () => {
+  const borrowedAt = ONBOARDED + 30 * DAY;
+
+  assert.deepEqual(
+    monitor().evaluate(agent(), borrowedAt + 60, borrowedAt),
+    [],
+  );
+});
+
+test("the gap counts from when the debt became outstanding", () => {
+  const borrowedAt = ONBOARDED + 30 * DAY;
+
+  assert.deepEqual(
+    monitor().evaluate(agent(), borrowedAt + 7 * DAY, borrowedAt),
+    [],
+  );
+  const [violation] = monitor().evaluate(
+    agent(),
+    borrowedAt + 7 * DAY + 1,
+    borrowedAt,
+  );
+  assert.match(violation, /^No repayment for 168h/);
+});
+
+test("a repayment after the borrow restarts the gap", () => {
+  const borrowedAt = ONBOARDED + 30 * DAY;
+  const repaidAt = borrowedAt + 5 * DAY;
+  const state = agent({ lastRepayment: BigInt(repaidAt) });
+
+  assert.deepEqual(
+    monitor().evaluate(state, borrowedAt + 8 * DAY, borrowedAt),
+    [],
+  );
+  assert.equal(
+    monitor().evaluate(state, repaidAt + 7 * DAY + 1, borrowedAt).length,
+    1,
+  );
+});
+
+test("debt without a known start counts as new", () => {
+  const late = ONBOARDED + 30 * DAY;
+  assert.deepEqual(monitor().evaluate(agent(), late, null), []);
+});
+
+test("agents without debt or inactive are never delinquent", () => {
+  const late = ONBOARDED + 365 * DAY;
+  assert.deepEqual(monitor().evaluate(agent({ debt: 0n }), late, null), []);
+  assert.deepEqual(
+    monitor().evaluate(agent({ active: false }), late, ONBOARDED),
+    [],
+  );
+});
+
+test("debt above the allowed share of the limit is a violation", () => {
+  const now = ONBOARDED + DAY;
+  const state = agent({ debt: 56n * USDC, principal: 50n * USDC });
+
+  const violations = monitor().evaluate(state, now, now);
+  assert.equal(violations.length, 1);
+  assert.match(violations[0], /exceeds 55\.0 USDC allowed/);
+});
+
+test("interest above the allowed share of principal is a violation", () => {
+  const now = ONBOARDED + DAY;
+  const state = agent({ debt: 13n * USDC, principal: 10n * USDC });
+
+  const violations = monitor().evaluate(state, now, now);
+  assert.deepEqual(violations, ["Interest is 30% of principal (max 25%)"]);
+});
+
+test("forecast puts the repayment gap after the borrow, not onboarding", () => {
+  const borrowedAt = ONBOARDED + 30 * DAY;
+  const state = agent();
+
+  const forecasts = monitor().forecast(
+    state,
+    stored(state, borrowedAt),
+    INTEREST,
+    borrowedAt,
+    borrowedAt + 60,
+  );
+  const gap = forecasts.find((f) => f.rule === "repayment-gap");
+  assert.equal(gap?.at, borrowedAt + 7 * DAY + 1);
+});
+
+test("forecast projects the interest rules from the stored debt", () => {
+  const now = ONBOARDED + DAY;
+  const state = agent();
+
+  const forecasts = monitor().forecast(
+    state,
+    stored(state, ONBOARDED),
+    INTEREST,
+    now,
+    now,
+  );
+  // 0.1 USDC a day: interest passes 25% of principal after 26 days and
+  // the debt passes 1.1x the 50 USDC limit after 451
+  assert.deepEqual(
+    forecasts.map((f) => [f.rule, f.at]),
+    [
+      ["repayment-gap", now + 7 * DAY + 1],
+      ["interest-ratio", ONBOARDED + 26 * DAY],
+      ["debt-to-limit", ONBOARDED + 451 * DAY],
+    ],
+  );
+});
+
+test("the registry keeps when debt became outstanding", async () => {
+  const store = new SqliteAgentRepository(openDatabase(":memory:"));
+
+  const onboarded = await store.syncOnChain(ADDRESS, agent({ debt: 0n }));
+  assert.equal(onboarded.debtSince, null);
+
+  const borrowed = await store.syncOnChain(ADDRESS, agent());
+  assert.notEqual(borrowed.debtSince, null);
+
+  await store.saveAgent({ ...borrowed, debtSince: 123 });
+  const later = await store.syncOnChain(ADDRESS, agent({ debt: 11n * USDC }));
+  assert.equal(later.debtSince, 123);
+
+  const repaid = await store.syncOnChain(ADDRESS, agent({ debt: 0n }));
+  assert.equal(repaid.debtSince, null);
+});
+
+test("a written-off agent stays frozen once no rule is broken", async () => {
+  const store = new SqliteAgentRepository(openDatabase(":memory:"));
+  const now = ONBOARDED + DAY;
+  const state = agent({ frozen: true });
+  let unfrozen = 0;
+  const client = {
+    getAgent: async () => state,
+    unfreeze: async () => {
+      unfrozen++;
+      return { hash: "0xunfreeze" };
+    },
+  } as unknown as PoolClient;
+  const provider = {
+    getBlock: async () => ({ timestamp: now }),
+  } as unknown as Provider;
+  const scanner = new DelinquencyMonitor(
+    client,
+    provider,
+    store,
+    {} as CreditPolicy,
+    RULES,
+  );
+  await store.syncOnChain(ADDRESS, state);
+
+  // Frozen by the monitor, then written off by an operator
+  for (const action of ["freeze", "write-off"] as const) {
+    await store.recordDelinquencyDecision({
+      address: ADDRESS,
+      action,
+      reasons: [],
+      timestamp: now,
+    });
+  }
+  assert.deepEqual(monitor().evaluate(state, now, now), []);
+
+  await scanner.scan();
+  assert.equal(await scanner.isFrozenByMonitor(ADDRESS), false);
+  assert.equal(unfrozen, 0);
+});
@@ -0,0 +1,218 @@
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import { ethers, Interface } from "ethers";
+import { BridgeKit, BridgeResult } from "@circle-fin/bridge-kit";
+import { NETWORKS } from "credex-shared";
+import { openDatabase } from "../src/db";
+import { BorrowDelivery, DeliverySource } from "../src/delivery";
+import { DeliveryStore, SqliteDeliveryStore } from "../src/delivery-store";
+import { TransactionManager } from "../src/tx-manager";
+import { DeliveryJob, DeliveryStep } from "../src/types";
+
+type BridgeStep = BridgeResult["steps"][number];
+type KitEvent = { method?: string; values?: unknown };
+
+const AGENT = "0x1111111111111111111111111111111111111111";
+const USDC = "0x3600000000000000000000000000000000000000";
+const CONFIG = {
+  pollIntervalSeconds: 60,
+  retryDelaySeconds: 30,
+  maxAttempts: 2,
+};
+const ERC20 = new Interface([
+  "function transfer(address to, uint256 amount)",
+]);
+
+// Bridge Kit stand-in that settles every call with `result`
+class FakeKit {
+  calls: { method: "bridge" | "retry"; arg: unknown }[] = [];
+
+  constructor(private result: Pick<BridgeResult, "state" | "steps">) {}
+
+  on(_action: string, _handler: (payload: KitEvent) => void): void {}
+
+  async bridge(params: unknown): Promise<BridgeResult> {
+    this.calls.push({ method: "bridge", arg: params });
+    return this.result as BridgeResult;
+  }
+
+  async retry(result: BridgeResult): Promise<BridgeResult> {
+    this.calls.push({ method: "retry", arg: result });
+    return this.result as BridgeResult;
+  }
+}
+
+// Pool chain whose transaction manager records what it was asked to do
+function source() {
+  const sent: { purpose: string; to: string; data: string }[] = [];
+  let holds = 0;
+  const txManager = {
+    hold: async () => {
+      holds++;
+      return () => undefined;
+    },
+    send: async (purpose: string, to: string, data: string) => {
+      sent.push({ purpose, to, data });
+      return { hash: "0xrefund" };
+    },
+  } as unknown as TransactionManager;
+  const pool: DeliverySource = {
+    id: "arc-testnet",
+    chainId: NETWORKS["arc-testnet"].chainId,
+    usdcAddress: USDC,
+    txManager,
+  };
+  return { pool, sent, holds: () => holds };
+}
+
+function delivery(
+  store: DeliveryStore,
+  pool: DeliverySource,
+  kit: FakeKit,
+): BorrowDelivery {
+  return new BorrowDelivery(
+    store,
+    [pool],
+    ethers.Wallet.createRandom(),
+    {},
+    { quorum: 1, retries: 0, backoffMs: 0, stallTimeoutMs: 0 },
+    CONFIG,
+    () => kit as unknown as BridgeKit,
+  );
+}
+
+function step(name: string, state: DeliveryStep["state"]): DeliveryStep {
+  return {
+    name,
+    state,
+    txHash: state === "success" ? `0x${name}` : null,
+    explorerUrl: null,
+    error: state === "error" ? `${name} failed` : null,
+    data: null,
+    at: 1_700_000_000,
+  };
+}
+
+function job(overrides: Partial<DeliveryJob> = {}): DeliveryJob {
+  return {
+    id: "d1",
+    agentAddress: AGENT,
+    pool: "arc-testnet",
+    amount: 5_000_000n,
+    sourceChain: "Arc_Testnet",
+    destination: "base-sepolia",
+    destinationChain: "Base_Sepolia",
+    status: "retrying",
+    borrowTxHash: "0xborrow",
+    steps: [],
+    refundTxHash: null,
+    attempts: 1,
+    error: null,
+    nextAttemptAt: 0,
+    createdAt: 1_700_000_000,
+    updatedAt: 1_700_000_000,
+    ...overrides,
+  };
+}
+
+const failedMint: BridgeStep = {
+  name: "mint",
+  state: "error",
+  errorMessage: "mint reverted",
+};
+
+test("a burned delivery is only ever retried from its steps", async () => {
+  mock.method(console, "log", () => undefined);
+  const store = new SqliteDeliveryStore(openDatabase(":memory:"));
+  const chain = source();
+  const burned = [step("approve", "success"), step("burn", "success")];
+  await store.create(job({ steps: burned, attempts: CONFIG.maxAttempts }));
+
+  const kit = new FakeKit({ state: "error", steps: [failedMint] });
+  await delivery(store, chain.pool, kit).processOpen();
+
+  // Retried from the recorded burn, never bridged again or refunded
+  assert.deepEqual(kit.calls.map((call) => call.method), ["retry"]);
+  const retried = kit.calls[0].arg as BridgeResult;
+  assert.deepEqual(
+    retried.steps.map((s) => [s.name, s.state, s.txHash]),
+    [
+      ["approve", "success", "0xapprove"],
+      ["burn", "success", "0xburn"],
+    ],
+  );
+  assert.equal(retried.destination.recipientAddress, AGENT);
+  assert.equal(chain.holds(), 0);
+  assert.deepEqual(chain.sent, []);
+
+  const stored = (await store.get("d1"))!;
+  assert.equal(stored.status, "retrying");
+  assert.equal(stored.attempts, CONFIG.maxAttempts + 1);
+  assert.equal(stored.error, "mint reverted");
+  assert.equal(stored.steps[stored.steps.length - 1].name, "mint");
+
+  // The next retry lands the mint
+  const minted = new FakeKit({
+    state: "success",
+    steps: [{ name: "mint", state: "success", txHash: "0xmint" }],
+  });
+  await store.update("d1", { nextAttemptAt: 0 });
+  await delivery(store, chain.pool, minted).processOpen();
+  assert.equal((await store.get("d1"))!.status, "delivered");
+});
+
+test("an unburned delivery is refunded after its last attempt", async () => {
+  mock.method(console, "log", () => undefined);
+  const store = new SqliteDeliveryStore(openDatabase(":memory:"));
+  const chain = source();
+  await store.create(job({ attempts: CONFIG.maxAttempts - 1 }));
+
+  const approveFailed: BridgeStep = {
+    name: "approve",
+    state: "error",
+    errorMessage: "insufficient funds for gas",
+  };
+  const kit = new FakeKit({ state: "error", steps: [approveFailed] });
+  await delivery(store, chain.pool, kit).processOpen();
+
+  assert.deepEqual(kit.calls.map((call) => call.method), ["bridge"]);
+  assert.equal(chain.holds(), 1);
+  assert.equal(chain.sent.length, 1);
+  assert.equal(chain.sent[0].purpose, "refund");
+  assert.equal(chain.sent[0].to, USDC);
+  assert.deepEqual(
+    [...ERC20.decodeFunctionData("transfer", chain.sent[0].data)],
+    [AGENT, 5_000_000n],
+  );
+
+  const stored = (await store.get("d1"))!;
+  assert.equal(stored.status, "refunded");
+  assert.equal(stored.refundTxHash, "0xrefund");
+  assert.equal(stored.error, "insufficient funds for gas");
+});
+
+test("a delivery that can't be stored is refunded at once", async () => {
+  mock.method(console, "log", () => undefined);
+  mock.method(console, "error", () => undefined);
+  const store = {
+    create: async () => {
+      throw new Error("database is locked");
+    },
+  } as unknown as DeliveryStore;
+  const chain = source();
+  const kit = new FakeKit({ state: "success", steps: [] });
+
+  const created = await delivery(store, chain.pool, kit).create({
+    agentAddress: AGENT,
+    source: chain.pool,
+    destination: NETWORKS["base-sepolia"],
+    amount: 5_000_000n,
+    borrowTxHash: "0xborrow",
+  });
+
+  assert.equal(created.status, "refunded");
+  assert.equal(created.refundTxHash, "0xrefund");
+  assert.match(created.error!, /Could not record the delivery: database/);
+  assert.equal(chain.sent.length, 1);
+  assert.deepEqual(kit.calls, []);
+});
@@ -0,0 +1,83 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { ExposureGuard, ExposureLimitError } from "../src/exposure-guard";
+import { AgentOnChain } from "../src/types";
+
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+// 90% utilization, 25% per agent, 100 USDC reserve
+const guard = new ExposureGuard({
+  maxUtilizationBp: 9_000,
+  maxAgentShareBp: 2_500,
+  minLiquidityReserve: "100",
+});
+
+function agent(debt: string, creditLimit = "1000"): AgentOnChain {
+  return {
+    debt: usdc(debt),
+    principal: usdc(debt),
+    creditLimit: usdc(creditLimit),
+    lastAccrued: 0n,
+    lastRepayment: 0n,
+    frozen: false,
+    active: true,
+  };
+}
+
+// totalAssets = cash + outstanding debt
+function pool(cash: string, borrowed: string) {
+  return {
+    totalAssets: usdc(cash) + usdc(borrowed),
+    totalLiquidity: usdc(cash),
+  };
+}
+
+function rejectsWith(guardName: string, maxBorrowable: string) {
+  return (error: unknown) =>
+    error instanceof ExposureLimitError &&
+    error.code === "EXPOSURE_LIMIT" &&
+    error.guard === guardName &&
+    error.maxBorrowable === usdc(maxBorrowable);
+}
+
+test("headroom is computed per guard", () => {
+  assert.deepEqual(guard.headroom(agent("50"), pool("600", "400")), {
+    utilization: usdc("500"), // 900 - 400 borrowed
+    "agent-share": usdc("200"), // 250 - 50 debt
+    reserve: usdc("500"), // 600 cash - 100
+  });
+});
+
+test("borrows within every guard pass", () => {
+  guard.check(agent("50"), usdc("200"), pool("600", "400"));
+});
+
+test("the binding guard and max borrowable are reported", () => {
+  assert.throws(
+    () => guard.check(agent("50"), usdc("201"), pool("600", "400")),
+    rejectsWith("agent-share", "200"),
+  );
+  assert.throws(
+    () => guard.check(agent("0"), usdc("60"), pool("150", "850")),
+    rejectsWith("utilization", "50"),
+  );
+  assert.throws(
+    () => guard.check(agent("0"), usdc("60"), pool("150", "300")),
+    rejectsWith("reserve", "50"),
+  );
+});
+
+test("max borrowable never exceeds the agent's available credit", () => {
+  assert.throws(
+    () => guard.check(agent("50", "80"), usdc("300"), pool("600", "400")),
+    rejectsWith("agent-share", "30"),
+  );
+});
+
+test("an over-utilized pool allows nothing", () => {
+  assert.throws(
+    () => guard.check(agent("0"), 1n, pool("50", "950")),
+    rejectsWith("utilization", "0"),
+  );
+});
@@ -0,0 +1,151 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { encodeBytes32String, ethers } from "ethers";
+import {
+  DEFAULT_FEEDBACK_SCORING,
+  ScoringContext,
+  scoreFeedback,
+} from "../src/feedback-scoring";
+import { FeedbackEntry } from "../src/reputation";
+import { FeedbackScoringConfig } from "../src/types";
+
+const AGENT_ID = 7n;
+const HEAD = 1_000_000;
+const BLOCKS_PER_DAY =
+  (24 * 60 * 60) / DEFAULT_FEEDBACK_SCORING.blockTimeSeconds;
+
+const reviewer = (n: number) => ethers.zeroPadValue(ethers.toBeHex(n), 20);
+
+function entry(
+  client: number,
+  score: number,
+  overrides: Partial<FeedbackEntry> = {},
+): FeedbackEntry {
+  return {
+    agentId: AGENT_ID,
+    clientAddress: reviewer(client),
+    score,
+    tag1: ethers.ZeroHash,
+    tag2: ethers.ZeroHash,
+    fileuri: "",
+    filehash: ethers.ZeroHash,
+    blockNumber: HEAD,
+    txHash: ethers.ZeroHash,
+    logIndex: 0,
+    ...overrides,
+  };
+}
+
+// Standing and agentIds by reviewer number; unlisted reviewers have none
+function context(
+  standing: Record<number, number> = {},
+  agentIds: Record<number, bigint> = {},
+): ScoringContext {
+  const index = (address: string) => Number(BigInt(address));
+  return {
+    agentId: AGENT_ID,
+    headBlock: HEAD,
+    reviewerReputation: async (address) => standing[index(address)] ?? null,
+    reviewerAgentId: async (address) => agentIds[index(address)] ?? null,
+  };
+}
+
+function config(
+  overrides: Partial<FeedbackScoringConfig> = {},
+): FeedbackScoringConfig {
+  return { ...DEFAULT_FEEDBACK_SCORING, ...overrides };
+}
+
+test("no counted feedback has no score", async () => {
+  const breakdown = await scoreFeedback([], context(), config());
+  assert.equal(breakdown.score, null);
+  assert.equal(breakdown.plainAverage, null);
+});
+
+test("one unknown reviewer barely moves the score off the prior", async () => {
+  const breakdown = await scoreFeedback([entry(100, 100)], context(), config());
+
+  // (0.25 * 100 + 2 * 50) / (0.25 + 2)
+  assert.ok(Math.abs(breakdown.score! - 55.56) < 0.01);
+  assert.equal(breakdown.plainAverage, 100);
+  assert.equal(breakdown.influence, 0.25);
+});
+
+test("repeated reviews from one address count once", async () => {
+  const sybil = Array.from({ length: 50 }, (_, i) =>
+    entry(100, 100, { logIndex: i }),
+  );
+  const once = await scoreFeedback([entry(100, 100)], context(), config());
+  const many = await scoreFeedback(sybil, context(), config());
+
+  assert.equal(many.score, once.score);
+  assert.equal(many.reviewers[0].entries, 50);
+});
+
+test("many trusted reviewers pull the score toward their view", async () => {
+  const entries = [1, 2, 3, 4, 5, 6, 7, 8].map((n) => entry(n, 90));
+  const standing = Object.fromEntries(
+    [1, 2, 3, 4, 5, 6, 7, 8].map((n) => [n, 1]),
+  );
+
+  const breakdown = await scoreFeedback(entries, context(standing), config());
+
+  // (8 * 90 + 2 * 50) / (8 + 2)
+  assert.equal(breakdown.score, 82);
+});
+
+test("without a prior weight the weighted average is returned", async () => {
+  const breakdown = await scoreFeedback(
+    [entry(1, 80), entry(100, 20)],
+    context({ 1: 1 }),
+    config({ priorWeight: 0 }),
+  );
+
+  // (1 * 80 + 0.25 * 20) / 1.25
+  assert.equal(breakdown.score, 68);
+});
+
+test("older entries weigh less", async () => {
+  const halfLifeAgo = HEAD - 90 * BLOCKS_PER_DAY;
+  const breakdown = await scoreFeedback(
+    [entry(1, 100, { blockNumber: halfLifeAgo }), entry(1, 0)],
+    context({ 1: 1 }),
+    config({ priorWeight: 0 }),
+  );
+
+  // weights 0.5 and 1
+  assert.ok(Math.abs(breakdown.score! - 100 / 3) < 1e-9);
+});
+
+test("self-reviews are dropped", async () => {
+  const breakdown = await scoreFeedback(
+    [entry(1, 100), entry(2, 40)],
+    context({ 1: 1, 2: 1 }, { 1: AGENT_ID }),
+    config({ priorWeight: 0 }),
+  );
+
+  assert.equal(breakdown.counted, 1);
+  assert.equal(breakdown.score, 40);
+});
+
+test("tag filters and weights apply per entry", async () => {
+  const payment = encodeBytes32String("payment");
+  const spam = encodeBytes32String("spam");
+  const breakdown = await scoreFeedback(
+    [
+      entry(1, 100, { tag1: payment }),
+      entry(2, 0, { tag1: payment, tag2: spam }),
+      entry(3, 0),
+    ],
+    context({ 1: 1, 2: 1, 3: 1 }),
+    config({
+      priorWeight: 0,
+      requiredTags: ["payment"],
+      tagWeights: { spam: 0 },
+    }),
+  );
+
+  assert.equal(breakdown.entries, 3);
+  assert.equal(breakdown.counted, 1);
+  assert.equal(breakdown.score, 100);
+});
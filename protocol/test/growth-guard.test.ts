@@ -0,0 +1,94 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { AgentRepository } from "../src/agent-store";
+import { GROWTH_REASON, GrowthGuard } from "../src/growth-guard";
+import { DEFAULT_POLICY_CONFIG } from "../src/policy-config";
+import { LimitChange } from "../src/types";
+
+const AGENT = "0x1111111111111111111111111111111111111111";
+const NOW = 1_700_000_000;
+const HOUR = 60 * 60;
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+// Defaults: 1 USDC minimum, 1h cooldown, 50 USDC per 24h
+function guard(history: LimitChange[] = []) {
+  const store = {
+    getLimitHistory: async () => history,
+  } as unknown as AgentRepository;
+  return new GrowthGuard(store, DEFAULT_POLICY_CONFIG.growthGuards);
+}
+
+function grown(from: string, to: string, hoursAgo: number): LimitChange {
+  return {
+    address: AGENT,
+    previousLimit: usdc(from),
+    newLimit: usdc(to),
+    reason: GROWTH_REASON,
+    timestamp: NOW - hoursAgo * HOUR,
+  };
+}
+
+test("growth is granted for a principal repayment", async () => {
+  const verdict = await guard().check(AGENT, usdc("10"), usdc("5"), NOW);
+
+  assert.deepEqual(verdict, { granted: usdc("5") });
+});
+
+test("interest-only and dust repayments earn nothing", async () => {
+  const interestOnly = await guard().check(AGENT, 0n, 0n, NOW);
+  assert.equal(interestOnly.granted, 0n);
+  assert.match(interestOnly.reason!, /only covered interest/);
+
+  const dust = await guard().check(AGENT, usdc("0.5"), usdc("1"), NOW);
+  assert.equal(dust.granted, 0n);
+  assert.match(dust.reason!, /below the 1.0 USDC minimum/);
+});
+
+test("no growth during the cooldown after the last growth", async () => {
+  const verdict = await guard([grown("100", "110", 0.5)]).check(
+    AGENT,
+    usdc("10"),
+    usdc("5"),
+    NOW,
+  );
+
+  assert.equal(verdict.granted, 0n);
+  assert.match(verdict.reason!, /cooldown active for another 1800s/);
+});
+
+test("growth in the rolling window is capped", async () => {
+  const history = [
+    grown("100", "130", 30), // outside the window
+    grown("130", "150", 12),
+    grown("150", "170", 6),
+  ];
+
+  const reduced = await guard(history).check(
+    AGENT,
+    usdc("20"),
+    usdc("20"),
+    NOW,
+  );
+  assert.equal(reduced.granted, usdc("10"));
+  assert.match(reduced.reason!, /reduced to the 50.0 USDC per-window cap/);
+
+  const capped = await guard([...history, grown("170", "180", 2)]).check(
+    AGENT,
+    usdc("20"),
+    usdc("20"),
+    NOW,
+  );
+  assert.equal(capped.granted, 0n);
+  assert.match(capped.reason!, /cap of 50.0 USDC per window reached/);
+});
+
+test("limit changes other than growth are ignored", async () => {
+  const history = [
+    { ...grown("100", "200", 0.5), reason: "admin-set" },
+    grown("200", "150", 0.5), // a decrease is never growth
+  ];
+
+  const verdict = await guard(history).check(AGENT, usdc("10"), usdc("5"), NOW);
+  assert.equal(verdict.granted, usdc("5"));
+});
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  elapsedIntervals,
+  InterestParams,
+  pendingInterest,
+  projectDebt,
+} from "../src/interest";
+
+const PARAMS: InterestParams = { rateBp: 100n, interval: 86_400n }; // 1%/day
+const T0 = 1_700_000_000n;
+const DAY = 86_400n;
+
+test("only whole intervals since the last accrual count", () => {
+  assert.equal(elapsedIntervals(T0, T0, PARAMS), 0n);
+  assert.equal(elapsedIntervals(T0, T0 + DAY - 1n, PARAMS), 0n);
+  assert.equal(elapsedIntervals(T0, T0 + DAY, PARAMS), 1n);
+  assert.equal(elapsedIntervals(T0, T0 + 3n * DAY + 5n, PARAMS), 3n);
+  // Never accrued, or a timestamp before the last accrual
+  assert.equal(elapsedIntervals(0n, T0, PARAMS), 0n);
+  assert.equal(elapsedIntervals(T0, T0 - DAY, PARAMS), 0n);
+});
+
+test("interest is simple and rounds down like the pool", () => {
+  const stored = { debt: 1_000_000_000n, principal: 1_000_000_000n };
+
+  // 1000 USDC at 1% for 2 days, not compounded
+  assert.equal(
+    pendingInterest({ ...stored, lastAccrued: T0 }, T0 + 2n * DAY, PARAMS),
+    20_000_000n,
+  );
+  // 999 base units * 1% = 9.99, floored
+  assert.equal(
+    pendingInterest(
+      { debt: 999n, principal: 999n, lastAccrued: T0 },
+      T0 + DAY,
+      PARAMS,
+    ),
+    9n,
+  );
+  assert.equal(
+    pendingInterest({ ...stored, lastAccrued: 0n }, T0 + DAY, PARAMS),
+    0n,
+  );
+});
+
+test("projection gives the payoff amount and when it next changes", () => {
+  const projection = projectDebt(
+    { debt: 500_000_000n, principal: 400_000_000n, lastAccrued: T0 },
+    T0 + DAY + 60n,
+    PARAMS,
+  );
+
+  assert.equal(projection.storedDebt, 500_000_000n);
+  assert.equal(projection.principal, 400_000_000n);
+  assert.equal(projection.intervals, 1n);
+  assert.equal(projection.pendingInterest, 5_000_000n);
+  assert.equal(projection.projectedDebt, 505_000_000n);
+  assert.equal(projection.nextAccrualAt, T0 + 2n * DAY);
+});
+
+test("a repaid agent projects no interest", () => {
+  const projection = projectDebt(
+    { debt: 0n, principal: 0n, lastAccrued: T0 },
+    T0 + 10n * DAY,
+    PARAMS,
+  );
+
+  assert.equal(projection.intervals, 0n);
+  assert.equal(projection.projectedDebt, 0n);
+  assert.equal(projection.nextAccrualAt, T0 + DAY);
+});
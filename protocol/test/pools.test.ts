@@ -0,0 +1,157 @@
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { CredexClearing } from "../src/clearing-agent";
+import {
+  ClearingPool,
+  CreditLine,
+  allocateLimit,
+  planLimitMoves,
+} from "../src/pools";
+import { AgentOnChain, LimitChange } from "../src/types";
+
+const AGENT = "0x1111111111111111111111111111111111111111";
+const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+function agent(creditLimit: string, principal = "0"): AgentOnChain {
+  return {
+    debt: usdc(principal),
+    principal: usdc(principal),
+    creditLimit: usdc(creditLimit),
+    lastAccrued: 0n,
+    lastRepayment: 0n,
+    frozen: false,
+    active: true,
+  };
+}
+
+function line(id: string, state: AgentOnChain): CreditLine {
+  return { pool: { id } as ClearingPool, agent: state };
+}
+
+test("rounding dust goes to the remainder pool", () => {
+  const allocation = allocateLimit(
+    100n,
+    ["arc", "base", "eth"],
+    { arc: 3_333, base: 3_333, eth: 3_334 },
+    "arc",
+  );
+
+  assert.deepEqual(Object.fromEntries(allocation), {
+    arc: 34n, // 33 + 1 of dust
+    base: 33n,
+    eth: 33n,
+  });
+});
+
+test("pools left out of allocationBp split what is left evenly", () => {
+  const allocation = allocateLimit(
+    usdc("100"),
+    ["arc", "base", "eth"],
+    { arc: 5_000 },
+    "base",
+  );
+
+  assert.deepEqual(Object.fromEntries(allocation), {
+    arc: usdc("50"),
+    base: usdc("25"),
+    eth: usdc("25"),
+  });
+  assert.deepEqual(
+    Object.fromEntries(allocateLimit(usdc("90"), ["arc", "base"], {}, "arc")),
+    { arc: usdc("45"), base: usdc("45") },
+  );
+});
+
+test("limit is moved from the largest unused limit first", () => {
+  const small = line("small", agent("50", "30")); // 20 unused
+  const large = line("large", agent("100", "40")); // 60 unused
+  const full = line("full", agent("80", "80"));
+  const inactive = line("inactive", { ...agent("500"), active: false });
+
+  const moves = planLimitMoves([small, full, inactive, large], usdc("70"));
+  assert.deepEqual(
+    moves?.map((move) => [move.pool.id, move.amount]),
+    [
+      ["large", usdc("60")],
+      ["small", usdc("10")],
+    ],
+  );
+
+  const one = planLimitMoves([small, large], usdc("15"));
+  assert.deepEqual(
+    one?.map((move) => [move.pool.id, move.amount]),
+    [["large", usdc("15")]],
+  );
+});
+
+test("no moves when the other pools don't have enough unused limit", () => {
+  const others = [line("arc", agent("50", "30")), line("base", agent("10"))];
+
+  assert.equal(planLimitMoves(others, usdc("31")), null);
+  assert.equal(planLimitMoves([], 1n), null);
+  assert.notEqual(planLimitMoves(others, usdc("30")), null);
+});
+
+// A pool whose on-chain limit lives in memory; borrows fail
+function fakePool(id: string, state: AgentOnChain) {
+  const limits: bigint[] = [];
+  const changes: LimitChange[] = [];
+  const pool = {
+    id,
+    client: {
+      getAgent: async () => ({ ...state }),
+      setCreditLimit: async (_address: string, limit: bigint) => {
+        state.creditLimit = limit;
+        limits.push(limit);
+        return { hash: `0x${id}${limits.length}` };
+      },
+      borrow: async () => {
+        throw new Error("execution reverted");
+      },
+      getTotalAssets: async () => usdc("1000"),
+      getTotalLiquidity: async () => usdc("1000"),
+    },
+    store: {
+      getAgent: async () => null,
+      recordLimitChange: async (change: LimitChange) => changes.push(change),
+      syncOnChain: async () => undefined,
+    },
+    monitor: { chainTime: async () => 1_700_000_000 },
+    policy: { approveBorrow: () => ({ approved: true }) },
+    exposureGuard: { check: () => undefined },
+  } as unknown as ClearingPool;
+  return { pool, state, limits, changes };
+}
+
+test("moved limits are restored when the borrow fails", async () => {
+  mock.method(console, "log", () => undefined);
+  mock.method(console, "error", () => undefined);
+  const arc = fakePool("arc", agent("50", "40"));
+  const base = fakePool("base", agent("100"));
+  const clearing = Object.assign(Object.create(CredexClearing.prototype), {
+    config: { policy: { creditLines: { mode: "shared" } } },
+    pools: [arc.pool, base.pool],
+  }) as CredexClearing;
+
+  const response = await clearing.handleBorrow(AGENT, "30");
+
+  assert.equal(response.success, false);
+  assert.match(response.message!, /execution reverted/);
+  // Lowered in base, raised in arc, then put back newest first
+  assert.deepEqual(base.limits, [usdc("80"), usdc("100")]);
+  assert.deepEqual(arc.limits, [usdc("70"), usdc("50")]);
+  assert.equal(base.state.creditLimit, usdc("100"));
+  assert.equal(arc.state.creditLimit, usdc("50"));
+
+  const restored = [...arc.changes, ...base.changes].filter(
+    (change) => change.note === "restored after a failed borrow",
+  );
+  assert.deepEqual(
+    restored.map((change) => [change.previousLimit, change.newLimit]),
+    [
+      [usdc("70"), usdc("50")],
+      [usdc("80"), usdc("100")],
+    ],
+  );
+});
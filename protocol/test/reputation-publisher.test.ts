@@ -0,0 +1,202 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers, Provider, Wallet } from "ethers";
+import { FeedbackAuthTerms, signFeedbackAuth } from "credex-shared";
+import { AgentRepository } from "../src/agent-store";
+import { SqliteCreditEventStore } from "../src/credit-event-store";
+import { CredexDatabase, openDatabase } from "../src/db";
+import { DEFAULT_POLICY_CONFIG } from "../src/policy-config";
+import { ERC8004ReputationReader } from "../src/reputation";
+import {
+  FeedbackAuthError,
+  ReputationPublisher,
+} from "../src/reputation-publisher";
+import { CreditEventRecord, ReputationPublisherConfig } from "../src/types";
+
+const CHAIN_ID = 84532n;
+const IDENTITY_REGISTRY = "0x2222222222222222222222222222222222222222";
+const RETRY = DEFAULT_POLICY_CONFIG.reputationPublisher.retryDelaySeconds;
+
+const owner = new Wallet(ethers.id("agent owner"));
+const provider = {
+  getNetwork: async () => ({ chainId: CHAIN_ID }),
+} as unknown as Provider;
+const sender = new Wallet(ethers.id("credex"), provider);
+
+// Registry stand-in: records giveFeedback calls, reverts while `failing`
+class FakeRegistry {
+  calls: unknown[][] = [];
+  failing = false;
+
+  async giveFeedback(...args: unknown[]) {
+    if (this.failing) throw new Error("execution reverted");
+    this.calls.push(args);
+    return { wait: async () => ({ hash: "0xfeed" }) };
+  }
+
+  async getLastIndex() {
+    return 3n;
+  }
+}
+
+function setup(config: Partial<ReputationPublisherConfig> = {}) {
+  const db = openDatabase(":memory:");
+  const store = new SqliteCreditEventStore(db);
+  const publisher = new ReputationPublisher(
+    sender,
+    store,
+    {} as AgentRepository,
+    {
+      getAgentAddress: async () => owner.address,
+    } as unknown as ERC8004ReputationReader,
+    {
+      pools: [],
+      identityRegistry: IDENTITY_REGISTRY,
+      reputationRegistry: ethers.ZeroAddress,
+      publicUrl: "http://localhost:3000",
+    },
+    { ...DEFAULT_POLICY_CONFIG.reputationPublisher, ...config },
+  );
+  const registry = new FakeRegistry();
+  (publisher as unknown as { registry: FakeRegistry }).registry = registry;
+  return { db, store, publisher, registry };
+}
+
+function record(id: string): CreditEventRecord {
+  const event = {
+    type: "credex.credit-event" as const,
+    version: 1 as const,
+    id,
+    kind: "repaid" as const,
+    agentAddress: owner.address,
+    agentId: "42",
+    pool: ethers.ZeroAddress,
+    chainId: "5042002",
+    txHash: null,
+    amount: "10.0",
+    reasons: [],
+    timestamp: Math.floor(Date.now() / 1000),
+  };
+  const document = JSON.stringify({ event });
+  return {
+    event,
+    document,
+    filehash: ethers.keccak256(ethers.toUtf8Bytes(document)),
+    score: 100,
+    status: "queued",
+    feedbackTxHash: null,
+    error: null,
+    publishedAt: null,
+    attempts: 0,
+    nextAttemptAt: null,
+  };
+}
+
+// Let scheduled retries run now
+function makeDue(db: CredexDatabase) {
+  db.prepare("UPDATE credit_events SET next_attempt_at = 0").run();
+}
+
+async function terms(publisher: ReputationPublisher) {
+  return publisher.getFeedbackAuthTerms(42n);
+}
+
+test("terms name the sender, registry chain and remaining entries", async () => {
+  const { publisher } = setup();
+  const offered = await terms(publisher);
+
+  assert.equal(offered.clientAddress, sender.address);
+  assert.equal(offered.chainId, CHAIN_ID.toString());
+  assert.equal(offered.identityRegistry, IDENTITY_REGISTRY);
+  assert.equal(offered.indexLimit, "103"); // 3 given + 100 more
+});
+
+test("feedback carries the agent's signed feedbackAuth", async () => {
+  const { store, publisher, registry } = setup();
+  const feedbackAuth = await signFeedbackAuth(owner, await terms(publisher));
+  await publisher.acceptFeedbackAuth(feedbackAuth);
+  await store.enqueue(record("a"));
+
+  await publisher.publishBatch();
+
+  assert.equal(registry.calls.length, 1);
+  assert.equal(registry.calls[0][6], feedbackAuth);
+  assert.equal((await store.get("a"))?.status, "published");
+});
+
+test("feedbackAuth the registry would reject is refused", async () => {
+  const { publisher } = setup();
+  const offered = await terms(publisher);
+  const stranger = new Wallet(ethers.id("stranger"));
+  const cases: FeedbackAuthTerms[] = [
+    { ...offered, clientAddress: owner.address },
+    { ...offered, chainId: "1" },
+    { ...offered, identityRegistry: ethers.ZeroAddress },
+    { ...offered, expiry: Math.floor(Date.now() / 1000) - 1 },
+  ];
+
+  for (const bad of cases) {
+    await assert.rejects(
+      publisher.acceptFeedbackAuth(await signFeedbackAuth(owner, bad)),
+      FeedbackAuthError,
+    );
+  }
+  // Signed by someone who doesn't own agentId 42
+  await assert.rejects(
+    publisher.acceptFeedbackAuth(await signFeedbackAuth(stranger, offered)),
+    /does not own agentId 42/,
+  );
+  await assert.rejects(publisher.acceptFeedbackAuth("0x1234"), /Malformed/);
+});
+
+test("failed feedback is retried with a doubling delay", async () => {
+  const { db, store, publisher, registry } = setup({ maxAttempts: 3 });
+  await publisher.acceptFeedbackAuth(
+    await signFeedbackAuth(owner, await terms(publisher)),
+  );
+  await store.enqueue(record("a"));
+  registry.failing = true;
+
+  const start = Math.floor(Date.now() / 1000);
+  await publisher.publishBatch();
+  const first = (await store.get("a"))!;
+  assert.equal(first.status, "queued");
+  assert.equal(first.attempts, 1);
+  assert.ok(first.nextAttemptAt! - start >= RETRY);
+  assert.ok(first.nextAttemptAt! - start <= RETRY + 1);
+
+  // Not due yet
+  await publisher.publishBatch();
+  assert.equal((await store.get("a"))!.attempts, 1);
+
+  makeDue(db);
+  await publisher.publishBatch();
+  const second = (await store.get("a"))!;
+  assert.equal(second.attempts, 2);
+  assert.ok(second.nextAttemptAt! - start >= 2 * RETRY);
+
+  makeDue(db);
+  await publisher.publishBatch();
+  const last = (await store.get("a"))!;
+  assert.equal(last.status, "failed");
+  assert.equal(last.error, "execution reverted");
+  assert.equal(last.nextAttemptAt, null);
+});
+
+test("a new feedbackAuth queues events that failed without one", async () => {
+  const { store, publisher, registry } = setup({ maxAttempts: 1 });
+  await store.enqueue(record("a"));
+
+  await publisher.publishBatch();
+  const failed = (await store.get("a"))!;
+  assert.equal(failed.status, "failed");
+  assert.match(failed.error!, /no unexpired feedbackAuth/);
+
+  await publisher.acceptFeedbackAuth(
+    await signFeedbackAuth(owner, await terms(publisher)),
+  );
+  await publisher.publishBatch();
+
+  assert.equal(registry.calls.length, 1);
+  assert.equal((await store.get("a"))?.status, "published");
+});
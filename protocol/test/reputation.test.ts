@@ -0,0 +1,131 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Provider } from "ethers";
+import { FeedbackStore } from "../src/feedback-store";
+import {
+  AgentIdMismatchError,
+  ERC8004ReputationReader,
+  ReputationUnavailableError,
+  calculateRepFactor,
+  readERC8004,
+} from "../src/reputation";
+import { FeedbackScoreBreakdown, ReviewerBreakdown } from "../src/types";
+
+const ADDRESS = "0x1111111111111111111111111111111111111111";
+
+function reviewer(
+  averageScore: number,
+  influence: number,
+  entries = 1,
+): ReviewerBreakdown {
+  return {
+    clientAddress: ADDRESS,
+    entries,
+    averageScore,
+    entryWeight: entries,
+    reputationWeight: influence,
+    influence,
+  };
+}
+
+function reader(reviewers: ReviewerBreakdown[]): ERC8004ReputationReader {
+  const breakdown: FeedbackScoreBreakdown = {
+    entries: reviewers.reduce((sum, r) => sum + r.entries, 0),
+    counted: reviewers.reduce((sum, r) => sum + r.entries, 0),
+    plainAverage: null,
+    influence: reviewers.reduce((sum, r) => sum + r.influence, 0),
+    score: null,
+    reviewers,
+  };
+  return {
+    getAgentId: async () => 7n,
+    getScoreBreakdown: async () => breakdown,
+    getRegistrationTime: async () => null,
+  } as unknown as ERC8004ReputationReader;
+}
+
+test("completed and failed counts follow reviewer influence", async () => {
+  const inputs = await readERC8004(
+    ADDRESS,
+    reader([reviewer(100, 0.25, 40), reviewer(90, 1), reviewer(10, 0.5)]),
+    { agentId: "7", slashCount: 0 },
+  );
+
+  assert.equal(inputs.totalCompleted, 1.25);
+  assert.equal(inputs.totalFailed, 0.5);
+});
+
+test("a lone unknown reviewer earns no completion bonus", async () => {
+  const inputs = await readERC8004(
+    ADDRESS,
+    reader([reviewer(100, 0.25, 50)]),
+    { agentId: "7", slashCount: 0 },
+  );
+
+  assert.equal(calculateRepFactor(inputs).breakdown.completionBonus, 0);
+});
+
+test("trusted reviewers earn the completion bonus", async () => {
+  const inputs = await readERC8004(
+    ADDRESS,
+    reader([reviewer(95, 1), reviewer(80, 1)]),
+    { agentId: "7", slashCount: 0 },
+  );
+
+  assert.equal(calculateRepFactor(inputs).breakdown.completionBonus, 1);
+});
+
+test("an agentId must be registered to the onboarding address", async () => {
+  const owners: Record<string, string> = { "7": ADDRESS };
+  const identity = new ERC8004ReputationReader(
+    {} as Provider,
+    {} as FeedbackStore,
+  );
+  identity.getAgentAddress = async (agentId) =>
+    owners[agentId.toString()] ?? null;
+  const other = "0x2222222222222222222222222222222222222222";
+
+  await identity.verifyAgentId(ADDRESS, "7");
+  await identity.verifyAgentId(other, "0");
+  for (const [address, agentId] of [
+    [other, "7"],
+    [ADDRESS, "8"],
+    [ADDRESS, "7; drop"],
+  ]) {
+    await assert.rejects(
+      identity.verifyAgentId(address, agentId),
+      AgentIdMismatchError,
+    );
+  }
+});
+
+test("only a registry answer of 0 means no identity", async () => {
+  const identity = new ERC8004ReputationReader(
+    {} as Provider,
+    {} as FeedbackStore,
+  );
+  const answers: Record<string, () => Promise<bigint>> = {
+    [ADDRESS]: async () => 7n,
+    "0x2222222222222222222222222222222222222222": async () => 0n,
+    "0x3333333333333333333333333333333333333333": async () => {
+      throw new Error("could not detect network\n(request details)");
+    },
+  };
+  Object.assign(identity, {
+    identityRegistry: { getAgentId: (address: string) => answers[address]() },
+  });
+
+  assert.equal(await identity.getAgentId(ADDRESS), 7n);
+  assert.equal(
+    await identity.getAgentId("0x2222222222222222222222222222222222222222"),
+    null,
+  );
+  await assert.rejects(
+    identity.getAgentId("0x3333333333333333333333333333333333333333"),
+    (error) =>
+      error instanceof ReputationUnavailableError &&
+      /lookup of 0x3333.* failed: could not detect network$/.test(
+        error.message,
+      ),
+  );
+});
@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Provider } from "ethers";
+import { RiskChain, WalletAgeSignal } from "../src/risk-engine";
+
+const ADDRESS = "0x1111111111111111111111111111111111111111";
+const HEAD = 1000;
+const DAY = 86_400;
+
+// One block per day; the wallet's nonce turns non-zero at firstSent and
+// state before prunedBefore is gone
+function chain(firstSent: number, prunedBefore = 0): RiskChain {
+  const now = Math.floor(Date.now() / 1000);
+  const provider = {
+    getBlockNumber: async () => HEAD,
+    getTransactionCount: async (_address: string, block: number) => {
+      if (block < prunedBefore) throw new Error("missing trie node");
+      return block >= firstSent ? 1 : 0;
+    },
+    getBlock: async (block: number) => ({
+      timestamp: now - (HEAD - block) * DAY,
+    }),
+  } as unknown as Provider;
+  return { name: "Arc", provider, usdcAddress: ADDRESS };
+}
+
+const subject = { address: ADDRESS, agentId: "0" };
+
+test("wallet age comes from the first block with a non-zero nonce", async () => {
+  const reading = await new WalletAgeSignal().read(subject, [chain(820)]);
+
+  assert.equal(reading.value, 180);
+  assert.equal(reading.score, 1);
+  assert.match(reading.detail!, /First transaction on Arc 180 days ago/);
+});
+
+test("without archive state wallet age is a lower bound", async () => {
+  const reading = await new WalletAgeSignal().read(subject, [chain(500, 910)]);
+
+  assert.equal(reading.value, 90);
+  assert.equal(reading.score, 0.5);
+  assert.match(reading.detail!, /at least 90 days/);
+});
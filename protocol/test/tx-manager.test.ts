@@ -0,0 +1,111 @@
+import { mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers, Provider, Wallet } from "ethers";
+import { openDatabase } from "../src/db";
+import { TransactionManager, TxStuckError } from "../src/tx-manager";
+import { SqlitePendingTxStore } from "../src/tx-store";
+import { TxManagerConfig } from "../src/types";
+
+const CONFIG: TxManagerConfig = {
+  pollIntervalSeconds: 0,
+  stuckAfterSeconds: 0,
+  feeBumpBp: 12_500,
+  maxAttempts: 3,
+};
+
+const POOL = "0x1111111111111111111111111111111111111111";
+
+// Progress lines from every poll would flood the test runner's output
+mock.method(console, "log", () => undefined);
+
+// Chain stand-in that accepts every broadcast and never mines one
+function setup(overrides: Record<string, unknown> = {}) {
+  const broadcasts: string[] = [];
+  const provider = {
+    estimateGas: async () => 21_000n,
+    getFeeData: async () => ({
+      maxFeePerGas: 100n,
+      maxPriorityFeePerGas: 10n,
+      gasPrice: null,
+    }),
+    getTransactionCount: async () => 7,
+    getNetwork: async () => ({ chainId: 5042002n }),
+    broadcastTransaction: async (signed: string) => {
+      broadcasts.push(signed);
+    },
+    getTransactionReceipt: async () => null,
+    ...overrides,
+  } as unknown as Provider;
+  const signer = new Wallet(ethers.id("clearing"), provider);
+  const store = new SqlitePendingTxStore(openDatabase(":memory:"));
+  const manager = new TransactionManager(signer, store, CONFIG);
+  return { signer, store, manager, broadcasts };
+}
+
+test("a tx unmined after maxAttempts fails as stuck", async () => {
+  const { signer, store, manager, broadcasts } = setup();
+
+  await assert.rejects(
+    manager.send("borrow", POOL, "0x"),
+    (error: unknown) =>
+      error instanceof TxStuckError &&
+      error.code === "TX_STUCK" &&
+      error.nonce === 7,
+  );
+
+  // Every submission reused nonce 7 with higher fees
+  assert.equal(broadcasts.length, CONFIG.maxAttempts);
+  const sent = broadcasts.map((signed) => ethers.Transaction.from(signed));
+  assert.deepEqual(sent.map((tx) => tx.nonce), [7, 7, 7]);
+  assert.deepEqual(sent.map((tx) => tx.maxFeePerGas), [100n, 125n, 156n]);
+
+  // No longer watched, and the nonce isn't handed out again
+  assert.deepEqual(await store.listPending(signer.address), []);
+  await assert.rejects(manager.send("repay", POOL, "0x"), TxStuckError);
+  assert.equal(ethers.Transaction.from(broadcasts[3]).nonce, 8);
+});
+
+test("a broadcast the node already holds is not sent again", async () => {
+  const known = new Set<string>();
+  const { manager, broadcasts } = setup({
+    // The first copy got through but its response was lost
+    broadcastTransaction: async (signed: string) => {
+      broadcasts.push(signed);
+      known.add(ethers.Transaction.from(signed).hash!);
+      throw new Error("already known");
+    },
+    getTransaction: async (hash: string) => (known.has(hash) ? { hash } : null),
+    getTransactionReceipt: async (hash: string) =>
+      known.has(hash) ? { hash, status: 1 } : null,
+  });
+
+  const receipt = await manager.send("borrow", POOL, "0x");
+
+  assert.equal(broadcasts.length, 1);
+  assert.equal(receipt.hash, ethers.Transaction.from(broadcasts[0]).hash);
+});
+
+test("a nonce used by another transaction is resynced", async () => {
+  let count = 7;
+  const { manager, broadcasts } = setup({
+    getTransactionCount: async () => count,
+    broadcastTransaction: async (signed: string) => {
+      broadcasts.push(signed);
+      if (ethers.Transaction.from(signed).nonce === 7) {
+        count = 8;
+        throw ethers.makeError("nonce too low", "NONCE_EXPIRED", {
+          transaction: {},
+        });
+      }
+    },
+    getTransaction: async () => null,
+    getTransactionReceipt: async (hash: string) => ({ hash, status: 1 }),
+  });
+
+  await manager.send("borrow", POOL, "0x");
+
+  assert.deepEqual(
+    broadcasts.map((signed) => ethers.Transaction.from(signed).nonce),
+    [7, 8],
+  );
+});
@@ -0,0 +1,287 @@
+/**
+ * Bridge Jobs
+ *
+ * Every USDC bridge (Bridge Kit, CCTP) runs as a job kept in a local JSON
+ * file of its own, with each step recorded as Bridge Kit reports it:
+ *   approve -> burn -> fetchAttestation -> mint
+ * so a transfer cut short by a crash or a failed step can be looked up
+ * (bridge-status) and continued from where it stopped (bridge-resume).
+ * Once a burn was sent the job is only ever resumed, never started again:
+ * a second bridge would burn the funds twice.
+ *
+ * Jobs live in CREDEX_BRIDGE_JOBS (default ~/.credex/bridge-jobs/), one
+ * <id>.json per job, so processes sharing the directory (skill scripts,
+ * test-client, test-lp) never overwrite each other's jobs.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { ethers } from "ethers";
+import { BridgeKit, BridgeResult } from "@circle-fin/bridge-kit";
+import {
+  ViemAdapter,
+  resolveChainIdentifier,
+} from "@circle-fin/adapter-viem-v2";
+
+export type BridgeChain = "Arc_Testnet" | "Base_Sepolia";
+
+// pending:   recorded, not started yet
+// bridging:  a process is running it (or stopped while it was)
+// completed: minted on the destination chain
+// failed:    the last run stopped on an error; resume it
+export type BridgeJobStatus = "pending" | "bridging" | "completed" | "failed";
+
+// A Bridge Kit step as a job records it; `At` is how the job keeps times
+export interface RecordedBridgeStep<At = string> {
+  name: string; // approve, burn, fetchAttestation, mint, reAttest
+  state: "pending" | "success" | "error" | "noop";
+  txHash: string | null;
+  explorerUrl: string | null;
+  error: string | null;
+  data?: unknown; // step output a resume needs (attestation)
+  at: At;
+}
+
+export type BridgeJobStep = RecordedBridgeStep<string>;
+
+export interface BridgeJob {
+  id: string;
+  amount: string; // USDC, decimal
+  from: BridgeChain;
+  to: BridgeChain;
+  address: string; // wallet on both chains
+  status: BridgeJobStatus;
+  steps: BridgeJobStep[];
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type BridgeStep = BridgeResult["steps"][number];
+
+// A bridge as Bridge Kit needs it to retry: where it ran and its steps
+export interface RetryableBridge {
+  amount: string; // USDC, decimal
+  from: BridgeChain;
+  to: BridgeChain;
+  address: string; // sender on both chains
+  recipientAddress?: string; // receiver on `to` (default: address)
+  steps: RecordedBridgeStep<unknown>[];
+}
+
+/**
+ * Job directory from CREDEX_BRIDGE_JOBS
+ */
+export function bridgeJobsPath(env: NodeJS.ProcessEnv = process.env): string {
+  return env.CREDEX_BRIDGE_JOBS || join(homedir(), ".credex", "bridge-jobs");
+}
+
+export class BridgeJobStore {
+  readonly dir: string;
+
+  constructor(dir: string = bridgeJobsPath()) {
+    this.dir = dir;
+  }
+
+  /**
+   * Every job, newest first
+   */
+  list(): BridgeJob[] {
+    if (!existsSync(this.dir)) return [];
+    const jobs = readdirSync(this.dir)
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => this.read(join(this.dir, name)));
+    return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  get(id: string): BridgeJob | null {
+    if (!/^[0-9a-f]+$/.test(id)) return null;
+    const file = this.file(id);
+    return existsSync(file) ? this.read(file) : null;
+  }
+
+  save(job: BridgeJob): BridgeJob {
+    const saved = { ...job, updatedAt: new Date().toISOString() };
+
+    // Written aside (per process: saves within one are synchronous) and
+    // renamed, so a crash never leaves half a file
+    mkdirSync(this.dir, { recursive: true });
+    const file = this.file(job.id);
+    const tmp = `${file}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(saved, null, 2));
+    renameSync(tmp, file);
+    return saved;
+  }
+
+  create(input: {
+    amount: string;
+    from: BridgeChain;
+    to: BridgeChain;
+    address: string;
+  }): BridgeJob {
+    const now = new Date().toISOString();
+    return this.save({
+      id: ethers.hexlify(ethers.randomBytes(6)).slice(2),
+      ...input,
+      status: "pending",
+      steps: [],
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  private file(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+
+  private read(file: string): BridgeJob {
+    return JSON.parse(readFileSync(file, "utf8")) as BridgeJob;
+  }
+}
+
+/**
+ * Run a job to the end: a fresh bridge when nothing was sent yet,
+ * otherwise a Bridge Kit retry from the recorded steps (waiting for a
+ * pending transaction, redoing a failed step). Steps are saved as they
+ * are reported; the returned job is completed or failed.
+ */
+export async function runBridgeJob(
+  store: BridgeJobStore,
+  job: BridgeJob,
+  adapter: ViemAdapter,
+  kit: BridgeKit = new BridgeKit(),
+): Promise<BridgeJob> {
+  if (job.status === "completed") return job;
+
+  const resuming = job.steps.length > 0;
+  job = store.save({ ...job, status: "bridging", error: null });
+  kit.on("*", (payload: { method?: string; values?: unknown }) => {
+    const step = payload.values as BridgeStep | undefined;
+    if (!step || !payload.method) return;
+    job = store.save({
+      ...job,
+      steps: mergeBridgeStep(
+        job.steps,
+        payload.method,
+        step,
+        new Date().toISOString(),
+      ),
+    });
+  });
+
+  try {
+    const result = resuming
+      ? await kit.retry(toBridgeResult(job), { from: adapter, to: adapter })
+      : await kit.bridge({
+          from: { adapter, chain: job.from },
+          to: { adapter, chain: job.to },
+          amount: job.amount,
+        });
+
+    let steps = job.steps;
+    for (const step of result.steps) {
+      steps = mergeBridgeStep(steps, step.name, step, new Date().toISOString());
+    }
+    const failed = result.steps.find((step) => step.state === "error");
+    return store.save({
+      ...job,
+      steps,
+      status: result.state === "success" ? "completed" : "failed",
+      error:
+        result.state === "success"
+          ? null
+          : (failed?.errorMessage ?? `Bridge ended ${result.state}`),
+    });
+  } catch (e) {
+    return store.save({
+      ...job,
+      status: "failed",
+      // First line only (viem errors append the request details)
+      error: String(e instanceof Error ? e.message : e).split("\n")[0],
+    });
+  }
+}
+
+/**
+ * Job as shown to users and agents (without step data)
+ */
+export function describeBridgeJob(job: BridgeJob): Record<string, unknown> {
+  const burn = job.steps.find((step) => step.name === "burn");
+  return {
+    id: job.id,
+    status: job.status,
+    amount: job.amount,
+    from: job.from,
+    to: job.to,
+    // Sent burns mean the funds left the source chain
+    burned: Boolean(burn?.txHash && burn.state !== "error"),
+    steps: job.steps.map(({ data, ...step }) => step),
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+/**
+ * Steps with one more as Bridge Kit reported it: replaces the step of the
+ * same name or is appended
+ */
+export function mergeBridgeStep<At>(
+  steps: RecordedBridgeStep<At>[],
+  name: string,
+  step: BridgeStep,
+  at: At,
+): RecordedBridgeStep<At>[] {
+  const next: RecordedBridgeStep<At> = {
+    name,
+    state: step.state,
+    txHash: step.txHash ?? null,
+    explorerUrl: step.explorerUrl ?? null,
+    error: step.errorMessage ?? null,
+    data: step.data,
+    at,
+  };
+  const index = steps.findIndex((existing) => existing.name === name);
+  if (index === -1) return [...steps, next];
+  // A noop retry of a finished step keeps the original record
+  if (step.state === "noop" && steps[index].state === "success") return steps;
+  return steps.map((existing, i) => (i === index ? next : existing));
+}
+
+/**
+ * Bridge result Bridge Kit can retry from, rebuilt from the recorded steps
+ */
+export function toBridgeResult(bridge: RetryableBridge): BridgeResult {
+  return {
+    amount: bridge.amount,
+    token: "USDC",
+    state: "error",
+    provider: "CCTPV2BridgingProvider",
+    source: {
+      address: bridge.address,
+      chain: resolveChainIdentifier(bridge.from),
+    },
+    destination: {
+      address: bridge.address,
+      chain: resolveChainIdentifier(bridge.to),
+      recipientAddress: bridge.recipientAddress,
+    },
+    steps: bridge.steps.map((step) => ({
+      name: step.name,
+      state: step.state,
+      txHash: step.txHash ?? undefined,
+      explorerUrl: step.explorerUrl ?? undefined,
+      errorMessage: step.error ?? undefined,
+      data: step.data,
+    })),
+  };
+}
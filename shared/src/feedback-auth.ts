@@ -0,0 +1,122 @@
+/**
+ * ERC-8004 Feedback Authorization
+ *
+ * The Reputation Registry only accepts giveFeedback from a client the
+ * agent has authorized: feedbackAuth is the ABI-encoded tuple
+ *   (agentId, clientAddress, indexLimit, expiry, chainId,
+ *    identityRegistry, signerAddress)
+ * followed by the agent owner's 65-byte signature (EIP-191) over its
+ * keccak256. It stays valid for that client until expiry, or until the
+ * client's feedback index for the agent reaches indexLimit.
+ *
+ * The clearing agent serves the terms it needs (GET /feedback-auth/:agentId);
+ * the borrower signs them here and posts the result back.
+ */
+
+import { AbiCoder, BigNumberish, ethers, Signer } from "ethers";
+
+export interface FeedbackAuth {
+  agentId: BigNumberish;
+  clientAddress: string; // feedback sender being authorized
+  indexLimit: BigNumberish; // client's feedback index must stay below this
+  expiry: BigNumberish; // unix seconds
+  chainId: BigNumberish; // Reputation Registry chain
+  identityRegistry: string;
+  signerAddress: string; // agent owner
+}
+
+// Terms a client asks the agent to sign (the agent adds signerAddress)
+export type FeedbackAuthTerms = Omit<FeedbackAuth, "signerAddress">;
+
+export interface DecodedFeedbackAuth extends FeedbackAuth {
+  agentId: bigint;
+  indexLimit: bigint;
+  expiry: bigint;
+  chainId: bigint;
+}
+
+const FEEDBACK_AUTH_TUPLE = [
+  "uint256",
+  "address",
+  "uint64",
+  "uint256",
+  "uint256",
+  "address",
+  "address",
+];
+
+const ENCODED_LENGTH = FEEDBACK_AUTH_TUPLE.length * 32;
+const SIGNATURE_LENGTH = 65;
+
+function encodeTuple(auth: FeedbackAuth): string {
+  return AbiCoder.defaultAbiCoder().encode(FEEDBACK_AUTH_TUPLE, [
+    auth.agentId,
+    auth.clientAddress,
+    auth.indexLimit,
+    auth.expiry,
+    auth.chainId,
+    auth.identityRegistry,
+    auth.signerAddress,
+  ]);
+}
+
+/**
+ * Sign terms as the agent owner; returns the feedbackAuth bytes
+ */
+export async function signFeedbackAuth(
+  signer: Signer,
+  terms: FeedbackAuthTerms,
+): Promise<string> {
+  const encoded = encodeTuple({
+    ...terms,
+    signerAddress: await signer.getAddress(),
+  });
+  const signature = await signer.signMessage(
+    ethers.getBytes(ethers.keccak256(encoded)),
+  );
+  return ethers.concat([encoded, signature]);
+}
+
+/**
+ * Decode feedbackAuth bytes and recover who signed them. Throws on
+ * malformed input; the caller checks the recovered signer and terms.
+ */
+export function decodeFeedbackAuth(feedbackAuth: string): {
+  auth: DecodedFeedbackAuth;
+  recoveredSigner: string;
+} {
+  const bytes = ethers.getBytes(feedbackAuth);
+  if (bytes.length !== ENCODED_LENGTH + SIGNATURE_LENGTH) {
+    throw new Error(
+      `feedbackAuth must be ${ENCODED_LENGTH + SIGNATURE_LENGTH} bytes, got ${bytes.length}`,
+    );
+  }
+
+  const encoded = ethers.hexlify(bytes.slice(0, ENCODED_LENGTH));
+  const [
+    agentId,
+    clientAddress,
+    indexLimit,
+    expiry,
+    chainId,
+    identityRegistry,
+    signerAddress,
+  ] = AbiCoder.defaultAbiCoder().decode(FEEDBACK_AUTH_TUPLE, encoded);
+  const recoveredSigner = ethers.verifyMessage(
+    ethers.getBytes(ethers.keccak256(encoded)),
+    ethers.hexlify(bytes.slice(ENCODED_LENGTH)),
+  );
+
+  return {
+    auth: {
+      agentId,
+      clientAddress,
+      indexLimit,
+      expiry,
+      chainId,
+      identityRegistry,
+      signerAddress,
+    },
+    recoveredSigner,
+  };
+}
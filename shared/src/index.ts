@@ -0,0 +1,5 @@
+export * from "./networks";
+export * from "./providers";
+export * from "./signer";
+export * from "./bridge-jobs";
+export * from "./feedback-auth";
@@ -0,0 +1,220 @@
+/**
+ * Network Profiles
+ *
+ * The one place chain ids, RPC endpoints and contract addresses are
+ * written down. Every package picks a profile by name:
+ *   arc-testnet   Arc Testnet (5042002), native USDC, the live pool
+ *   base-sepolia  Base Sepolia (84532), Circle USDC, ERC-8004 registries
+ *   local         Anvil (31337), MockUSDC + pool from script/Deploy.s.sol
+ * selected with `--network <name>` or CREDEX_NETWORK (default arc-testnet).
+ *
+ * The pool address is resolved, first match wins, from:
+ * 1. an explicit override (CREDEX_POOL_ADDRESS)
+ * 2. the newest Foundry broadcast that created a CredexPool on the
+ *    profile's chain: contracts/broadcast/<script>/<chainId>/run-latest.json
+ *    (found by walking up from the working directory, or CREDEX_BROADCAST_DIR)
+ * 3. the address pinned in the profile
+ * USDC follows the same order, reading the pool's constructor argument
+ * from the broadcast.
+ *
+ * Imported from credex-shared by the protocol, the skill scripts,
+ * test-client and test-lp.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { dirname, join } from "path";
+
+export type NetworkName = "arc-testnet" | "base-sepolia" | "local";
+
+export interface NetworkProfile {
+  name: NetworkName;
+  chainId: number;
+  rpcUrls: string[];
+  usdcAddress: string | null; // null: deployed with the pool (MockUSDC)
+  poolAddress: string | null; // null: only known from a broadcast
+  explorerUrl: string | null;
+  bridgeChain: "Arc_Testnet" | "Base_Sepolia" | null; // Bridge Kit chain id
+}
+
+export const NETWORKS: Record<NetworkName, NetworkProfile> = {
+  "arc-testnet": {
+    name: "arc-testnet",
+    chainId: 5042002,
+    rpcUrls: ["https://rpc.testnet.arc.network"],
+    usdcAddress: "0x3600000000000000000000000000000000000000",
+    poolAddress: "0x32239e52534c0b7e525fb37ed7b8d1912f263ad3",
+    explorerUrl: "https://testnet.arcscan.app",
+    bridgeChain: "Arc_Testnet",
+  },
+  "base-sepolia": {
+    name: "base-sepolia",
+    chainId: 84532,
+    rpcUrls: ["https://sepolia.base.org"],
+    usdcAddress: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    poolAddress: "0x25111a9f45d4dc8cb9f9aa2b9e986dfb854b9f97",
+    explorerUrl: "https://sepolia.basescan.org",
+    bridgeChain: "Base_Sepolia",
+  },
+  local: {
+    name: "local",
+    chainId: 31337,
+    rpcUrls: ["http://127.0.0.1:8545"],
+    usdcAddress: null,
+    poolAddress: null,
+    explorerUrl: null,
+    bridgeChain: null,
+  },
+};
+
+export const DEFAULT_NETWORK: NetworkName = "arc-testnet";
+
+// CredexPool created by a Foundry script run
+export interface Deployment {
+  poolAddress: string;
+  usdcAddress: string | null; // constructor argument
+  deployBlock: number | null; // null when the receipt wasn't recorded
+  file: string;
+}
+
+export interface ResolvedNetwork extends NetworkProfile {
+  poolAddress: string | null; // still null when nothing provided one
+  usdcAddress: string | null;
+  deployment: Deployment | null;
+  poolSource: "override" | "broadcast" | "profile" | null;
+}
+
+export interface NetworkOverrides {
+  rpcUrls?: string[];
+  poolAddress?: string;
+  usdcAddress?: string;
+  broadcastDir?: string;
+}
+
+/**
+ * Pull `--network <name>` / `--network=<name>` out of CLI arguments
+ */
+export function parseNetworkFlag(args: string[]): {
+  network: string | undefined;
+  args: string[];
+} {
+  const rest: string[] = [];
+  let network: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--network") {
+      network = args[++i];
+    } else if (args[i].startsWith("--network=")) {
+      network = args[i].slice("--network=".length);
+    } else {
+      rest.push(args[i]);
+    }
+  }
+  return { network, args: rest };
+}
+
+/**
+ * Profile name from --network, then CREDEX_NETWORK, then the default
+ */
+export function selectNetwork(
+  args: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+): NetworkName {
+  const name = parseNetworkFlag(args).network || env.CREDEX_NETWORK;
+  if (!name) return DEFAULT_NETWORK;
+  if (!(name in NETWORKS)) {
+    throw new Error(
+      `Unknown network "${name}" (expected ${Object.keys(NETWORKS).join(", ")})`,
+    );
+  }
+  return name as NetworkName;
+}
+
+/**
+ * Profile with overrides applied and the pool / USDC addresses resolved
+ */
+export function resolveNetwork(
+  name: NetworkName,
+  overrides: NetworkOverrides = {},
+): ResolvedNetwork {
+  const profile = NETWORKS[name];
+  const deployment = findDeployment(profile.chainId, overrides.broadcastDir);
+
+  const poolAddress =
+    overrides.poolAddress || deployment?.poolAddress || profile.poolAddress;
+  const poolSource = overrides.poolAddress
+    ? "override"
+    : deployment
+      ? "broadcast"
+      : profile.poolAddress
+        ? "profile"
+        : null;
+
+  return {
+    ...profile,
+    rpcUrls:
+      overrides.rpcUrls && overrides.rpcUrls.length > 0
+        ? overrides.rpcUrls
+        : profile.rpcUrls,
+    poolAddress,
+    usdcAddress:
+      overrides.usdcAddress || deployment?.usdcAddress || profile.usdcAddress,
+    deployment,
+    poolSource,
+  };
+}
+
+/**
+ * Newest CredexPool deployment on chainId in a Foundry broadcast
+ * directory (searched for when not given). Null when there is none.
+ */
+export function findDeployment(
+  chainId: number,
+  broadcastDir: string | undefined = findBroadcastDir(),
+): Deployment | null {
+  if (!broadcastDir || !existsSync(broadcastDir)) return null;
+
+  let newest: { deployment: Deployment; timestamp: number } | null = null;
+  for (const script of readdirSync(broadcastDir)) {
+    const file = join(broadcastDir, script, String(chainId), "run-latest.json");
+    if (!existsSync(file)) continue;
+
+    let run: any;
+    try {
+      run = JSON.parse(readFileSync(file, "utf8"));
+    } catch {
+      continue; // half-written by a running forge script
+    }
+    const create = (run.transactions ?? []).find(
+      (tx: any) =>
+        tx.transactionType === "CREATE" && tx.contractName === "CredexPool",
+    );
+    if (!create?.contractAddress) continue;
+
+    const receipt = (run.receipts ?? []).find(
+      (r: any) => r.transactionHash === create.hash,
+    );
+    const timestamp = Number(run.timestamp ?? 0);
+    if (newest && newest.timestamp >= timestamp) continue;
+    newest = {
+      timestamp,
+      deployment: {
+        poolAddress: create.contractAddress,
+        usdcAddress: create.arguments?.[0] ?? null,
+        deployBlock: receipt?.blockNumber ? Number(receipt.blockNumber) : null,
+        file,
+      },
+    };
+  }
+  return newest?.deployment ?? null;
+}
+
+/**
+ * contracts/broadcast in the working directory or one of its parents
+ */
+function findBroadcastDir(): string | undefined {
+  if (process.env.CREDEX_BROADCAST_DIR) return process.env.CREDEX_BROADCAST_DIR;
+  for (let dir = process.cwd(); ; dir = dirname(dir)) {
+    const candidate = join(dir, "contracts", "broadcast");
+    if (existsSync(candidate)) return candidate;
+    if (dirname(dir) === dir) return undefined;
+  }
+}
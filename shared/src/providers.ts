@@ -0,0 +1,250 @@
+/**
+ * RPC Providers
+ *
+ * Every JSON-RPC connection is built here, so one flaky endpoint can't
+ * take down status reads, borrows or bridging:
+ * - each endpoint retries transient failures (network errors, timeouts,
+ *   HTTP 429 / 5xx, rate-limit RPC errors) with exponential backoff,
+ *   except transaction broadcasts: a first copy may have reached the node,
+ *   so the sender decides what to do (see tx-manager.ts in the protocol)
+ * - several endpoints for a chain are combined in an ethers
+ *   FallbackProvider: quorum 1 fails over in the order given, a higher
+ *   quorum makes that many endpoints agree on every read
+ * - per-endpoint health (requests, failures, latency, last error) is kept
+ *   for status reporting (getEndpointHealth)
+ *
+ * Endpoints are configured as a comma-separated list, e.g.
+ *   RPC_URL=https://rpc-a.example,https://rpc-b.example
+ * and the shared settings come from RPC_QUORUM, RPC_RETRIES,
+ * RPC_RETRY_BACKOFF_MS and RPC_STALL_TIMEOUT_MS (rpcOptionsFromEnv).
+ *
+ * Imported from credex-shared by the protocol, the skill scripts,
+ * test-client and test-lp.
+ */
+
+import {
+  FallbackProvider,
+  JsonRpcError,
+  JsonRpcPayload,
+  JsonRpcProvider,
+  JsonRpcResult,
+  Networkish,
+  Provider,
+  isError,
+} from "ethers";
+
+export interface RpcOptions {
+  quorum: number; // endpoints that must agree on a read (1 = failover)
+  retries: number; // extra attempts per request on one endpoint
+  backoffMs: number; // first retry delay, doubled on every attempt
+  stallTimeoutMs: number; // wait for an endpoint before also asking the next
+}
+
+export const DEFAULT_RPC_OPTIONS: RpcOptions = {
+  quorum: 1,
+  retries: 3,
+  backoffMs: 250,
+  stallTimeoutMs: 2000,
+};
+
+export interface EndpointHealth {
+  url: string;
+  healthy: boolean; // last request succeeded
+  requests: number;
+  failures: number; // failed attempts, retries included
+  consecutiveFailures: number;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null; // unix seconds
+}
+
+/**
+ * Endpoint list from a comma-separated value (or the default when empty)
+ */
+export function parseRpcUrls(
+  value: string | undefined,
+  defaultUrl: string,
+): string[] {
+  return (value || defaultUrl)
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Retry / failover settings from RPC_* variables
+ */
+export function rpcOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): RpcOptions {
+  const number = (value: string | undefined, fallback: number) =>
+    value ? parseInt(value) : fallback;
+  return {
+    quorum: number(env.RPC_QUORUM, DEFAULT_RPC_OPTIONS.quorum),
+    retries: number(env.RPC_RETRIES, DEFAULT_RPC_OPTIONS.retries),
+    backoffMs: number(env.RPC_RETRY_BACKOFF_MS, DEFAULT_RPC_OPTIONS.backoffMs),
+    stallTimeoutMs: number(
+      env.RPC_STALL_TIMEOUT_MS,
+      DEFAULT_RPC_OPTIONS.stallTimeoutMs,
+    ),
+  };
+}
+
+// Endpoints behind each provider createProvider returned
+const endpoints = new WeakMap<Provider, RetryingJsonRpcProvider[]>();
+
+/**
+ * Provider over one or more endpoints of the same chain
+ */
+export function createProvider(
+  urls: string[],
+  options: RpcOptions = DEFAULT_RPC_OPTIONS,
+  network?: Networkish,
+): Provider {
+  if (urls.length === 0) throw new Error("No RPC endpoint configured");
+
+  const members = urls.map(
+    (url) => new RetryingJsonRpcProvider(url, options, network),
+  );
+  const provider =
+    members.length === 1
+      ? members[0]
+      : new FallbackProvider(
+          members.map((member, index) => ({
+            provider: member,
+            priority: index + 1, // earlier URLs are asked first
+            stallTimeout: options.stallTimeoutMs,
+            weight: 1,
+          })),
+          network,
+          { quorum: Math.min(options.quorum, members.length) },
+        );
+  endpoints.set(provider, members);
+  return provider;
+}
+
+/**
+ * Health of each endpoint behind a createProvider() provider
+ */
+export function getEndpointHealth(provider: Provider): EndpointHealth[] {
+  return (endpoints.get(provider) ?? []).map((member) => ({
+    ...member.health,
+  }));
+}
+
+/**
+ * JsonRpcProvider that retries transient transport failures
+ */
+export class RetryingJsonRpcProvider extends JsonRpcProvider {
+  readonly health: EndpointHealth;
+  private retries: number;
+  private backoffMs: number;
+
+  constructor(url: string, options: RpcOptions, network?: Networkish) {
+    super(url, network);
+    this.retries = options.retries;
+    this.backoffMs = options.backoffMs;
+    this.health = {
+      url,
+      healthy: true,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      lastLatencyMs: null,
+      lastError: null,
+      lastErrorAt: null,
+    };
+  }
+
+  async _send(
+    payload: JsonRpcPayload | Array<JsonRpcPayload>,
+  ): Promise<Array<JsonRpcResult>> {
+    this.health.requests++;
+    const retries = (Array.isArray(payload) ? payload : [payload]).some(
+      (request) => NOT_RETRIED.includes(request.method),
+    )
+      ? 0
+      : this.retries;
+
+    for (let attempt = 0; ; attempt++) {
+      const started = Date.now();
+      try {
+        const results = await super._send(payload);
+        // Rate limits sometimes arrive as an RPC error in a 200 response
+        const limited = (results as Array<JsonRpcResult | JsonRpcError>).find(
+          (result) => "error" in result && isRateLimit(result.error),
+        ) as JsonRpcError | undefined;
+        if (limited) {
+          throw new RateLimitError(limited.error.message ?? "rate limited");
+        }
+
+        this.health.healthy = true;
+        this.health.consecutiveFailures = 0;
+        this.health.lastLatencyMs = Date.now() - started;
+        return results;
+      } catch (error) {
+        this.health.healthy = false;
+        this.health.failures++;
+        this.health.consecutiveFailures++;
+        this.health.lastError =
+          error instanceof Error ? error.message : String(error);
+        this.health.lastErrorAt = Math.floor(Date.now() / 1000);
+
+        if (attempt >= retries || !isTransient(error)) throw error;
+        await sleep(this.backoffMs * 2 ** attempt);
+      }
+    }
+  }
+}
+
+// --- Private helpers ---
+
+// Not idempotent: a retry after a lost response reports "already known"
+// or "nonce too low" for a transaction that is actually pending
+const NOT_RETRIED = ["eth_sendRawTransaction"];
+
+class RateLimitError extends Error {
+  constructor(message: string) {
+    super(`RPC rate limited: ${message}`);
+    this.name = "RateLimitError";
+  }
+}
+
+function isRateLimit(error: { code: number; message?: string }): boolean {
+  return (
+    error.code === -32005 ||
+    error.code === 429 ||
+    /rate limit|too many requests/i.test(error.message ?? "")
+  );
+}
+
+// Socket-level failures Node reports before any HTTP response
+const TRANSIENT_SOCKET_ERRORS = [
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+];
+
+function isTransient(error: unknown): boolean {
+  if (error instanceof RateLimitError) return true;
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === "string" && TRANSIENT_SOCKET_ERRORS.includes(code)) {
+    return true;
+  }
+  if (isError(error, "TIMEOUT") || isError(error, "NETWORK_ERROR")) {
+    return true;
+  }
+  if (isError(error, "SERVER_ERROR")) {
+    // No response at all (connection refused / reset) or an overloaded server
+    const status = (error as { response?: { statusCode: number } }).response
+      ?.statusCode;
+    return status === undefined || status === 429 || status >= 500;
+  }
+  return false;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
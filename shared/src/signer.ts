@@ -0,0 +1,409 @@
+/**
+ * Signers
+ *
+ * One factory for every key Credex signs with: the clearing agent's key
+ * and the wallets of the skill scripts, test-client and test-lp. A key
+ * comes from one backend:
+ * - private-key: raw hex key; local development only
+ * - keystore:    encrypted JSON keystore (geth / `cast wallet import`
+ *                format), passphrase read from a file or prompted on the TTY
+ * - remote:      an HTTP signer that holds the key and never releases it
+ *                (protocol/src/remote-signer.ts is a reference server)
+ * and yields an ethers Signer with a known address, plus a Bridge Kit
+ * adapter signing with it (createBridgeAdapter).
+ *
+ * Wallets pick the backend from (exactly one may be set):
+ *   WALLET_PRIVATE_KEY                 Raw hex key (local development only)
+ *   WALLET_KEYSTORE                    Encrypted JSON keystore; passphrase
+ *   WALLET_KEYSTORE_PASSWORD_FILE      from this file or prompted on the TTY
+ *   WALLET_REMOTE_SIGNER_URL           Remote signer that holds the key
+ *   WALLET_REMOTE_SIGNER_TOKEN         Bearer token for it
+ * The clearing agent and the reference remote signer read their own
+ * variables into the same sources (resolveSignerConfig).
+ *
+ * Remote signer protocol (JSON over HTTP, Authorization: Bearer <token>):
+ *   GET  /address                          -> { address }
+ *   POST /sign/transaction { transaction } -> { signedTransaction }
+ *        transaction: unsigned serialized tx (hex)
+ *   POST /sign/message { message }         -> { signature }
+ *        message: bytes to sign with the EIP-191 prefix (hex)
+ *   POST /sign/typed-data { domain, types, value } -> { signature }
+ *        bigint fields as decimal strings; types without EIP712Domain
+ * Failures are a non-2xx status with { error }.
+ */
+
+import { readFileSync } from "fs";
+import { createInterface } from "readline";
+import { Writable } from "stream";
+import {
+  ethers,
+  AbstractSigner,
+  Provider,
+  Signer,
+  Transaction,
+  TransactionLike,
+  TransactionRequest,
+  TypedDataDomain,
+  TypedDataField,
+  Wallet,
+  resolveAddress,
+} from "ethers";
+import {
+  ViemAdapter,
+  resolveChainIdentifier,
+} from "@circle-fin/adapter-viem-v2";
+import {
+  Chain,
+  createPublicClient,
+  createWalletClient,
+  fallback,
+  http,
+  Hex,
+  PublicClient,
+  Transport,
+} from "viem";
+import { LocalAccount, privateKeyToAccount, toAccount } from "viem/accounts";
+import { DEFAULT_RPC_OPTIONS, RpcOptions } from "./providers";
+
+export type SignerConfig =
+  | { backend: "private-key"; privateKey: string }
+  | { backend: "keystore"; path: string; passwordFile?: string }
+  | { backend: "remote"; url: string; token?: string };
+
+/**
+ * Signer whose address is known without a round trip
+ */
+export interface AddressedSigner extends Signer {
+  readonly address: string;
+  connect(provider: Provider | null): AddressedSigner;
+}
+
+// Where a key may come from; whoever reads the settings fills these in
+export interface SignerSources {
+  privateKey?: string;
+  keystore?: string;
+  keystorePasswordFile?: string;
+  remoteSignerUrl?: string;
+  remoteSignerToken?: string;
+}
+
+/**
+ * Pick the backend from whichever source is set (exactly one must be).
+ * `settings` names them in the error, e.g. the variables they come from.
+ */
+export function resolveSignerConfig(
+  sources: SignerSources,
+  settings?: string,
+): SignerConfig {
+  const configs: SignerConfig[] = [];
+  if (sources.privateKey) {
+    configs.push({ backend: "private-key", privateKey: sources.privateKey });
+  }
+  if (sources.keystore) {
+    configs.push({
+      backend: "keystore",
+      path: sources.keystore,
+      passwordFile: sources.keystorePasswordFile || undefined,
+    });
+  }
+  if (sources.remoteSignerUrl) {
+    configs.push({
+      backend: "remote",
+      url: sources.remoteSignerUrl,
+      token: sources.remoteSignerToken || undefined,
+    });
+  }
+
+  if (configs.length !== 1) {
+    const message =
+      configs.length === 0
+        ? "No signer configured: set a private key, a keystore or a remote signer URL"
+        : `Several signers configured (${configs.map((c) => c.backend).join(", ")}); set only one`;
+    throw new Error(settings ? `${message} (${settings})` : message);
+  }
+  return configs[0];
+}
+
+/**
+ * Backend from the WALLET_* variables (exactly one must be set)
+ */
+export function signerConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): SignerConfig {
+  return resolveSignerConfig(
+    {
+      privateKey: env.WALLET_PRIVATE_KEY,
+      keystore: env.WALLET_KEYSTORE,
+      keystorePasswordFile: env.WALLET_KEYSTORE_PASSWORD_FILE,
+      remoteSignerUrl: env.WALLET_REMOTE_SIGNER_URL,
+      remoteSignerToken: env.WALLET_REMOTE_SIGNER_TOKEN,
+    },
+    "WALLET_PRIVATE_KEY, WALLET_KEYSTORE or WALLET_REMOTE_SIGNER_URL",
+  );
+}
+
+export async function loadSigner(
+  config: SignerConfig,
+  provider: Provider | null = null,
+): Promise<AddressedSigner> {
+  switch (config.backend) {
+    case "private-key":
+      return new Wallet(config.privateKey, provider);
+    case "keystore": {
+      const json = readFileSync(config.path, "utf8");
+      const password = config.passwordFile
+        ? readFileSync(config.passwordFile, "utf8").replace(/\r?\n$/, "")
+        : await promptPassword(`🔐 Passphrase for ${config.path}: `);
+      const wallet = await Wallet.fromEncryptedJson(json, password);
+      return new Wallet(wallet.privateKey, provider);
+    }
+    case "remote":
+      return RemoteSigner.connectTo(config.url, config.token, provider);
+  }
+}
+
+/**
+ * Read a line from the terminal without echoing it (prompt on stderr so
+ * JSON output on stdout stays clean)
+ */
+export function promptPassword(prompt: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    return Promise.reject(
+      new Error("No TTY to prompt for the keystore passphrase; use a file"),
+    );
+  }
+
+  return new Promise((resolve) => {
+    // Passes the prompt through, then drops the echoed keystrokes
+    let muted = false;
+    const output = new Writable({
+      write(chunk, _encoding, callback) {
+        if (!muted) process.stderr.write(chunk);
+        callback();
+      },
+    });
+    const rl = createInterface({ input: process.stdin, output, terminal: true });
+    rl.question(prompt, (answer) => {
+      rl.close();
+      process.stderr.write("\n");
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+/**
+ * Bridge Kit adapter signing with the given signer. Raw keys become a
+ * viem private-key account; other backends (or a null config) sign
+ * through a viem account that delegates to the signer. rpcUrls (by chain
+ * id) are failed over in order with the same retry settings as the ethers
+ * providers; chains without any use viem's default RPC.
+ */
+export function createBridgeAdapter(
+  config: SignerConfig | null,
+  signer: AddressedSigner,
+  rpcUrls: Record<number, string[]> = {},
+  rpcOptions: RpcOptions = DEFAULT_RPC_OPTIONS,
+): ViemAdapter {
+  const account = bridgeAccount(config, signer);
+  const transport = (chain: Chain): Transport => {
+    const options = {
+      retryCount: rpcOptions.retries,
+      retryDelay: rpcOptions.backoffMs,
+    };
+    const urls = rpcUrls[chain.id] ?? [];
+    return urls.length > 0
+      ? fallback(urls.map((url) => http(url, options)))
+      : http(undefined, options);
+  };
+
+  return new ViemAdapter(
+    {
+      getPublicClient: ({ chain }) =>
+        createPublicClient({
+          chain,
+          transport: transport(chain),
+        }) as PublicClient,
+      getWalletClient: ({ chain }) =>
+        createWalletClient({ account, chain, transport: transport(chain) }),
+    },
+    {
+      addressContext: "user-controlled",
+      supportedChains: [
+        resolveChainIdentifier("Arc_Testnet"),
+        resolveChainIdentifier("Base_Sepolia"),
+      ],
+    },
+  );
+}
+
+function bridgeAccount(
+  config: SignerConfig | null,
+  signer: AddressedSigner,
+): LocalAccount {
+  if (config?.backend === "private-key") {
+    const key = config.privateKey.startsWith("0x")
+      ? config.privateKey
+      : `0x${config.privateKey}`;
+    return privateKeyToAccount(key as Hex);
+  }
+
+  return toAccount({
+    address: signer.address as Hex,
+    signMessage: async ({ message }) =>
+      (await signer.signMessage(
+        typeof message === "string" ? message : ethers.getBytes(message.raw),
+      )) as Hex,
+    signTransaction: async (transaction, options) => {
+      const serializer = options?.serializer;
+      if (!serializer) throw new Error("Transaction serializer required");
+      const unsigned = Transaction.from(await serializer(transaction));
+      return (await signer.signTransaction(unsigned.toJSON())) as Hex;
+    },
+    signTypedData: async (typedData) => {
+      const { domain, types, message } = typedData as any;
+      const { EIP712Domain, ...fields } = types;
+      return (await signer.signTypedData(domain ?? {}, fields, message)) as Hex;
+    },
+  });
+}
+
+// How long a remote signer may take to answer before a request fails
+const REQUEST_TIMEOUT_MS = 30_000;
+
+/**
+ * Signer backed by a remote signing service
+ */
+export class RemoteSigner extends AbstractSigner implements AddressedSigner {
+  readonly address: string;
+  private url: string;
+  private token: string | undefined;
+
+  constructor(
+    url: string,
+    address: string,
+    token?: string,
+    provider: Provider | null = null,
+  ) {
+    super(provider);
+    this.url = url.replace(/\/$/, "");
+    this.address = ethers.getAddress(address);
+    this.token = token;
+  }
+
+  /**
+   * Ask the service which address it signs for
+   */
+  static async connectTo(
+    url: string,
+    token?: string,
+    provider: Provider | null = null,
+  ): Promise<RemoteSigner> {
+    const probe = new RemoteSigner(url, ethers.ZeroAddress, token);
+    const { address } = await probe.request("GET", "/address");
+    return new RemoteSigner(url, address, token, provider);
+  }
+
+  connect(provider: Provider | null): RemoteSigner {
+    return new RemoteSigner(this.url, this.address, this.token, provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    // Resolve names the way BaseWallet does before serializing
+    const to = tx.to ? await resolveAddress(tx.to, this.provider) : null;
+    const from = tx.from ? await resolveAddress(tx.from, this.provider) : null;
+    if (from && ethers.getAddress(from) !== this.address) {
+      throw new Error(
+        `Transaction from ${from} does not match ${this.address}`,
+      );
+    }
+
+    const unsigned = Transaction.from({
+      ...tx,
+      to,
+      from: undefined,
+    } as TransactionLike<string>);
+    const { signedTransaction } = await this.request(
+      "POST",
+      "/sign/transaction",
+      { transaction: unsigned.unsignedSerialized },
+    );
+
+    // Refuse a signature over anything but what was asked for
+    const signed = Transaction.from(signedTransaction);
+    if (
+      signed.from !== this.address ||
+      signed.unsignedHash !== unsigned.unsignedHash
+    ) {
+      throw new Error("Remote signer returned a different transaction");
+    }
+    return signed.serialized;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const bytes =
+      typeof message === "string" ? ethers.toUtf8Bytes(message) : message;
+    const { signature } = await this.request("POST", "/sign/message", {
+      message: ethers.hexlify(bytes),
+    });
+    if (ethers.verifyMessage(bytes, signature) !== this.address) {
+      throw new Error("Remote signer returned a signature for another key");
+    }
+    return signature;
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>,
+  ): Promise<string> {
+    const { signature } = await this.request("POST", "/sign/typed-data", {
+      domain,
+      types,
+      value,
+    });
+    if (
+      ethers.verifyTypedData(domain, types, value, signature) !== this.address
+    ) {
+      throw new Error("Remote signer returned a signature for another key");
+    }
+    return signature;
+  }
+
+  // --- Private helpers ---
+
+  private async request(method: string, path: string, body?: object) {
+    const response = await fetch(`${this.url}${path}`, {
+      method,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: body
+        ? JSON.stringify(body, (_, v) =>
+            typeof v === "bigint" ? v.toString() : v,
+          )
+        : undefined,
+    }).catch((error: unknown) => {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new Error(
+          `Remote signer ${path} did not answer within ${REQUEST_TIMEOUT_MS / 1000}s`,
+        );
+      }
+      throw error;
+    });
+
+    const data = (await response.json().catch(() => ({}))) as any;
+    if (!response.ok) {
+      throw new Error(
+        `Remote signer ${path} failed (${response.status}): ${data.error ?? response.statusText}`,
+      );
+    }
+    return data;
+  }
+}
@@ -0,0 +1,226 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BridgeKit, BridgeResult } from "@circle-fin/bridge-kit";
+import { ViemAdapter } from "@circle-fin/adapter-viem-v2";
+import {
+  BridgeJob,
+  BridgeJobStore,
+  describeBridgeJob,
+  runBridgeJob,
+} from "../src/bridge-jobs";
+
+type BridgeStep = BridgeResult["steps"][number];
+
+const ADDRESS = "0x1111111111111111111111111111111111111111";
+const ADAPTER = {} as ViemAdapter;
+const ATTESTATION = { message: "0xabcd", attestation: "0x1234" };
+
+// Bridge Kit stand-in: reports `events` like the real kit, then settles
+// with `steps`; records how it was called
+type KitEvent = { method?: string; values?: unknown };
+
+class FakeKit {
+  calls: { method: "bridge" | "retry"; arg: unknown }[] = [];
+  private handler: ((payload: KitEvent) => void) | null = null;
+
+  constructor(
+    private events: BridgeStep[],
+    private steps: BridgeStep[],
+    private state: BridgeResult["state"] = "success",
+  ) {}
+
+  on(_action: string, handler: (payload: KitEvent) => void): void {
+    this.handler = handler;
+  }
+
+  async bridge(params: unknown): Promise<BridgeResult> {
+    this.calls.push({ method: "bridge", arg: params });
+    return this.settle();
+  }
+
+  async retry(result: BridgeResult): Promise<BridgeResult> {
+    this.calls.push({ method: "retry", arg: result });
+    return this.settle();
+  }
+
+  private settle(): BridgeResult {
+    for (const step of this.events) {
+      this.handler?.({ method: step.name, values: step });
+    }
+    return { state: this.state, steps: this.steps } as BridgeResult;
+  }
+
+  asKit(): BridgeKit {
+    return this as unknown as BridgeKit;
+  }
+}
+
+function newStore(): BridgeJobStore {
+  const dir = mkdtempSync(join(tmpdir(), "credex-bridge-jobs-"));
+  return new BridgeJobStore(join(dir, "jobs"));
+}
+
+function newJob(store: BridgeJobStore): BridgeJob {
+  return store.create({
+    amount: "5",
+    from: "Arc_Testnet",
+    to: "Base_Sepolia",
+    address: ADDRESS,
+  });
+}
+
+const burn: BridgeStep = { name: "burn", state: "success", txHash: "0xb1" };
+const attest: BridgeStep = {
+  name: "fetchAttestation",
+  state: "success",
+  data: ATTESTATION,
+};
+
+test("a new job bridges and saves each reported step", async () => {
+  const store = newStore();
+  const mint: BridgeStep = { name: "mint", state: "success", txHash: "0xm1" };
+  const kit = new FakeKit([burn, attest, mint], [burn, attest, mint]);
+
+  const job = await runBridgeJob(store, newJob(store), ADAPTER, kit.asKit());
+
+  assert.equal(kit.calls[0].method, "bridge");
+  assert.equal(job.status, "completed");
+  assert.deepEqual(
+    job.steps.map((step) => step.name),
+    ["burn", "fetchAttestation", "mint"],
+  );
+  assert.deepEqual(store.get(job.id)?.status, "completed");
+});
+
+test("a failed mint is saved with the attestation a resume needs", async () => {
+  const store = newStore();
+  const mint: BridgeStep = {
+    name: "mint",
+    state: "error",
+    errorMessage: "mint reverted",
+  };
+  const kit = new FakeKit([burn, attest, mint], [burn, attest, mint], "error");
+
+  const job = await runBridgeJob(store, newJob(store), ADAPTER, kit.asKit());
+
+  assert.equal(job.status, "failed");
+  assert.equal(job.error, "mint reverted");
+  const saved = store.get(job.id)!;
+  assert.deepEqual(
+    saved.steps.find((step) => step.name === "fetchAttestation")?.data,
+    ATTESTATION,
+  );
+});
+
+test("resuming retries from the saved steps instead of bridging again", async () => {
+  const store = newStore();
+  const failedMint: BridgeStep = {
+    name: "mint",
+    state: "error",
+    errorMessage: "mint reverted",
+  };
+  const failed = await runBridgeJob(
+    store,
+    newJob(store),
+    ADAPTER,
+    new FakeKit([burn, attest, failedMint], [], "error").asKit(),
+  );
+
+  const mint: BridgeStep = { name: "mint", state: "success", txHash: "0xm2" };
+  const kit = new FakeKit([mint], [burn, attest, mint]);
+  const job = await runBridgeJob(store, failed, ADAPTER, kit.asKit());
+
+  assert.equal(kit.calls.length, 1);
+  assert.equal(kit.calls[0].method, "retry");
+  const result = kit.calls[0].arg as BridgeResult;
+  assert.equal(result.amount, "5");
+  assert.deepEqual(
+    result.steps.map((step) => [step.name, step.state, step.txHash]),
+    [
+      ["burn", "success", "0xb1"],
+      ["fetchAttestation", "success", undefined],
+      ["mint", "error", undefined],
+    ],
+  );
+  assert.deepEqual(result.steps[1].data, ATTESTATION);
+
+  assert.equal(job.status, "completed");
+  assert.equal(job.error, null);
+  assert.equal(job.steps.find((step) => step.name === "mint")?.txHash, "0xm2");
+});
+
+test("a noop retry keeps the original step record", async () => {
+  const store = newStore();
+  const first = await runBridgeJob(
+    store,
+    newJob(store),
+    ADAPTER,
+    new FakeKit([burn], [], "error").asKit(),
+  );
+
+  const noop: BridgeStep = { name: "burn", state: "noop" };
+  const job = await runBridgeJob(
+    store,
+    first,
+    ADAPTER,
+    new FakeKit([noop], [noop], "error").asKit(),
+  );
+
+  assert.equal(job.steps.find((step) => step.name === "burn")?.txHash, "0xb1");
+});
+
+test("a thrown error fails the job with its first line", async () => {
+  const store = newStore();
+  const kit = new FakeKit([], []);
+  kit.bridge = async () => {
+    throw new Error("RPC error\nRequest body: {...}");
+  };
+
+  const job = await runBridgeJob(store, newJob(store), ADAPTER, kit.asKit());
+
+  assert.equal(job.status, "failed");
+  assert.equal(job.error, "RPC error");
+});
+
+test("completed jobs are not run again", async () => {
+  const store = newStore();
+  const job = store.save({ ...newJob(store), status: "completed" });
+  const kit = new FakeKit([], []);
+
+  assert.equal(await runBridgeJob(store, job, ADAPTER, kit.asKit()), job);
+  assert.equal(kit.calls.length, 0);
+});
+
+test("described jobs report a sent burn and drop step data", async () => {
+  const store = newStore();
+  const job = await runBridgeJob(
+    store,
+    newJob(store),
+    ADAPTER,
+    new FakeKit([burn, attest], [], "error").asKit(),
+  );
+
+  const described = describeBridgeJob(job);
+  assert.equal(described.burned, true);
+  for (const step of described.steps as Record<string, unknown>[]) {
+    assert.equal("data" in step, false);
+  }
+});
+
+test("each job has its own file, so writers never drop each other's", () => {
+  const mine = newStore();
+  const theirs = new BridgeJobStore(mine.dir);
+  const a = newJob(mine);
+  const b = newJob(theirs);
+
+  mine.save({ ...a, status: "failed" });
+
+  assert.equal(theirs.get(b.id)?.status, "pending");
+  assert.equal(mine.get(a.id)?.status, "failed");
+  const files = readdirSync(mine.dir).sort();
+  assert.deepEqual(files, [`${a.id}.json`, `${b.id}.json`].sort());
+  assert.equal(mine.get("../jobs"), null);
+});
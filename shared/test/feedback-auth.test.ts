@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AbiCoder, ethers, Wallet } from "ethers";
+import {
+  FeedbackAuthTerms,
+  decodeFeedbackAuth,
+  signFeedbackAuth,
+} from "../src/feedback-auth";
+
+const owner = new Wallet(ethers.id("owner"));
+
+const TERMS: FeedbackAuthTerms = {
+  agentId: "42",
+  clientAddress: "0x1111111111111111111111111111111111111111",
+  indexLimit: "100",
+  expiry: 1_800_000_000,
+  chainId: "84532",
+  identityRegistry: "0x2222222222222222222222222222222222222222",
+};
+
+test("signed feedbackAuth has the registry's layout", async () => {
+  const feedbackAuth = await signFeedbackAuth(owner, TERMS);
+  const bytes = ethers.getBytes(feedbackAuth);
+
+  // 7 ABI words, then the 65-byte signature
+  assert.equal(bytes.length, 289);
+  const encoded = ethers.hexlify(bytes.slice(0, 224));
+  const tuple = [
+    "uint256",
+    "address",
+    "uint64",
+    "uint256",
+    "uint256",
+    "address",
+    "address",
+  ];
+  const [agentId, , , , , , signer] = AbiCoder.defaultAbiCoder().decode(
+    tuple,
+    encoded,
+  );
+  assert.equal(agentId, 42n);
+  assert.equal(signer, owner.address);
+  assert.equal(
+    ethers.verifyMessage(
+      ethers.getBytes(ethers.keccak256(encoded)),
+      ethers.hexlify(bytes.slice(224)),
+    ),
+    owner.address,
+  );
+});
+
+test("decoding returns the terms and who signed them", async () => {
+  const { auth, recoveredSigner } = decodeFeedbackAuth(
+    await signFeedbackAuth(owner, TERMS),
+  );
+
+  assert.equal(recoveredSigner, owner.address);
+  assert.equal(auth.signerAddress, owner.address);
+  assert.equal(auth.indexLimit, 100n);
+  assert.equal(auth.expiry, 1_800_000_000n);
+  assert.equal(auth.chainId, 84532n);
+});
+
+test("altered terms no longer recover to the owner", async () => {
+  const bytes = ethers.getBytes(await signFeedbackAuth(owner, TERMS));
+  bytes[31] ^= 1; // agentId 42 -> 43
+
+  const { auth, recoveredSigner } = decodeFeedbackAuth(ethers.hexlify(bytes));
+  assert.equal(auth.agentId, 43n);
+  assert.notEqual(recoveredSigner, owner.address);
+});
+
+test("truncated feedbackAuth is rejected", () => {
+  assert.throws(() => decodeFeedbackAuth("0x1234"), /must be 289 bytes/);
+});
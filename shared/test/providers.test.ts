@@ -0,0 +1,167 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import {
+  RetryingJsonRpcProvider,
+  createProvider,
+  getEndpointHealth,
+  parseRpcUrls,
+  rpcOptionsFromEnv,
+} from "../src/providers";
+
+interface RpcRequest {
+  id: number;
+  method: string;
+}
+
+// Each request takes the next scripted response (an HTTP status, or an
+// RPC error sent with 200); once the script runs out every call gets "0x1"
+type Scripted = number | { code: number; message: string };
+
+async function rpcServer(script: Scripted[]) {
+  const calls: string[] = [];
+  const server: Server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const parsed = JSON.parse(body) as RpcRequest | RpcRequest[];
+      const requests = Array.isArray(parsed) ? parsed : [parsed];
+      calls.push(...requests.map((r) => r.method));
+
+      const next = script.shift();
+      if (typeof next === "number") {
+        res.writeHead(next).end();
+        return;
+      }
+      const results = requests.map((r) =>
+        next
+          ? { jsonrpc: "2.0", id: r.id, error: next }
+          : { jsonrpc: "2.0", id: r.id, result: "0x1" },
+      );
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify(Array.isArray(parsed) ? results : results[0]));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return { url, calls, close: () => server.close() };
+}
+
+const OPTIONS = { quorum: 1, retries: 2, backoffMs: 20, stallTimeoutMs: 50 };
+
+// One request straight through the transport, below ethers' batching
+// and network checks
+async function call(provider: RetryingJsonRpcProvider, method: string) {
+  const [result] = await provider._send({
+    jsonrpc: "2.0",
+    id: 1,
+    method,
+    params: [],
+  });
+  return result;
+}
+
+async function withProvider(
+  script: Scripted[],
+  run: (provider: RetryingJsonRpcProvider, calls: string[]) => Promise<void>,
+) {
+  const server = await rpcServer(script);
+  const provider = new RetryingJsonRpcProvider(server.url, OPTIONS, 1);
+  try {
+    await run(provider, server.calls);
+  } finally {
+    provider.destroy();
+    server.close();
+  }
+}
+
+test("5xx responses are retried with a doubling backoff", async () => {
+  await withProvider([503, 502], async (provider, calls) => {
+    const started = Date.now();
+
+    assert.deepEqual(await call(provider, "eth_blockNumber"), {
+      jsonrpc: "2.0",
+      id: 1,
+      result: "0x1",
+    });
+
+    assert.equal(calls.length, 3);
+    assert.ok(Date.now() - started >= 20 + 40);
+    assert.equal(provider.health.requests, 1);
+    assert.equal(provider.health.failures, 2);
+    assert.equal(provider.health.consecutiveFailures, 0);
+    assert.equal(provider.health.healthy, true);
+    assert.notEqual(provider.health.lastLatencyMs, null);
+  });
+});
+
+test("a rate limit inside a 200 response is retried", async () => {
+  const limited = { code: -32005, message: "daily request limit exceeded" };
+  await withProvider([limited], async (provider, calls) => {
+    assert.equal((await call(provider, "eth_blockNumber")).result, "0x1");
+    assert.equal(calls.length, 2);
+    assert.match(provider.health.lastError!, /RPC rate limited/);
+  });
+});
+
+test("client errors and RPC errors are not retried", async () => {
+  const reverted = { code: 3, message: "execution reverted" };
+  await withProvider([400, reverted], async (provider, calls) => {
+    await assert.rejects(call(provider, "eth_blockNumber"));
+    const result = await call(provider, "eth_call");
+    assert.deepEqual((result as { error?: unknown }).error, reverted);
+    assert.deepEqual(calls, ["eth_blockNumber", "eth_call"]);
+  });
+});
+
+test("retries stop after the configured count", async () => {
+  await withProvider([503, 503, 503, 503], async (provider, calls) => {
+    await assert.rejects(call(provider, "eth_blockNumber"));
+
+    assert.equal(calls.length, OPTIONS.retries + 1);
+    assert.equal(provider.health.healthy, false);
+    assert.equal(provider.health.consecutiveFailures, 3);
+    assert.notEqual(provider.health.lastErrorAt, null);
+  });
+});
+
+test("transaction broadcasts are never retried", async () => {
+  await withProvider([503], async (provider, calls) => {
+    await assert.rejects(call(provider, "eth_sendRawTransaction"));
+    assert.deepEqual(calls, ["eth_sendRawTransaction"]);
+  });
+});
+
+test("health is reported for every endpoint of a provider", async () => {
+  const a = await rpcServer([]);
+  const b = await rpcServer([]);
+  const provider = createProvider([a.url, b.url], OPTIONS, 1);
+  try {
+    await provider.getBlockNumber();
+    const health = getEndpointHealth(provider);
+
+    assert.deepEqual(health.map((h) => h.url), [a.url, b.url]);
+    assert.ok(health[0].requests > 0);
+    assert.ok(health.every((h) => h.healthy));
+  } finally {
+    provider.destroy();
+    a.close();
+    b.close();
+  }
+});
+
+test("endpoint lists and options come from the environment", () => {
+  assert.deepEqual(parseRpcUrls(" https://a , ,https://b", "https://x"), [
+    "https://a",
+    "https://b",
+  ]);
+  assert.deepEqual(parseRpcUrls("", "https://x"), ["https://x"]);
+  assert.deepEqual(rpcOptionsFromEnv({ RPC_QUORUM: "2", RPC_RETRIES: "0" }), {
+    quorum: 2,
+    retries: 0,
+    backoffMs: 250,
+    stallTimeoutMs: 2000,
+  });
+  assert.throws(() => createProvider([]), /No RPC endpoint/);
+});
@@ -11,50 +11,145 @@
  */
 
 import { LlmAgent as Agent } from "adk-typescript/agents";
-import { Wallet, JsonRpcProvider, Contract, ethers } from "ethers";
+import { Contract, ethers } from "ethers";
 import "dotenv/config";
-import { BridgeKit } from "@circle-fin/bridge-kit";
-import { createViemAdapterFromPrivateKey } from "@circle-fin/adapter-viem-v2";
-import { inspect } from "util";
+import {
+  ResolvedNetwork,
+  resolveNetwork,
+  selectNetwork,
+  createProvider,
+  parseRpcUrls,
+  rpcOptionsFromEnv,
+  AddressedSigner,
+  SignerConfig,
+  createBridgeAdapter,
+  loadSigner,
+  signerConfigFromEnv,
+  signFeedbackAuth,
+  BridgeJob,
+  BridgeJobStore,
+  describeBridgeJob,
+  runBridgeJob,
+} from "credex-shared";
 
 // --- Configuration ---
 
 const CREDEX_AGENT_URL =
   process.env.CREDEX_AGENT_URL || "http://localhost:10003";
-const RPC_URL = process.env.RPC_URL || "https://rpc.testnet.arc.network";
-const USDC_ADDRESS =
-  process.env.USDC_ADDRESS || "0x3600000000000000000000000000000000000000";
-const POOL_ADDRESS = process.env.CREDEX_POOL_ADDRESS || "";
+
+// Network profile from --network / CREDEX_NETWORK (see credex-shared);
+// RPC_URL (comma-separated URLs are failed over in order, see
+// providers.ts), CREDEX_POOL_ADDRESS and USDC_ADDRESS override it
+let network: ResolvedNetwork;
+let baseNetwork: ResolvedNetwork;
+try {
+  network = resolveNetwork(selectNetwork(), {
+    rpcUrls: parseRpcUrls(process.env.RPC_URL, ""),
+    poolAddress: process.env.CREDEX_POOL_ADDRESS,
+    usdcAddress: process.env.USDC_ADDRESS,
+  });
+  baseNetwork = resolveNetwork("base-sepolia", {
+    rpcUrls: parseRpcUrls(process.env.BASE_RPC_URL, ""),
+  });
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  throw error;
+}
+
+const RPC_URLS = network.rpcUrls;
+const RPC_OPTIONS = rpcOptionsFromEnv();
+const ARC_CHAIN_ID = network.chainId;
+const USDC_ADDRESS = network.usdcAddress || "";
+const POOL_ADDRESS = network.poolAddress || "";
 const isDebug = process.env.CLIENT_DEBUG === "true";
 
 // Base Sepolia Configuration for cross-chain balance checks
-const BASE_RPC_URL = "https://sepolia.base.org";
-const BASE_USDC_ADDRESS = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
-
-if (!process.env.WALLET_PRIVATE_KEY) {
-  console.error("❌ WALLET_PRIVATE_KEY required in .env");
-  throw new Error("Missing WALLET_PRIVATE_KEY");
+const BASE_RPC_URLS = baseNetwork.rpcUrls;
+const BASE_CHAIN_ID = baseNetwork.chainId;
+const BASE_USDC_ADDRESS = baseNetwork.usdcAddress || "";
+
+// Wallet backend: WALLET_PRIVATE_KEY, WALLET_KEYSTORE or
+// WALLET_REMOTE_SIGNER_URL (see credex-shared)
+let signerConfig: SignerConfig;
+try {
+  signerConfig = signerConfigFromEnv();
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  throw error;
 }
 
-// Connect wallet to provider for signing transactions
-const provider = new JsonRpcProvider(RPC_URL);
-const wallet = new Wallet(process.env.WALLET_PRIVATE_KEY, provider);
+const provider = createProvider(RPC_URLS, RPC_OPTIONS);
+const baseProvider = createProvider(BASE_RPC_URLS, RPC_OPTIONS);
 
 // ERC20 ABI for approval and balance
 const ERC20_ABI = [
   "function approve(address spender, uint256 amount) returns (bool)",
   "function balanceOf(address account) view returns (uint256)",
 ];
-const usdc = new Contract(USDC_ADDRESS, ERC20_ABI, wallet);
 
 function log(...args: any[]) {
   if (isDebug) console.log("[credex-client]", ...args);
 }
 
-console.log(`🤖 Credex Client Configuration:
-  Wallet: ${wallet.address}
+// Set once the wallet has loaded (a keystore may prompt for its
+// passphrase, a remote signer is asked for its address); tools await it
+let wallet: AddressedSigner;
+let usdc: Contract;
+
+const walletReady = loadSigner(signerConfig, provider).then((signer) => {
+  wallet = signer;
+  usdc = new Contract(USDC_ADDRESS, ERC20_ABI, wallet);
+
+  console.log(`🤖 Credex Client Configuration:
+  Wallet: ${wallet.address} (${signerConfig.backend})
+  Network: ${network.name} (chain ${network.chainId})
   Credex Agent URL: ${CREDEX_AGENT_URL}
 `);
+});
+walletReady.catch((error) =>
+  console.error(`❌ Wallet unavailable: ${error.message}`),
+);
+
+// --- Signed Requests ---
+
+const REQUEST_VALIDITY_SECONDS = 120;
+
+// How far ahead "repay all" quotes the payoff (covers approve + repay)
+const PAYOFF_LEAD_SECONDS = 120;
+
+/**
+ * POST to the Credex Agent with an EIP-712 signature over the body.
+ * The server rejects unsigned /onboard, /borrow and /repay requests.
+ */
+async function signedPost(
+  endpoint: string,
+  primaryType: "Onboard" | "Borrow" | "BorrowTo" | "Repay",
+  body: Record<string, any>,
+): Promise<Response> {
+  const signingRes = await fetch(`${CREDEX_AGENT_URL}/auth/domain`);
+  const signing = (await signingRes.json()) as any;
+  if (!signing.success) {
+    throw new Error(`Could not fetch signing domain: ${signing.message}`);
+  }
+
+  const { domain, types } = signing.data;
+  const message = {
+    ...body,
+    nonce: ethers.hexlify(ethers.randomBytes(32)),
+    expiry: Math.floor(Date.now() / 1000) + REQUEST_VALIDITY_SECONDS,
+  };
+  const signature = await wallet.signTypedData(
+    domain,
+    { [primaryType]: types[primaryType] },
+    message,
+  );
+
+  return fetch(`${CREDEX_AGENT_URL}${endpoint}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...message, signature }),
+  });
+}
 
 // --- State ---
 
@@ -71,6 +166,12 @@ interface ClientState {
 
 const state: ClientState = {};
 
+// Bridge jobs, kept on disk across restarts (see credex-shared)
+const bridgeJobs = new BridgeJobStore();
+
+// Jobs this process is running
+const runningBridges = new Set<string>();
+
 // --- Tool Functions ---
 
 /**
@@ -136,6 +237,41 @@ function extractParam(params: any, key: string): string | null {
   return null;
 }
 
+/**
+ * Sign the ERC-8004 feedbackAuth that lets the Credex Agent post credit
+ * outcomes about agentId; returns a line for the onboarding reply
+ */
+async function authorizeFeedback(agentId: string): Promise<string> {
+  try {
+    const termsRes = await fetch(
+      `${CREDEX_AGENT_URL}/feedback-auth/${agentId}`,
+    );
+    const terms = (await termsRes.json()) as any;
+    if (!terms.success) {
+      return `- Feedback: not authorized (${terms.message})`;
+    }
+
+    const response = await fetch(`${CREDEX_AGENT_URL}/feedback-auth`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        feedbackAuth: await signFeedbackAuth(wallet, terms.data),
+      }),
+    });
+    const result = (await response.json()) as any;
+    if (!result.success) {
+      return `- Feedback: not authorized (${result.message})`;
+    }
+    const until = new Date(Number(result.data.expiry) * 1000);
+    return `- Feedback: authorized until ${until.toISOString().slice(0, 10)}`;
+  } catch (error) {
+    log("❌ Feedback authorization error:", error);
+    return `- Feedback: not authorized (${
+      error instanceof Error ? error.message : String(error)
+    })`;
+  }
+}
+
 /**
  * Onboard to the credit protocol
  * @param params.agentId Optional agent identity token ID
@@ -144,22 +280,24 @@ async function onboard(
   params: Record<string, any>,
   context?: any,
 ): Promise<string> {
+  await walletReady;
   log(`[DEBUG] onboard called with params: ${JSON.stringify(params)}`);
   const agentId = extractParam(params, "agentId") || "0";
 
   log(`\n📥 Onboarding agent ${wallet.address} (agentId: ${agentId})...`);
 
   try {
-    const response = await fetch(`${CREDEX_AGENT_URL}/onboard`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        agentAddress: wallet.address,
-        agentId: String(agentId),
-      }),
+    const response = await signedPost("/onboard", "Onboard", {
+      agentAddress: wallet.address,
+      agentId: String(agentId),
     });
 
     const result = (await response.json()) as any;
+    const onboarded =
+      result.success || result.message?.includes("already onboarded");
+    // Credit outcomes can only be posted about an identity that allows it
+    const feedback =
+      onboarded && agentId !== "0" ? await authorizeFeedback(agentId) : "";
 
     if (result.success) {
       log("✅ Onboard successful:", result);
@@ -167,13 +305,13 @@ async function onboard(
 
 - Agent: ${wallet.address}
 - Credit Limit: ${result.data.creditLimit} USDC
-- Reputation Factor: ${result.data.repFactor || "1.0"}
+- Reputation Factor: ${result.data.repFactor || "1.0"}${feedback ? `\n${feedback}` : ""}
 
 You can now borrow up to your credit limit.`;
     } else {
       // Check if already onboarded
       if (result.message?.includes("already onboarded")) {
-        return `ℹ️ Agent is already onboarded. Checks status to see your limit.`;
+        return `ℹ️ Agent is already onboarded. Checks status to see your limit.${feedback ? `\n${feedback}` : ""}`;
       }
       return `❌ Onboard Failed: ${result.message}`;
     }
@@ -185,6 +323,53 @@ You can now borrow up to your credit limit.`;
   }
 }
 
+/**
+ * Explain where the credit limit came from and what will move it next
+ * (limitDerivation from GET /status), so the agent can plan repayments
+ */
+function renderLimitDerivation(derivation: any): string {
+  if (!derivation) return "";
+  const lines: string[] = ["", "**How Your Limit Was Set:**"];
+
+  const onboarding = derivation.onboarding;
+  if (onboarding) {
+    lines.push(
+      `- Onboarding: repFactor ${onboarding.repFactor.toFixed(2)} (risk score ${onboarding.riskEngine.score}/100 -> ${onboarding.riskEngine.repFactor.toFixed(2)}, reputation history -> ${onboarding.reputation.factor.toFixed(2)}), tier "${onboarding.tier}", initial limit ${onboarding.initialLimit} USDC`,
+    );
+    const signals = onboarding.riskEngine.signals
+      .filter((signal: any) => signal.score !== null)
+      .map((signal: any) => `${signal.name} ${(signal.score * 100).toFixed(0)}`)
+      .join(", ");
+    if (signals) lines.push(`  - Signals (0-100): ${signals}`);
+  }
+
+  for (const step of derivation.steps) {
+    if (step.kind === "onboard" && onboarding) continue;
+    const trigger = step.triggerTxHash
+      ? ` after repayment ${step.triggerTxHash}`
+      : "";
+    const note = step.note ? ` (${step.note})` : "";
+    lines.push(
+      `- ${step.at.slice(0, 10)} ${step.kind}: ${step.from} -> ${step.to} USDC${trigger}${note}`,
+    );
+  }
+
+  for (const cap of derivation.caps) {
+    lines.push(
+      `- Cap (${cap.source}): ${cap.limit} USDC${cap.binding ? " (reached)" : ""}`,
+    );
+  }
+
+  if (derivation.pending.length > 0) {
+    lines.push("", "**What Happens Next:**");
+    for (const effect of derivation.pending) {
+      lines.push(`- ${effect.message}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
 /**
  * Get current credit status from Credex Agent
  */
@@ -192,6 +377,7 @@ async function getCreditStatus(
   params: Record<string, any>,
   context?: any,
 ): Promise<string> {
+  await walletReady;
   log(`\n📊 Getting credit status for ${wallet.address}...`);
 
   try {
@@ -232,6 +418,7 @@ async function getCreditStatus(
 - **Interest Accrued**: ${interest} USDC
 - **Total Debt**: ${debt} USDC (Principal + Interest)
 - **Available Credit**: ${available} USDC
+${renderLimitDerivation(data.data.limitDerivation)}
 
 ---
 **Protocol Logic (Simple Math):**
@@ -249,13 +436,17 @@ async function getCreditStatus(
 /**
  * Borrow funds from the pool
  * @param params.amount Amount to borrow
+ * @param params.deliverTo (optional) Chain to receive the funds on ("Base");
+ *   the debt stays on Arc and the Credex Agent bridges the funds
  */
 async function borrow(
   params: Record<string, any>,
   context?: any,
 ): Promise<string> {
+  await walletReady;
   log(`[DEBUG] borrow called with params: ${JSON.stringify(params)}`);
   let amount = extractParam(params, "amount");
+  const deliverToParam = extractParam(params, "deliverTo");
 
   if (amount) {
     amount = amount.replace(/USDC/i, "").trim();
@@ -265,29 +456,43 @@ async function borrow(
     return `❌ Amount required. Example: "borrow 0.5 USDC"`;
   }
 
-  log(`\n💰 Borrowing ${amount} USDC...`);
+  // Network profile the Credex Agent bridges to (the pool is on Arc)
+  const deliverTo = deliverToParam?.toLowerCase().includes("base")
+    ? "base-sepolia"
+    : null;
+  if (deliverToParam && !deliverTo) {
+    return `❌ Borrows can only be delivered to Base. Leave deliverTo empty to receive them on Arc.`;
+  }
+
+  log(
+    `\n💰 Borrowing ${amount} USDC${deliverTo ? `, delivered to ${deliverTo}` : ""}...`,
+  );
 
   try {
-    const response = await fetch(`${CREDEX_AGENT_URL}/borrow`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        agentAddress: wallet.address,
-        amount: String(amount),
-      }),
-    });
+    const response = deliverTo
+      ? await signedPost("/borrow", "BorrowTo", {
+          agentAddress: wallet.address,
+          amount: String(amount),
+          deliverTo,
+        })
+      : await signedPost("/borrow", "Borrow", {
+          agentAddress: wallet.address,
+          amount: String(amount),
+        });
 
     const result = (await response.json()) as any;
 
     if (result.success) {
       log("✅ Borrow successful:", result);
+      const delivery = result.data?.delivery;
       return `✅ **Borrow Successful!**
 
 - Amount: ${amount} USDC
 - Message: ${result.message}
 ${result.txHash ? `- TX: ${result.txHash}` : ""}
+${delivery ? `- Delivery: ${delivery.id} (${delivery.status}), arrives on Base in a few minutes` : ""}
 
-Use "check my status" to see updated balance.`;
+${delivery ? `Use 'checkDelivery' with id ${delivery.id} to follow the bridge.` : `Use "check my status" to see updated balance.`}`;
     } else {
       return `❌ Borrow Failed: ${result.message}`;
     }
@@ -299,6 +504,49 @@ Use "check my status" to see updated balance.`;
   }
 }
 
+/**
+ * Progress of a cross-chain borrow delivery
+ * @param params.id Delivery id from the borrow result
+ */
+async function checkDelivery(
+  params: Record<string, any>,
+  context?: any,
+): Promise<string> {
+  log(`[DEBUG] checkDelivery called with params: ${JSON.stringify(params)}`);
+  const id = extractParam(params, "id");
+  if (!id) {
+    return `❌ Delivery id required (from the borrow result).`;
+  }
+
+  try {
+    const response = await fetch(`${CREDEX_AGENT_URL}/deliveries/${id}`);
+    const result = (await response.json()) as any;
+    if (!result.success) {
+      return `❌ ${result.message}`;
+    }
+
+    const delivery = result.data;
+    const steps = delivery.steps
+      .map(
+        (step: any) =>
+          `- ${step.name}: ${step.state}${step.txHash ? ` (${step.txHash})` : ""}`,
+      )
+      .join("\n");
+    return `🌉 **Delivery ${delivery.id}: ${delivery.status}**
+
+- Amount: ${delivery.amount} USDC to ${delivery.to}
+- Borrow TX: ${delivery.borrowTxHash}
+${steps || "- Bridge not started yet"}
+${delivery.refundTxHash ? `- Refunded on Arc: ${delivery.refundTxHash}` : ""}
+${delivery.error ? `- Last error: ${delivery.error}` : ""}`;
+  } catch (error) {
+    log("❌ Delivery error:", error);
+    return `❌ Error checking delivery: ${
+      error instanceof Error ? error.message : String(error)
+    }`;
+  }
+}
+
 /**
  * Repay debt to the pool
  * @param params.amount Amount to repay (USDC amount or "all" to clear debt)
@@ -307,6 +555,7 @@ async function repay(
   params: Record<string, any>,
   context?: any,
 ): Promise<string> {
+  await walletReady;
   log(`[DEBUG] repay called with params: ${JSON.stringify(params)}`);
   let amount = extractParam(params, "amount");
 
@@ -321,31 +570,30 @@ async function repay(
   log(`\n💸 Repaying ${amount} USDC...`);
 
   try {
-    const usdc = new Contract(USDC_ADDRESS, ERC20_ABI, wallet);
     let amountToRepay: string;
 
-    // Handle "all" / "full" / "max" by providing a buffer to clear interest accrual
+    // Handle "all" / "full" / "max" by quoting the exact payoff for when
+    // the repay tx is expected to land
     if (
       amount.toLowerCase().includes("all") ||
       amount.toLowerCase().includes("full") ||
       amount.toLowerCase().includes("max")
     ) {
-      log("   Full repayment requested. Calculating debt with buffer...");
-      const statusRes = await fetch(
-        `${CREDEX_AGENT_URL}/status/${wallet.address}`,
+      log("   Full repayment requested. Fetching payoff quote...");
+      const at = Math.floor(Date.now() / 1000) + PAYOFF_LEAD_SECONDS;
+      const quoteRes = await fetch(
+        `${CREDEX_AGENT_URL}/quote/${wallet.address}?at=${at}`,
       );
-      const statusData = (await statusRes.json()) as any;
+      const quote = (await quoteRes.json()) as any;
 
-      if (!statusData.success) {
-        return `❌ Could not fetch debt for full repayment: ${statusData.message}`;
+      if (!quote.success) {
+        return `❌ Could not fetch debt for full repayment: ${quote.message}`;
       }
 
-      // Add 1% buffer to ensure interest accrued during TX is covered.
-      // The contract will cap it and only take what is owed.
-      const debt = parseFloat(statusData.data.debt);
-      amountToRepay = (debt * 1.01).toFixed(6);
+      // Exact payoff at `at`; the contract caps repayment at actual debt.
+      amountToRepay = quote.data.payoff;
       log(
-        `   Targeting repayment of ${amountToRepay} USDC to clear ${debt} USDC debt.`,
+        `   Targeting repayment of ${amountToRepay} USDC (payoff at ${quote.data.atIso}).`,
       );
     } else {
       amountToRepay = amount;
@@ -359,13 +607,9 @@ async function repay(
     log(`✅ Approval confirmed: ${approveTx.hash}`);
 
     // Step 2: Call Credex agent to execute repayment
-    const response = await fetch(`${CREDEX_AGENT_URL}/repay`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        agentAddress: wallet.address,
-        amount: String(amountToRepay),
-      }),
+    const response = await signedPost("/repay", "Repay", {
+      agentAddress: wallet.address,
+      amount: String(amountToRepay),
     });
 
     const result = (await response.json()) as any;
@@ -401,6 +645,7 @@ async function bridgeUSDC(
   params: Record<string, any>,
   context?: any,
 ): Promise<string> {
+  await walletReady;
   log(`[DEBUG] bridgeUSDC called with params: ${JSON.stringify(params)}`);
   let amount = extractParam(params, "amount");
   const fromChainParam = extractParam(params, "fromChain");
@@ -420,11 +665,6 @@ Example: "bridge 0.5 USDC from Arc to Base"`;
   );
 
   try {
-    const kit = new BridgeKit();
-    const adapter = createViemAdapterFromPrivateKey({
-      privateKey: process.env.WALLET_PRIVATE_KEY as `0x${string}`,
-    });
-
     const fromChain = fromChainParam.toLowerCase().includes("base")
       ? "Base_Sepolia"
       : "Arc_Testnet";
@@ -436,22 +676,22 @@ Example: "bridge 0.5 USDC from Arc to Base"`;
       return `❌ Source and destination chains must be different (Arc <-> Base).`;
     }
 
-    const bridgeResult = await kit.bridge({
-      from: { adapter, chain: fromChain },
-      to: { adapter, chain: toChain },
-      amount: amount,
+    const job = bridgeJobs.create({
+      amount,
+      from: fromChain,
+      to: toChain,
+      address: wallet.address,
     });
+    startBridgeJob(job);
 
-    log("✅ Bridge successful:", bridgeResult);
-
-    return `✅ **Bridge Initiated!**
+    return `✅ **Bridge Started!**
     
+- **Job ID**: ${job.id}
 - **Amount**: ${amount} USDC
 - **From**: ${fromChain}
 - **To**: ${toChain}
-- **Result**: ${inspect(bridgeResult, false, 1, true)}
 
-The funds will arrive on the destination chain shortly.`;
+The funds usually arrive within a few minutes. Use 'bridgeStatus' with job id ${job.id} to follow it.`;
   } catch (error) {
     log("❌ bridgeUSDC error:", error);
     return `❌ Error bridging USDC: ${
@@ -460,6 +700,96 @@ The funds will arrive on the destination chain shortly.`;
   }
 }
 
+/**
+ * Steps of a bridge job (the recent jobs without an id)
+ * @param params.id Job id returned by bridgeUSDC
+ */
+async function bridgeStatus(
+  params: Record<string, any>,
+  context?: any,
+): Promise<string> {
+  log(`[DEBUG] bridgeStatus called with params: ${JSON.stringify(params)}`);
+  const id = extractParam(params, "id");
+
+  if (!id) {
+    const jobs = bridgeJobs.list().slice(0, 5);
+    if (jobs.length === 0) return `No bridge jobs yet.`;
+    return `🌉 **Recent Bridge Jobs**
+
+${jobs
+  .map(
+    (job) =>
+      `- ${job.id}: ${job.amount} USDC ${job.from} -> ${job.to}, ${job.status}`,
+  )
+  .join("\n")}`;
+  }
+
+  const job = bridgeJobs.get(id);
+  if (!job) return `❌ Unknown bridge job ${id}.`;
+  return describeJob(job);
+}
+
+/**
+ * Continue a failed or interrupted bridge job from its last step
+ * @param params.id Job id returned by bridgeUSDC
+ */
+async function resumeBridge(
+  params: Record<string, any>,
+  context?: any,
+): Promise<string> {
+  await walletReady;
+  log(`[DEBUG] resumeBridge called with params: ${JSON.stringify(params)}`);
+  const id = extractParam(params, "id");
+  const job = id ? bridgeJobs.get(id) : null;
+
+  if (!job) return `❌ Unknown bridge job ${id ?? ""}.`;
+  if (job.status === "completed") return describeJob(job);
+  if (runningBridges.has(job.id)) {
+    return `⏳ Bridge job ${job.id} is still running. Check it with 'bridgeStatus'.`;
+  }
+  if (job.address.toLowerCase() !== wallet.address.toLowerCase()) {
+    return `❌ Bridge job ${job.id} belongs to another wallet (${job.address}).`;
+  }
+
+  startBridgeJob(job);
+  return `🌉 Resuming bridge job ${job.id} from its last step. Use 'bridgeStatus' to follow it.`;
+}
+
+/**
+ * Run a bridge job in the background (see credex-shared)
+ */
+function startBridgeJob(job: BridgeJob): void {
+  const adapter = createBridgeAdapter(
+    signerConfig,
+    wallet,
+    { [ARC_CHAIN_ID]: RPC_URLS, [BASE_CHAIN_ID]: BASE_RPC_URLS },
+    RPC_OPTIONS,
+  );
+  runningBridges.add(job.id);
+  runBridgeJob(bridgeJobs, job, adapter)
+    .then((finished) => log(`🌉 Bridge job ${job.id}: ${finished.status}`))
+    .catch((error) => log(`❌ Bridge job ${job.id} error:`, error))
+    .finally(() => runningBridges.delete(job.id));
+}
+
+function describeJob(job: BridgeJob): string {
+  const steps = job.steps
+    .map(
+      (step) =>
+        `- ${step.name}: ${step.state}${step.txHash ? ` (${step.txHash})` : ""}`,
+    )
+    .join("\n");
+  const { burned } = describeBridgeJob(job);
+  return `🌉 **Bridge Job ${job.id}: ${job.status}**
+
+- **Amount**: ${job.amount} USDC
+- **From**: ${job.from}
+- **To**: ${job.to}
+${steps || "- No steps yet"}
+${job.error ? `- **Error**: ${job.error}` : ""}
+${job.status === "failed" ? `${burned ? "The USDC already left the source chain: do NOT bridge again, " : ""}Use 'resumeBridge' with job id ${job.id} to continue.` : ""}`;
+}
+
 /**
  * Check wallet balance on both Arc and Base chains
  */
@@ -467,6 +797,7 @@ async function getWalletBalance(
   params: Record<string, any>,
   context?: any,
 ): Promise<string> {
+  await walletReady;
   log(`\n💰 Checking cross-chain wallet balances for ${wallet.address}...`);
 
   try {
@@ -474,7 +805,6 @@ async function getWalletBalance(
     const arcBalance = await usdc.balanceOf(wallet.address);
 
     // 2. Check Base Balance
-    const baseProvider = new JsonRpcProvider(BASE_RPC_URL);
     const baseUsdc = new Contract(BASE_USDC_ADDRESS, ERC20_ABI, baseProvider);
     const baseBalance = await baseUsdc.balanceOf(wallet.address);
 
@@ -499,16 +829,18 @@ export const credexClientAgent = new Agent({
   model: "gemini-2.0-flash",
   description:
     "A client agent that manages credit lines via the Credex Protocol",
-  instruction: `You are a Credex Client Agent. You help users manage their credit line on the Credex Protocol.
+  instruction: async () => {
+    await walletReady;
+    return `You are a Credex Client Agent. You help users manage their credit line on the Credex Protocol.
   
 **Your Identity:**
 - Wallet: ${wallet.address}
 - Role: Borrower
 
 **Capabilities:**
-1. **Check Status** - View credit limit, current debt, and available credit. (Protocol will auto-onboard you on first check).
-2. **Borrow** - Request funds from the credit pool on Arc.
-3. **Bridge USDC** - Move USDC between your Arc and Base wallets. **MANDATORY**: You MUST ask the user to confirm the source and destination chains before using this tool. NEVER assume.
+1. **Check Status** - View credit limit, current debt, and available credit. (Protocol will auto-onboard you on first check). The status also explains how the limit was set and "What Happens Next" (the limit a full repayment earns, when an unpaid debt gets frozen, what unlocks a higher tier); use it when the user asks how to improve their standing.
+2. **Borrow** - Request funds from the credit pool on Arc. Set 'deliverTo' to "Base" to receive them on Base instead (the debt stays on Arc; the protocol bridges the funds and returns a delivery id to follow with 'checkDelivery').
+3. **Bridge USDC** - Move USDC between your Arc and Base wallets. **MANDATORY**: You MUST ask the user to confirm the source and destination chains before using this tool. NEVER assume. The bridge runs in the background and returns a job id: check it with 'bridgeStatus' (no id lists recent jobs) and, if it failed or was interrupted, continue it with 'resumeBridge'. Never start a new bridge for a job whose USDC already left the source chain.
 4. **Repay** - Pay back your debt to build reputation and increase your limit. **NOTE**: You can accept "all" or "full" as an amount to repay the entire debt.
 5. **Check Wallet Balance** - View your USDC balance on both Arc and Base chains.
 
@@ -517,15 +849,19 @@ export const credexClientAgent = new Agent({
 - **Explicit Confirmation**: If a user says "Bridge 1 USDC", respond with: "Certainly, from which chain (Arc or Base) would you like to move those funds, and where to?"
 
 **Flows:**
-- **Borrow to Base**: Use 'borrow' on Arc, then ask the user "Would you like to bridge this borrow to Base?", then use 'bridgeUSDC' (from Arc, to Base).
+- **Borrow to Base**: Ask the user "Would you like to receive this borrow on Base?"; if so, use 'borrow' with deliverTo "Base" and report the delivery id (use 'checkDelivery' when they ask whether it arrived).
 - **Repay from Base**: Ask user if they have funds on Base, if confirmed use 'bridgeUSDC' (from Base, to Arc), then call 'repay'.
 
-**Note:** Onboarding happens automatically. You do NOT need to ask the user to onboard.`,
+**Note:** Onboarding happens automatically. You do NOT need to ask the user to onboard.`;
+  },
 
   tools: [
     getCreditStatus,
     borrow,
+    checkDelivery,
     bridgeUSDC,
+    bridgeStatus,
+    resumeBridge,
     repay,
     onboard,
     getWalletBalance,
@@ -10,45 +10,76 @@
  */
 
 import { LlmAgent as Agent } from "adk-typescript/agents";
-import { ethers, Wallet, Contract, JsonRpcProvider } from "ethers";
+import { ethers, Contract } from "ethers";
 import "dotenv/config";
-import { BridgeKit } from "@circle-fin/bridge-kit";
-import { createViemAdapterFromPrivateKey } from "@circle-fin/adapter-viem-v2";
-import { inspect } from "util";
+import {
+  ResolvedNetwork,
+  resolveNetwork,
+  selectNetwork,
+  createProvider,
+  parseRpcUrls,
+  rpcOptionsFromEnv,
+  AddressedSigner,
+  SignerConfig,
+  createBridgeAdapter,
+  loadSigner,
+  signerConfigFromEnv,
+  BridgeJob,
+  BridgeJobStore,
+  describeBridgeJob,
+  runBridgeJob,
+} from "credex-shared";
 
 // --- Configuration ---
 
-const RPC_URL = process.env.RPC_URL || "https://rpc.testnet.arc.network";
-const USDC_ADDRESS =
-  process.env.USDC_ADDRESS || "0x3600000000000000000000000000000000000000";
-const POOL_ADDRESS =
-  process.env.CREDEX_POOL_ADDRESS ||
-  "0x32239e52534c0b7e525fb37ed7b8d1912f263ad3";
+// Network profile from --network / CREDEX_NETWORK (see credex-shared);
+// RPC_URL (comma-separated URLs are failed over in order, see
+// providers.ts), CREDEX_POOL_ADDRESS and USDC_ADDRESS override it
+let network: ResolvedNetwork;
+let baseNetwork: ResolvedNetwork;
+try {
+  network = resolveNetwork(selectNetwork(), {
+    rpcUrls: parseRpcUrls(process.env.RPC_URL, ""),
+    poolAddress: process.env.CREDEX_POOL_ADDRESS,
+    usdcAddress: process.env.USDC_ADDRESS,
+  });
+  baseNetwork = resolveNetwork("base-sepolia", {
+    rpcUrls: parseRpcUrls(process.env.BASE_RPC_URL, ""),
+  });
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  throw error;
+}
+
+const RPC_URLS = network.rpcUrls;
+const RPC_OPTIONS = rpcOptionsFromEnv();
+const ARC_CHAIN_ID = network.chainId;
+const USDC_ADDRESS = network.usdcAddress || "";
+const POOL_ADDRESS = network.poolAddress || "";
 const isDebug = process.env.LP_DEBUG === "true";
 
 // Base Sepolia Configuration for cross-chain balance checks
-const BASE_RPC_URL = "https://sepolia.base.org";
-const BASE_USDC_ADDRESS = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
-
-if (!process.env.WALLET_PRIVATE_KEY) {
-  console.error("❌ WALLET_PRIVATE_KEY required in .env");
-  throw new Error("Missing WALLET_PRIVATE_KEY");
+const BASE_RPC_URLS = baseNetwork.rpcUrls;
+const BASE_CHAIN_ID = baseNetwork.chainId;
+const BASE_USDC_ADDRESS = baseNetwork.usdcAddress || "";
+
+// Wallet backend: WALLET_PRIVATE_KEY, WALLET_KEYSTORE or
+// WALLET_REMOTE_SIGNER_URL (see credex-shared)
+let signerConfig: SignerConfig;
+try {
+  signerConfig = signerConfigFromEnv();
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  throw error;
 }
 
-const provider = new JsonRpcProvider(RPC_URL);
-const wallet = new Wallet(process.env.WALLET_PRIVATE_KEY, provider);
+const provider = createProvider(RPC_URLS, RPC_OPTIONS);
+const baseProvider = createProvider(BASE_RPC_URLS, RPC_OPTIONS);
 
 function log(...args: any[]) {
   if (isDebug) console.log("[lp-provider]", ...args);
 }
 
-console.log(`🏦 LP Provider Configuration:
-  Wallet: ${wallet.address}
-  Pool: ${POOL_ADDRESS}
-  USDC: ${USDC_ADDRESS}
-  RPC: ${RPC_URL}
-`);
-
 // --- Contract ABIs ---
 
 const USDC_ABI = [
@@ -66,8 +97,28 @@ const POOL_ABI = [
   "function totalLiquidity() view returns (uint256)",
 ];
 
-const usdc = new Contract(USDC_ADDRESS, USDC_ABI, wallet);
-const pool = new Contract(POOL_ADDRESS, POOL_ABI, wallet);
+// Set once the wallet has loaded (a keystore may prompt for its
+// passphrase, a remote signer is asked for its address); tools await it
+let wallet: AddressedSigner;
+let usdc: Contract;
+let pool: Contract;
+
+const walletReady = loadSigner(signerConfig, provider).then((signer) => {
+  wallet = signer;
+  usdc = new Contract(USDC_ADDRESS, USDC_ABI, wallet);
+  pool = new Contract(POOL_ADDRESS, POOL_ABI, wallet);
+
+  console.log(`🏦 LP Provider Configuration:
+  Wallet: ${wallet.address} (${signerConfig.backend})
+  Network: ${network.name} (chain ${network.chainId})
+  Pool: ${POOL_ADDRESS} (${network.poolSource})
+  USDC: ${USDC_ADDRESS}
+  RPC: ${RPC_URLS.join(", ")}
+`);
+});
+walletReady.catch((error) =>
+  console.error(`❌ Wallet unavailable: ${error.message}`),
+);
 
 // --- State ---
 
@@ -83,6 +134,12 @@ interface LPState {
 
 const state: LPState = {};
 
+// Bridge jobs, kept on disk across restarts (see credex-shared)
+const bridgeJobs = new BridgeJobStore();
+
+// Jobs this process is running
+const runningBridges = new Set<string>();
+
 // --- Tool Functions ---
 
 /**
@@ -154,6 +211,7 @@ async function getPoolMetrics(
   params: Record<string, any>,
   context?: any,
 ): Promise<string> {
+  await walletReady;
   log(`\n📊 Getting pool metrics for LP ${wallet.address}...`);
 
   try {
@@ -203,6 +261,7 @@ async function getWalletBalance(
   params: Record<string, any>,
   context?: any,
 ): Promise<string> {
+  await walletReady;
   log(`\n💰 Checking cross-chain wallet balances for ${wallet.address}...`);
 
   try {
@@ -210,7 +269,6 @@ async function getWalletBalance(
     const arcBalance = await usdc.balanceOf(wallet.address);
 
     // 2. Check Base Balance
-    const baseProvider = new JsonRpcProvider(BASE_RPC_URL);
     const baseUsdc = new Contract(BASE_USDC_ADDRESS, USDC_ABI, baseProvider);
     const baseBalance = await baseUsdc.balanceOf(wallet.address);
 
@@ -236,6 +294,7 @@ async function deposit(
   params: Record<string, any>,
   context?: any,
 ): Promise<string> {
+  await walletReady;
   let amount = extractParam(params, "amount");
 
   if (amount) {
@@ -295,6 +354,7 @@ async function withdraw(
   params: Record<string, any>,
   context?: any,
 ): Promise<string> {
+  await walletReady;
   let sharesInput =
     extractParam(params, "shares") || extractParam(params, "amount");
 
@@ -386,6 +446,7 @@ async function bridgeUSDC(
   params: Record<string, any>,
   context?: any,
 ): Promise<string> {
+  await walletReady;
   log(`[DEBUG] bridgeUSDC called with params: ${JSON.stringify(params)}`);
   let amount = extractParam(params, "amount");
   const fromChainParam = extractParam(params, "fromChain");
@@ -405,11 +466,6 @@ Example: "bridge 10 USDC from Base to Arc"`;
   );
 
   try {
-    const kit = new BridgeKit();
-    const adapter = createViemAdapterFromPrivateKey({
-      privateKey: process.env.WALLET_PRIVATE_KEY as `0x${string}`,
-    });
-
     const fromChain = fromChainParam.toLowerCase().includes("base")
       ? "Base_Sepolia"
       : "Arc_Testnet";
@@ -421,22 +477,22 @@ Example: "bridge 10 USDC from Base to Arc"`;
       return `❌ Source and destination chains must be different (Arc <-> Base).`;
     }
 
-    const bridgeResult = await kit.bridge({
-      from: { adapter, chain: fromChain },
-      to: { adapter, chain: toChain },
-      amount: amount,
+    const job = bridgeJobs.create({
+      amount,
+      from: fromChain,
+      to: toChain,
+      address: wallet.address,
     });
+    startBridgeJob(job);
 
-    log("✅ Bridge successful:", bridgeResult);
-
-    return `✅ **Bridge Initiated!**
+    return `✅ **Bridge Started!**
     
+- **Job ID**: ${job.id}
 - **Amount**: ${amount} USDC
 - **From**: ${fromChain}
 - **To**: ${toChain}
-- **Result**: ${inspect(bridgeResult, false, 1, true)}
 
-The funds will arrive on the destination chain shortly.`;
+The funds usually arrive within a few minutes. Use 'bridgeStatus' with job id ${job.id} to follow it.`;
   } catch (error) {
     log("❌ bridgeUSDC error:", error);
     return `❌ Error bridging USDC: ${
@@ -445,6 +501,96 @@ The funds will arrive on the destination chain shortly.`;
   }
 }
 
+/**
+ * Steps of a bridge job (the recent jobs without an id)
+ * @param params.id Job id returned by bridgeUSDC
+ */
+async function bridgeStatus(
+  params: Record<string, any>,
+  context?: any,
+): Promise<string> {
+  log(`[DEBUG] bridgeStatus called with params: ${JSON.stringify(params)}`);
+  const id = extractParam(params, "id");
+
+  if (!id) {
+    const jobs = bridgeJobs.list().slice(0, 5);
+    if (jobs.length === 0) return `No bridge jobs yet.`;
+    return `🌉 **Recent Bridge Jobs**
+
+${jobs
+  .map(
+    (job) =>
+      `- ${job.id}: ${job.amount} USDC ${job.from} -> ${job.to}, ${job.status}`,
+  )
+  .join("\n")}`;
+  }
+
+  const job = bridgeJobs.get(id);
+  if (!job) return `❌ Unknown bridge job ${id}.`;
+  return describeJob(job);
+}
+
+/**
+ * Continue a failed or interrupted bridge job from its last step
+ * @param params.id Job id returned by bridgeUSDC
+ */
+async function resumeBridge(
+  params: Record<string, any>,
+  context?: any,
+): Promise<string> {
+  await walletReady;
+  log(`[DEBUG] resumeBridge called with params: ${JSON.stringify(params)}`);
+  const id = extractParam(params, "id");
+  const job = id ? bridgeJobs.get(id) : null;
+
+  if (!job) return `❌ Unknown bridge job ${id ?? ""}.`;
+  if (job.status === "completed") return describeJob(job);
+  if (runningBridges.has(job.id)) {
+    return `⏳ Bridge job ${job.id} is still running. Check it with 'bridgeStatus'.`;
+  }
+  if (job.address.toLowerCase() !== wallet.address.toLowerCase()) {
+    return `❌ Bridge job ${job.id} belongs to another wallet (${job.address}).`;
+  }
+
+  startBridgeJob(job);
+  return `🌉 Resuming bridge job ${job.id} from its last step. Use 'bridgeStatus' to follow it.`;
+}
+
+/**
+ * Run a bridge job in the background (see credex-shared)
+ */
+function startBridgeJob(job: BridgeJob): void {
+  const adapter = createBridgeAdapter(
+    signerConfig,
+    wallet,
+    { [ARC_CHAIN_ID]: RPC_URLS, [BASE_CHAIN_ID]: BASE_RPC_URLS },
+    RPC_OPTIONS,
+  );
+  runningBridges.add(job.id);
+  runBridgeJob(bridgeJobs, job, adapter)
+    .then((finished) => log(`🌉 Bridge job ${job.id}: ${finished.status}`))
+    .catch((error) => log(`❌ Bridge job ${job.id} error:`, error))
+    .finally(() => runningBridges.delete(job.id));
+}
+
+function describeJob(job: BridgeJob): string {
+  const steps = job.steps
+    .map(
+      (step) =>
+        `- ${step.name}: ${step.state}${step.txHash ? ` (${step.txHash})` : ""}`,
+    )
+    .join("\n");
+  const { burned } = describeBridgeJob(job);
+  return `🌉 **Bridge Job ${job.id}: ${job.status}**
+
+- **Amount**: ${job.amount} USDC
+- **From**: ${job.from}
+- **To**: ${job.to}
+${steps || "- No steps yet"}
+${job.error ? `- **Error**: ${job.error}` : ""}
+${job.status === "failed" ? `${burned ? "The USDC already left the source chain: do NOT bridge again, " : ""}Use 'resumeBridge' with job id ${job.id} to continue.` : ""}`;
+}
+
 // --- Agent Definition ---
 
 const lpAgent = new Agent({
@@ -452,7 +598,9 @@ const lpAgent = new Agent({
   model: "gemini-2.0-flash",
   description:
     "A liquidity provider agent that manages capital in the Credex Protocol pool",
-  instruction: `You are a Credex LP Agent. You help users manage their liquidity position.
+  instruction: async () => {
+    await walletReady;
+    return `You are a Credex LP Agent. You help users manage their liquidity position.
 
 **Your Identity:**
 - Wallet: ${wallet.address}
@@ -460,7 +608,7 @@ const lpAgent = new Agent({
 **Capabilities:**
 1. **Check Status** (getPoolMetrics)
 2. **Deposit** - Deposit USDC directly from your Arc wallet.
-3. **Bridge USDC** - Move USDC between your Arc and Base wallets. **MANDATORY**: You MUST ask the user to confirm the source and destination chains before using this tool. NEVER assume.
+3. **Bridge USDC** - Move USDC between your Arc and Base wallets. **MANDATORY**: You MUST ask the user to confirm the source and destination chains before using this tool. NEVER assume. The bridge runs in the background and returns a job id: check it with 'bridgeStatus' (no id lists recent jobs) and, if it failed or was interrupted, continue it with 'resumeBridge'. Never start a new bridge for a job whose USDC already left the source chain.
 4. **Withdraw**
 5. **Check Wallet Balance** (getWalletBalance) - View USDC balance on both Arc and Base chains.
 
@@ -472,9 +620,18 @@ const lpAgent = new Agent({
 - **Deposit from Base**: Ask user if they have funds on Base, if confirmed use 'bridgeUSDC' (from Base, to Arc), then call 'deposit'.
 - **Withdraw to Base**: Use 'withdraw' on Arc, then ask the user "Would you like to move these funds back to Base?", then use 'bridgeUSDC' (from Arc, to Base).
 
-**Note:** Exchange rate > 1.0 means the pool has accumulated yield.`,
-
-  tools: [getPoolMetrics, deposit, bridgeUSDC, withdraw, getWalletBalance],
+**Note:** Exchange rate > 1.0 means the pool has accumulated yield.`;
+  },
+
+  tools: [
+    getPoolMetrics,
+    deposit,
+    bridgeUSDC,
+    bridgeStatus,
+    resumeBridge,
+    withdraw,
+    getWalletBalance,
+  ],
 });
 
 // Required for ADK CLI (adk run .)